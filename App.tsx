@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useRef, useMemo, useReducer } from 'react';
 import { 
   Play, 
   Pause, 
@@ -10,147 +10,534 @@ import {
   FileText, 
   AlertTriangle, 
   Copy, 
-  Shield, 
-  DollarSign, 
-  BookOpen, 
-  Gavel, 
-  CheckCircle,
   Menu,
-  X
+  X,
+  History,
+  ClipboardList,
+  FileUp,
+  Quote,
+  Download,
+  Printer,
+  FileJson,
+  Timer,
+  Keyboard,
+  Briefcase,
+  GitCompare,
+  Users,
+  Lock,
+  Send,
+  BadgeCheck,
+  Handshake,
+  Library,
+  ShieldCheck,
+  EyeOff,
+  Undo2,
+  Redo2,
+  ScrollText,
+  Link2,
+  RefreshCw
 } from 'lucide-react';
-import { StepDefinition, FindingsMap } from './types';
+import {
+  StepDefinition,
+  FindingsMap,
+  ReviewRecord,
+  Playbook,
+  FlagDetail,
+  ContractDocument,
+  ContractExcerpt,
+  ScanSuggestion,
+  ScannerConfig,
+  AssistSettings,
+  AssistFlag,
+  FlagSeverity,
+  SessionSettings,
+  DealContext,
+  SecondOpinionVerdict,
+  SyncSettings,
+  NegotiationItem,
+  ClauseLibraryEntry,
+  Obligation,
+  ItemReviewState
+} from './types';
+
+interface ProposedFlag {
+  checklistItem?: string;
+  severity: FlagSeverity;
+  clauseRef: string;
+  comment: string;
+  note: string; // used instead of the flag when there is no matching checklist item
+  excerpt?: Omit<ContractExcerpt, 'id'>;
+}
+import { DEFAULT_FLAG_DETAIL, FLAG_STATUSES, RISK_RATINGS, SEVERITY_LEVELS } from './constants';
+import ReviewHistory from './components/ReviewHistory';
+import PlaybookEditor from './components/PlaybookEditor';
+import NewReviewDialog from './components/NewReviewDialog';
+import StepIcon from './components/StepIcon';
+import FlagDetailsEditor from './components/FlagDetailsEditor';
+import ContractReader from './components/ContractReader';
+import ScanSuggestions from './components/ScanSuggestions';
+import AssistPanel from './components/AssistPanel';
+import TimeSummary from './components/TimeSummary';
+import TimeAnalytics from './components/TimeAnalytics';
+import PortfolioDashboard from './components/PortfolioDashboard';
+import SessionSettingsDialog from './components/SessionSettingsDialog';
+import CommandPalette, { PaletteCommand } from './components/CommandPalette';
+import ShortcutsOverlay from './components/ShortcutsOverlay';
+import DealSetup from './components/DealSetup';
+import StepChanges from './components/StepChanges';
+import VersionCompare from './components/VersionCompare';
+import CollaborationDialog from './components/CollaborationDialog';
+import SyncConflictDialog from './components/SyncConflictDialog';
+import SecondOpinionEditor from './components/SecondOpinionEditor';
+import NegotiationTracker, { IssuesListFormat } from './components/NegotiationTracker';
+import ClauseLibraryEditor from './components/ClauseLibraryEditor';
+import LibrarySuggestions, { NegotiationField } from './components/LibrarySuggestions';
+import VaultDialog from './components/VaultDialog';
+import ObligationsTable from './components/ObligationsTable';
+import ItemStateControl from './components/ItemStateControl';
+import CompletionGate from './components/CompletionGate';
+import ChangeLog from './components/ChangeLog';
+import SharedSnapshotView from './components/SharedSnapshotView';
+import {
+  createEmptyReview,
+  getActiveReviewId,
+  getLastReviewer,
+  getReview,
+  saveReview,
+  setActiveReviewId,
+  setLastReviewer
+} from './services/reviewStorage';
+import { getPlaybook, getLastPlaybookId, setLastPlaybookId } from './services/playbookStorage';
+import { parseContractFile, SUPPORTED_CONTRACT_TYPES } from './services/documentParser';
+import { classifyClauses, matchStepClauses, CLAUSE_TYPE_LABELS } from './services/clauseClassifier';
+import { scanContract, loadScannerConfig, saveScannerConfig } from './services/redFlagScanner';
+import { loadAssistSettings, saveAssistSettings, redactSecrets } from './services/assist';
+import {
+  buildReportData, renderReportText, renderReportMarkdown, renderReportHtml, renderReportDocx, printReport,
+  buildIssuesList, renderIssuesListText, renderIssuesListMarkdown, renderIssuesListHtml, renderIssuesListDocx
+} from './services/reportExport';
+import { toReviewFile } from './services/reviewFile';
+import { addStepTime, formatClock, getPlannedTotal, getStepMinuteLabel, getTotalTime } from './services/timeTracking';
+import { loadSessionSettings, saveSessionSettings, getCrossedAlerts, raiseSessionAlert } from './services/sessionAlerts';
+import { SHORTCUT_ACTIONS, ShortcutBindings, loadBindings, saveBindings, matchShortcut, isTypingTarget, formatCombo } from './services/shortcuts';
+import { EMPTY_DEAL_CONTEXT, describeDealContext, isDealContextEmpty, tailorSteps } from './services/dealContext';
+import { compareVersions, createRevisionReview, getStepChanges } from './services/versionCompare';
+import { REVIEW_STAGES, attribute, countSecondOpinions, describeAttribution, getStage } from './services/collaboration';
+import { collectNegotiationEntries, createNegotiationItem, sendRound } from './services/negotiation';
+import { BUILT_IN_CLAUSES, findLinkedEntries, listClauseLibrary } from './services/clauseLibrary';
+import { isVaultEnabled, lockVaultAfter, onVaultChange } from './services/vault';
+import { createEditorState, reviewEditorReducer } from './services/reviewEditor';
+import { Route, formatRoute, openAtRoute, parseRoute, routeUrl } from './services/routes';
+import { copySnapshot, createSnapshot, readSnapshot } from './services/shareSnapshot';
+import { ObligationCandidate, createObligation, extractObligations, findObligationsStep, isDated, toCalendarEvents } from './services/obligations';
+import {
+  SYNC_POLL_MS,
+  SyncConflict,
+  SyncStatus,
+  SyncedReview,
+  hasSharedChanges,
+  loadSyncSettings,
+  resolveConflicts,
+  saveSyncSettings,
+  syncReview
+} from './services/sync';
+import { createId } from './utils/id';
+import { downloadFile, toFileSlug } from './utils/download';
+import { toIcs } from './utils/ics';
+import { UnreviewedItem, findUnreviewedItems, getItemState, getStepCoverage, recordSkipReasons, setItemState } from './services/coverage';
+import { computeRiskSummary, getFlagDetail, getSeverityMeta, getStepMaxSeverity } from './services/risk';
 
 const App: React.FC = () => {
   // -- State --
-  const [activeStep, setActiveStep] = useState<number>(0);
+  // Findings and the active step live in the editor reducer, which keeps undo/redo and the change log.
+  const [editor, dispatchEdit] = useReducer(reviewEditorReducer, undefined, createEditorState);
+  const { findings, activeStep } = editor;
   const [isTimerRunning, setIsTimerRunning] = useState<boolean>(false);
-  const [timeLeft, setTimeLeft] = useState<number>(60);
-  const [findings, setFindings] = useState<FindingsMap>({});
   const [reviewComplete, setReviewComplete] = useState<boolean>(false);
   const [contractName, setContractName] = useState<string>('');
   const [mobileMenuOpen, setMobileMenuOpen] = useState<boolean>(false);
+  const [review, setReview] = useState<ReviewRecord>(createEmptyReview);
+  const [showHistory, setShowHistory] = useState<boolean>(false);
+  const [showPlaybooks, setShowPlaybooks] = useState<boolean>(false);
+  const [showNewReview, setShowNewReview] = useState<boolean>(false);
+  const [showAnalytics, setShowAnalytics] = useState<boolean>(false);
+  const [showPortfolio, setShowPortfolio] = useState<boolean>(false);
+  const [hydrated, setHydrated] = useState<boolean>(false);
+  const [contractDocument, setContractDocument] = useState<ContractDocument | undefined>(undefined);
+  const [documentStatus, setDocumentStatus] = useState<{ loading: boolean; error?: string }>({ loading: false });
+  const documentInputRef = useRef<HTMLInputElement>(null);
+  const [handledSuggestions, setHandledSuggestions] = useState<string[]>([]);
+  const [scannerConfig, setScannerConfig] = useState<ScannerConfig>(loadScannerConfig);
+  const [assistSettings, setAssistSettings] = useState<AssistSettings>(loadAssistSettings);
+  const [reviewer, setReviewer] = useState<string>('');
+  const [dealContext, setDealContext] = useState<DealContext | undefined>(undefined);
+  const [showDealSetup, setShowDealSetup] = useState<boolean>(false);
+  const [showVersionCompare, setShowVersionCompare] = useState<boolean>(false);
+  const [showNegotiation, setShowNegotiation] = useState<boolean>(false);
+  const [negotiationFocus, setNegotiationFocus] = useState<{ stepIndex: number; item: string } | null>(null);
+  const [showClauseLibrary, setShowClauseLibrary] = useState<boolean>(false);
+  const [clauseLibrary, setClauseLibrary] = useState<ClauseLibraryEntry[]>(BUILT_IN_CLAUSES);
+  const versionInputRef = useRef<HTMLInputElement>(null);
+  const versionBaseRef = useRef<ReviewRecord | null>(null); // the review whose contract the picked file revises
+  const [stepTimes, setStepTimes] = useState<number[]>([]);
+  const [sessionSettings, setSessionSettings] = useState<SessionSettings>(loadSessionSettings);
+  const [showSessionSettings, setShowSessionSettings] = useState<boolean>(false);
+  const lastElapsedRef = useRef<{ reviewId: string; step: number; elapsed: number } | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null); // last failed autosave, cleared by the next good one
+  const [bindings, setBindings] = useState<ShortcutBindings>(loadBindings);
+  const [showPalette, setShowPalette] = useState<boolean>(false);
+  const [showShortcuts, setShowShortcuts] = useState<boolean>(false);
+  const notesRef = useRef<HTMLTextAreaElement>(null);
+  const shortcutHandlerRef = useRef<(event: KeyboardEvent) => void>(() => {});
+  const [userName, setUserName] = useState<string>(getLastReviewer); // who is at the keyboard; recorded on every edit
+  const [showCollaboration, setShowCollaboration] = useState<boolean>(false);
+  const [showVault, setShowVault] = useState<boolean>(false);
+  const [unreviewedItems, setUnreviewedItems] = useState<UnreviewedItem[] | null>(null); // open completion gate
+  const [vaultEnabled, setVaultEnabled] = useState<boolean>(isVaultEnabled());
+  const [redactConfidential, setRedactConfidential] = useState<boolean>(false);
+  const [includeChangeLog, setIncludeChangeLog] = useState<boolean>(false);
+  const [sharedSnapshot, setSharedSnapshot] = useState<{ data: string; review: ReviewRecord; copyError?: string } | null>(null); // opened from a link
+  const [routeFollowed, setRouteFollowed] = useState<number>(0); // bumped after following a URL
+  const [syncSettings, setSyncSettings] = useState<SyncSettings>(loadSyncSettings);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>({ state: 'off' });
+  const [syncConflict, setSyncConflict] = useState<{ remote: SyncedReview; merged: ReviewRecord; conflicts: SyncConflict[] } | null>(null);
+  const syncBaseRef = useRef<SyncedReview | null>(null); // the server copy this review last synced with
+  const syncRunningRef = useRef<boolean>(false);
+  const syncRef = useRef<() => void>(() => {});
+  const latestSnapshotRef = useRef<() => ReviewRecord>(() => review);
+  const replacedReviewsRef = useRef<ReviewRecord[]>([]); // reviews closed by starting a new one; Undo reopens them
+  const routeHandlerRef = useRef<(route: Route | null) => void>(() => {});
+  const replaceRouteRef = useRef<boolean>(true); // the next URL update replaces the history entry rather than adding one
+
+  // Edits are recorded against whoever is at the keyboard.
+  const setFindings = useCallback((update: React.SetStateAction<FindingsMap>) =>
+    dispatchEdit({ type: 'edit', update, by: userName.trim(), at: new Date().toISOString() }), [userName]);
+  const setActiveStep = useCallback((update: React.SetStateAction<number>) => dispatchEdit({ type: 'go-to-step', update }), []);
 
   // -- Data Definition --
-  // Memoized to prevent re-creation on every render, though strictly static here.
-  const steps: StepDefinition[] = useMemo(() => [
-    {
-      id: 1,
-      title: "Control Clauses",
-      duration: 60,
-      icon: <Shield className="w-5 h-5" />,
-      description: "Identify the 3 clauses that decide who wins. If these are vague or one-sided, nothing else matters.",
-      checklist: [
-        "Term: Is the duration clear?",
-        "Termination: Can we get out? At what cost?",
-        "Liability: Is it capped? Are we exposed?"
-      ]
-    },
-    {
-      id: 2,
-      title: "Money, Obligations & Timelines",
-      duration: 120, // Minutes 2-3
-      icon: <DollarSign className="w-5 h-5" />,
-      description: "90% of disputes come from these 5 things. Check payment and performance strictly.",
-      checklist: [
-        "Payment Amount: Is the math exact?",
-        "Payment Schedule: When is it due?",
-        "Penalties: Are there late fees or interest?",
-        "Performance Obligations: What MUST be done?",
-        "Deadlines: Are dates hard or soft?"
-      ]
-    },
-    {
-      id: 3,
-      title: "Definitions",
-      duration: 60,
-      icon: <BookOpen className="w-5 h-5" />,
-      description: "Undefined terms = loopholes. Over-defined terms = traps.",
-      checklist: [
-        "Check for 'Shall' vs 'May' misuse",
-        "Scan for ambiguous words (e.g., 'reasonable')",
-        "Find hidden obligations buried in definitions"
-      ]
-    },
-    {
-      id: 4,
-      title: "Indemnity + Confidentiality",
-      duration: 60,
-      icon: <AlertTriangle className="w-5 h-5" />,
-      description: "The most weaponized clauses. If unlimited, the client is at high risk.",
-      checklist: [
-        "Indemnity: Who indemnifies whom?",
-        "Indemnity Scope: For what exactly?",
-        "Confidentiality: Is the scope reasonable?"
-      ]
-    },
-    {
-      id: 5,
-      title: "Dispute Resolution",
-      duration: 60,
-      icon: <Gavel className="w-5 h-5" />,
-      description: "Avoid the wrong jurisdiction, wrong seat, or expensive arbitration.",
-      checklist: [
-        "Jurisdiction: Is it favorable/neutral?",
-        "Seat: Is the physical location practical?",
-        "Arbitration: Is it mandatory? Who pays?",
-        "Delays: Are timeline mechanisms clear?"
-      ]
-    },
-    {
-      id: 6,
-      title: "Final Sanity Check",
-      duration: 60,
-      icon: <CheckCircle className="w-5 h-5" />,
-      description: "Quick scan for structural integrity and missing pieces.",
-      checklist: [
-        "Conflicting clauses",
-        "Missing annexures/exhibits",
-        "Internal inconsistencies",
-        "Signature blocks correct"
-      ]
-    }
-  ], []);
+  // Steps come from the review's playbook snapshot, so editing a playbook never reshuffles saved findings.
+  // The deal context then adds its conditional checklist items and fills in the descriptions.
+  const steps: StepDefinition[] = useMemo(() => tailorSteps(review.steps, dealContext), [review.steps, dealContext]);
+  // The first pass turns read-only once it goes to second review; signing off locks everything.
+  const stage = getStage(review);
+  const firstPassLocked = stage !== 'first-pass';
+  // A new review asks for the deal context before step 1; skipping stores an empty one.
+  const needsDealSetup = hydrated && !reviewComplete && !dealContext && !firstPassLocked;
+  // Counts down from the step's planned duration and goes negative once it overruns.
+  const timeLeft = steps[activeStep].duration - (stepTimes[activeStep] || 0);
+  const sessionTimeLeft = getPlannedTotal(steps) - getTotalTime(stepTimes);
+
+  const clauseSections = useMemo(
+    () => (contractDocument ? classifyClauses(contractDocument.text, steps) : []),
+    [contractDocument, steps]
+  );
+  const stepClauses = useMemo(
+    () => matchStepClauses(steps, activeStep, clauseSections),
+    [steps, activeStep, clauseSections]
+  );
+  const scanSuggestions = useMemo(
+    () => (contractDocument ? scanContract(contractDocument.text, clauseSections, steps, scannerConfig) : []),
+    [contractDocument, clauseSections, steps, scannerConfig]
+  );
+  const stepSuggestions = scanSuggestions.filter(
+    (suggestion) => suggestion.stepIndex === activeStep && !handledSuggestions.includes(suggestion.id)
+  );
+  // The obligations table lives on the step covering obligations; candidates come from the whole contract.
+  const obligationsStep = findObligationsStep(steps);
+  const obligationCandidates = useMemo(
+    () => (contractDocument && obligationsStep !== -1 ? extractObligations(contractDocument.text, clauseSections) : []),
+    [contractDocument, clauseSections, obligationsStep]
+  );
+  // Reviewing a revised draft: what changed against the version reviewed before.
+  const versionChanges = useMemo(
+    () => (review.previousVersion && contractDocument ? compareVersions(review.previousVersion.text, contractDocument.text, steps) : []),
+    [review.previousVersion, contractDocument, steps]
+  );
+
+  // The open review as it would be saved, assembled from the editing state.
+  const snapshotReview = (): ReviewRecord => ({
+    ...review,
+    contractName,
+    activeStep,
+    findings,
+    document: contractDocument,
+    handledSuggestions,
+    reviewer,
+    dealContext,
+    stepTimes,
+    timeSpent: getTotalTime(stepTimes),
+    changeLog: editor.changeLog,
+    reviewComplete
+  });
+  latestSnapshotRef.current = snapshotReview;
+
+  // Where the app is, as a URL; see services/routes.ts. Views without a route keep the one beneath them.
+  const currentRoute: Route = sharedSnapshot ? { view: 'shared', snapshot: sharedSnapshot.data }
+    : showHistory ? { view: 'reviews' }
+    : reviewComplete ? { view: 'summary', reviewId: review.id }
+    : { view: 'review', reviewId: review.id, step: activeStep };
+  const currentHash = formatRoute(currentRoute);
+
+  // Nothing worth saving or sharing yet
+  const isPristine = !contractName && !contractDocument && activeStep === 0 && !reviewComplete &&
+    Object.keys(findings).length === 0 && isDealContextEmpty(dealContext);
 
   // -- Effects --
 
-  // Timer Logic
+  // Open what the URL names; otherwise restore the review that was open before a refresh or closed tab
   useEffect(() => {
-    let interval: ReturnType<typeof setInterval> | null = null;
-    if (isTimerRunning && timeLeft > 0) {
-      interval = setInterval(() => {
-        setTimeLeft((prevTime) => prevTime - 1);
-      }, 1000);
-    } else if (timeLeft === 0) {
-      setIsTimerRunning(false);
+    const route = parseRoute(window.location.hash);
+    const restore = async () => {
+      const linkedId = route?.view === 'review' || route?.view === 'summary' ? route.reviewId : undefined;
+      const linked = linkedId ? await getReview(linkedId) : undefined;
+      if (linked && route) {
+        loadReview(openAtRoute(linked, route));
+      } else {
+        if (linkedId) alert('The linked review is not saved in this browser.');
+        const activeId = getActiveReviewId();
+        const saved = activeId ? await getReview(activeId) : undefined;
+        if (saved) {
+          loadReview(saved);
+        } else {
+          const playbook = await getPlaybook(getLastPlaybookId());
+          if (playbook) loadReview(createEmptyReview(playbook));
+        }
+      }
+      if (route?.view === 'reviews') setShowHistory(true);
+      if (route?.view === 'shared') await openSharedSnapshot(route.snapshot);
+    };
+    restore().finally(() => setHydrated(true));
+  }, []);
+
+  // Keep the URL on the current view. Each move adds a history entry, so Back and Forward step
+  // through steps and views; after following a URL the entry is replaced instead, as the app may
+  // have landed somewhere else (a summary link to an unfinished review opens the review).
+  useEffect(() => {
+    if (!hydrated) return;
+    const replace = replaceRouteRef.current;
+    replaceRouteRef.current = false;
+    if (currentHash === window.location.hash) return;
+    if (replace) window.history.replaceState(null, '', currentHash);
+    else window.history.pushState(null, '', currentHash);
+  }, [hydrated, currentHash, routeFollowed]);
+
+  // Back, Forward and edited URLs. Registered once; calls through a ref, like the shortcuts.
+  useEffect(() => {
+    const handlePopState = () => routeHandlerRef.current(parseRoute(window.location.hash));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  useEffect(() => onVaultChange(() => setVaultEnabled(isVaultEnabled())), []);
+
+  // The library is edited in its own view; reload it whenever that view closes.
+  useEffect(() => {
+    if (!showClauseLibrary) listClauseLibrary().then(setClauseLibrary);
+  }, [showClauseLibrary]);
+
+  // A failed save (storage full, vault locked) stays on screen until a later save succeeds.
+  const reportSaveError = (error: unknown) => setSaveError(error instanceof Error ? error.message : String(error));
+
+  // Saves nobody waits for.
+  const saveInBackground = (record: ReviewRecord) =>
+    saveReview(record)
+      .then(() => setSaveError(null))
+      .catch(reportSaveError);
+
+  // Autosave: debounce writes so typing in the notes doesn't hit storage on every keystroke
+  useEffect(() => {
+    if (!hydrated || isPristine) return;
+
+    const handle = setTimeout(() => {
+      saveInBackground({ ...snapshotReview(), updatedAt: new Date().toISOString() });
+      setActiveReviewId(review.id);
+    }, 400);
+    return () => clearTimeout(handle);
+  }, [hydrated, review, contractName, activeStep, findings, contractDocument, handledSuggestions, reviewer, dealContext, stepTimes, reviewComplete, editor.changeLog]);
+
+  // Sync: poll for other reviewers' changes, and push shortly after our own
+  useEffect(() => {
+    if (!hydrated || !syncSettings.enabled) {
+      setSyncStatus({ state: 'off' });
+      return;
     }
+    const interval = setInterval(() => syncRef.current(), SYNC_POLL_MS);
+    return () => clearInterval(interval);
+  }, [hydrated, syncSettings.enabled]);
+
+  useEffect(() => {
+    if (!hydrated || !syncSettings.enabled || isPristine) return;
+    const handle = setTimeout(() => syncRef.current(), 1000);
+    return () => clearTimeout(handle);
+  }, [hydrated, syncSettings, review, contractName, findings, contractDocument, handledSuggestions, reviewer, dealContext]);
+
+  // Timer Logic: records time against the active step, and keeps recording past zero as overrun.
+  // Elapsed time comes from wall-clock timestamps, so throttled background tabs catch up on the next tick.
+  useEffect(() => {
+    if (!isTimerRunning) return;
+    let since = Date.now();
+    const commit = () => {
+      const whole = Math.floor((Date.now() - since) / 1000);
+      if (whole <= 0) return;
+      since += whole * 1000;
+      setStepTimes((prev) => addStepTime(prev, activeStep, whole, steps.length));
+    };
+    const interval = setInterval(commit, 250);
+    document.addEventListener('visibilitychange', commit);
     return () => {
-      if (interval) clearInterval(interval);
+      commit();
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', commit);
     };
-  }, [isTimerRunning, timeLeft]);
+  }, [isTimerRunning, activeStep, steps.length]);
 
-  // Update timer when step changes
+  // Outside session mode each step has its own clock, so changing step pauses it
   useEffect(() => {
-    setTimeLeft(steps[activeStep].duration);
-    setIsTimerRunning(false);
+    if (!sessionSettings.enabled) setIsTimerRunning(false);
     setMobileMenuOpen(false); // Close mobile menu on step change
-  }, [activeStep, steps]);
+  }, [activeStep, steps, sessionSettings.enabled]);
+
+  // Session mode: alerts as thresholds are crossed, then auto-advance once the grace period runs out
+  useEffect(() => {
+    const elapsed = stepTimes[activeStep] || 0;
+    const last = lastElapsedRef.current;
+    lastElapsedRef.current = { reviewId: review.id, step: activeStep, elapsed };
+    if (!sessionSettings.enabled || !isTimerRunning || !last || last.reviewId !== review.id || last.step !== activeStep) return;
+
+    const step = steps[activeStep];
+    getCrossedAlerts(step.duration, last.elapsed, elapsed, sessionSettings)
+      .forEach((kind) => raiseSessionAlert(kind, step.title, sessionSettings));
+    const advanceAt = step.duration + sessionSettings.graceSeconds;
+    if (sessionSettings.autoAdvance && activeStep < steps.length - 1 && last.elapsed < advanceAt && elapsed >= advanceAt) {
+      setActiveStep(activeStep + 1);
+    }
+  }, [stepTimes, activeStep, steps, review.id, isTimerRunning, sessionSettings]);
+
+  // Keyboard shortcuts. The listener is registered once and calls through a ref, so it always sees current state.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => shortcutHandlerRef.current(event);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
 
   // -- Handlers --
 
+  const loadReview = useCallback((record: ReviewRecord) => {
+    setReview(record);
+    setContractName(record.contractName);
+    dispatchEdit({
+      type: 'load',
+      findings: record.findings,
+      activeStep: Math.min(record.activeStep, record.steps.length - 1),
+      changeLog: record.changeLog || []
+    });
+    setContractDocument(record.document);
+    setHandledSuggestions(record.handledSuggestions || []);
+    setReviewer(record.reviewer || '');
+    setDealContext(record.dealContext);
+    setShowDealSetup(false);
+    setShowVersionCompare(false);
+    syncBaseRef.current = null;
+    setSyncConflict(null);
+    setStepTimes(record.stepTimes || []);
+    setExportError(null);
+    setDocumentStatus({ loading: false });
+    setReviewComplete(record.reviewComplete);
+    setIsTimerRunning(false);
+    setActiveReviewId(record.id);
+  }, []);
+
+  const startNewReview = (playbook: Playbook) => {
+    if (!isPristine) replacedReviewsRef.current = [...replacedReviewsRef.current, snapshotReview()];
+    loadReview(createEmptyReview(playbook));
+    setActiveReviewId(null);
+    setLastPlaybookId(playbook.id);
+    setShowHistory(false);
+    setShowPlaybooks(false);
+    setShowNewReview(false);
+  };
+
+  // Undo goes back through the edit history, and past its start reopens a review closed by starting a new one.
+  const canUndo = editor.past.length > 0 || (editor.future.length === 0 && replacedReviewsRef.current.length > 0);
+  const canRedo = editor.future.length > 0;
+
+  const undo = () => {
+    if (editor.past.length > 0) {
+      dispatchEdit({ type: 'undo', by: userName.trim(), at: new Date().toISOString() });
+      return;
+    }
+    const replaced = replacedReviewsRef.current.pop();
+    if (!replaced) return;
+    saveInBackground({ ...replaced, updatedAt: new Date().toISOString() });
+    loadReview(replaced);
+    setShowHistory(false);
+  };
+
+  const redo = () => dispatchEdit({ type: 'redo', by: userName.trim(), at: new Date().toISOString() });
+
   const toggleTimer = useCallback(() => setIsTimerRunning((prev) => !prev), []);
   
   const resetTimer = useCallback(() => {
     setIsTimerRunning(false);
-    setTimeLeft(steps[activeStep].duration);
-  }, [activeStep, steps]);
+    setStepTimes((prev) => addStepTime(prev, activeStep, -(prev[activeStep] || 0), steps.length));
+  }, [activeStep, steps.length]);
 
-  const handleNext = useCallback(() => {
+  // The first pass only finishes once every checklist item is reviewed, or skipped with a reason.
+  const finishReview = () => {
+    setIsTimerRunning(false);
+    const unreviewed = firstPassLocked ? [] : findUnreviewedItems(steps, findings);
+    if (unreviewed.some((item) => !item.reason.trim())) {
+      setUnreviewedItems(unreviewed);
+      return;
+    }
+    setReviewComplete(true);
+  };
+
+  const skipAndFinish = (items: UnreviewedItem[]) => {
+    setFindings((prev) => recordSkipReasons(prev, items));
+    setUnreviewedItems(null);
+    setReviewComplete(true);
+  };
+
+  const handleNext = () => {
     if (activeStep < steps.length - 1) {
       setActiveStep((prev) => prev + 1);
     } else {
-      setReviewComplete(true);
+      finishReview();
     }
-  }, [activeStep, steps.length]);
+  };
+
+  // Changing the context can hide conditional items; flags already raised on them are dropped only after confirming.
+  const saveDealContext = (context: DealContext, name: string) => {
+    const nextSteps = tailorSteps(review.steps, context);
+    const hidden = steps.map((step, index) =>
+      (findings[index]?.checked || []).filter((item) => step.checklist.includes(item) && !nextSteps[index].checklist.includes(item))
+    );
+    const hiddenCount = hidden.reduce((total, items) => total + items.length, 0);
+    if (hiddenCount > 0) {
+      const list = hidden.flat().map((item) => `- ${item}`).join('\n');
+      if (!window.confirm(`These flagged items no longer apply and will be removed:\n${list}\n\nContinue?`)) return;
+      setFindings((prev) => {
+        const next = { ...prev };
+        hidden.forEach((items, index) => {
+          if (items.length === 0 || !next[index]) return;
+          const flags = { ...next[index].flags };
+          items.forEach((item) => delete flags[item]);
+          next[index] = { ...next[index], checked: next[index].checked.filter((item) => !items.includes(item)), flags };
+        });
+        return next;
+      });
+    }
+    setDealContext(context);
+    setContractName(name);
+    setShowDealSetup(false);
+  };
+
+  const updateSessionSettings = (settings: SessionSettings) => {
+    setSessionSettings(settings);
+    saveSessionSettings(settings);
+  };
 
   const handleBack = useCallback(() => {
     if (activeStep > 0) {
@@ -159,63 +546,455 @@ const App: React.FC = () => {
   }, [activeStep]);
 
   const updateFinding = (text: string) => {
+    if (firstPassLocked) return;
     setFindings((prev) => ({
       ...prev,
       [activeStep]: {
+        ...prev[activeStep],
         checked: prev[activeStep]?.checked || [],
-        notes: text
+        notes: text,
+        notesEditedBy: attribute(userName)
       }
     }));
   };
 
-  const toggleChecklist = (item: string) => {
+  const toggleNotesConfidential = () => {
+    if (firstPassLocked) return;
+    setFindings((prev) => ({
+      ...prev,
+      [activeStep]: {
+        ...prev[activeStep],
+        checked: prev[activeStep]?.checked || [],
+        notes: prev[activeStep]?.notes || '',
+        notesConfidential: !prev[activeStep]?.notesConfidential
+      }
+    }));
+  };
+
+  const updateItemState = (item: string, state: ItemReviewState) => {
+    if (firstPassLocked) return;
+    setFindings((prev) => ({ ...prev, [activeStep]: setItemState(prev[activeStep], item, state, attribute(userName)) }));
+  };
+
+  // The number keys flag and unflag, as the checkbox used to; unflagging leaves the item unreviewed.
+  const toggleChecklist = (item: string) =>
+    updateItemState(item, getItemState(findings[activeStep], item) === 'flagged' ? 'not-reviewed' : 'flagged');
+
+  const updateFlag = (item: string, patch: Partial<FlagDetail>) => {
+    if (firstPassLocked) return;
     setFindings((prev) => {
-      const currentList = prev[activeStep]?.checked || [];
-      const newList = currentList.includes(item) 
-        ? currentList.filter(i => i !== item)
-        : [...currentList, item];
-      
+      const current = prev[activeStep];
+      if (!current) return prev;
       return {
         ...prev,
         [activeStep]: {
-          notes: prev[activeStep]?.notes || '',
-          checked: newList
+          ...current,
+          flags: { ...current.flags, [item]: { ...getFlagDetail(current, item), ...patch, editedBy: attribute(userName) } }
         }
       };
     });
   };
 
-  const formatTime = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins}:${secs < 10 ? '0' : ''}${secs}`;
-  };
-
-  const generateReport = () => {
-    let report = `7-MINUTE CONTRACT REVIEW REPORT\n`;
-    report += `Contract: ${contractName || 'Untitled'}\n`;
-    report += `Date: ${new Date().toLocaleDateString()}\n\n`;
-    
-    steps.forEach((step, index) => {
-      const stepData = findings[index];
-      const hasIssues = (stepData?.checked?.length ?? 0) > 0 || (stepData?.notes && stepData.notes.trim() !== "");
-      
-      report += `[${index + 1}] ${step.title.toUpperCase()}\n`;
-      if (hasIssues) {
-        if (stepData?.checked?.length > 0) {
-          report += `Flags Identified:\n`;
-          stepData.checked.forEach(item => report += ` - [x] ${item}\n`);
+  // The second reviewer's verdict goes on the flag itself, leaving the first pass untouched.
+  const updateSecondOpinion = (item: string, opinion: { verdict?: SecondOpinionVerdict; comment: string }) => {
+    if (stage !== 'second-review') return;
+    const by = attribute(userName);
+    setFindings((prev) => {
+      const current = prev[activeStep];
+      if (!current) return prev;
+      return {
+        ...prev,
+        [activeStep]: {
+          ...current,
+          flags: { ...current.flags, [item]: { ...getFlagDetail(current, item), secondOpinion: { ...opinion, ...by } } }
         }
-        if (stepData?.notes) {
-          report += `Notes: ${stepData.notes}\n`;
+      };
+    });
+    if (!review.secondReviewer) setReview((prev) => ({ ...prev, secondReviewer: by.by }));
+  };
+
+  // Negotiation is worked after the review itself, so it stays open through second review and sign-off.
+  const updateNegotiation = (stepIndex: number, item: string, negotiation: NegotiationItem | undefined) => {
+    setFindings((prev) => {
+      const current = prev[stepIndex];
+      if (!current?.checked.includes(item)) return prev;
+      const { negotiation: _previous, ...detail } = getFlagDetail(current, item);
+      return {
+        ...prev,
+        [stepIndex]: { ...current, flags: { ...current.flags, [item]: negotiation ? { ...detail, negotiation } : detail } }
+      };
+    });
+  };
+
+  const promoteToNegotiation = (stepIndex: number, item: string) => {
+    const detail = getFlagDetail(findings[stepIndex], item);
+    if (detail.negotiation) return;
+    updateNegotiation(stepIndex, item, createNegotiationItem(item, detail));
+    // An open flag taken to the other side is one we are now negotiating.
+    if (!firstPassLocked && detail.status === 'open') {
+      setFindings((prev) => ({
+        ...prev,
+        [stepIndex]: {
+          ...prev[stepIndex],
+          flags: { ...prev[stepIndex].flags, [item]: { ...getFlagDetail(prev[stepIndex], item), status: 'negotiate', editedBy: attribute(userName) } }
         }
-      } else {
-        report += `Status: No specific issues flagged.\n`;
+      }));
+    }
+  };
+
+  const openNegotiation = (stepIndex: number, item: string) => {
+    promoteToNegotiation(stepIndex, item);
+    setNegotiationFocus({ stepIndex, item });
+    setShowNegotiation(true);
+  };
+
+  // -- Clause Library --
+
+  // Flagged items of the current step that have library entries linked to them.
+  const libraryGroups = (findings[activeStep]?.checked ?? [])
+    .map((item) => ({ item, entries: findLinkedEntries(clauseLibrary, item) }))
+    .filter((group) => group.entries.length > 0);
+
+  const insertLibraryNote = (text: string) => {
+    const notes = findings[activeStep]?.notes.trimEnd() ?? '';
+    updateFinding(notes ? `${notes}\n\n${text}` : text);
+  };
+
+  const applyLibraryToNegotiation = (item: string, field: NegotiationField, text: string) => {
+    const detail = getFlagDetail(findings[activeStep], item);
+    const negotiation = detail.negotiation ?? createNegotiationItem(item, detail);
+    if (!detail.negotiation) promoteToNegotiation(activeStep, item);
+    updateNegotiation(activeStep, item, { ...negotiation, [field]: text });
+  };
+
+  // -- Obligations --
+
+  const updateObligations = (update: (current: Obligation[]) => Obligation[]) => {
+    if (firstPassLocked || obligationsStep === -1) return;
+    setFindings((prev) => ({
+      ...prev,
+      [obligationsStep]: {
+        ...prev[obligationsStep],
+        checked: prev[obligationsStep]?.checked || [],
+        notes: prev[obligationsStep]?.notes || '',
+        obligations: update(prev[obligationsStep]?.obligations ?? [])
       }
-      report += `\n-----------------------------------\n\n`;
+    }));
+  };
+
+  const addObligationCandidate = (candidate: ObligationCandidate) => {
+    updateObligations((current) => [...current, createObligation(candidate.obligation)]);
+    setHandledSuggestions((prev) => [...prev, candidate.id]);
+  };
+
+  const exportKeyDates = () => {
+    const name = contractName || 'Untitled';
+    const events = toCalendarEvents(findings[obligationsStep]?.obligations ?? [], name);
+    downloadFile(`${toFileSlug(contractName, 'contract')}-key-dates.ics`, toIcs(events, `Key dates: ${name}`), 'text/calendar');
+  };
+
+  const handOverForSecondReview = () => {
+    if (!window.confirm('Hand the review over for second review? The first pass becomes read-only for everyone.')) return;
+    setReview((prev) => ({ ...prev, stage: 'second-review' }));
+    setReviewComplete(false);
+    // The first pass is read-only from here, so its edits can no longer be undone.
+    dispatchEdit({ type: 'load', findings, activeStep: 0, changeLog: editor.changeLog });
+  };
+
+  const signOff = () => {
+    if (!userName.trim()) {
+      setShowCollaboration(true);
+      return;
+    }
+    const { pending, disagreed } = countSecondOpinions(findings);
+    const open = [
+      pending > 0 ? `${pending} ${pending === 1 ? 'flag has' : 'flags have'} no verdict yet` : '',
+      disagreed > 0 ? `${disagreed} ${disagreed === 1 ? 'flag was' : 'flags were'} disagreed with` : '',
+    ].filter(Boolean);
+    const message = `Sign off as ${userName.trim()}? The review is then locked for everyone.${open.length ? `\n\nNote: ${open.join('; ')}.` : ''}`;
+    if (!window.confirm(message)) return;
+    setReview((prev) => ({ ...prev, stage: 'signed-off', signedOff: attribute(userName) }));
+    dispatchEdit({ type: 'load', findings, activeStep, changeLog: editor.changeLog }); // locked edits stay locked
+  };
+
+  const updateUserName = (name: string) => {
+    setUserName(name);
+    setLastReviewer(name.trim());
+  };
+
+  // -- Sync --
+
+  const updateSyncSettings = (settings: SyncSettings) => {
+    setSyncSettings(settings);
+    saveSyncSettings(settings);
+    syncBaseRef.current = null;
+  };
+
+  // Another reviewer's changes, merged into ours. What is on screen (step, timer, view) stays as it is;
+  // the undo history does not, as undoing past a merge would quietly revert the other reviewer's work.
+  const applySharedReview = (record: ReviewRecord) => {
+    setReview(record);
+    setContractName(record.contractName);
+    dispatchEdit({ type: 'load', findings: record.findings, activeStep, changeLog: record.changeLog || [] });
+    setContractDocument(record.document);
+    setHandledSuggestions(record.handledSuggestions || []);
+    setReviewer(record.reviewer || '');
+    setDealContext(record.dealContext);
+  };
+
+  // One sync round. Runs on a timer and after edits; a round already in flight is never doubled up.
+  const runSync = async () => {
+    if (!syncSettings.enabled || syncConflict || syncRunningRef.current || isPristine) return;
+    const mine = snapshotReview();
+    syncRunningRef.current = true;
+    setSyncStatus((prev) => ({ ...prev, state: 'syncing', error: undefined }));
+    try {
+      const outcome = await syncReview(syncSettings, mine, syncBaseRef.current);
+      const latest = latestSnapshotRef.current();
+      // Switched review, or kept typing while the round was in flight: leave it to the next round.
+      if (latest.id !== mine.id || (outcome.kind !== 'up-to-date' && outcome.kind !== 'pushed' && hasSharedChanges(mine, latest))) {
+        setSyncStatus((prev) => ({ ...prev, state: 'synced' }));
+        return;
+      }
+      if (outcome.kind === 'conflict') {
+        setSyncConflict(outcome);
+        setSyncStatus((prev) => ({ ...prev, state: 'conflict' }));
+        return;
+      }
+      syncBaseRef.current = outcome.synced;
+      const revision = outcome.synced.revision;
+      if (outcome.kind === 'merged') applySharedReview({ ...outcome.merged, syncRevision: revision });
+      else setReview((prev) => (prev.id !== mine.id || prev.syncRevision === revision ? prev : { ...prev, syncRevision: revision }));
+      setSyncStatus({ state: 'synced', syncedAt: new Date().toISOString() });
+    } catch (err) {
+      setSyncStatus((prev) => ({ ...prev, state: 'offline', error: err instanceof Error ? err.message : String(err) }));
+    } finally {
+      syncRunningRef.current = false;
+    }
+  };
+  syncRef.current = runSync;
+
+  const resolveSyncConflict = (choices: Record<number, 'mine' | 'theirs'>) => {
+    if (!syncConflict) return;
+    syncBaseRef.current = syncConflict.remote;
+    applySharedReview({
+      ...resolveConflicts(syncConflict.merged, syncConflict.conflicts, choices),
+      syncRevision: syncConflict.remote.revision
     });
-    
-    return report;
+    setSyncConflict(null);
+    setSyncStatus((prev) => ({ ...prev, state: 'synced' }));
+  };
+
+  const loadContractFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || firstPassLocked) return;
+    if (contractDocument && !window.confirm(`Replace "${contractDocument.fileName}" with "${file.name}"? Attached excerpts may no longer line up.`)) {
+      return;
+    }
+    setDocumentStatus({ loading: true });
+    try {
+      const parsed = await parseContractFile(file);
+      setContractDocument(parsed);
+      if (!contractName) setContractName(file.name.replace(/\.[^.]+$/, ''));
+      setDocumentStatus({ loading: false });
+    } catch (err) {
+      setDocumentStatus({ loading: false, error: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
+  // A revised draft starts a new review, linked to the earlier one, with its findings carried over.
+  const reviewNewVersion = (base: ReviewRecord) => {
+    versionBaseRef.current = base;
+    versionInputRef.current?.click();
+  };
+
+  const loadNewVersionFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    const base = versionBaseRef.current;
+    event.target.value = '';
+    versionBaseRef.current = null;
+    if (!file || !base) return;
+    try {
+      const revision = createRevisionReview(base, await parseContractFile(file));
+      loadReview(revision);
+      setShowHistory(false);
+    } catch (err) {
+      alert(`Could not load "${file.name}": ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const attachExcerpt = (excerpt: Omit<ContractExcerpt, 'id'>) => {
+    if (firstPassLocked) return;
+    setFindings((prev) => ({
+      ...prev,
+      [activeStep]: {
+        ...prev[activeStep],
+        checked: prev[activeStep]?.checked || [],
+        notes: prev[activeStep]?.notes || '',
+        excerpts: [...(prev[activeStep]?.excerpts || []), { ...excerpt, id: createId() }]
+      }
+    }));
+  };
+
+  const removeExcerpt = (id: string) => {
+    if (firstPassLocked) return;
+    setFindings((prev) => ({
+      ...prev,
+      [activeStep]: {
+        ...prev[activeStep],
+        excerpts: (prev[activeStep]?.excerpts || []).filter((excerpt) => excerpt.id !== id)
+      }
+    }));
+  };
+
+  // Shared by the scanner and Assist: flags a checklist item (or appends a note) and attaches the supporting text.
+  const acceptProposedFlag = (stepIndex: number, proposal: ProposedFlag) => {
+    if (firstPassLocked) return;
+    setFindings((prev) => {
+      const current = prev[stepIndex];
+      const checked = current?.checked || [];
+      const item = proposal.checklistItem;
+      const excerpts = [
+        ...(current?.excerpts || []),
+        ...(proposal.excerpt ? [{ id: createId(), ...proposal.excerpt }] : [])
+      ];
+
+      if (!item) {
+        return {
+          ...prev,
+          [stepIndex]: {
+            ...current,
+            checked,
+            notes: current?.notes ? `${current.notes}\n${proposal.note}` : proposal.note,
+            excerpts
+          }
+        };
+      }
+
+      // Merge into an existing flag rather than overwriting what the reviewer already wrote.
+      const existing = checked.includes(item) ? getFlagDetail(current, item) : undefined;
+      const severity = existing && getSeverityMeta(existing.severity).weight >= getSeverityMeta(proposal.severity).weight
+        ? existing.severity
+        : proposal.severity;
+      return {
+        ...prev,
+        [stepIndex]: {
+          ...current,
+          notes: current?.notes || '',
+          checked: existing ? checked : [...checked, item],
+          cleared: current?.cleared?.filter((entry) => entry !== item),
+          flags: {
+            ...current?.flags,
+            [item]: {
+              ...DEFAULT_FLAG_DETAIL,
+              ...existing,
+              severity,
+              clauseRef: existing?.clauseRef || proposal.clauseRef,
+              comment: existing?.comment ? `${existing.comment}; ${proposal.comment}` : proposal.comment,
+              ...(existing ? { editedBy: attribute(userName) } : { raisedBy: attribute(userName) })
+            }
+          },
+          excerpts
+        }
+      };
+    });
+  };
+
+  const acceptSuggestion = (suggestion: ScanSuggestion) => {
+    acceptProposedFlag(suggestion.stepIndex, {
+      checklistItem: suggestion.checklistItem,
+      severity: suggestion.severity,
+      clauseRef: suggestion.clauseRef,
+      comment: suggestion.detail,
+      note: `${suggestion.title}${suggestion.clauseRef ? ` (${suggestion.clauseRef})` : ''}: ${suggestion.detail}`,
+      excerpt: { start: suggestion.start, end: suggestion.end, text: suggestion.text }
+    });
+    setHandledSuggestions((prev) => [...prev, suggestion.id]);
+  };
+
+  const acceptAssistFlag = (flag: AssistFlag) => {
+    acceptProposedFlag(activeStep, {
+      checklistItem: flag.checklistItem,
+      severity: flag.severity,
+      clauseRef: flag.clauseRef,
+      comment: flag.rationale,
+      note: `${flag.clauseRef ? `${flag.clauseRef}: ` : ''}${flag.rationale}`,
+      excerpt: contractDocument && flag.start !== undefined && flag.end !== undefined
+        ? { start: flag.start, end: flag.end, text: contractDocument.text.slice(flag.start, flag.end) }
+        : undefined
+    });
+  };
+
+  const dismissSuggestion = (suggestion: ScanSuggestion) => {
+    setHandledSuggestions((prev) => [...prev, suggestion.id]);
+  };
+
+  const updateScannerConfig = (config: ScannerConfig) => {
+    setScannerConfig(config);
+    saveScannerConfig(config);
+  };
+
+  const updateAssistSettings = (settings: AssistSettings) => {
+    setAssistSettings(settings);
+    saveAssistSettings(settings);
+  };
+
+  const riskSummary = computeRiskSummary(findings);
+  const negotiationCount = collectNegotiationEntries(steps, findings).length;
+
+  // Exports go through the same key scrub as the on-screen report.
+  const exportableReview = (): ReviewRecord => JSON.parse(redactSecrets(JSON.stringify(snapshotReview()), assistSettings));
+
+  const confidentialNotesCount = steps.filter((_step, index) => findings[index]?.notesConfidential && findings[index].notes.trim()).length;
+  const reportOptions = { redactConfidential, includeChangeLog };
+
+  const generateReport = () => renderReportText(buildReportData(exportableReview(), new Date(), reportOptions));
+
+  // Saves the open review before the key is dropped, so nothing typed just before is lost. A failed
+  // save still locks; the notice offers a retry once the vault is unlocked again.
+  const lockNow = () =>
+    lockVaultAfter(async () => {
+      if (hydrated && !isPristine) await saveReview({ ...snapshotReview(), updatedAt: new Date().toISOString() });
+    }).catch(reportSaveError);
+
+  const exportReport = async (format: 'markdown' | 'docx' | 'pdf' | 'json') => {
+    const record = exportableReview();
+    const slug = `${toFileSlug(record.contractName, 'contract')}-review`;
+    setExportError(null);
+    try {
+      if (format === 'markdown') {
+        downloadFile(`${slug}.md`, renderReportMarkdown(buildReportData(record, new Date(), reportOptions)), 'text/markdown');
+      } else if (format === 'docx') {
+        downloadFile(`${slug}.docx`, await renderReportDocx(buildReportData(record, new Date(), reportOptions)), 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+      } else if (format === 'pdf') {
+        printReport(renderReportHtml(buildReportData(record, new Date(), reportOptions)));
+      } else {
+        downloadFile(`${slug}.json`, JSON.stringify(toReviewFile(record), null, 2), 'application/json');
+      }
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : 'Export failed.');
+    }
+  };
+
+  const exportIssuesList = async (format: IssuesListFormat) => {
+    const record = exportableReview();
+    const slug = `${toFileSlug(record.contractName, 'contract')}-issues-list`;
+    setExportError(null);
+    try {
+      if (format === 'markdown') {
+        downloadFile(`${slug}.md`, renderIssuesListMarkdown(buildIssuesList(record)), 'text/markdown');
+      } else if (format === 'docx') {
+        downloadFile(`${slug}.docx`, await renderIssuesListDocx(buildIssuesList(record)), 'application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+      } else if (format === 'pdf') {
+        printReport(renderIssuesListHtml(buildIssuesList(record)));
+      } else {
+        await navigator.clipboard.writeText(renderIssuesListText(buildIssuesList(record)));
+        alert('Issues list copied to clipboard!');
+      }
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : 'Export failed.');
+    }
   };
 
   const copyToClipboard = () => {
@@ -225,6 +1004,428 @@ const App: React.FC = () => {
     alert("Report copied to clipboard!"); 
   };
 
+  // -- Routing --
+
+  const openSharedSnapshot = async (data: string) => {
+    const result = await readSnapshot(data);
+    if (result.ok === false) {
+      alert(`Could not open the shared snapshot.\n\n${result.errors.join('\n')}`);
+      return;
+    }
+    setSharedSnapshot({ data, review: result.value });
+  };
+
+  // Loading comes first, so the view only changes once, when everything it needs is there.
+  const followRoute = async (route: Route | null) => {
+    const linkedId = route?.view === 'review' || route?.view === 'summary' ? route.reviewId : undefined;
+    let linked: ReviewRecord | undefined;
+    let lookupError: string | undefined;
+    if (linkedId && linkedId !== review.id) {
+      try {
+        linked = await getReview(linkedId);
+      } catch (error) {
+        lookupError = error instanceof Error ? error.message : String(error);
+      }
+    }
+    if (route?.view === 'shared') await openSharedSnapshot(route.snapshot);
+    replaceRouteRef.current = true;
+    setRouteFollowed((prev) => prev + 1);
+    if (route?.view === 'shared') return;
+    // Any other address leaves the snapshot, even one that names nothing we can open.
+    setSharedSnapshot(null);
+    if (!route) return;
+    if (linkedId && linkedId !== review.id && !linked) {
+      alert(lookupError ? `Could not open the linked review. ${lookupError}` : 'The linked review is not saved in this browser.');
+      return;
+    }
+    setShowPlaybooks(false);
+    setShowAnalytics(false);
+    setShowPortfolio(false);
+    setShowVersionCompare(false);
+    setShowNegotiation(false);
+    setShowClauseLibrary(false);
+    setShowDealSetup(false);
+    setShowHistory(route.view === 'reviews');
+    if (route.view === 'reviews') return;
+    if (linked) {
+      loadReview(openAtRoute(linked, route));
+    } else if (route.view === 'summary') {
+      if (!reviewComplete) finishReview();
+    } else {
+      setReviewComplete(false);
+      if (route.step !== undefined) setActiveStep(Math.min(route.step, steps.length - 1));
+    }
+  };
+  routeHandlerRef.current = followRoute;
+
+  const saveSnapshotCopy = async () => {
+    if (!sharedSnapshot) return;
+    const copy = copySnapshot(sharedSnapshot.review);
+    try {
+      await saveReview(copy);
+    } catch (error) {
+      setSharedSnapshot({ ...sharedSnapshot, copyError: error instanceof Error ? error.message : String(error) });
+      return;
+    }
+    setSharedSnapshot(null);
+    loadReview(copy);
+  };
+
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(routeUrl(currentRoute));
+    alert('Link copied to clipboard!');
+  };
+
+  // The whole review travels in the link, so it opens without a sync server or the sender's browser.
+  const shareSnapshot = async () => {
+    setExportError(null);
+    try {
+      const link = routeUrl({ view: 'shared', snapshot: await createSnapshot(exportableReview()) });
+      await navigator.clipboard.writeText(link);
+      alert(`Read-only snapshot link copied to clipboard (${link.length.toLocaleString()} characters). The contract text and confidential notes are left out.`);
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : 'Could not create the snapshot link.');
+    }
+  };
+
+  // -- Keyboard Shortcuts --
+
+  const updateBindings = (next: ShortcutBindings) => {
+    setBindings(next);
+    saveBindings(next);
+  };
+
+  const onReviewScreen = !showPlaybooks && !showAnalytics && !showPortfolio && !showHistory && !reviewComplete && !showDealSetup && !needsDealSetup &&
+    !showVersionCompare && !showNegotiation && !showClauseLibrary;
+
+  // Step, checklist and timer commands need the active review screen; numbered ones need the step or item to exist.
+  const isCommandAvailable = (id: string): boolean => {
+    const action = SHORTCUT_ACTIONS.find((candidate) => candidate.id === id);
+    if (!action || showPlaybooks || sharedSnapshot) return false;
+    const [kind, n] = id.split(':');
+    if (kind === 'go-to-step') return onReviewScreen && Number(n) <= steps.length;
+    if (kind === 'toggle-item' || kind === 'ok-item') return onReviewScreen && !firstPassLocked && Number(n) <= steps[activeStep].checklist.length;
+    if (['Steps', 'Checklist', 'Timer'].includes(action.group)) return onReviewScreen;
+    if (id === 'load-contract' || id === 'deal-context') return onReviewScreen && !firstPassLocked;
+    if (id === 'finish-review') return onReviewScreen;
+    if (id === 'hand-over') return stage === 'first-pass' && !showHistory && !showAnalytics && !showPortfolio;
+    if (id === 'sign-off') return stage === 'second-review' && !showHistory && !showAnalytics && !showPortfolio;
+    if (id === 'compare-versions') return onReviewScreen && versionChanges.length > 0;
+    if (id === 'review-new-version') return !!contractDocument && !showHistory && !showAnalytics && !showPortfolio;
+    if (id === 'negotiation') return !showHistory && !showAnalytics && !showPortfolio && !showNegotiation;
+    if (id === 'clause-library') return !showHistory && !showAnalytics && !showPortfolio && !showClauseLibrary;
+    if (id === 'copy-link') return !isPristine && !showAnalytics && !showPortfolio && !showNegotiation && !showClauseLibrary && !showVersionCompare;
+    if (id === 'share-snapshot') return !isPristine && !showHistory && !showAnalytics && !showPortfolio;
+    if (id === 'undo') return canUndo && !showHistory && !showAnalytics && !showPortfolio;
+    if (id === 'redo') return canRedo && !showHistory && !showAnalytics && !showPortfolio;
+    if (id === 'lock-vault') return vaultEnabled;
+    if (id === 'export-issues-list') return !showHistory && !showAnalytics && !showPortfolio && negotiationCount > 0;
+    if (id === 'export-key-dates') return !showHistory && !showAnalytics && !showPortfolio && (findings[obligationsStep]?.obligations ?? []).some(isDated);
+    return true;
+  };
+
+  const runCommand = (id: string) => {
+    if (!isCommandAvailable(id)) return;
+    const [kind, n] = id.split(':');
+    if (kind === 'go-to-step') {
+      setActiveStep(Number(n) - 1);
+      return;
+    }
+    if (kind === 'toggle-item') {
+      toggleChecklist(steps[activeStep].checklist[Number(n) - 1]);
+      return;
+    }
+    if (kind === 'ok-item') {
+      updateItemState(steps[activeStep].checklist[Number(n) - 1], 'ok');
+      return;
+    }
+    switch (id) {
+      case 'command-palette': setShowPalette(true); break;
+      case 'show-shortcuts': setShowShortcuts(true); break;
+      case 'undo': undo(); break;
+      case 'redo': redo(); break;
+      case 'next-step': handleNext(); break;
+      case 'previous-step': handleBack(); break;
+      case 'focus-notes': notesRef.current?.focus(); break;
+      case 'toggle-timer': toggleTimer(); break;
+      case 'reset-timer': resetTimer(); break;
+      case 'session-settings': setShowSessionSettings(true); break;
+      case 'load-contract': documentInputRef.current?.click(); break;
+      case 'finish-review': finishReview(); break;
+      case 'deal-context': setShowDealSetup(true); break;
+      case 'compare-versions': setShowVersionCompare(true); break;
+      case 'review-new-version': reviewNewVersion(snapshotReview()); break;
+      case 'negotiation':
+        setNegotiationFocus(null);
+        setShowNegotiation(true);
+        break;
+      case 'export-issues-list': exportIssuesList('docx'); break;
+      case 'export-key-dates': exportKeyDates(); break;
+      case 'copy-link': copyLink(); break;
+      case 'share-snapshot': shareSnapshot(); break;
+      case 'clause-library': setShowClauseLibrary(true); break;
+      case 'collaboration': setShowCollaboration(true); break;
+      case 'vault': setShowVault(true); break;
+      case 'lock-vault': lockNow(); break;
+      case 'hand-over': handOverForSecondReview(); break;
+      case 'sign-off': signOff(); break;
+      case 'new-review': setShowNewReview(true); break;
+      case 'review-history':
+        setShowAnalytics(false);
+        setShowPortfolio(false);
+        setShowHistory(true);
+        break;
+      case 'manage-playbooks': setShowPlaybooks(true); break;
+      case 'time-analytics': setShowAnalytics(true); break;
+      case 'portfolio': setShowPortfolio(true); break;
+      case 'copy-report': copyToClipboard(); break;
+      case 'export-docx': exportReport('docx'); break;
+      case 'export-pdf': exportReport('pdf'); break;
+      case 'export-markdown': exportReport('markdown'); break;
+      case 'export-json': exportReport('json'); break;
+    }
+  };
+
+  shortcutHandlerRef.current = (event: KeyboardEvent) => {
+    // Dialogs own the keyboard while they are open.
+    if (event.defaultPrevented || showPalette || showShortcuts || showNewReview || showSessionSettings || showCollaboration || showVault || syncConflict) return;
+    if (event.key === 'Escape' && isTypingTarget(event.target)) {
+      (event.target as HTMLElement).blur();
+      return;
+    }
+    const actionId = matchShortcut(event, bindings);
+    if (!actionId || !isCommandAvailable(actionId)) return;
+    event.preventDefault();
+    runCommand(actionId);
+  };
+
+  // Numbered commands are labelled with the step or checklist item they act on.
+  const paletteCommands: PaletteCommand[] = SHORTCUT_ACTIONS
+    .filter((action) => action.id !== 'command-palette' && isCommandAvailable(action.id))
+    .map((action) => {
+      const [kind, n] = action.id.split(':');
+      const index = Number(n) - 1;
+      const label = kind === 'go-to-step'
+        ? `Go to step ${n}: ${steps[index].title}`
+        : kind === 'toggle-item' ? `Flag / unflag "${steps[activeStep].checklist[index]}"`
+        : kind === 'ok-item' ? `Mark "${steps[activeStep].checklist[index]}" OK` : action.label;
+      return { id: action.id, label, group: action.group, binding: bindings[action.id] };
+    });
+
+  // Shown over every view, so a failed autosave is never hidden behind a full-screen editor.
+  const saveErrorNotice = saveError && (
+    <div className="fixed bottom-4 right-4 z-50 max-w-sm flex items-start gap-2 bg-red-600 text-white text-sm px-3 py-2 rounded-lg shadow-lg" role="alert">
+      <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+      <span>
+        Could not save this review. Your changes are only on screen until a save succeeds.
+        <span className="block text-red-100">{saveError}</span>
+      </span>
+      <button
+        onClick={() => saveInBackground({ ...snapshotReview(), updatedAt: new Date().toISOString() })}
+        className="flex items-center gap-1 font-medium whitespace-nowrap hover:text-red-100"
+      >
+        <RefreshCw className="w-3.5 h-3.5" /> Retry
+      </button>
+    </div>
+  );
+
+  const shortcutDialogs = (
+    <>
+      {showPalette && (
+        <CommandPalette commands={paletteCommands} onRun={runCommand} onClose={() => setShowPalette(false)} />
+      )}
+      {showShortcuts && (
+        <ShortcutsOverlay bindings={bindings} onChange={updateBindings} onClose={() => setShowShortcuts(false)} />
+      )}
+      {showCollaboration && (
+        <CollaborationDialog
+          userName={userName}
+          review={snapshotReview()}
+          settings={syncSettings}
+          status={syncStatus}
+          vaultEnabled={vaultEnabled}
+          onUserNameChange={updateUserName}
+          onSettingsChange={updateSyncSettings}
+          onSyncNow={() => runSync()}
+          onClose={() => setShowCollaboration(false)}
+        />
+      )}
+      {showVault && <VaultDialog onLock={lockNow} onClose={() => setShowVault(false)} />}
+      {syncConflict && (
+        <SyncConflictDialog conflicts={syncConflict.conflicts} steps={steps} onResolve={resolveSyncConflict} />
+      )}
+      {saveErrorNotice}
+    </>
+  );
+
+  // Kept outside the views so a version can be picked from History as well as the summary.
+  const versionInput = (
+    <input
+      ref={versionInputRef}
+      type="file"
+      accept={SUPPORTED_CONTRACT_TYPES}
+      className="hidden"
+      onChange={loadNewVersionFile}
+    />
+  );
+
+  const newReviewDialog = showNewReview && (
+    <NewReviewDialog
+      onStart={startNewReview}
+      onManagePlaybooks={() => {
+        setShowNewReview(false);
+        setShowPlaybooks(true);
+      }}
+      onCancel={() => setShowNewReview(false)}
+    />
+  );
+
+  // -- Render: Shared Snapshot --
+  if (sharedSnapshot) {
+    return (
+      <>
+        <SharedSnapshotView
+          snapshot={sharedSnapshot.review}
+          copyError={sharedSnapshot.copyError}
+          onSaveCopy={saveSnapshotCopy}
+          onClose={() => setSharedSnapshot(null)}
+        />
+        {saveErrorNotice}
+      </>
+    );
+  }
+
+  // -- Render: Playbook Editor --
+  if (showPlaybooks) {
+    return (
+      <>
+        <PlaybookEditor
+          onStartReview={startNewReview}
+          onClose={() => setShowPlaybooks(false)}
+        />
+        {saveErrorNotice}
+      </>
+    );
+  }
+
+  // -- Render: Time Analytics --
+  if (showAnalytics) {
+    return (
+      <>
+        <TimeAnalytics onClose={() => setShowAnalytics(false)} />
+        {shortcutDialogs}
+      </>
+    );
+  }
+
+  // -- Render: Portfolio --
+  if (showPortfolio) {
+    return (
+      <>
+        <PortfolioDashboard
+          onOpenReview={(record) => {
+            loadReview(record);
+            setShowPortfolio(false);
+            setShowHistory(false);
+          }}
+          onClose={() => setShowPortfolio(false)}
+        />
+        {shortcutDialogs}
+      </>
+    );
+  }
+
+  // -- Render: History View --
+  if (showHistory) {
+    return (
+      <>
+        <ReviewHistory
+          currentReviewId={review.id}
+          onOpen={(record) => {
+            loadReview(record);
+            setShowHistory(false);
+          }}
+          onNew={() => setShowNewReview(true)}
+          onNewVersion={reviewNewVersion}
+          onShowAnalytics={() => setShowAnalytics(true)}
+          onShowPortfolio={() => setShowPortfolio(true)}
+          onClose={() => setShowHistory(false)}
+        />
+        {versionInput}
+        {newReviewDialog}
+        {shortcutDialogs}
+      </>
+    );
+  }
+
+  // -- Render: Version Comparison --
+  if (showVersionCompare && review.previousVersion && contractDocument) {
+    return (
+      <>
+        <VersionCompare
+          changes={versionChanges}
+          previousFileName={review.previousVersion.fileName}
+          currentFileName={contractDocument.fileName}
+          steps={steps}
+          onClose={() => setShowVersionCompare(false)}
+        />
+        {shortcutDialogs}
+      </>
+    );
+  }
+
+  // -- Render: Clause Library --
+  if (showClauseLibrary) {
+    return (
+      <>
+        <ClauseLibraryEditor onClose={() => setShowClauseLibrary(false)} />
+        {saveErrorNotice}
+      </>
+    );
+  }
+
+  // -- Render: Negotiation Tracker --
+  if (showNegotiation) {
+    return (
+      <>
+        <NegotiationTracker
+          steps={steps}
+          findings={findings}
+          contractName={contractName}
+          counterparty={dealContext?.counterparty ?? ''}
+          focus={negotiationFocus}
+          exportError={exportError}
+          onChange={updateNegotiation}
+          onPromote={promoteToNegotiation}
+          onSendRound={() => setFindings((prev) => sendRound(prev))}
+          onExport={exportIssuesList}
+          onClose={() => setShowNegotiation(false)}
+        />
+        {shortcutDialogs}
+      </>
+    );
+  }
+
+  // -- Render: Deal Setup --
+  if (showDealSetup || needsDealSetup) {
+    return (
+      <>
+        <DealSetup
+          key={review.id}
+          context={dealContext}
+          contractName={contractName}
+          playbookName={review.playbookName}
+          steps={review.steps}
+          onSave={saveDealContext}
+          onSkip={needsDealSetup ? () => setDealContext(EMPTY_DEAL_CONTEXT) : undefined}
+          onCancel={showDealSetup && !needsDealSetup ? () => setShowDealSetup(false) : undefined}
+        />
+        {newReviewDialog}
+        {shortcutDialogs}
+      </>
+    );
+  }
+
   // -- Render: Complete View --
   if (reviewComplete) {
     return (
@@ -233,44 +1434,187 @@ const App: React.FC = () => {
           <h1 className="text-xl font-bold flex items-center gap-2">
             <FileText className="w-6 h-6" /> Review Summary
           </h1>
-          <button 
-            onClick={() => setReviewComplete(false)}
-            className="text-sm text-slate-300 hover:text-white font-medium"
-          >
-            Return to Review
-          </button>
+          <div className="flex items-center gap-4">
+            <button 
+              onClick={() => setShowHistory(true)}
+              className="text-sm text-slate-300 hover:text-white font-medium flex items-center gap-1.5"
+            >
+              <History className="w-4 h-4" /> History
+            </button>
+            <button 
+              onClick={() => setReviewComplete(false)}
+              className="text-sm text-slate-300 hover:text-white font-medium"
+            >
+              Return to Review
+            </button>
+          </div>
         </header>
         
         <main className="flex-1 p-4 md:p-8 overflow-auto w-full flex justify-center">
           <div className="bg-white rounded-xl shadow-lg border border-slate-200 p-6 md:p-8 max-w-4xl w-full h-fit">
             <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6">
-              <h2 className="text-2xl font-bold text-slate-800">Final Audit Report</h2>
+              <div className="flex items-center gap-3">
+                <h2 className="text-2xl font-bold text-slate-800">Final Audit Report</h2>
+                <span
+                  className={`text-xs font-semibold uppercase tracking-wide px-2.5 py-1 rounded-full border ${RISK_RATINGS[riskSummary.rating].badgeClass}`}
+                  title={`${riskSummary.totalFlags - riskSummary.resolvedFlags} open of ${riskSummary.totalFlags} flags`}
+                >
+                  {RISK_RATINGS[riskSummary.rating].label}
+                </span>
+                <span className={`text-xs font-semibold uppercase tracking-wide px-2.5 py-1 rounded-full border ${REVIEW_STAGES[stage].badgeClass}`}>
+                  {REVIEW_STAGES[stage].label}
+                </span>
+              </div>
               <span className="text-sm text-slate-500 bg-slate-100 px-3 py-1 rounded-full mt-2 md:mt-0">
                 {contractName || "Untitled Contract"}
               </span>
             </div>
 
+            <label className="flex items-center gap-3 mb-6 text-sm">
+              <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Reviewer</span>
+              <input
+                type="text"
+                value={reviewer}
+                onChange={(e) => setReviewer(e.target.value)}
+                onBlur={() => reviewer.trim() && setLastReviewer(reviewer.trim())}
+                readOnly={firstPassLocked}
+                placeholder="Your name, shown on exported reports"
+                className="flex-1 max-w-xs p-2 border border-slate-200 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+
+            {firstPassLocked && (
+              <p className="mb-6 text-sm text-slate-600 flex items-center gap-2">
+                <Users className="w-4 h-4 text-slate-400" />
+                {review.signedOff
+                  ? `Signed off by ${describeAttribution(review.signedOff)}.`
+                  : `In second review${review.secondReviewer ? ` by ${review.secondReviewer}` : ''}.`}
+                {' '}{(() => {
+                  const { agreed, disagreed, pending } = countSecondOpinions(findings);
+                  return `${agreed} agreed, ${disagreed} disagreed, ${pending} awaiting a verdict.`;
+                })()}
+              </p>
+            )}
+
+            <TimeSummary steps={steps} stepTimes={stepTimes} />
+
+            <ChangeLog entries={editor.changeLog} steps={steps} />
+
+            {confidentialNotesCount > 0 && (
+              <label className="flex items-center gap-2 mb-4 text-sm text-slate-700">
+                <input type="checkbox" checked={redactConfidential} onChange={(e) => setRedactConfidential(e.target.checked)} />
+                <EyeOff className="w-4 h-4 text-slate-400" />
+                Redact confidential notes ({confidentialNotesCount} {confidentialNotesCount === 1 ? 'step' : 'steps'}) from the report and exports
+              </label>
+            )}
+            <label className="flex items-center gap-2 mb-4 text-sm text-slate-700">
+              <input type="checkbox" checked={includeChangeLog} onChange={(e) => setIncludeChangeLog(e.target.checked)} />
+              <ScrollText className="w-4 h-4 text-slate-400" />
+              Append the change log to the report and exports
+            </label>
+
             <div className="bg-slate-50 p-6 rounded-lg font-mono text-sm whitespace-pre-wrap mb-8 border border-slate-200 overflow-x-auto shadow-inner text-slate-700">
               {generateReport()}
             </div>
             
-            <div className="flex flex-col sm:flex-row gap-4">
+            {exportError && (
+              <p className="mb-4 text-sm text-red-600 flex items-center gap-2">
+                <AlertTriangle className="w-4 h-4" /> {exportError}
+              </p>
+            )}
+
+            <div className="flex flex-col sm:flex-row flex-wrap gap-4">
               <button 
                 onClick={copyToClipboard}
                 className="flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg font-medium transition-all shadow-md active:transform active:scale-95"
               >
                 <Copy className="w-4 h-4" /> Copy to Clipboard
               </button>
-              <button 
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={() => exportReport('docx')}
+                  className="flex items-center justify-center gap-2 bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 px-4 py-3 rounded-lg font-medium transition-colors"
+                  title="Formatted memo for Word"
+                >
+                  <Download className="w-4 h-4" /> Word
+                </button>
+                <button
+                  onClick={() => exportReport('pdf')}
+                  className="flex items-center justify-center gap-2 bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 px-4 py-3 rounded-lg font-medium transition-colors"
+                  title="Printable view; choose 'Save as PDF' in the print dialog"
+                >
+                  <Printer className="w-4 h-4" /> PDF
+                </button>
+                <button
+                  onClick={() => exportReport('markdown')}
+                  className="flex items-center justify-center gap-2 bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 px-4 py-3 rounded-lg font-medium transition-colors"
+                >
+                  <Download className="w-4 h-4" /> Markdown
+                </button>
+                <button
+                  onClick={() => exportReport('json')}
+                  className="flex items-center justify-center gap-2 bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 px-4 py-3 rounded-lg font-medium transition-colors"
+                  title="Structured export; import it from Review History to restore the review"
+                >
+                  <FileJson className="w-4 h-4" /> JSON
+                </button>
+              </div>
+              {stage === 'first-pass' && (
+                <button
+                  onClick={handOverForSecondReview}
+                  title="The first pass becomes read-only; a second reviewer agrees or disagrees with each flag"
+                  className="flex items-center justify-center gap-2 bg-white border border-violet-300 hover:bg-violet-50 text-violet-700 px-6 py-3 rounded-lg font-medium transition-colors"
+                >
+                  <Send className="w-4 h-4" /> Hand Over for Second Review
+                </button>
+              )}
+              {stage === 'second-review' && (
+                <button
+                  onClick={signOff}
+                  title="Locks the review for everyone"
+                  className="flex items-center justify-center gap-2 bg-emerald-600 hover:bg-emerald-700 text-white px-6 py-3 rounded-lg font-medium transition-all shadow-md"
+                >
+                  <BadgeCheck className="w-4 h-4" /> Sign Off
+                </button>
+              )}
+              <button
                 onClick={() => {
-                  if (window.confirm("Are you sure? This will clear all current review data.")) {
-                    setReviewComplete(false);
-                    setActiveStep(0);
-                    setFindings({});
-                    setContractName('');
-                    setIsTimerRunning(false);
-                  }
+                  setNegotiationFocus(null);
+                  setShowNegotiation(true);
                 }}
+                title="Positions, fallbacks and the counterparty's responses, round by round"
+                className="flex items-center justify-center gap-2 bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 px-6 py-3 rounded-lg font-medium transition-colors"
+              >
+                <Handshake className="w-4 h-4" /> Negotiation{negotiationCount > 0 ? ` (${negotiationCount})` : ''}
+              </button>
+              {negotiationCount > 0 && (
+                <button
+                  onClick={() => exportIssuesList('docx')}
+                  title="Issues list for the counterparty as a Word table; more formats in the tracker"
+                  className="flex items-center justify-center gap-2 bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 px-6 py-3 rounded-lg font-medium transition-colors"
+                >
+                  <Download className="w-4 h-4" /> Issues List
+                </button>
+              )}
+              <button
+                onClick={shareSnapshot}
+                title="Copies a link that opens these findings read-only, without a sync server"
+                className="flex items-center justify-center gap-2 bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 px-6 py-3 rounded-lg font-medium transition-colors"
+              >
+                <Link2 className="w-4 h-4" /> Share Snapshot
+              </button>
+              {contractDocument && (
+                <button
+                  onClick={() => reviewNewVersion(snapshotReview())}
+                  title="Load the counterparty's revised draft; findings carry over"
+                  className="flex items-center justify-center gap-2 bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 px-6 py-3 rounded-lg font-medium transition-colors"
+                >
+                  <GitCompare className="w-4 h-4" /> Review New Version
+                </button>
+              )}
+              <button 
+                onClick={() => setShowNewReview(true)}
+                title="This review stays available in Review History"
                 className="flex items-center justify-center gap-2 bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 px-6 py-3 rounded-lg font-medium transition-colors"
               >
                 <RotateCcw className="w-4 h-4" /> Start New Review
@@ -278,6 +1622,9 @@ const App: React.FC = () => {
             </div>
           </div>
         </main>
+        {versionInput}
+        {newReviewDialog}
+        {shortcutDialogs}
       </div>
     );
   }
@@ -287,7 +1634,7 @@ const App: React.FC = () => {
     <div className="flex flex-col h-screen bg-slate-50 text-slate-900 font-sans overflow-hidden">
       {/* Header */}
       <header className="bg-slate-900 text-white px-4 py-3 shadow-md flex-shrink-0 z-20">
-        <div className="max-w-6xl mx-auto flex justify-between items-center">
+        <div className={`${contractDocument ? 'max-w-[1600px]' : 'max-w-6xl'} mx-auto flex justify-between items-center`}>
           <div className="flex items-center gap-3">
             <div className="bg-blue-600 p-1.5 rounded-lg shadow-lg shadow-blue-900/50">
               <Clock className="w-5 h-5 text-white" />
@@ -299,6 +1646,24 @@ const App: React.FC = () => {
           </div>
           
           <div className="flex items-center gap-4">
+            <div className="flex items-center gap-2">
+              <button
+                onClick={undo}
+                disabled={!canUndo}
+                className="text-slate-300 hover:text-white disabled:opacity-40 disabled:hover:text-slate-300"
+                title={editor.past.length === 0 && canUndo ? 'Undo: reopen the review you just replaced' : `Undo ${formatCombo(bindings.undo)}`.trim()}
+              >
+                <Undo2 className="w-5 h-5" />
+              </button>
+              <button
+                onClick={redo}
+                disabled={!canRedo}
+                className="text-slate-300 hover:text-white disabled:opacity-40 disabled:hover:text-slate-300"
+                title={`Redo ${formatCombo(bindings.redo)}`.trim()}
+              >
+                <Redo2 className="w-5 h-5" />
+              </button>
+            </div>
             <div className="hidden md:block">
               <input 
                 type="text" 
@@ -308,9 +1673,127 @@ const App: React.FC = () => {
                 className="bg-slate-800 border border-slate-700 rounded-md px-3 py-1.5 text-sm text-white focus:outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 w-64 placeholder-slate-500 transition-all"
               />
             </div>
-            <div className={`px-4 py-1.5 rounded-full font-mono font-bold flex items-center gap-2 border ${timeLeft < 10 ? 'bg-red-900/20 border-red-500 text-red-400 animate-pulse' : 'bg-slate-800 border-slate-700 text-white'}`}>
+            <button 
+              onClick={() => documentInputRef.current?.click()}
+              disabled={documentStatus.loading || firstPassLocked}
+              className={`text-slate-300 hover:text-white disabled:opacity-40 disabled:hover:text-slate-300 ${documentStatus.loading ? 'animate-pulse' : ''}`}
+              title={contractDocument ? `Replace Contract (${contractDocument.fileName})` : 'Load Contract (.txt, .docx, .pdf)'}
+            >
+              <FileUp className="w-5 h-5" />
+            </button>
+            <input
+              ref={documentInputRef}
+              type="file"
+              accept={SUPPORTED_CONTRACT_TYPES}
+              className="hidden"
+              onChange={loadContractFile}
+            />
+            {versionInput}
+            {versionChanges.length > 0 && (
+              <button
+                onClick={() => setShowVersionCompare(true)}
+                className="text-slate-300 hover:text-white"
+                title={`Compare with ${review.previousVersion?.fileName}`}
+              >
+                <GitCompare className="w-5 h-5" />
+              </button>
+            )}
+            {negotiationCount > 0 && (
+              <button
+                onClick={() => {
+                  setNegotiationFocus(null);
+                  setShowNegotiation(true);
+                }}
+                className="text-slate-300 hover:text-white"
+                title={`Negotiation Tracker (${negotiationCount} ${negotiationCount === 1 ? 'item' : 'items'})`}
+              >
+                <Handshake className="w-5 h-5" />
+              </button>
+            )}
+            <button
+              onClick={copyLink}
+              disabled={isPristine}
+              className="text-slate-300 hover:text-white disabled:opacity-40 disabled:hover:text-slate-300"
+              title="Copy Link to This Step"
+            >
+              <Link2 className="w-5 h-5" />
+            </button>
+            <button 
+              onClick={() => setShowHistory(true)}
+              className="text-slate-300 hover:text-white"
+              title="Review History"
+            >
+              <History className="w-5 h-5" />
+            </button>
+            <button 
+              onClick={() => setShowPlaybooks(true)}
+              className="text-slate-300 hover:text-white"
+              title="Review Playbooks"
+            >
+              <ClipboardList className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setShowClauseLibrary(true)}
+              className="text-slate-300 hover:text-white"
+              title="Clause Library"
+            >
+              <Library className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setShowSessionSettings(true)}
+              className={sessionSettings.enabled ? 'text-blue-400 hover:text-blue-300' : 'text-slate-300 hover:text-white'}
+              title={sessionSettings.enabled ? 'Session Mode: On' : 'Session Mode'}
+            >
+              <Timer className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setShowCollaboration(true)}
+              className="relative text-slate-300 hover:text-white"
+              title={`Collaboration: ${REVIEW_STAGES[stage].label}${syncSettings.enabled ? `, sync ${syncStatus.state}` : ''}`}
+            >
+              <Users className="w-5 h-5" />
+              {syncSettings.enabled && (
+                <span className={`absolute -top-0.5 -right-0.5 w-2 h-2 rounded-full ${
+                  syncStatus.state === 'offline' || syncStatus.state === 'conflict' ? 'bg-red-500' : syncStatus.state === 'synced' ? 'bg-emerald-400' : 'bg-slate-400'
+                }`} />
+              )}
+            </button>
+            <button
+              onClick={() => setShowVault(true)}
+              className={vaultEnabled ? 'text-emerald-400 hover:text-emerald-300' : 'text-slate-300 hover:text-white'}
+              title={vaultEnabled ? 'Vault: On' : 'Vault'}
+            >
+              <ShieldCheck className="w-5 h-5" />
+            </button>
+            <button
+              onClick={() => setShowShortcuts(true)}
+              className="hidden md:block text-slate-300 hover:text-white"
+              title="Keyboard Shortcuts"
+            >
+              <Keyboard className="w-5 h-5" />
+            </button>
+            {sessionSettings.enabled && (
+              <button
+                onClick={toggleTimer}
+                className={`hidden sm:flex px-3 py-1.5 rounded-full font-mono text-sm items-center gap-2 border transition-colors ${
+                  sessionTimeLeft < 0 ? 'border-red-500 text-red-300' : 'border-slate-700 text-slate-300 hover:text-white'
+                }`}
+                title={isTimerRunning ? 'Pause All' : 'Resume Session'}
+              >
+                {isTimerRunning ? <Pause className="w-3.5 h-3.5" /> : <Play className="w-3.5 h-3.5" />}
+                <span>Session {formatClock(sessionTimeLeft)}</span>
+              </button>
+            )}
+            <div
+              className={`px-4 py-1.5 rounded-full font-mono font-bold flex items-center gap-2 border ${
+                timeLeft < 0
+                  ? 'bg-red-900/40 border-red-500 text-red-300'
+                  : timeLeft < 10 ? 'bg-red-900/20 border-red-500 text-red-400 animate-pulse' : 'bg-slate-800 border-slate-700 text-white'
+              }`}
+              title={timeLeft < 0 ? 'Over the planned time for this step' : 'Time left for this step'}
+            >
               <Clock className="w-4 h-4" />
-              <span>{formatTime(timeLeft)}</span>
+              <span>{formatClock(timeLeft)}</span>
             </div>
             <button 
               className="md:hidden text-slate-300 hover:text-white"
@@ -323,12 +1806,30 @@ const App: React.FC = () => {
       </header>
 
       {/* Main Container */}
-      <main className="flex-1 flex overflow-hidden max-w-6xl mx-auto w-full relative">
+      <main className={`flex-1 flex overflow-hidden ${contractDocument ? 'max-w-[1600px]' : 'max-w-6xl'} mx-auto w-full relative`}>
         
         {/* Sidebar / Progress (Desktop) */}
         <aside className="w-64 bg-white border-r border-slate-200 overflow-y-auto hidden md:block flex-shrink-0 z-10">
           <div className="p-4">
-            <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-4 pl-2">Workflow Steps</h3>
+            <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-1 pl-2">Workflow Steps</h3>
+            <button
+              onClick={() => setShowNewReview(true)}
+              className="text-xs text-slate-500 hover:text-blue-600 mb-1 pl-2 text-left truncate w-full"
+              title="Start a new review with a different playbook"
+            >
+              {review.playbookName}
+            </button>
+            <button
+              onClick={() => setShowDealSetup(true)}
+              disabled={firstPassLocked}
+              className="w-full text-left text-xs text-slate-500 enabled:hover:text-blue-600 mb-4 pl-2 flex items-start gap-1.5"
+              title={firstPassLocked ? 'Deal context' : 'Edit deal context'}
+            >
+              <Briefcase className="w-3.5 h-3.5 mt-px flex-shrink-0" />
+              <span className="line-clamp-2">
+                {describeDealContext(dealContext).map(([, value]) => value).join(' · ') || 'Add deal context'}
+              </span>
+            </button>
             <div className="space-y-1">
               {steps.map((step, idx) => (
                 <button
@@ -341,12 +1842,52 @@ const App: React.FC = () => {
                   }`}
                 >
                   <div className={`p-1.5 rounded-md transition-colors ${activeStep === idx ? 'bg-blue-100 text-blue-600' : 'bg-slate-100 text-slate-500 group-hover:bg-slate-200'}`}>
-                     {step.icon}
+                     <StepIcon name={step.icon} />
+                  </div>
+                  <div className="min-w-0 flex-1">
+                    <span className="font-medium truncate block">{step.title}</span>
+                    {(() => {
+                      const coverage = getStepCoverage(step, findings[idx]);
+                      if (coverage.total === 0) return null;
+                      const label = `${coverage.reviewed} of ${coverage.total} items reviewed${coverage.skipped ? `, ${coverage.skipped} skipped` : ''}`;
+                      return (
+                        <div
+                          className="mt-1 h-1 rounded-full bg-slate-200/70 overflow-hidden"
+                          role="progressbar"
+                          aria-label={label}
+                          aria-valuenow={coverage.reviewed}
+                          aria-valuemax={coverage.total}
+                          title={label}
+                        >
+                          <div
+                            className={`h-full rounded-full ${coverage.reviewed === coverage.total ? 'bg-emerald-500' : 'bg-blue-400'}`}
+                            style={{ width: `${(coverage.reviewed / coverage.total) * 100}%` }}
+                          />
+                        </div>
+                      );
+                    })()}
                   </div>
-                  <span className="font-medium truncate">{step.title}</span>
-                  {findings[idx]?.checked?.length || findings[idx]?.notes ? (
-                    <div className="ml-auto w-2 h-2 rounded-full bg-amber-400" title="Has findings" />
-                  ) : null}
+                  {(() => {
+                    const changed = getStepChanges(versionChanges, idx).length;
+                    return changed > 0 ? (
+                      <span
+                        className="text-[10px] font-semibold px-1.5 py-0.5 rounded bg-amber-100 text-amber-700 flex-shrink-0"
+                        title={`${changed} changed ${changed === 1 ? 'clause' : 'clauses'} since the last version`}
+                      >
+                        {changed}
+                      </span>
+                    ) : null;
+                  })()}
+                  {(() => {
+                    const maxSeverity = getStepMaxSeverity(findings[idx]);
+                    if (maxSeverity) {
+                      const meta = getSeverityMeta(maxSeverity);
+                      return <div className={`ml-auto w-2 h-2 rounded-full ${meta.dotClass}`} title={`Highest open flag: ${meta.label}`} />;
+                    }
+                    return findings[idx]?.checked?.length || findings[idx]?.notes ? (
+                      <div className="ml-auto w-2 h-2 rounded-full bg-slate-300" title="Has notes or resolved flags" />
+                    ) : null;
+                  })()}
                 </button>
               ))}
             </div>
@@ -364,6 +1905,13 @@ const App: React.FC = () => {
                 onChange={(e) => setContractName(e.target.value)}
                 className="w-full bg-slate-100 border-none rounded-lg p-3 text-sm focus:ring-2 focus:ring-blue-500"
               />
+              <button
+                onClick={() => setShowDealSetup(true)}
+                disabled={firstPassLocked}
+                className="mt-3 text-xs text-slate-500 enabled:hover:text-blue-600 disabled:opacity-50 flex items-center gap-1.5"
+              >
+                <Briefcase className="w-3.5 h-3.5" /> Deal context
+              </button>
             </div>
             <div className="overflow-y-auto flex-1 p-4">
               <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-4">Jump to Step</h3>
@@ -379,7 +1927,7 @@ const App: React.FC = () => {
                   }`}
                 >
                   <div className={`${activeStep === idx ? 'text-blue-600' : 'text-slate-400'}`}>
-                     {step.icon}
+                     <StepIcon name={step.icon} />
                   </div>
                   <span className="font-medium">{step.title}</span>
                 </button>
@@ -400,76 +1948,244 @@ const App: React.FC = () => {
             />
           </div>
 
-          {/* Scrollable Content Area */}
-          <div className="flex-1 overflow-y-auto p-4 md:p-8 scroll-smooth">
-            <div className="max-w-3xl mx-auto pb-24"> {/* pb-24 for footer space */}
+          <div className="flex-1 flex min-h-0">
+            {/* Scrollable Content Area */}
+            <div className="flex-1 overflow-y-auto p-4 md:p-8 scroll-smooth">
+              <div className="max-w-3xl mx-auto pb-24"> {/* pb-24 for footer space */}
               
-              {/* Step Header */}
-              <div className="mb-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
-                <div className="flex items-center gap-3 text-slate-500 text-sm mb-3 font-medium">
-                  <span className="bg-slate-200 px-2 py-0.5 rounded text-slate-700 text-xs uppercase tracking-wide">
-                    Minute {activeStep === 1 ? '2-3' : (activeStep < 1 ? '1' : activeStep + 2)}
-                  </span>
-                  <span>Step {activeStep + 1} of {steps.length}</span>
+                {/* Step Header */}
+                <div className="mb-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
+                  <div className="flex items-center gap-3 text-slate-500 text-sm mb-3 font-medium">
+                    <span className="bg-slate-200 px-2 py-0.5 rounded text-slate-700 text-xs uppercase tracking-wide">
+                      {getStepMinuteLabel(steps, activeStep)}
+                    </span>
+                    <span>Step {activeStep + 1} of {steps.length}</span>
+                  </div>
+                  <h2 className="text-3xl font-bold text-slate-900 mb-3">{steps[activeStep].title}</h2>
+                  <p className="text-lg text-slate-600 leading-relaxed border-l-4 border-blue-200 pl-4">
+                    {steps[activeStep].description}
+                  </p>
                 </div>
-                <h2 className="text-3xl font-bold text-slate-900 mb-3">{steps[activeStep].title}</h2>
-                <p className="text-lg text-slate-600 leading-relaxed border-l-4 border-blue-200 pl-4">
-                  {steps[activeStep].description}
-                </p>
-              </div>
 
-              {/* Action Area */}
-              <div className="grid lg:grid-cols-2 gap-6">
+                {contractDocument && stepClauses.missing.length > 0 && (
+                  <div className="mb-6 flex items-start gap-2 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg p-3">
+                    <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                    <span>
+                      Could not find {stepClauses.missing.map((type) => CLAUSE_TYPE_LABELS[type]).join(', ')} in the contract.
+                      {' '}Check whether {stepClauses.missing.length === 1 ? 'it is' : 'they are'} missing or worded unusually.
+                    </span>
+                  </div>
+                )}
+
+                {review.previousVersion && contractDocument && (
+                  <StepChanges
+                    changes={getStepChanges(versionChanges, activeStep)}
+                    previousFileName={review.previousVersion.fileName}
+                    onShowAll={() => setShowVersionCompare(true)}
+                  />
+                )}
+
+                {firstPassLocked && (
+                  <div className={`mb-6 flex items-start gap-2 text-sm rounded-lg p-3 border ${REVIEW_STAGES[stage].badgeClass}`}>
+                    <Lock className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                    <span>
+                      {stage === 'signed-off' && review.signedOff
+                        ? `Signed off by ${describeAttribution(review.signedOff)}. The review is locked.`
+                        : `Second review. The first pass${reviewer ? ` by ${reviewer}` : ''} is read-only; agree or disagree with each flag and leave a comment.`}
+                    </span>
+                  </div>
+                )}
+
+                {contractDocument && !firstPassLocked && (
+                  <ScanSuggestions
+                    suggestions={stepSuggestions}
+                    config={scannerConfig}
+                    onAccept={acceptSuggestion}
+                    onDismiss={dismissSuggestion}
+                    onConfigChange={updateScannerConfig}
+                  />
+                )}
+
+                {contractDocument && !firstPassLocked && (
+                  <AssistPanel
+                    key={`${review.id}-${activeStep}`}
+                    step={steps[activeStep]}
+                    contractText={contractDocument.text}
+                    clauseSections={stepClauses.sections}
+                    settings={assistSettings}
+                    onSettingsChange={updateAssistSettings}
+                    onAccept={acceptAssistFlag}
+                  />
+                )}
+
+                {documentStatus.loading && (
+                  <p className="mb-6 text-sm text-slate-500 animate-pulse">Extracting contract text...</p>
+                )}
+                {documentStatus.error && (
+                  <div className="mb-6 flex items-start gap-2 text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg p-3">
+                    <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                    <span className="flex-1">{documentStatus.error}</span>
+                    <button onClick={() => setDocumentStatus({ loading: false })} aria-label="Dismiss">
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                )}
+
+                {/* Action Area */}
+                <div className={`grid gap-6 ${contractDocument ? '2xl:grid-cols-2' : 'lg:grid-cols-2'}`}>
                 
-                {/* Checklist */}
-                <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 flex flex-col h-full">
-                  <h3 className="font-bold text-slate-800 mb-4 flex items-center gap-2 border-b border-slate-100 pb-2">
-                    <CheckSquare className="w-5 h-5 text-blue-600" />
-                    Review Checklist
-                  </h3>
-                  <div className="space-y-3 flex-1">
-                    {steps[activeStep].checklist.map((item, i) => (
-                      <label key={i} className="flex items-start gap-3 cursor-pointer group p-2 hover:bg-slate-50 rounded-lg transition-colors -mx-2">
-                        <div className="relative flex items-center mt-0.5">
-                          <input 
-                            type="checkbox"
-                            checked={findings[activeStep]?.checked?.includes(item) || false}
-                            onChange={() => toggleChecklist(item)}
-                            className="peer h-5 w-5 cursor-pointer appearance-none rounded border border-slate-300 shadow-sm transition-all hover:border-blue-400 checked:border-blue-600 checked:bg-blue-600 focus:ring-2 focus:ring-blue-200 focus:ring-offset-1"
-                          />
-                           <svg className="pointer-events-none absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 opacity-0 peer-checked:opacity-100 w-3.5 h-3.5 text-white" viewBox="0 0 14 14" fill="none">
-                            <path d="M3 8L6 11L11 3.5" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
-                          </svg>
-                        </div>
-                        <span className={`text-sm leading-relaxed transition-colors ${findings[activeStep]?.checked?.includes(item) ? 'text-slate-900 font-medium' : 'text-slate-600 group-hover:text-slate-800'}`}>
-                          {item}
-                        </span>
-                      </label>
-                    ))}
+                  {/* Checklist */}
+                  <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 flex flex-col h-full">
+                    <h3 className="font-bold text-slate-800 mb-4 flex items-center gap-2 border-b border-slate-100 pb-2">
+                      <CheckSquare className="w-5 h-5 text-blue-600" />
+                      Review Checklist
+                      <span className="ml-auto text-xs font-normal text-slate-400">
+                        {getStepCoverage(steps[activeStep], findings[activeStep]).reviewed} of {steps[activeStep].checklist.length} reviewed
+                      </span>
+                    </h3>
+                    <div className="space-y-3 flex-1">
+                      {steps[activeStep].checklist.map((item, i) => (
+                        <React.Fragment key={i}>
+                          <div className="flex items-start gap-3 p-2 rounded-lg -mx-2">
+                            <span className={`flex-1 text-sm leading-relaxed ${
+                              getItemState(findings[activeStep], item) === 'not-reviewed' ? 'text-slate-600' : 'text-slate-900 font-medium'
+                            }`}>
+                              {item}
+                            </span>
+                            {findings[activeStep]?.checked?.includes(item) && (
+                              <span className={`mt-0.5 text-[10px] font-semibold uppercase tracking-wide px-1.5 py-0.5 rounded border whitespace-nowrap ${getSeverityMeta(getFlagDetail(findings[activeStep], item).severity).badgeClass}`}>
+                                {getSeverityMeta(getFlagDetail(findings[activeStep], item).severity).label}
+                              </span>
+                            )}
+                            <ItemStateControl
+                              item={item}
+                              state={getItemState(findings[activeStep], item)}
+                              disabled={firstPassLocked}
+                              onChange={(state) => updateItemState(item, state)}
+                            />
+                          </div>
+                          {getItemState(findings[activeStep], item) === 'not-reviewed' && findings[activeStep]?.skipped?.[item] && (
+                            <p className="-mt-2 ml-1 text-[11px] text-slate-400 italic">Skipped: {findings[activeStep].skipped![item]}</p>
+                          )}
+                          {findings[activeStep]?.checked?.includes(item) && (
+                            <FlagDetailsEditor
+                              detail={getFlagDetail(findings[activeStep], item)}
+                              onChange={(patch) => updateFlag(item, patch)}
+                              readOnly={firstPassLocked}
+                              onNegotiate={() => openNegotiation(activeStep, item)}
+                            />
+                          )}
+                          {findings[activeStep]?.checked?.includes(item) && firstPassLocked && (
+                            <SecondOpinionEditor
+                              opinion={getFlagDetail(findings[activeStep], item).secondOpinion}
+                              readOnly={stage === 'signed-off'}
+                              onChange={(opinion) => updateSecondOpinion(item, opinion)}
+                            />
+                          )}
+                        </React.Fragment>
+                      ))}
+                    </div>
                   </div>
-                </div>
 
-                {/* Notes */}
-                <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 flex flex-col h-full">
-                  <h3 className="font-bold text-slate-800 mb-4 flex items-center gap-2 border-b border-slate-100 pb-2">
-                    <AlertTriangle className="w-5 h-5 text-amber-500" />
-                    Red Flags / Notes
-                  </h3>
-                  <div className="flex-1 relative">
-                    <textarea 
-                      className="w-full h-full min-h-[200px] p-4 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none bg-slate-50 placeholder-slate-400 leading-relaxed"
-                      placeholder="Type specific issues, risky clauses, or missing definitions found in this section here..."
-                      value={findings[activeStep]?.notes || ''}
-                      onChange={(e) => updateFinding(e.target.value)}
-                    ></textarea>
-                    <div className="absolute bottom-3 right-3 pointer-events-none">
-                      <FileText className="w-4 h-4 text-slate-300" />
+                  {/* Notes */}
+                  <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 flex flex-col h-full">
+                    <h3 className="font-bold text-slate-800 mb-4 flex items-center gap-2 border-b border-slate-100 pb-2">
+                      <AlertTriangle className="w-5 h-5 text-amber-500" />
+                      Red Flags / Notes
+                      <button
+                        onClick={toggleNotesConfidential}
+                        disabled={firstPassLocked}
+                        className={`ml-auto flex items-center gap-1 text-xs font-medium px-2 py-0.5 rounded-full border transition-colors ${
+                          findings[activeStep]?.notesConfidential
+                            ? 'bg-slate-800 text-white border-slate-800'
+                            : 'text-slate-400 border-slate-200 hover:text-slate-600'
+                        }`}
+                        title="Confidential notes can be redacted from reports"
+                        aria-pressed={!!findings[activeStep]?.notesConfidential}
+                      >
+                        <EyeOff className="w-3 h-3" /> Confidential
+                      </button>
+                    </h3>
+                    <div className="flex-1 relative">
+                      <textarea 
+                        ref={notesRef}
+                        className="w-full h-full min-h-[200px] p-4 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none bg-slate-50 placeholder-slate-400 leading-relaxed"
+                        placeholder="Type specific issues, risky clauses, or missing definitions found in this section here..."
+                        value={findings[activeStep]?.notes || ''}
+                        onChange={(e) => updateFinding(e.target.value)}
+                        readOnly={firstPassLocked}
+                      ></textarea>
+                      <div className="absolute bottom-3 right-3 pointer-events-none">
+                        <FileText className="w-4 h-4 text-slate-300" />
+                      </div>
                     </div>
+                    {findings[activeStep]?.notesEditedBy && (
+                      <p className="mt-2 text-[11px] text-slate-400">
+                        Last edited by {describeAttribution(findings[activeStep].notesEditedBy!)}
+                      </p>
+                    )}
+                    {(findings[activeStep]?.excerpts?.length ?? 0) > 0 && (
+                      <div className="mt-4 space-y-2">
+                        <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider flex items-center gap-1.5">
+                          <Quote className="w-3.5 h-3.5" /> Contract Excerpts
+                        </h4>
+                        {findings[activeStep]?.excerpts?.map((excerpt) => (
+                          <blockquote key={excerpt.id} className="group relative text-xs text-slate-600 italic border-l-4 border-blue-300 bg-blue-50/50 pl-3 pr-7 py-2 rounded-r-md">
+                            "{excerpt.text}"
+                            <button
+                              onClick={() => removeExcerpt(excerpt.id)}
+                              hidden={firstPassLocked}
+                              className="absolute top-1.5 right-1.5 text-slate-300 hover:text-red-600 opacity-0 group-hover:opacity-100 transition-opacity"
+                              aria-label="Remove Excerpt"
+                            >
+                              <X className="w-3.5 h-3.5" />
+                            </button>
+                          </blockquote>
+                        ))}
+                      </div>
+                    )}
+                    <LibrarySuggestions
+                      groups={libraryGroups}
+                      canInsertNote={!firstPassLocked}
+                      onInsertNote={insertLibraryNote}
+                      onUseInNegotiation={applyLibraryToNegotiation}
+                      onOpenLibrary={() => setShowClauseLibrary(true)}
+                    />
                   </div>
+
                 </div>
 
+                {activeStep === obligationsStep && (
+                  <ObligationsTable
+                    obligations={findings[activeStep]?.obligations ?? []}
+                    candidates={obligationCandidates.filter((candidate) => !handledSuggestions.includes(candidate.id))}
+                    readOnly={firstPassLocked}
+                    onChange={(obligations) => updateObligations(() => obligations)}
+                    onAddCandidate={addObligationCandidate}
+                    onDismissCandidate={(candidate) => setHandledSuggestions((prev) => [...prev, candidate.id])}
+                    onExportCalendar={exportKeyDates}
+                  />
+                )}
               </div>
             </div>
+
+            {/* Contract Reader (Desktop) */}
+            {contractDocument && (
+              <aside className="hidden lg:flex flex-col w-[45%] max-w-2xl border-l border-slate-200 flex-shrink-0">
+                <ContractReader
+                  document={contractDocument}
+                  excerpts={findings[activeStep]?.excerpts || []}
+                  clauseSections={stepClauses.sections}
+                  stepTitle={steps[activeStep].title}
+                  onAttachExcerpt={firstPassLocked ? undefined : attachExcerpt}
+                  onClose={firstPassLocked ? undefined : () => {
+                    if (window.confirm('Unload the contract? Excerpts already attached to findings are kept.')) {
+                      setContractDocument(undefined);
+                    }
+                  }}
+                />
+              </aside>
+            )}
           </div>
 
           {/* Sticky Footer Controls */}
@@ -492,13 +2208,17 @@ const App: React.FC = () => {
                     className={`flex items-center gap-2 px-3 md:px-5 py-2.5 rounded-lg font-medium transition-colors text-sm md:text-base ${isTimerRunning ? 'bg-amber-50 text-amber-700 border border-amber-200 hover:bg-amber-100' : 'bg-blue-50 text-blue-700 border border-blue-200 hover:bg-blue-100'}`}
                   >
                     {isTimerRunning ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
-                    <span className="hidden sm:inline">{isTimerRunning ? 'Pause Timer' : 'Start Timer'}</span>
+                    <span className="hidden sm:inline">
+                      {sessionSettings.enabled
+                        ? (isTimerRunning ? 'Pause All' : 'Start Session')
+                        : (isTimerRunning ? 'Pause Timer' : 'Start Timer')}
+                    </span>
                     <span className="sm:hidden">{isTimerRunning ? 'Pause' : 'Start'}</span>
                   </button>
                    <button 
                     onClick={resetTimer}
                     className="p-2.5 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors border border-transparent hover:border-slate-200"
-                    title="Reset Step Timer"
+                    title="Reset Step Timer (discards the time recorded on this step)"
                   >
                     <RotateCcw className="w-4 h-4" />
                   </button>
@@ -518,6 +2238,28 @@ const App: React.FC = () => {
 
         </div>
       </main>
+      {newReviewDialog}
+      {unreviewedItems && (
+        <CompletionGate
+          steps={steps}
+          items={unreviewedItems}
+          onGoToStep={(stepIndex) => {
+            setUnreviewedItems(null);
+            setActiveStep(stepIndex);
+          }}
+          onSkip={skipAndFinish}
+          onClose={() => setUnreviewedItems(null)}
+        />
+      )}
+      {showSessionSettings && (
+        <SessionSettingsDialog
+          settings={sessionSettings}
+          plannedTotal={getPlannedTotal(steps)}
+          onChange={updateSessionSettings}
+          onClose={() => setShowSessionSettings(false)}
+        />
+      )}
+      {shortcutDialogs}
     </div>
   );
 };
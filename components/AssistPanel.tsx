@@ -0,0 +1,194 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Sparkles, Check, X, Settings, Loader2, AlertTriangle } from 'lucide-react';
+import { AssistFlag, AssistProviderId, AssistSettings, ClauseSection, StepDefinition } from '../types';
+import { ASSIST_PROVIDERS, ASSIST_PROVIDER_IDS } from '../services/assistProviders';
+import { requestAssist, hasUsableKey } from '../services/assist';
+import { getSeverityMeta } from '../services/risk';
+
+interface AssistPanelProps {
+  step: StepDefinition;
+  contractText: string;
+  clauseSections: ClauseSection[]; // candidate clauses for the step; these are what gets sent
+  settings: AssistSettings;
+  onSettingsChange: (settings: AssistSettings) => void;
+  onAccept: (flag: AssistFlag) => void;
+}
+
+const AssistPanel: React.FC<AssistPanelProps> = ({ step, contractText, clauseSections, settings, onSettingsChange, onAccept }) => {
+  const [flags, setFlags] = useState<AssistFlag[] | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showSettings, setShowSettings] = useState<boolean>(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const provider = ASSIST_PROVIDERS[settings.provider];
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const runAssist = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setLoading(true);
+    setError(null);
+    try {
+      setFlags(await requestAssist(settings, step, contractText, clauseSections, controller.signal));
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      setError(err instanceof Error ? err.message : 'Assist failed.');
+    } finally {
+      if (abortRef.current === controller) setLoading(false);
+    }
+  };
+
+  const removeFlag = (id: string) => setFlags((prev) => prev && prev.filter((flag) => flag.id !== id));
+
+  const changeProvider = (id: AssistProviderId) =>
+    onSettingsChange({ ...settings, provider: id, model: ASSIST_PROVIDERS[id].defaultModel });
+
+  return (
+    <div className="mb-6 bg-white rounded-xl shadow-sm border border-slate-200">
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-slate-100">
+        <Sparkles className="w-4 h-4 text-fuchsia-600" />
+        <h3 className="text-sm font-bold text-slate-800">Assist</h3>
+        <span className="text-xs text-slate-400 truncate">{provider.label}{settings.provider !== 'mock' ? ` · ${settings.model}` : ''}</span>
+        <button
+          onClick={() => setShowSettings((prev) => !prev)}
+          className={`ml-auto p-1.5 rounded-md transition-colors ${showSettings ? 'bg-slate-100 text-slate-700' : 'text-slate-400 hover:text-slate-600 hover:bg-slate-100'}`}
+          title="Assist Settings"
+        >
+          <Settings className="w-4 h-4" />
+        </button>
+        <button
+          onClick={runAssist}
+          disabled={loading || !hasUsableKey(settings)}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium rounded-md bg-fuchsia-600 hover:bg-fuchsia-700 text-white transition-colors disabled:opacity-40"
+          title={hasUsableKey(settings) ? `Send this step's clauses and checklist to ${provider.label}` : 'Add an API key in Assist settings'}
+        >
+          {loading ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Sparkles className="w-3.5 h-3.5" />}
+          {flags ? 'Ask Again' : 'Assist'}
+        </button>
+      </div>
+
+      {showSettings && (
+        <div className="p-4 border-b border-slate-100 bg-slate-50 space-y-3 text-sm">
+          <div className="grid sm:grid-cols-2 gap-3">
+            <label className="block">
+              <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Provider</span>
+              <select
+                value={settings.provider}
+                onChange={(e) => changeProvider(e.target.value as AssistProviderId)}
+                className="mt-1 w-full p-2 border border-slate-200 rounded-lg text-xs bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {ASSIST_PROVIDER_IDS.map((id) => <option key={id} value={id}>{ASSIST_PROVIDERS[id].label}</option>)}
+              </select>
+            </label>
+            {settings.provider !== 'mock' && (
+              <label className="block">
+                <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Model</span>
+                <input
+                  type="text"
+                  value={settings.model}
+                  onChange={(e) => onSettingsChange({ ...settings, model: e.target.value })}
+                  className="mt-1 w-full p-2 border border-slate-200 rounded-lg text-xs bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </label>
+            )}
+          </div>
+          <p className="text-xs text-slate-500">{provider.description}</p>
+          {provider.needsEndpoint && (
+            <label className="block">
+              <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Endpoint</span>
+              <input
+                type="url"
+                value={settings.endpoint}
+                onChange={(e) => onSettingsChange({ ...settings, endpoint: e.target.value })}
+                placeholder="https://api.openai.com/v1"
+                className="mt-1 w-full p-2 border border-slate-200 rounded-lg text-xs bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+          )}
+          {settings.provider !== 'mock' && (
+            <label className="block">
+              <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">API key</span>
+              <input
+                type="password"
+                value={settings.apiKey}
+                onChange={(e) => onSettingsChange({ ...settings, apiKey: e.target.value })}
+                placeholder={settings.provider === 'gemini' ? 'Uses GEMINI_API_KEY from .env.local when empty' : 'Optional for local servers'}
+                autoComplete="off"
+                className="mt-1 w-full p-2 border border-slate-200 rounded-lg text-xs bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              <span className="block mt-1 text-xs text-slate-400">Stored in this browser only. Never saved with reviews or included in reports.</span>
+            </label>
+          )}
+        </div>
+      )}
+
+      {error && (
+        <div className="px-4 py-3 flex items-start gap-2 text-sm text-red-700 bg-red-50 border-b border-red-100">
+          <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      {flags === null ? (
+        <p className="px-4 py-3 text-sm text-slate-500">
+          Sends {clauseSections.length > 0 ? `the ${clauseSections.length} candidate clause${clauseSections.length === 1 ? '' : 's'}` : 'the start of the contract'} and
+          this step's checklist to the model. Suggestions need your review before they count.
+        </p>
+      ) : flags.length === 0 ? (
+        <p className="px-4 py-3 text-sm text-slate-500">No suggestions left for this step.</p>
+      ) : (
+        <ul className="divide-y divide-slate-100 max-h-72 overflow-y-auto">
+          {flags.map((flag) => {
+            const severity = getSeverityMeta(flag.severity);
+            return (
+              <li key={flag.id} className="px-4 py-3 flex gap-3">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className={`text-[10px] font-semibold uppercase tracking-wide px-1.5 py-0.5 rounded border ${severity.badgeClass}`}>
+                      {severity.label}
+                    </span>
+                    <span className="text-sm font-medium text-slate-800 truncate">{flag.checklistItem || 'Other issue'}</span>
+                    {flag.clauseRef && <span className="text-xs text-slate-400 font-mono">{flag.clauseRef}</span>}
+                  </div>
+                  <p className="text-xs text-slate-600">{flag.rationale}</p>
+                  {flag.quote && (
+                    <p className="mt-1 text-xs text-slate-500 italic truncate" title={flag.quote}>"{flag.quote}"</p>
+                  )}
+                  {flag.quote && flag.start === undefined && (
+                    <p className="mt-1 flex items-center gap-1 text-xs text-amber-700">
+                      <AlertTriangle className="w-3 h-3" /> Quote not found in the contract; verify before accepting.
+                    </p>
+                  )}
+                </div>
+                <div className="flex flex-col gap-1">
+                  <button
+                    onClick={() => {
+                      onAccept(flag);
+                      removeFlag(flag.id);
+                    }}
+                    className="p-1.5 rounded-md text-emerald-600 hover:bg-emerald-50 transition-colors"
+                    title={flag.checklistItem ? `Flag "${flag.checklistItem}"` : 'Add to notes'}
+                  >
+                    <Check className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => removeFlag(flag.id)}
+                    className="p-1.5 rounded-md text-slate-400 hover:text-slate-600 hover:bg-slate-100 transition-colors"
+                    title="Dismiss"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default AssistPanel;
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { ScrollText, ChevronDown, ChevronRight } from 'lucide-react';
+import { ChangeLogEntry, StepDefinition } from '../types';
+
+interface ChangeLogProps {
+  entries: ChangeLogEntry[]; // oldest first
+  steps: StepDefinition[];
+}
+
+// Collapsed by default: a long review easily runs to hundreds of entries.
+const ChangeLog: React.FC<ChangeLogProps> = ({ entries, steps }) => {
+  const [open, setOpen] = useState<boolean>(false);
+  const [stepFilter, setStepFilter] = useState<string>('all');
+
+  const shown = entries
+    .filter((entry) => stepFilter === 'all' || String(entry.stepIndex) === stepFilter)
+    .slice()
+    .reverse();
+
+  return (
+    <div className="mb-8 border border-slate-200 rounded-lg overflow-hidden">
+      <button
+        onClick={() => setOpen((prev) => !prev)}
+        aria-expanded={open}
+        className="w-full flex items-center gap-2 px-4 py-3 bg-slate-50 text-left hover:bg-slate-100"
+      >
+        <ScrollText className="w-4 h-4 text-slate-500" />
+        <h3 className="text-sm font-bold text-slate-700">Change Log</h3>
+        <span className="text-xs text-slate-400">{entries.length} {entries.length === 1 ? 'change' : 'changes'}</span>
+        {open ? <ChevronDown className="w-4 h-4 text-slate-400 ml-auto" /> : <ChevronRight className="w-4 h-4 text-slate-400 ml-auto" />}
+      </button>
+      {open && (
+        <div className="border-t border-slate-200">
+          {entries.length > 0 && (
+            <div className="px-4 py-2 border-b border-slate-100">
+              <select
+                value={stepFilter}
+                onChange={(e) => setStepFilter(e.target.value)}
+                className="text-xs p-1.5 border border-slate-200 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                aria-label="Show changes for"
+              >
+                <option value="all">All steps</option>
+                {steps.map((step, index) => (
+                  <option key={step.id} value={String(index)}>{index + 1}. {step.title}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          {shown.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-slate-400 italic">No changes recorded.</p>
+          ) : (
+            <ul className="max-h-80 overflow-y-auto divide-y divide-slate-100 text-sm">
+              {shown.map((entry, index) => (
+                <li key={index} className="px-4 py-2 flex gap-3">
+                  <time dateTime={entry.at} className="text-xs font-mono text-slate-400 whitespace-nowrap pt-0.5">
+                    {new Date(entry.at).toLocaleString()}
+                  </time>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-slate-700">{entry.description}</p>
+                    <p className="text-xs text-slate-400">
+                      {entry.by || 'Unknown'}
+                      {entry.stepIndex !== undefined && steps[entry.stepIndex] && ` · ${entry.stepIndex + 1}. ${steps[entry.stepIndex].title}`}
+                    </p>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChangeLog;
@@ -0,0 +1,41 @@
+import React, { useMemo } from 'react';
+import { ClauseChange } from '../types';
+import { CLAUSE_CHANGE_STATUSES } from '../constants';
+import { diffWords } from '../services/versionCompare';
+
+interface ClauseDiffProps {
+  change: ClauseChange;
+}
+
+const ClauseDiff: React.FC<ClauseDiffProps> = ({ change }) => {
+  const meta = CLAUSE_CHANGE_STATUSES[change.status];
+  const parts = useMemo(
+    () => (change.status === 'modified' ? diffWords(change.oldText ?? '', change.newText ?? '') : []),
+    [change]
+  );
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 mb-1">
+        <span className={`text-[10px] font-semibold uppercase tracking-wide px-1.5 py-0.5 rounded border ${meta.badgeClass}`}>
+          {meta.label}
+        </span>
+        {change.number && <span className="text-xs text-slate-400 font-mono">§{change.number}</span>}
+        {change.heading && <span className="text-sm font-medium text-slate-800 truncate">{change.heading}</span>}
+      </div>
+      <p className="text-xs leading-relaxed whitespace-pre-wrap text-slate-600">
+        {change.status === 'modified' ? parts.map((part, i) => (
+          part.kind === 'same' ? <span key={i}>{part.text}</span>
+            : part.kind === 'added' ? <ins key={i} className="bg-emerald-100 text-emerald-800 no-underline">{part.text}</ins>
+            : <del key={i} className="bg-red-100 text-red-700">{part.text}</del>
+        )) : change.status === 'added' ? (
+          <ins className="bg-emerald-50 text-emerald-800 no-underline">{change.newText}</ins>
+        ) : change.status === 'removed' ? (
+          <del className="bg-red-50 text-red-700">{change.oldText}</del>
+        ) : change.newText}
+      </p>
+    </div>
+  );
+};
+
+export default ClauseDiff;
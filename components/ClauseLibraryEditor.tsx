@@ -0,0 +1,344 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Library, Plus, Upload, Download, CopyPlus, Trash2, Save, Search, X } from 'lucide-react';
+import { ClauseLibraryEntry } from '../types';
+import {
+  CLAUSE_POSITION_KINDS,
+  ClausePositionKind,
+  createClauseEntry,
+  deleteClauseEntry,
+  listClauseLibrary,
+  parseClauseLibraryJson,
+  saveClauseEntry,
+  searchClauseLibrary,
+  toClauseLibraryFile,
+  validateClauseContent
+} from '../services/clauseLibrary';
+import { listPlaybooks } from '../services/playbookStorage';
+import { downloadFile } from '../utils/download';
+
+interface ClauseLibraryEditorProps {
+  onClose: () => void;
+}
+
+const POSITION_PLACEHOLDERS: Record<ClausePositionKind, string> = {
+  preferred: 'The wording we propose first',
+  acceptable: 'Wording we can settle for',
+  unacceptable: 'Language to push back on',
+};
+
+const ClauseLibraryEditor: React.FC<ClauseLibraryEditorProps> = ({ onClose }) => {
+  const [entries, setEntries] = useState<ClauseLibraryEntry[]>([]);
+  const [draft, setDraft] = useState<ClauseLibraryEntry | null>(null);
+  const [dirty, setDirty] = useState<boolean>(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [query, setQuery] = useState<string>('');
+  const [newItem, setNewItem] = useState<string>('');
+  const [knownItems, setKnownItems] = useState<string[]>([]); // checklist items of every playbook, offered when linking
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = useCallback(async (selectId?: string) => {
+    const all = await listClauseLibrary();
+    setEntries(all);
+    const selected = all.find((entry) => entry.id === selectId) ?? all[0] ?? null;
+    setDraft(selected && structuredClone(selected));
+    setDirty(false);
+    setErrors([]);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    listPlaybooks().then((playbooks) => setKnownItems([...new Set(playbooks.flatMap((playbook) =>
+      playbook.steps.flatMap((step) => [...step.checklist, ...(step.conditionalChecklist ?? []).map((item) => item.text)])
+    ))]));
+  }, [refresh]);
+
+  const confirmDiscard = () => !dirty || window.confirm('Discard unsaved changes to this entry?');
+
+  const selectEntry = (entry: ClauseLibraryEntry) => {
+    if (!confirmDiscard()) return;
+    setDraft(structuredClone(entry));
+    setDirty(false);
+    setErrors([]);
+  };
+
+  const updateDraft = (patch: Partial<ClauseLibraryEntry>) => {
+    setDraft((prev) => (prev ? { ...prev, ...patch } : prev));
+    setDirty(true);
+  };
+
+  const linkItem = () => {
+    const item = newItem.trim();
+    if (!draft || !item) return;
+    if (!draft.checklistItems.some((linked) => linked.toLowerCase() === item.toLowerCase())) {
+      updateDraft({ checklistItems: [...draft.checklistItems, item] });
+    }
+    setNewItem('');
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const result = validateClauseContent(draft);
+    if (result.ok === false) {
+      setErrors(result.errors);
+      return;
+    }
+    const saved = await saveClauseEntry({ ...draft, ...result.value });
+    await refresh(saved.id);
+  };
+
+  const handleCreate = async () => {
+    if (!confirmDiscard()) return;
+    const entry = createClauseEntry({ topic: 'New topic', checklistItems: [], preferred: '', acceptable: '', unacceptable: '', guidance: '' });
+    await saveClauseEntry(entry);
+    await refresh(entry.id);
+  };
+
+  const handleDuplicate = async () => {
+    if (!draft || !confirmDiscard()) return;
+    const copy = createClauseEntry({ ...draft, topic: `${draft.topic} (copy)` });
+    await saveClauseEntry(copy);
+    await refresh(copy.id);
+  };
+
+  const handleDelete = async () => {
+    if (!draft || draft.builtIn) return;
+    if (window.confirm(`Delete the library entry "${draft.topic}"?`)) {
+      await deleteClauseEntry(draft.id);
+      await refresh();
+    }
+  };
+
+  const ownEntries = entries.filter((entry) => !entry.builtIn);
+
+  const handleExport = () => {
+    const json = JSON.stringify(toClauseLibraryFile(ownEntries), null, 2);
+    downloadFile('clause-library.json', json, 'application/json');
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !confirmDiscard()) return;
+    const result = parseClauseLibraryJson(await file.text());
+    if (result.ok === false) {
+      setErrors([`Could not import "${file.name}":`, ...result.errors]);
+      return;
+    }
+    const imported = result.value.map(createClauseEntry);
+    for (const entry of imported) await saveClauseEntry(entry);
+    await refresh(imported[0].id);
+  };
+
+  const visible = searchClauseLibrary(entries, query);
+  const readOnly = draft?.builtIn ?? true;
+
+  return (
+    <div className="flex flex-col h-screen bg-slate-50 text-slate-900 font-sans">
+      <header className="bg-slate-900 text-white p-4 shadow-md flex justify-between items-center z-10">
+        <h1 className="text-xl font-bold flex items-center gap-2">
+          <Library className="w-6 h-6" /> Clause Library
+        </h1>
+        <button
+          onClick={() => confirmDiscard() && onClose()}
+          className="text-sm text-slate-300 hover:text-white font-medium"
+        >
+          Return to Review
+        </button>
+      </header>
+
+      <main className="flex-1 flex overflow-hidden max-w-6xl mx-auto w-full">
+        {/* Entry list */}
+        <aside className="w-72 bg-white border-r border-slate-200 overflow-y-auto flex-shrink-0 p-4 hidden md:block">
+          <div className="flex gap-2 mb-3">
+            <button
+              onClick={handleCreate}
+              className="flex-1 flex items-center justify-center gap-1.5 px-3 py-2 text-sm rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-medium transition-colors"
+            >
+              <Plus className="w-4 h-4" /> New
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex-1 flex items-center justify-center gap-1.5 px-3 py-2 text-sm rounded-lg bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 font-medium transition-colors"
+            >
+              <Upload className="w-4 h-4" /> Import
+            </button>
+            <button
+              onClick={handleExport}
+              disabled={ownEntries.length === 0}
+              className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-30"
+              title="Export your entries as JSON"
+            >
+              <Download className="w-4 h-4" />
+            </button>
+            <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+          </div>
+          <label className="relative block mb-3">
+            <Search className="w-4 h-4 text-slate-400 absolute left-2.5 top-1/2 -translate-y-1/2" />
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search topics and wording"
+              className="w-full pl-8 pr-2 py-2 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </label>
+          <div className="space-y-1">
+            {visible.map((entry) => (
+              <button
+                key={entry.id}
+                onClick={() => selectEntry(entry)}
+                className={`w-full text-left p-3 rounded-lg text-sm border transition-all ${
+                  draft?.id === entry.id
+                    ? 'bg-blue-50 text-blue-700 border-blue-200 shadow-sm'
+                    : 'text-slate-600 hover:bg-slate-50 border-transparent'
+                }`}
+              >
+                <span className="font-medium block truncate">{entry.topic}</span>
+                <span className="text-xs text-slate-400">
+                  {entry.checklistItems.length} linked {entry.checklistItems.length === 1 ? 'item' : 'items'}{entry.builtIn ? ' · Built-in' : ''}
+                </span>
+              </button>
+            ))}
+            {visible.length === 0 && <p className="text-sm text-slate-400 p-3">No entry matches "{query}".</p>}
+          </div>
+        </aside>
+
+        {/* Entry detail */}
+        <div className="flex-1 overflow-y-auto p-4 md:p-8">
+          {draft && (
+            <div className="max-w-3xl mx-auto pb-24 space-y-6">
+              {/* Entry picker (Mobile) */}
+              <select
+                value={draft.id}
+                onChange={(e) => {
+                  const entry = entries.find((candidate) => candidate.id === e.target.value);
+                  if (entry) selectEntry(entry);
+                }}
+                className="md:hidden w-full p-3 border border-slate-200 rounded-lg text-sm bg-white"
+              >
+                {entries.map((entry) => <option key={entry.id} value={entry.id}>{entry.topic}</option>)}
+              </select>
+
+              <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 space-y-4">
+                <input
+                  type="text"
+                  value={draft.topic}
+                  disabled={readOnly}
+                  onChange={(e) => updateDraft({ topic: e.target.value })}
+                  className="w-full text-2xl font-bold text-slate-900 bg-transparent border-b border-transparent focus:border-blue-500 focus:outline-none disabled:cursor-default"
+                />
+                <textarea
+                  value={draft.guidance}
+                  disabled={readOnly}
+                  placeholder="Guidance for the reviewer: when to use which wording"
+                  onChange={(e) => updateDraft({ guidance: e.target.value })}
+                  className="w-full p-3 border border-slate-200 rounded-lg text-sm resize-none bg-slate-50 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:cursor-default"
+                  rows={2}
+                />
+                {readOnly && (
+                  <p className="text-xs text-slate-500">Built-in entries are read-only. Duplicate this one to adapt it.</p>
+                )}
+                <div className="flex flex-wrap gap-2">
+                  {!readOnly && (
+                    <button
+                      onClick={handleSave}
+                      disabled={!dirty}
+                      className="flex items-center gap-1.5 px-4 py-2 text-sm rounded-lg bg-slate-900 hover:bg-slate-800 text-white font-medium transition-colors disabled:opacity-40"
+                    >
+                      <Save className="w-4 h-4" /> Save
+                    </button>
+                  )}
+                  <button
+                    onClick={handleDuplicate}
+                    className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+                    title="Duplicate Entry"
+                  >
+                    <CopyPlus className="w-4 h-4" />
+                  </button>
+                  {!readOnly && (
+                    <button
+                      onClick={handleDelete}
+                      className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                      title="Delete Entry"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+                {errors.length > 0 && (
+                  <ul className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg p-3 space-y-1">
+                    {errors.map((error, i) => <li key={i}>{error}</li>)}
+                  </ul>
+                )}
+              </div>
+
+              <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 space-y-3">
+                <p className="text-xs font-bold text-slate-400 uppercase tracking-wider">
+                  Linked checklist items <span className="normal-case font-normal">(the entry is offered when one of these is flagged)</span>
+                </p>
+                <div className="flex flex-wrap gap-1.5">
+                  {draft.checklistItems.map((item) => (
+                    <span key={item} className="flex items-center gap-1 text-xs px-2 py-1 rounded-full border bg-slate-50 text-slate-600 border-slate-200">
+                      {item}
+                      {!readOnly && (
+                        <button
+                          onClick={() => updateDraft({ checklistItems: draft.checklistItems.filter((linked) => linked !== item) })}
+                          className="text-slate-400 hover:text-red-600"
+                          aria-label={`Unlink ${item}`}
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      )}
+                    </span>
+                  ))}
+                  {draft.checklistItems.length === 0 && <span className="text-xs text-slate-400 italic">Not linked yet.</span>}
+                </div>
+                {!readOnly && (
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      list="clause-library-known-items"
+                      value={newItem}
+                      onChange={(e) => setNewItem(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && linkItem()}
+                      placeholder="Checklist item, as written in the playbook"
+                      className="flex-1 p-2 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                    <datalist id="clause-library-known-items">
+                      {knownItems.map((item) => <option key={item} value={item} />)}
+                    </datalist>
+                    <button
+                      onClick={linkItem}
+                      disabled={!newItem.trim()}
+                      className="flex items-center gap-1.5 text-sm text-blue-600 hover:text-blue-700 font-medium disabled:opacity-40"
+                    >
+                      <Plus className="w-4 h-4" /> Link
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {(Object.keys(CLAUSE_POSITION_KINDS) as ClausePositionKind[]).map((kind) => (
+                <div key={kind} className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 space-y-2">
+                  <span className={`inline-block text-[10px] font-semibold uppercase tracking-wide px-1.5 py-0.5 rounded border ${CLAUSE_POSITION_KINDS[kind].badgeClass}`}>
+                    {CLAUSE_POSITION_KINDS[kind].label}
+                  </span>
+                  <textarea
+                    value={draft[kind]}
+                    disabled={readOnly}
+                    placeholder={POSITION_PLACEHOLDERS[kind]}
+                    onChange={(e) => updateDraft({ [kind]: e.target.value })}
+                    className="w-full p-3 border border-slate-200 rounded-lg text-sm resize-y focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:cursor-default disabled:bg-slate-50"
+                    rows={4}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default ClauseLibraryEditor;
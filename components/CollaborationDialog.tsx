@@ -0,0 +1,142 @@
+import React from 'react';
+import { X, Users, RefreshCw } from 'lucide-react';
+import { ReviewRecord, SyncSettings, SyncTransportId } from '../types';
+import { REVIEW_STAGES, describeAttribution, getStage } from '../services/collaboration';
+import { MOCK_VAULT_ERROR, SYNC_TRANSPORTS, SYNC_TRANSPORT_IDS, SyncStatus } from '../services/sync';
+
+interface CollaborationDialogProps {
+  userName: string;
+  review: ReviewRecord;
+  settings: SyncSettings;
+  status: SyncStatus;
+  vaultEnabled: boolean;
+  onUserNameChange: (name: string) => void;
+  onSettingsChange: (settings: SyncSettings) => void;
+  onSyncNow: () => void;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<SyncStatus['state'], string> = {
+  off: 'Sync is off. This review is only saved in this browser.',
+  syncing: 'Syncing...',
+  synced: 'Up to date with the server.',
+  offline: 'Could not sync. Changes are kept here and sent when the server is back.',
+  conflict: 'Waiting for you to settle conflicting edits.',
+};
+
+const CollaborationDialog: React.FC<CollaborationDialogProps> = ({
+  userName,
+  review,
+  settings,
+  status,
+  vaultEnabled,
+  onUserNameChange,
+  onSettingsChange,
+  onSyncNow,
+  onClose
+}) => {
+  const stage = getStage(review);
+  const transport = SYNC_TRANSPORTS[settings.transport];
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-xl border border-slate-200 p-6 max-w-md w-full max-h-[80vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <Users className="w-5 h-5" /> Collaboration
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <label className="block mb-4">
+          <span className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">Your name</span>
+          <input
+            type="text"
+            value={userName}
+            onChange={(e) => onUserNameChange(e.target.value)}
+            placeholder="Recorded on every flag and note you change"
+            className="w-full p-2 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </label>
+
+        <div className="mb-4 p-3 rounded-lg bg-slate-50 border border-slate-200 text-sm space-y-1">
+          <p className="flex items-center gap-2">
+            <span className={`text-[10px] font-semibold uppercase tracking-wide px-1.5 py-0.5 rounded border ${REVIEW_STAGES[stage].badgeClass}`}>
+              {REVIEW_STAGES[stage].label}
+            </span>
+          </p>
+          <p className="text-slate-600">First pass: {review.reviewer || 'not recorded'}</p>
+          {review.secondReviewer && <p className="text-slate-600">Second review: {review.secondReviewer}</p>}
+          {review.signedOff && <p className="text-slate-600">Signed off: {describeAttribution(review.signedOff)}</p>}
+        </div>
+
+        <label className="flex items-start gap-3 p-3 rounded-lg border border-slate-200 cursor-pointer mb-4">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => onSettingsChange({ ...settings, enabled: e.target.checked })}
+            className="mt-1"
+          />
+          <span>
+            <span className="block text-sm font-medium text-slate-800">Share reviews through a sync server</span>
+            <span className="block text-xs text-slate-500">
+              Open reviews are sent to the server as you work and other reviewers' changes come back every few seconds.
+            </span>
+          </span>
+        </label>
+
+        <fieldset disabled={!settings.enabled} className="space-y-3 disabled:opacity-50">
+          <label className="block">
+            <span className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">Connect through</span>
+            <select
+              value={settings.transport}
+              onChange={(e) => onSettingsChange({ ...settings, transport: e.target.value as SyncTransportId })}
+              className="w-full p-2 border border-slate-200 rounded-lg text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {SYNC_TRANSPORT_IDS.map((id) => <option key={id} value={id}>{SYNC_TRANSPORTS[id].label}</option>)}
+            </select>
+            <span className="block text-xs text-slate-500 mt-1">{transport.description}</span>
+            {settings.transport === 'mock' && vaultEnabled && (
+              <span className="block text-xs text-amber-700 mt-1">{MOCK_VAULT_ERROR}</span>
+            )}
+          </label>
+          {settings.transport === 'http' && (
+            <label className="block">
+              <span className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">Server URL</span>
+              <input
+                type="url"
+                value={settings.serverUrl}
+                onChange={(e) => onSettingsChange({ ...settings, serverUrl: e.target.value })}
+                className="w-full p-2 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+          )}
+          <div className="flex items-start justify-between gap-3 text-xs">
+            <p className={status.state === 'offline' ? 'text-red-600' : 'text-slate-500'}>
+              {STATUS_LABELS[status.state]}
+              {status.error && <span className="block">{status.error}</span>}
+              {status.syncedAt && status.state !== 'off' && (
+                <span className="block text-slate-400">Last synced {new Date(status.syncedAt).toLocaleTimeString()}</span>
+              )}
+            </p>
+            <button
+              type="button"
+              onClick={onSyncNow}
+              disabled={status.state === 'syncing' || status.state === 'conflict'}
+              className="flex items-center gap-1 text-blue-600 hover:text-blue-800 font-medium whitespace-nowrap disabled:opacity-40"
+            >
+              <RefreshCw className="w-3.5 h-3.5" /> Sync now
+            </button>
+          </div>
+        </fieldset>
+      </div>
+    </div>
+  );
+};
+
+export default CollaborationDialog;
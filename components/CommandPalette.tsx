@@ -0,0 +1,109 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { Search } from 'lucide-react';
+import { formatCombo } from '../services/shortcuts';
+
+export interface PaletteCommand {
+  id: string;
+  label: string;
+  group: string;
+  binding: string;
+}
+
+interface CommandPaletteProps {
+  commands: PaletteCommand[];
+  onRun: (id: string) => void;
+  onClose: () => void;
+}
+
+// Every word typed must appear somewhere in the label or group, in any order.
+const matches = (command: PaletteCommand, query: string) => {
+  const haystack = `${command.label} ${command.group}`.toLowerCase();
+  return query.toLowerCase().split(/\s+/).filter(Boolean).every((word) => haystack.includes(word));
+};
+
+const CommandPalette: React.FC<CommandPaletteProps> = ({ commands, onRun, onClose }) => {
+  const [query, setQuery] = useState<string>('');
+  const [selected, setSelected] = useState<number>(0);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const filtered = useMemo(() => commands.filter((command) => matches(command, query)), [commands, query]);
+
+  useEffect(() => {
+    setSelected(0);
+  }, [query]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${selected}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [selected]);
+
+  const run = (command: PaletteCommand | undefined) => {
+    if (!command) return;
+    onClose();
+    onRun(command.id);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelected((prev) => Math.min(prev + 1, filtered.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelected((prev) => Math.max(prev - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      run(filtered[selected]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 z-50 flex items-start justify-center p-4 pt-[15vh]" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-xl border border-slate-200 max-w-xl w-full overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label="Command palette"
+      >
+        <div className="flex items-center gap-3 px-4 border-b border-slate-200">
+          <Search className="w-4 h-4 text-slate-400" />
+          <input
+            autoFocus
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Type a command..."
+            className="flex-1 py-3 text-sm focus:outline-none"
+            aria-label="Search commands"
+          />
+        </div>
+        <ul ref={listRef} className="max-h-80 overflow-y-auto py-2" role="listbox">
+          {filtered.length === 0 && <li className="px-4 py-2 text-sm text-slate-500">No matching commands.</li>}
+          {filtered.map((command, index) => (
+            <li
+              key={command.id}
+              data-index={index}
+              role="option"
+              aria-selected={index === selected}
+              onMouseEnter={() => setSelected(index)}
+              onClick={() => run(command)}
+              className={`px-4 py-2 flex items-center gap-3 text-sm cursor-pointer ${index === selected ? 'bg-blue-50 text-blue-800' : 'text-slate-700'}`}
+            >
+              <span className="text-[10px] uppercase tracking-wider text-slate-400 w-16 flex-shrink-0">{command.group}</span>
+              <span className="flex-1 truncate">{command.label}</span>
+              {command.binding && (
+                <kbd className="text-xs font-mono text-slate-500 bg-slate-100 border border-slate-200 rounded px-1.5 py-0.5">
+                  {formatCombo(command.binding)}
+                </kbd>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default CommandPalette;
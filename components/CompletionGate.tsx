@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { X, ListChecks, ChevronRight } from 'lucide-react';
+import { StepDefinition } from '../types';
+import { UnreviewedItem } from '../services/coverage';
+
+interface CompletionGateProps {
+  steps: StepDefinition[];
+  items: UnreviewedItem[]; // reasons given before are filled in
+  onGoToStep: (stepIndex: number) => void;
+  onSkip: (items: UnreviewedItem[]) => void; // every item has a reason
+  onClose: () => void;
+}
+
+const itemKey = (item: UnreviewedItem) => `${item.stepIndex}:${item.item}`;
+
+// Finishing with checklist items nobody looked at needs a reason for each, so the report can say
+// why they were skipped instead of implying they were fine.
+const CompletionGate: React.FC<CompletionGateProps> = ({ steps, items, onGoToStep, onSkip, onClose }) => {
+  const [reasons, setReasons] = useState<Record<string, string>>(() =>
+    Object.fromEntries(items.map((item) => [itemKey(item), item.reason]))
+  );
+  const [sharedReason, setSharedReason] = useState<string>('');
+
+  const missing = items.filter((item) => !reasons[itemKey(item)]?.trim()).length;
+  const stepIndexes = Array.from(new Set<number>(items.map((item) => item.stepIndex)));
+
+  const fillBlanks = () =>
+    setReasons((prev) => Object.fromEntries(items.map((item) => [itemKey(item), prev[itemKey(item)]?.trim() ? prev[itemKey(item)] : sharedReason])));
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-xl border border-slate-200 p-6 max-w-2xl w-full max-h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <ListChecks className="w-5 h-5" /> Unreviewed Items
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-sm text-slate-600 mb-4">
+          {items.length} checklist {items.length === 1 ? 'item is' : 'items are'} neither marked OK nor flagged. Review them, or
+          give a reason for skipping each one. The reasons appear in the report.
+        </p>
+
+        <div className="flex gap-2 mb-4">
+          <input
+            type="text"
+            value={sharedReason}
+            onChange={(e) => setSharedReason(e.target.value)}
+            placeholder="e.g. Not applicable to this contract"
+            className="flex-1 p-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <button
+            onClick={fillBlanks}
+            disabled={!sharedReason.trim()}
+            className="px-3 py-2 text-sm font-medium text-blue-600 hover:text-blue-800 border border-slate-200 rounded-lg disabled:opacity-40"
+          >
+            Use for all blank
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-4 pr-1">
+          {stepIndexes.map((stepIndex) => (
+            <div key={stepIndex}>
+              <button
+                onClick={() => onGoToStep(stepIndex)}
+                className="flex items-center gap-1 text-xs font-bold text-slate-500 uppercase tracking-wider hover:text-blue-600 mb-2"
+                title="Go to this step"
+              >
+                {stepIndex + 1}. {steps[stepIndex].title} <ChevronRight className="w-3.5 h-3.5" />
+              </button>
+              <ul className="space-y-2">
+                {items.filter((item) => item.stepIndex === stepIndex).map((item) => (
+                  <li key={itemKey(item)} className="border border-slate-200 rounded-lg p-3">
+                    <p className="text-sm text-slate-700 mb-2">{item.item}</p>
+                    <input
+                      type="text"
+                      value={reasons[itemKey(item)] ?? ''}
+                      onChange={(e) => setReasons((prev) => ({ ...prev, [itemKey(item)]: e.target.value }))}
+                      placeholder="Reason for skipping"
+                      aria-label={`Reason for skipping "${item.item}"`}
+                      className="w-full p-2 border border-slate-200 rounded-md text-sm bg-slate-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-end gap-3 mt-4 pt-4 border-t border-slate-100">
+          {missing > 0 && <span className="text-xs text-slate-400 mr-auto">{missing} without a reason</span>}
+          <button onClick={onClose} className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-slate-800">
+            Back to Review
+          </button>
+          <button
+            onClick={() => onSkip(items.map((item) => ({ ...item, reason: reasons[itemKey(item)].trim() })))}
+            disabled={missing > 0}
+            className="bg-slate-900 hover:bg-slate-800 text-white px-4 py-2 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+          >
+            Skip and Finish
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CompletionGate;
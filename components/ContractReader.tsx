@@ -0,0 +1,216 @@
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { FileText, Search, ChevronUp, ChevronDown, Quote, X, Crosshair } from 'lucide-react';
+import { ClauseSection, ContractDocument, ContractExcerpt } from '../types';
+import { TextHighlight, segmentText, findAllMatches } from '../utils/textRanges';
+
+interface ContractReaderProps {
+  document: ContractDocument;
+  excerpts: ContractExcerpt[];
+  clauseSections: ClauseSection[]; // candidate clauses for the active step
+  stepTitle: string;
+  onAttachExcerpt?: (excerpt: Omit<ContractExcerpt, 'id'>) => void; // unset while the findings are read-only
+  onClose?: () => void;
+}
+
+interface Selection {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const MAX_EXCERPT_LENGTH = 2000;
+
+const ContractReader: React.FC<ContractReaderProps> = ({ document: contract, excerpts, clauseSections, stepTitle, onAttachExcerpt, onClose }) => {
+  const [query, setQuery] = useState<string>('');
+  const [currentMatch, setCurrentMatch] = useState<number>(0);
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const [focusedClause, setFocusedClause] = useState<string | null>(null);
+  const textRef = useRef<HTMLDivElement>(null);
+
+  const matches = useMemo(() => findAllMatches(contract.text, query), [contract.text, query]);
+
+  const segments = useMemo(() => {
+    const highlights: TextHighlight[] = [
+      ...clauseSections.map((section) => ({
+        start: section.start,
+        end: section.end,
+        className: section.id === focusedClause ? 'bg-emerald-100' : 'bg-emerald-50',
+        key: section.id,
+      })),
+      ...excerpts.map((excerpt) => ({
+        start: excerpt.start,
+        end: excerpt.end,
+        className: 'bg-blue-100 border-b-2 border-blue-400',
+      })),
+      ...matches.map((match, i) => ({
+        ...match,
+        className: i === currentMatch ? 'bg-amber-300' : 'bg-yellow-100',
+        key: `match-${i}`,
+      })),
+    ];
+    return segmentText(contract.text, highlights);
+  }, [contract.text, clauseSections, focusedClause, excerpts, matches, currentMatch]);
+
+  useEffect(() => {
+    setCurrentMatch(0);
+  }, [query]);
+
+  const scrollToHighlight = (key: string, block: ScrollLogicalPosition) => {
+    textRef.current
+      ?.querySelector(`[data-highlight~="${key}"]`)
+      ?.scrollIntoView({ block, behavior: 'smooth' });
+  };
+
+  useEffect(() => {
+    if (matches.length > 0) scrollToHighlight(`match-${currentMatch}`, 'center');
+  }, [currentMatch, matches]);
+
+  // Moving to another step jumps to its first candidate clause.
+  useEffect(() => {
+    const first = clauseSections[0]?.id ?? null;
+    setFocusedClause(first);
+    if (first) scrollToHighlight(first, 'start');
+  }, [clauseSections]);
+
+  const focusClause = (id: string) => {
+    setFocusedClause(id);
+    scrollToHighlight(id, 'start');
+  };
+
+  const stepMatch = (delta: number) => {
+    if (matches.length === 0) return;
+    setCurrentMatch((prev) => (prev + delta + matches.length) % matches.length);
+  };
+
+  // Translate the DOM selection into character offsets within the contract text.
+  const captureSelection = () => {
+    const domSelection = window.getSelection();
+    const container = textRef.current;
+    if (!domSelection || domSelection.isCollapsed || domSelection.rangeCount === 0 || !container) {
+      setSelection(null);
+      return;
+    }
+    const range = domSelection.getRangeAt(0);
+    if (!container.contains(range.commonAncestorContainer)) {
+      setSelection(null);
+      return;
+    }
+    const prefix = window.document.createRange();
+    prefix.selectNodeContents(container);
+    prefix.setEnd(range.startContainer, range.startOffset);
+    const start = prefix.toString().length;
+    const end = start + range.toString().length;
+    const text = contract.text.slice(start, end).trim();
+    setSelection(text ? { start, end, text } : null);
+  };
+
+  const attachSelection = () => {
+    if (!selection || !onAttachExcerpt) return;
+    onAttachExcerpt({
+      start: selection.start,
+      end: selection.end,
+      text: selection.text.slice(0, MAX_EXCERPT_LENGTH),
+    });
+    window.getSelection()?.removeAllRanges();
+    setSelection(null);
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-white">
+      <div className="p-3 border-b border-slate-200 space-y-2 flex-shrink-0">
+        <div className="flex items-center gap-2">
+          <FileText className="w-4 h-4 text-slate-400 flex-shrink-0" />
+          <span className="text-sm font-medium text-slate-700 truncate" title={contract.fileName}>{contract.fileName}</span>
+          {onClose && (
+            <button
+              onClick={onClose}
+              className="ml-auto p-1 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded"
+              title="Unload Contract"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          <div className="relative flex-1">
+            <Search className="w-4 h-4 text-slate-400 absolute left-2 top-1/2 -translate-y-1/2" />
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  stepMatch(e.shiftKey ? -1 : 1);
+                }
+              }}
+              placeholder="Search contract..."
+              className="w-full pl-8 pr-2 py-1.5 text-sm border border-slate-200 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <span className="text-xs text-slate-400 font-mono w-14 text-center">
+            {query.trim() ? `${matches.length ? currentMatch + 1 : 0}/${matches.length}` : ''}
+          </span>
+          <button onClick={() => stepMatch(-1)} className="p-1 text-slate-400 hover:text-slate-600 rounded" aria-label="Previous Match">
+            <ChevronUp className="w-4 h-4" />
+          </button>
+          <button onClick={() => stepMatch(1)} className="p-1 text-slate-400 hover:text-slate-600 rounded" aria-label="Next Match">
+            <ChevronDown className="w-4 h-4" />
+          </button>
+        </div>
+        {clauseSections.length > 0 && (
+          <div className="flex items-center gap-1.5 overflow-x-auto pb-1">
+            <Crosshair className="w-3.5 h-3.5 text-emerald-600 flex-shrink-0" />
+            {clauseSections.map((section) => (
+              <button
+                key={section.id}
+                onClick={() => focusClause(section.id)}
+                className={`text-xs px-2 py-0.5 rounded-full border whitespace-nowrap transition-colors ${
+                  focusedClause === section.id
+                    ? 'bg-emerald-100 text-emerald-800 border-emerald-300'
+                    : 'bg-white text-emerald-700 border-emerald-200 hover:bg-emerald-50'
+                }`}
+                title={section.heading}
+              >
+                {section.number ? `§${section.number}` : section.heading.slice(0, 24)}
+              </button>
+            ))}
+          </div>
+        )}
+        {selection && onAttachExcerpt && (
+          <button
+            onClick={attachSelection}
+            className="w-full flex items-center justify-center gap-2 px-3 py-1.5 text-sm rounded-md bg-blue-600 hover:bg-blue-700 text-white font-medium transition-colors"
+          >
+            <Quote className="w-4 h-4" /> Attach excerpt to "{stepTitle}"
+          </button>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4">
+        <div
+          ref={textRef}
+          onMouseUp={captureSelection}
+          onKeyUp={captureSelection}
+          className="text-sm leading-relaxed text-slate-700 whitespace-pre-wrap font-serif selection:bg-blue-200"
+        >
+          {segments.map((segment) =>
+            segment.highlights.length > 0 ? (
+              <mark
+                key={segment.start}
+                data-highlight={segment.highlights.filter((h) => h.key).map((h) => h.key).join(' ') || undefined}
+                className={`text-inherit rounded-sm ${segment.highlights.map((h) => h.className).join(' ')}`}
+              >
+                {segment.text}
+              </mark>
+            ) : (
+              <React.Fragment key={segment.start}>{segment.text}</React.Fragment>
+            )
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ContractReader;
@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import { Briefcase, ListChecks } from 'lucide-react';
+import { DealContext, StepDefinition } from '../types';
+import {
+  CONTRACT_TYPE_SUGGESTIONS,
+  CURRENCY_CODES,
+  EMPTY_DEAL_CONTEXT,
+  GOVERNING_LAW_SUGGESTIONS,
+  PARTY_ROLES,
+  PARTY_ROLE_VALUES,
+  matchesCondition
+} from '../services/dealContext';
+
+interface DealSetupProps {
+  context?: DealContext;
+  contractName: string;
+  playbookName: string;
+  steps: StepDefinition[]; // the playbook snapshot, before tailoring
+  onSave: (context: DealContext, contractName: string) => void;
+  onSkip?: () => void; // offered when setting up a new review
+  onCancel?: () => void; // offered when editing the context of a review in progress
+}
+
+const inputClass = 'w-full p-2 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const DealSetup: React.FC<DealSetupProps> = ({ context, contractName, playbookName, steps, onSave, onSkip, onCancel }) => {
+  const [draft, setDraft] = useState<DealContext>(context ?? EMPTY_DEAL_CONTEXT);
+  const [name, setName] = useState<string>(contractName);
+
+  const update = (patch: Partial<DealContext>) => setDraft((prev) => ({ ...prev, ...patch }));
+
+  // Preview of what the answers add to the checklist
+  const tailoredItems = steps.flatMap((step) =>
+    (step.conditionalChecklist ?? [])
+      .filter((item) => matchesCondition(item.when, draft) && !step.checklist.includes(item.text))
+      .map((item) => ({ step: step.title, text: item.text }))
+  );
+  const hasConditions = steps.some((step) => (step.conditionalChecklist ?? []).length > 0);
+
+  return (
+    <div className="flex flex-col h-screen bg-slate-50 text-slate-900 font-sans">
+      <header className="bg-slate-900 text-white p-4 shadow-md flex justify-between items-center z-10">
+        <h1 className="text-xl font-bold flex items-center gap-2">
+          <Briefcase className="w-6 h-6" /> Deal Context
+        </h1>
+        {onCancel && (
+          <button onClick={onCancel} className="text-sm text-slate-300 hover:text-white font-medium">
+            Return to Review
+          </button>
+        )}
+      </header>
+
+      <main className="flex-1 p-4 md:p-8 overflow-auto w-full flex justify-center">
+        <form
+          className="bg-white rounded-xl shadow-lg border border-slate-200 p-6 md:p-8 max-w-2xl w-full h-fit space-y-5"
+          onSubmit={(e) => {
+            e.preventDefault();
+            onSave(
+              { ...draft, counterparty: draft.counterparty.trim(), contractType: draft.contractType.trim(), governingLaw: draft.governingLaw.trim() },
+              name.trim()
+            );
+          }}
+        >
+          <p className="text-sm text-slate-500">
+            Tell the <span className="font-medium text-slate-700">{playbookName}</span> playbook who you act for and what the deal is.
+            The checklist and step guidance adapt to the answers, and they head the final report.
+          </p>
+
+          <label className="block">
+            <span className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">Contract</span>
+            <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="Contract name / reference" className={inputClass} />
+          </label>
+
+          <fieldset>
+            <legend className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">We act for the</legend>
+            <div className="flex gap-2">
+              {PARTY_ROLE_VALUES.map((role) => (
+                <button
+                  key={role}
+                  type="button"
+                  onClick={() => update({ partyRole: draft.partyRole === role ? undefined : role })}
+                  aria-pressed={draft.partyRole === role}
+                  className={`flex-1 p-2 rounded-lg border text-sm font-medium transition-colors ${
+                    draft.partyRole === role ? 'bg-blue-50 border-blue-300 text-blue-700' : 'border-slate-200 text-slate-600 hover:bg-slate-50'
+                  }`}
+                >
+                  {PARTY_ROLES[role].label}
+                </button>
+              ))}
+            </div>
+          </fieldset>
+
+          <div className="grid sm:grid-cols-2 gap-4">
+            <label className="block">
+              <span className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">Counterparty</span>
+              <input
+                type="text"
+                value={draft.counterparty}
+                onChange={(e) => update({ counterparty: e.target.value })}
+                placeholder={draft.partyRole ? `The ${PARTY_ROLES[draft.partyRole].counterpartyRole}` : 'Other party'}
+                className={inputClass}
+              />
+            </label>
+            <label className="block">
+              <span className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">Contract Type</span>
+              <input
+                type="text"
+                list="deal-contract-types"
+                value={draft.contractType}
+                onChange={(e) => update({ contractType: e.target.value })}
+                placeholder="e.g. SaaS Subscription"
+                className={inputClass}
+              />
+              <datalist id="deal-contract-types">
+                {CONTRACT_TYPE_SUGGESTIONS.map((type) => <option key={type} value={type} />)}
+              </datalist>
+            </label>
+            <label className="block">
+              <span className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">Governing Law</span>
+              <input
+                type="text"
+                list="deal-governing-laws"
+                value={draft.governingLaw}
+                onChange={(e) => update({ governingLaw: e.target.value })}
+                placeholder="e.g. England and Wales"
+                className={inputClass}
+              />
+              <datalist id="deal-governing-laws">
+                {GOVERNING_LAW_SUGGESTIONS.map((law) => <option key={law} value={law} />)}
+              </datalist>
+            </label>
+            <div>
+              <span className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">Contract Value</span>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  min={0}
+                  value={draft.contractValue ?? ''}
+                  onChange={(e) => update({ contractValue: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)) })}
+                  placeholder="Total value"
+                  className={inputClass}
+                  aria-label="Contract value"
+                />
+                <select
+                  value={draft.currency}
+                  onChange={(e) => update({ currency: e.target.value })}
+                  className="p-2 border border-slate-200 rounded-lg text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  aria-label="Currency"
+                >
+                  {CURRENCY_CODES.map((code) => <option key={code} value={code}>{code}</option>)}
+                </select>
+              </div>
+            </div>
+          </div>
+
+          {hasConditions && (
+            <div className="bg-slate-50 border border-slate-200 rounded-lg p-4">
+              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2 flex items-center gap-1.5">
+                <ListChecks className="w-3.5 h-3.5" /> Tailored checklist items
+              </h3>
+              {tailoredItems.length === 0 ? (
+                <p className="text-sm text-slate-500">None yet. Some items only apply once you say who you act for.</p>
+              ) : (
+                <ul className="space-y-1 text-sm text-slate-700">
+                  {tailoredItems.map((item) => (
+                    <li key={`${item.step}-${item.text}`}>
+                      <span className="text-slate-400">{item.step}:</span> {item.text}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          <div className="flex flex-col sm:flex-row gap-3 pt-2">
+            <button
+              type="submit"
+              className="flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg font-medium transition-all shadow-md"
+            >
+              {onCancel ? 'Save Context' : 'Start Review'}
+            </button>
+            {onSkip && (
+              <button
+                type="button"
+                onClick={onSkip}
+                className="flex items-center justify-center gap-2 bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 px-6 py-3 rounded-lg font-medium transition-colors"
+              >
+                Skip for now
+              </button>
+            )}
+          </div>
+        </form>
+      </main>
+    </div>
+  );
+};
+
+export default DealSetup;
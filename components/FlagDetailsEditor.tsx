@@ -0,0 +1,88 @@
+import React from 'react';
+import { Handshake } from 'lucide-react';
+import { FlagDetail, FlagSeverity, FlagStatus } from '../types';
+import { SEVERITY_LEVELS, FLAG_STATUSES, CARRY_OVER_STATUSES, NEGOTIATION_STATUSES } from '../constants';
+import { getSeverityMeta } from '../services/risk';
+import { describeAttribution } from '../services/collaboration';
+
+interface FlagDetailsEditorProps {
+  detail: FlagDetail;
+  onChange: (patch: Partial<FlagDetail>) => void;
+  readOnly?: boolean; // the first pass, once it has gone to second review
+  onNegotiate?: () => void; // promotes the flag, or opens it in the tracker; stays available when read-only
+}
+
+const FlagDetailsEditor: React.FC<FlagDetailsEditorProps> = ({ detail, onChange, readOnly = false, onNegotiate }) => (
+  <div className="ml-8 mb-2 p-3 rounded-lg bg-slate-50 border border-slate-200 space-y-2">
+    <fieldset disabled={readOnly} className="space-y-2">
+      {detail.carryOver && (
+        <div className="flex items-center gap-2 text-xs">
+          <span className={`font-medium px-1.5 py-0.5 rounded border ${CARRY_OVER_STATUSES[detail.carryOver].badgeClass}`}>
+            From last version: {CARRY_OVER_STATUSES[detail.carryOver].label}
+          </span>
+          {!readOnly && (
+            <button onClick={() => onChange({ carryOver: undefined })} className="text-blue-600 hover:text-blue-800 font-medium">
+              Mark re-checked
+            </button>
+          )}
+        </div>
+      )}
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+        <select
+          value={detail.severity}
+          onChange={(e) => onChange({ severity: e.target.value as FlagSeverity })}
+          className={`text-xs font-medium p-1.5 rounded-md border focus:outline-none focus:ring-2 focus:ring-blue-500 ${getSeverityMeta(detail.severity).badgeClass}`}
+          aria-label="Severity"
+        >
+          {SEVERITY_LEVELS.map((level) => <option key={level.value} value={level.value}>{level.label}</option>)}
+        </select>
+        <select
+          value={detail.status}
+          onChange={(e) => onChange({ status: e.target.value as FlagStatus })}
+          className="text-xs p-1.5 rounded-md border border-slate-200 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          aria-label="Status"
+        >
+          {FLAG_STATUSES.map((status) => <option key={status.value} value={status.value}>{status.label}</option>)}
+        </select>
+        <input
+          type="text"
+          value={detail.clauseRef}
+          onChange={(e) => onChange({ clauseRef: e.target.value })}
+          placeholder="Clause, e.g. §12.3"
+          className="col-span-2 sm:col-span-1 text-xs p-1.5 rounded-md border border-slate-200 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+          aria-label="Clause reference"
+        />
+      </div>
+      <input
+        type="text"
+        value={detail.comment}
+        onChange={(e) => onChange({ comment: e.target.value })}
+        placeholder="Comment on this flag..."
+        className="w-full text-xs p-1.5 rounded-md border border-slate-200 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+        aria-label="Flag comment"
+      />
+      {(detail.raisedBy || detail.editedBy) && (
+        <p className="text-[11px] text-slate-400">
+          {detail.raisedBy && <>Flagged by {describeAttribution(detail.raisedBy)}</>}
+          {detail.raisedBy && detail.editedBy && ' · '}
+          {detail.editedBy && <>Last edited by {describeAttribution(detail.editedBy)}</>}
+        </p>
+      )}
+    </fieldset>
+    {onNegotiate && (
+      <button onClick={onNegotiate} className="flex items-center gap-1.5 text-xs text-blue-600 hover:text-blue-800 font-medium">
+        <Handshake className="w-3.5 h-3.5" />
+        {detail.negotiation ? (
+          <>
+            In negotiation
+            <span className={`font-medium px-1.5 py-0.5 rounded border ${NEGOTIATION_STATUSES[detail.negotiation.status].badgeClass}`}>
+              {NEGOTIATION_STATUSES[detail.negotiation.status].label}
+            </span>
+          </>
+        ) : 'Negotiate'}
+      </button>
+    )}
+  </div>
+);
+
+export default FlagDetailsEditor;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { Circle, Check, Flag } from 'lucide-react';
+import { ItemReviewState } from '../types';
+import { ITEM_REVIEW_STATES } from '../constants';
+
+interface ItemStateControlProps {
+  item: string;
+  state: ItemReviewState;
+  disabled: boolean;
+  onChange: (state: ItemReviewState) => void;
+}
+
+const ICONS: Record<ItemReviewState, React.ElementType> = {
+  'not-reviewed': Circle,
+  'ok': Check,
+  'flagged': Flag,
+};
+
+const ItemStateControl: React.FC<ItemStateControlProps> = ({ item, state, disabled, onChange }) => (
+  <div role="radiogroup" aria-label={`Review state of "${item}"`} className="flex flex-shrink-0 rounded-md border border-slate-200 overflow-hidden">
+    {(Object.keys(ITEM_REVIEW_STATES) as ItemReviewState[]).map((option) => {
+      const Icon = ICONS[option];
+      const selected = option === state;
+      return (
+        <button
+          key={option}
+          role="radio"
+          aria-checked={selected}
+          onClick={() => onChange(option)}
+          disabled={disabled}
+          title={ITEM_REVIEW_STATES[option].label}
+          className={`flex items-center gap-1 px-2 py-1 text-[11px] font-medium border-l first:border-l-0 transition-colors ${
+            selected ? ITEM_REVIEW_STATES[option].badgeClass : 'bg-white text-slate-400 border-slate-200 enabled:hover:text-slate-700 enabled:hover:bg-slate-50'
+          }`}
+        >
+          <Icon className="w-3 h-3" />
+          {option !== 'not-reviewed' && ITEM_REVIEW_STATES[option].label}
+        </button>
+      );
+    })}
+  </div>
+);
+
+export default ItemStateControl;
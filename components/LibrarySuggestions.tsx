@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { Library, ChevronDown, ChevronRight, FileText, Handshake } from 'lucide-react';
+import { ClauseLibraryEntry } from '../types';
+import { CLAUSE_POSITION_KINDS, ClausePositionKind } from '../services/clauseLibrary';
+
+export type NegotiationField = 'position' | 'fallback';
+
+interface LibrarySuggestionsProps {
+  groups: { item: string; entries: ClauseLibraryEntry[] }[]; // flagged checklist items with linked entries
+  canInsertNote: boolean;
+  onInsertNote: (text: string) => void;
+  onUseInNegotiation: (item: string, field: NegotiationField, text: string) => void;
+  onOpenLibrary: () => void;
+}
+
+// Which negotiation field each kind of language fills; unacceptable language only goes into the notes.
+const NEGOTIATION_FIELDS: Partial<Record<ClausePositionKind, { field: NegotiationField; label: string }>> = {
+  preferred: { field: 'position', label: 'Use as position' },
+  acceptable: { field: 'fallback', label: 'Use as fallback' },
+};
+
+const LibrarySuggestions: React.FC<LibrarySuggestionsProps> = ({ groups, canInsertNote, onInsertNote, onUseInNegotiation, onOpenLibrary }) => {
+  const [collapsed, setCollapsed] = useState<Record<string, boolean>>({});
+
+  if (groups.length === 0) return null;
+
+  return (
+    <div className="mt-4 space-y-3">
+      <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider flex items-center gap-1.5">
+        <Library className="w-3.5 h-3.5" /> Clause Library
+        <button onClick={onOpenLibrary} className="ml-auto normal-case tracking-normal font-medium text-blue-600 hover:text-blue-800">
+          Open library
+        </button>
+      </h4>
+      {groups.map(({ item, entries }) => (
+        <div key={item} className="space-y-2">
+          <p className="text-[11px] text-slate-500 truncate" title={item}>For "{item}"</p>
+          {entries.map((entry) => {
+            const key = `${item}:${entry.id}`;
+            const open = !collapsed[key];
+            return (
+              <div key={entry.id} className="border border-slate-200 rounded-lg">
+                <button
+                  onClick={() => setCollapsed((prev) => ({ ...prev, [key]: open }))}
+                  className="w-full flex items-center gap-1.5 p-2 text-left text-sm font-medium text-slate-700 hover:bg-slate-50 rounded-lg"
+                  aria-expanded={open}
+                >
+                  {open ? <ChevronDown className="w-4 h-4 text-slate-400" /> : <ChevronRight className="w-4 h-4 text-slate-400" />}
+                  {entry.topic}
+                </button>
+                {open && (
+                  <div className="px-3 pb-3 space-y-2">
+                    {entry.guidance && <p className="text-xs text-slate-500">{entry.guidance}</p>}
+                    {(Object.keys(CLAUSE_POSITION_KINDS) as ClausePositionKind[]).filter((kind) => entry[kind].trim()).map((kind) => (
+                      <div key={kind} className="text-xs">
+                        <div className="flex items-center gap-2 mb-1">
+                          <span className={`text-[10px] font-semibold uppercase tracking-wide px-1.5 py-0.5 rounded border ${CLAUSE_POSITION_KINDS[kind].badgeClass}`}>
+                            {CLAUSE_POSITION_KINDS[kind].label}
+                          </span>
+                          <span className="ml-auto flex items-center gap-3">
+                            <button
+                              onClick={() => onInsertNote(entry[kind])}
+                              disabled={!canInsertNote}
+                              className="flex items-center gap-1 text-blue-600 hover:text-blue-800 font-medium disabled:opacity-40"
+                            >
+                              <FileText className="w-3 h-3" /> Insert in notes
+                            </button>
+                            {NEGOTIATION_FIELDS[kind] && (
+                              <button
+                                onClick={() => onUseInNegotiation(item, NEGOTIATION_FIELDS[kind]!.field, entry[kind])}
+                                className="flex items-center gap-1 text-blue-600 hover:text-blue-800 font-medium"
+                              >
+                                <Handshake className="w-3 h-3" /> {NEGOTIATION_FIELDS[kind]!.label}
+                              </button>
+                            )}
+                          </span>
+                        </div>
+                        <p className="text-slate-600 whitespace-pre-wrap">{entry[kind]}</p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default LibrarySuggestions;
@@ -0,0 +1,273 @@
+import React, { useEffect } from 'react';
+import { Handshake, Send, Download, Printer, Copy, Plus, Trash2, X, AlertTriangle } from 'lucide-react';
+import { CounterpartyResponse, FindingsMap, NegotiationItem, NegotiationRound, NegotiationStatus, StepDefinition } from '../types';
+import { COUNTERPARTY_RESPONSES, NEGOTIATION_STATUSES } from '../constants';
+import { getSeverityMeta } from '../services/risk';
+import { NegotiationEntry, collectFlags, currentRound, isDueForRound, startRound } from '../services/negotiation';
+
+export type IssuesListFormat = 'docx' | 'pdf' | 'markdown' | 'copy';
+
+interface NegotiationTrackerProps {
+  steps: StepDefinition[];
+  findings: FindingsMap;
+  contractName: string;
+  counterparty: string;
+  focus?: { stepIndex: number; item: string } | null; // scrolled into view on open
+  exportError: string | null;
+  onChange: (stepIndex: number, item: string, negotiation: NegotiationItem | undefined) => void;
+  onPromote: (stepIndex: number, item: string) => void;
+  onSendRound: () => void;
+  onExport: (format: IssuesListFormat) => void;
+  onClose: () => void;
+}
+
+const entryId = (stepIndex: number, item: string) => `negotiation-${stepIndex}-${item.replace(/[^a-z0-9]+/gi, '-')}`;
+
+const fieldClass = 'w-full text-sm p-2 rounded-md border border-slate-200 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const Field: React.FC<{ label: string; hint?: string; value: string; rows?: number; onChange: (value: string) => void }> = ({
+  label,
+  hint,
+  value,
+  rows = 2,
+  onChange
+}) => (
+  <label className="block">
+    <span className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">
+      {label}
+      {hint && <span className="ml-1 normal-case font-normal tracking-normal">({hint})</span>}
+    </span>
+    <textarea value={value} rows={rows} onChange={(e) => onChange(e.target.value)} className={`${fieldClass} resize-y`} />
+  </label>
+);
+
+const NegotiationCard: React.FC<{
+  entry: NegotiationEntry;
+  number: number;
+  onChange: (negotiation: NegotiationItem | undefined) => void;
+}> = ({ entry, number, onChange }) => {
+  const { negotiation, detail } = entry;
+  const update = (patch: Partial<NegotiationItem>) => onChange({ ...negotiation, ...patch });
+  const updateRound = (index: number, patch: Partial<NegotiationRound>) =>
+    update({ rounds: negotiation.rounds.map((round, i) => (i === index ? { ...round, ...patch } : round)) });
+
+  return (
+    <li id={entryId(entry.stepIndex, entry.item)} className="border border-slate-200 rounded-lg p-4 space-y-3 scroll-mt-4">
+      <div className="flex flex-wrap items-start gap-2">
+        <div className="flex-1 min-w-0">
+          <p className="font-medium text-slate-800">
+            {number}. {detail.clauseRef && <span className="text-slate-500">{detail.clauseRef} · </span>}{entry.item}
+          </p>
+          <p className="text-xs text-slate-400">{entry.stepTitle}</p>
+        </div>
+        <span className={`text-[10px] font-semibold uppercase tracking-wide px-1.5 py-0.5 rounded border ${getSeverityMeta(detail.severity).badgeClass}`}>
+          {getSeverityMeta(detail.severity).label}
+        </span>
+        <select
+          value={negotiation.status}
+          onChange={(e) => update({ status: e.target.value as NegotiationStatus })}
+          className={`text-xs font-medium p-1.5 rounded-md border focus:outline-none focus:ring-2 focus:ring-blue-500 ${NEGOTIATION_STATUSES[negotiation.status].badgeClass}`}
+          aria-label="Negotiation status"
+        >
+          {(Object.keys(NEGOTIATION_STATUSES) as NegotiationStatus[]).map((status) => (
+            <option key={status} value={status}>{NEGOTIATION_STATUSES[status].label}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => window.confirm('Drop this item from the negotiation? Its positions and rounds are deleted.') && onChange(undefined)}
+          className="text-slate-400 hover:text-red-600 p-1"
+          title="Drop from negotiation"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-3">
+        <Field label="Issue" hint="as the counterparty sees it" value={negotiation.issue} onChange={(issue) => update({ issue })} />
+        <Field label="Our position" value={negotiation.position} onChange={(position) => update({ position })} />
+        <Field label="Fallback" hint="internal, never sent" value={negotiation.fallback} onChange={(fallback) => update({ fallback })} />
+        <Field label="Proposed wording" value={negotiation.wording} rows={3} onChange={(wording) => update({ wording })} />
+      </div>
+
+      <div>
+        <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">Rounds</h4>
+        {negotiation.rounds.length === 0 && <p className="text-xs text-slate-400 italic">Not sent yet.</p>}
+        <ol className="space-y-2">
+          {negotiation.rounds.map((round, index) => (
+            <li key={index} className="flex flex-col sm:flex-row sm:items-center gap-2 text-xs">
+              <span className="text-slate-500 whitespace-nowrap w-40">
+                Round {index + 1} · {new Date(round.sentAt).toLocaleDateString()}
+              </span>
+              <select
+                value={round.response}
+                onChange={(e) => updateRound(index, { response: e.target.value as CounterpartyResponse })}
+                className={`p-1.5 rounded-md border focus:outline-none focus:ring-2 focus:ring-blue-500 ${COUNTERPARTY_RESPONSES[round.response].badgeClass}`}
+                aria-label={`Round ${index + 1} response`}
+              >
+                {(Object.keys(COUNTERPARTY_RESPONSES) as CounterpartyResponse[]).map((response) => (
+                  <option key={response} value={response}>{COUNTERPARTY_RESPONSES[response].label}</option>
+                ))}
+              </select>
+              <input
+                type="text"
+                value={round.reply}
+                onChange={(e) => updateRound(index, { reply: e.target.value })}
+                placeholder="Their reply or counter-proposal..."
+                className="flex-1 p-1.5 rounded-md border border-slate-200 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                aria-label={`Round ${index + 1} reply`}
+              />
+              <button
+                onClick={() => update({ rounds: negotiation.rounds.filter((_, i) => i !== index) })}
+                className="text-slate-400 hover:text-red-600 self-start sm:self-auto"
+                title="Remove this round"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ol>
+        <button
+          onClick={() => onChange(startRound(negotiation))}
+          className="mt-2 flex items-center gap-1 text-xs text-blue-600 hover:text-blue-800 font-medium"
+        >
+          <Plus className="w-3.5 h-3.5" /> Record a round for this item
+        </button>
+      </div>
+    </li>
+  );
+};
+
+const NegotiationTracker: React.FC<NegotiationTrackerProps> = ({
+  steps,
+  findings,
+  contractName,
+  counterparty,
+  focus,
+  exportError,
+  onChange,
+  onPromote,
+  onSendRound,
+  onExport,
+  onClose
+}) => {
+  const flags = collectFlags(steps, findings);
+  const entries = flags.flatMap((entry) => (entry.detail.negotiation ? [{ ...entry, negotiation: entry.detail.negotiation }] : []));
+  const others = flags.filter((entry) => !entry.detail.negotiation);
+  const due = entries.filter((entry) => isDueForRound(entry.negotiation)).length;
+  const round = currentRound(entries);
+
+  useEffect(() => {
+    if (focus) document.getElementById(entryId(focus.stepIndex, focus.item))?.scrollIntoView({ block: 'start' });
+  }, [focus]);
+
+  const exportButton = 'flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-lg bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 disabled:opacity-50';
+
+  return (
+    <div className="flex flex-col h-screen bg-slate-50 text-slate-900 font-sans">
+      <header className="bg-slate-900 text-white p-4 shadow-md flex justify-between items-center z-10">
+        <h1 className="text-xl font-bold flex items-center gap-2">
+          <Handshake className="w-6 h-6" /> Negotiation Tracker
+        </h1>
+        <button onClick={onClose} className="text-sm text-slate-300 hover:text-white font-medium">
+          Return to Review
+        </button>
+      </header>
+
+      <main className="flex-1 p-4 md:p-8 overflow-auto w-full flex justify-center">
+        <div className="bg-white rounded-xl shadow-lg border border-slate-200 p-6 md:p-8 max-w-5xl w-full h-fit">
+          <div className="flex flex-col md:flex-row justify-between md:items-end gap-3 mb-6 border-b border-slate-100 pb-4">
+            <div className="text-sm text-slate-600 min-w-0">
+              <p className="font-medium text-slate-800 truncate">{contractName || 'Untitled Contract'}</p>
+              <p>
+                {counterparty ? `With ${counterparty}` : 'Counterparty not recorded'} · {round > 0 ? `Round ${round}` : 'Nothing sent yet'}
+              </p>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              {(Object.keys(NEGOTIATION_STATUSES) as NegotiationStatus[]).map((status) => {
+                const count = entries.filter((entry) => entry.negotiation.status === status).length;
+                return count > 0 ? (
+                  <span key={status} className={`text-xs font-medium px-2 py-1 rounded border ${NEGOTIATION_STATUSES[status].badgeClass}`}>
+                    {count} {NEGOTIATION_STATUSES[status].label}
+                  </span>
+                ) : null;
+              })}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 mb-6">
+            <button
+              onClick={onSendRound}
+              disabled={due === 0}
+              title="Marks our position as sent on every open item not already awaiting a reply"
+              className="flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-medium disabled:opacity-50"
+            >
+              <Send className="w-4 h-4" /> Send Round {round + 1} ({due} {due === 1 ? 'item' : 'items'})
+            </button>
+            <span className="text-xs font-bold text-slate-400 uppercase tracking-wider ml-auto">Issues list</span>
+            <button onClick={() => onExport('docx')} disabled={entries.length === 0} className={exportButton}>
+              <Download className="w-4 h-4" /> Word
+            </button>
+            <button onClick={() => onExport('pdf')} disabled={entries.length === 0} className={exportButton} title="Printable view; choose 'Save as PDF'">
+              <Printer className="w-4 h-4" /> PDF
+            </button>
+            <button onClick={() => onExport('markdown')} disabled={entries.length === 0} className={exportButton}>
+              <Download className="w-4 h-4" /> Markdown
+            </button>
+            <button onClick={() => onExport('copy')} disabled={entries.length === 0} className={exportButton}>
+              <Copy className="w-4 h-4" /> Copy
+            </button>
+          </div>
+
+          {exportError && (
+            <p className="mb-4 text-sm text-red-600 flex items-center gap-2">
+              <AlertTriangle className="w-4 h-4" /> {exportError}
+            </p>
+          )}
+
+          {entries.length === 0 ? (
+            <p className="text-sm text-slate-500 mb-6">
+              No flag is in negotiation yet. Add flags from the list below, or with <strong>Negotiate</strong> under a flag in the review.
+            </p>
+          ) : (
+            <ul className="space-y-4 mb-8">
+              {entries.map((entry, index) => (
+                <NegotiationCard
+                  key={`${entry.stepIndex}:${entry.item}`}
+                  entry={entry}
+                  number={index + 1}
+                  onChange={(negotiation) => onChange(entry.stepIndex, entry.item, negotiation)}
+                />
+              ))}
+            </ul>
+          )}
+
+          {others.length > 0 && (
+            <div>
+              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Other flags</h3>
+              <ul className="divide-y divide-slate-100 border border-slate-200 rounded-lg">
+                {others.map((entry) => (
+                  <li key={`${entry.stepIndex}:${entry.item}`} className="p-3 flex items-center gap-3 text-sm">
+                    <span className={`text-[10px] font-semibold uppercase tracking-wide px-1.5 py-0.5 rounded border ${getSeverityMeta(entry.detail.severity).badgeClass}`}>
+                      {getSeverityMeta(entry.detail.severity).label}
+                    </span>
+                    <span className="flex-1 min-w-0 truncate text-slate-700">
+                      {entry.detail.clauseRef && <span className="text-slate-500">{entry.detail.clauseRef} · </span>}{entry.item}
+                    </span>
+                    <button
+                      onClick={() => onPromote(entry.stepIndex, entry.item)}
+                      className="flex items-center gap-1 text-xs text-blue-600 hover:text-blue-800 font-medium whitespace-nowrap"
+                    >
+                      <Plus className="w-3.5 h-3.5" /> Negotiate
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default NegotiationTracker;
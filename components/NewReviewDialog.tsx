@@ -0,0 +1,82 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, X, ClipboardList } from 'lucide-react';
+import { Playbook } from '../types';
+import { listPlaybooks, getLastPlaybookId } from '../services/playbookStorage';
+
+interface NewReviewDialogProps {
+  onStart: (playbook: Playbook) => void;
+  onManagePlaybooks: () => void;
+  onCancel: () => void;
+}
+
+const NewReviewDialog: React.FC<NewReviewDialogProps> = ({ onStart, onManagePlaybooks, onCancel }) => {
+  const [playbooks, setPlaybooks] = useState<Playbook[]>([]);
+  const [selectedId, setSelectedId] = useState<string>(getLastPlaybookId);
+
+  useEffect(() => {
+    listPlaybooks().then(setPlaybooks);
+  }, []);
+
+  const selected = playbooks.find((playbook) => playbook.id === selectedId) ?? playbooks[0];
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 z-50 flex items-center justify-center p-4" onClick={onCancel}>
+      <div
+        className="bg-white rounded-xl shadow-xl border border-slate-200 p-6 max-w-lg w-full max-h-[80vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-lg font-bold text-slate-800">Start New Review</h2>
+          <button onClick={onCancel} className="text-slate-400 hover:text-slate-600" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-sm text-slate-500 mb-4">Choose the playbook for this contract. The current review stays in Review History.</p>
+
+        <div className="space-y-2 overflow-y-auto flex-1 mb-6">
+          {playbooks.map((playbook) => (
+            <label
+              key={playbook.id}
+              className={`flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors ${
+                selected?.id === playbook.id ? 'bg-blue-50 border-blue-200' : 'border-slate-200 hover:bg-slate-50'
+              }`}
+            >
+              <input
+                type="radio"
+                name="playbook"
+                checked={selected?.id === playbook.id}
+                onChange={() => setSelectedId(playbook.id)}
+                className="mt-1"
+              />
+              <span>
+                <span className="block text-sm font-medium text-slate-800">{playbook.name}</span>
+                <span className="block text-xs text-slate-500">
+                  {playbook.steps.length} steps · {Math.round(playbook.steps.reduce((sum, step) => sum + step.duration, 0) / 60)} min
+                  {playbook.description ? ` · ${playbook.description}` : ''}
+                </span>
+              </span>
+            </label>
+          ))}
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-3 sm:justify-between">
+          <button
+            onClick={onManagePlaybooks}
+            className="flex items-center justify-center gap-2 text-sm text-slate-600 hover:text-slate-800 font-medium"
+          >
+            <ClipboardList className="w-4 h-4" /> Manage Playbooks
+          </button>
+          <button
+            onClick={() => selected && onStart(selected)}
+            disabled={!selected}
+            className="flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-5 py-2.5 rounded-lg font-medium transition-all shadow-md active:transform active:scale-95 disabled:opacity-40"
+          >
+            <Plus className="w-4 h-4" /> Start Review
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NewReviewDialog;
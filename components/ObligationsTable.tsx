@@ -0,0 +1,207 @@
+import React from 'react';
+import { CalendarClock, CalendarArrowDown, Plus, Trash2, Check, X, ScanSearch } from 'lucide-react';
+import { Obligation, ObligationKind, ObligationParty, ObligationRecurrence } from '../types';
+import { OBLIGATION_KINDS, OBLIGATION_PARTIES, OBLIGATION_RECURRENCES } from '../constants';
+import { ObligationCandidate, createObligation, describeObligation, isDated } from '../services/obligations';
+
+interface ObligationsTableProps {
+  obligations: Obligation[];
+  candidates: ObligationCandidate[]; // found in the loaded contract and not yet added or dismissed
+  readOnly: boolean;
+  onChange: (obligations: Obligation[]) => void;
+  onAddCandidate: (candidate: ObligationCandidate) => void;
+  onDismissCandidate: (candidate: ObligationCandidate) => void;
+  onExportCalendar: () => void;
+}
+
+const cellClass = 'w-full text-xs p-1.5 rounded-md border border-slate-200 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-slate-50 read-only:bg-slate-50';
+
+const ObligationsTable: React.FC<ObligationsTableProps> = ({
+  obligations,
+  candidates,
+  readOnly,
+  onChange,
+  onAddCandidate,
+  onDismissCandidate,
+  onExportCalendar
+}) => {
+  const update = (id: string, patch: Partial<Obligation>) =>
+    onChange(obligations.map((obligation) => (obligation.id === id ? { ...obligation, ...patch } : obligation)));
+
+  const remove = (id: string) => onChange(obligations.filter((obligation) => obligation.id !== id));
+
+  const datedCount = obligations.filter(isDated).length;
+
+  return (
+    <div className="mt-6 bg-white p-6 rounded-xl shadow-sm border border-slate-200">
+      <h3 className="font-bold text-slate-800 mb-4 flex items-center gap-2 border-b border-slate-100 pb-2">
+        <CalendarClock className="w-5 h-5 text-blue-600" />
+        Obligations &amp; Key Dates
+        <span className="text-xs font-normal text-slate-400">{obligations.length} recorded</span>
+        <button
+          onClick={onExportCalendar}
+          disabled={datedCount === 0}
+          className="ml-auto flex items-center gap-1.5 text-xs font-medium text-blue-600 hover:text-blue-800 disabled:opacity-40"
+          title={datedCount === 0 ? 'Give an obligation a due date to export it' : 'Download the key dates for your calendar'}
+        >
+          <CalendarArrowDown className="w-4 h-4" /> Export .ics
+        </button>
+      </h3>
+
+      {obligations.length === 0 ? (
+        <p className="text-sm text-slate-400 italic mb-3">No obligations recorded yet.</p>
+      ) : (
+        <div className="overflow-x-auto -mx-2 mb-3">
+          <table className="w-full text-left text-xs">
+            <thead>
+              <tr className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">
+                <th className="px-2 py-1.5 w-28">Party</th>
+                <th className="px-2 py-1.5 min-w-[16rem]">Obligation</th>
+                <th className="px-2 py-1.5 w-36">Due / Recurrence</th>
+                <th className="px-2 py-1.5 w-20">Notice (days)</th>
+                <th className="px-2 py-1.5 w-20">Clause</th>
+                <th className="w-8" />
+              </tr>
+            </thead>
+            <tbody>
+              {obligations.map((obligation) => (
+                <tr key={obligation.id} className="align-top border-t border-slate-100">
+                  <td className="px-2 py-2">
+                    <select
+                      value={obligation.party ?? ''}
+                      onChange={(e) => update(obligation.id, { party: (e.target.value || undefined) as ObligationParty | undefined })}
+                      disabled={readOnly}
+                      className={cellClass}
+                      aria-label="Party"
+                    >
+                      <option value="">—</option>
+                      {(Object.keys(OBLIGATION_PARTIES) as ObligationParty[]).map((party) => (
+                        <option key={party} value={party}>{OBLIGATION_PARTIES[party].label}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-2 py-2 space-y-1.5">
+                    <textarea
+                      value={obligation.description}
+                      onChange={(e) => update(obligation.id, { description: e.target.value })}
+                      readOnly={readOnly}
+                      rows={2}
+                      placeholder="What is owed"
+                      className={`${cellClass} resize-y`}
+                    />
+                    <div className="flex gap-1.5">
+                      <select
+                        value={obligation.kind}
+                        onChange={(e) => update(obligation.id, { kind: e.target.value as ObligationKind })}
+                        disabled={readOnly}
+                        className={`${cellClass} font-medium ${OBLIGATION_KINDS[obligation.kind].badgeClass}`}
+                        aria-label="Kind"
+                      >
+                        {(Object.keys(OBLIGATION_KINDS) as ObligationKind[]).map((kind) => (
+                          <option key={kind} value={kind}>{OBLIGATION_KINDS[kind].label}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="text"
+                        value={obligation.amount ?? ''}
+                        onChange={(e) => update(obligation.id, { amount: e.target.value || undefined })}
+                        readOnly={readOnly}
+                        placeholder="Amount"
+                        className={cellClass}
+                      />
+                    </div>
+                  </td>
+                  <td className="px-2 py-2 space-y-1.5">
+                    <input
+                      type="date"
+                      value={obligation.dueDate ?? ''}
+                      onChange={(e) => update(obligation.id, { dueDate: e.target.value || undefined })}
+                      readOnly={readOnly}
+                      className={cellClass}
+                      aria-label="Due date"
+                    />
+                    <select
+                      value={obligation.recurrence}
+                      onChange={(e) => update(obligation.id, { recurrence: e.target.value as ObligationRecurrence })}
+                      disabled={readOnly}
+                      className={cellClass}
+                      aria-label="Recurrence"
+                    >
+                      {(Object.keys(OBLIGATION_RECURRENCES) as ObligationRecurrence[]).map((recurrence) => (
+                        <option key={recurrence} value={recurrence}>{OBLIGATION_RECURRENCES[recurrence].label}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-2 py-2">
+                    <input
+                      type="number"
+                      min={0}
+                      value={obligation.noticeDays ?? ''}
+                      onChange={(e) => update(obligation.id, { noticeDays: e.target.value ? Math.max(0, Math.round(Number(e.target.value))) : undefined })}
+                      readOnly={readOnly}
+                      className={cellClass}
+                      aria-label="Notice period in days"
+                    />
+                  </td>
+                  <td className="px-2 py-2">
+                    <input
+                      type="text"
+                      value={obligation.clauseRef}
+                      onChange={(e) => update(obligation.id, { clauseRef: e.target.value })}
+                      readOnly={readOnly}
+                      placeholder="§"
+                      className={cellClass}
+                      aria-label="Clause"
+                    />
+                  </td>
+                  <td className="py-2">
+                    {!readOnly && (
+                      <button onClick={() => remove(obligation.id)} className="p-1 text-slate-300 hover:text-red-600" title="Remove obligation">
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {!readOnly && (
+        <button
+          onClick={() => onChange([...obligations, createObligation()])}
+          className="flex items-center gap-1.5 text-sm font-medium text-blue-600 hover:text-blue-800"
+        >
+          <Plus className="w-4 h-4" /> Add obligation
+        </button>
+      )}
+
+      {!readOnly && candidates.length > 0 && (
+        <div className="mt-4 space-y-2">
+          <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider flex items-center gap-1.5">
+            <ScanSearch className="w-3.5 h-3.5" /> Found in the contract ({candidates.length})
+          </h4>
+          <ul className="divide-y divide-slate-100 border border-slate-200 rounded-lg">
+            {candidates.map((candidate) => (
+              <li key={candidate.id} className="flex items-start gap-3 p-2.5">
+                <span className={`mt-0.5 text-[10px] font-semibold uppercase tracking-wide px-1.5 py-0.5 rounded border whitespace-nowrap ${OBLIGATION_KINDS[candidate.obligation.kind].badgeClass}`}>
+                  {OBLIGATION_KINDS[candidate.obligation.kind].label}
+                </span>
+                <p className="flex-1 text-xs text-slate-600">{describeObligation({ ...candidate.obligation, id: candidate.id })}</p>
+                <button onClick={() => onAddCandidate(candidate)} className="p-1 text-emerald-600 hover:text-emerald-800" title="Add to the table">
+                  <Check className="w-4 h-4" />
+                </button>
+                <button onClick={() => onDismissCandidate(candidate)} className="p-1 text-slate-400 hover:text-slate-600" title="Dismiss">
+                  <X className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ObligationsTable;
@@ -0,0 +1,46 @@
+import React, { useState, useEffect } from 'react';
+import { WifiOff, RefreshCw } from 'lucide-react';
+import { applyUpdate, isUpdateReady, onUpdateReady } from '../services/pwa';
+
+// Floating notices for working offline and for a downloaded update; shown over every view.
+const OfflineStatus: React.FC = () => {
+  const [online, setOnline] = useState<boolean>(navigator.onLine);
+  const [updateReady, setUpdateReady] = useState<boolean>(isUpdateReady());
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+    const unsubscribe = onUpdateReady(() => setUpdateReady(true));
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+      unsubscribe();
+    };
+  }, []);
+
+  if (online && !updateReady) return null;
+
+  return (
+    <div className="fixed bottom-4 left-4 z-50 flex flex-col gap-2" role="status">
+      {!online && (
+        <div className="flex items-center gap-2 bg-slate-800 text-white text-sm px-3 py-2 rounded-lg shadow-lg">
+          <WifiOff className="w-4 h-4 text-amber-300" /> Offline. Reviews are saved on this device.
+        </div>
+      )}
+      {updateReady && (
+        <div className="flex items-center gap-3 bg-white border border-slate-200 text-slate-700 text-sm px-3 py-2 rounded-lg shadow-lg">
+          A new version is ready.
+          <button
+            onClick={applyUpdate}
+            className="flex items-center gap-1 text-blue-600 hover:text-blue-800 font-medium"
+          >
+            <RefreshCw className="w-3.5 h-3.5" /> Reload
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OfflineStatus;
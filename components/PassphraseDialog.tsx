@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { X, Lock, AlertTriangle } from 'lucide-react';
+import { MIN_PASSPHRASE_LENGTH } from '../services/vault';
+
+interface PassphraseDialogProps {
+  title: string;
+  description: string;
+  submitLabel: string;
+  confirm?: boolean; // ask twice and enforce the minimum length, for a passphrase being set
+  onSubmit: (passphrase: string) => Promise<string | null>; // resolves to an error to show, or null when done
+  onClose: () => void;
+}
+
+const inputClass = 'w-full p-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+const PassphraseDialog: React.FC<PassphraseDialogProps> = ({ title, description, submitLabel, confirm = false, onSubmit, onClose }) => {
+  const [passphrase, setPassphrase] = useState<string>('');
+  const [repeat, setRepeat] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (confirm && passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+      return;
+    }
+    if (confirm && passphrase !== repeat) {
+      setError('The passphrases do not match.');
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      const problem = await onSubmit(passphrase);
+      if (problem) setError(problem);
+      else onClose();
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 z-50 flex items-center justify-center p-4" onClick={busy ? undefined : onClose}>
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white rounded-xl shadow-xl border border-slate-200 p-6 max-w-sm w-full space-y-4"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <Lock className="w-5 h-5" /> {title}
+          </h2>
+          <button type="button" onClick={onClose} disabled={busy} className="text-slate-400 hover:text-slate-600" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-sm text-slate-600">{description}</p>
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          autoFocus
+          autoComplete={confirm ? 'new-password' : 'current-password'}
+          placeholder="Passphrase"
+          className={inputClass}
+        />
+        {confirm && (
+          <input type="password" value={repeat} onChange={(e) => setRepeat(e.target.value)} autoComplete="new-password" placeholder="Repeat passphrase" className={inputClass} />
+        )}
+        {error && (
+          <p className="text-sm text-red-600 flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4 flex-shrink-0" /> {error}
+          </p>
+        )}
+        <button
+          type="submit"
+          disabled={busy || !passphrase}
+          className="w-full bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50"
+        >
+          {busy ? 'Working...' : submitLabel}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default PassphraseDialog;
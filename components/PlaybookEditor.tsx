@@ -0,0 +1,552 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  ClipboardList,
+  Plus,
+  Upload,
+  Download,
+  CopyPlus,
+  Trash2,
+  ArrowUp,
+  ArrowDown,
+  Play,
+  Save,
+  X
+} from 'lucide-react';
+import { ChecklistCondition, ConditionalChecklistItem, PartyRole, Playbook, STEP_ICON_NAMES, StepDefinition, StepIconName } from '../types';
+import StepIcon from './StepIcon';
+import {
+  listPlaybooks,
+  savePlaybook,
+  deletePlaybook,
+  createPlaybook
+} from '../services/playbookStorage';
+import { CLAUSE_TYPES, CLAUSE_TYPE_LABELS, getStepClauseTypes } from '../services/clauseClassifier';
+import { parsePlaybookJson, toPlaybookFile, validatePlaybookContent } from '../services/playbookSchema';
+import { PARTY_ROLES, PARTY_ROLE_VALUES } from '../services/dealContext';
+import { downloadFile, toFileSlug } from '../utils/download';
+
+interface PlaybookEditorProps {
+  onClose: () => void;
+  onStartReview: (playbook: Playbook) => void;
+}
+
+const moveItem = <T,>(items: T[], from: number, to: number): T[] => {
+  if (to < 0 || to >= items.length) return items;
+  const next = [...items];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  return next;
+};
+
+const splitList = (value: string): string[] | undefined => {
+  const items = value.split(',').map((item) => item.trim()).filter(Boolean);
+  return items.length > 0 ? items : undefined;
+};
+
+const createStep = (steps: StepDefinition[]): StepDefinition => ({
+  id: steps.reduce((max, step) => Math.max(max, step.id), 0) + 1,
+  title: 'New Step',
+  duration: 60,
+  icon: 'file-text',
+  description: '',
+  checklist: []
+});
+
+const PlaybookEditor: React.FC<PlaybookEditorProps> = ({ onClose, onStartReview }) => {
+  const [playbooks, setPlaybooks] = useState<Playbook[]>([]);
+  const [draft, setDraft] = useState<Playbook | null>(null);
+  const [dirty, setDirty] = useState<boolean>(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = useCallback(async (selectId?: string) => {
+    const all = await listPlaybooks();
+    setPlaybooks(all);
+    const selected = all.find((playbook) => playbook.id === selectId) ?? all[0] ?? null;
+    setDraft(selected && structuredClone(selected));
+    setDirty(false);
+    setErrors([]);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const confirmDiscard = () => !dirty || window.confirm('Discard unsaved changes to this playbook?');
+
+  const selectPlaybook = (playbook: Playbook) => {
+    if (!confirmDiscard()) return;
+    setDraft(structuredClone(playbook));
+    setDirty(false);
+    setErrors([]);
+  };
+
+  const updateDraft = (patch: Partial<Playbook>) => {
+    setDraft((prev) => (prev ? { ...prev, ...patch } : prev));
+    setDirty(true);
+  };
+
+  const updateStep = (index: number, patch: Partial<StepDefinition>) => {
+    if (!draft) return;
+    updateDraft({ steps: draft.steps.map((step, i) => (i === index ? { ...step, ...patch } : step)) });
+  };
+
+  const updateConditionalItem = (stepIndex: number, itemIndex: number, patch: Partial<ConditionalChecklistItem>) => {
+    const items = draft?.steps[stepIndex].conditionalChecklist ?? [];
+    updateStep(stepIndex, { conditionalChecklist: items.map((item, i) => (i === itemIndex ? { ...item, ...patch } : item)) });
+  };
+
+  const updateCondition = (stepIndex: number, itemIndex: number, patch: Partial<ChecklistCondition>) => {
+    const item = draft?.steps[stepIndex].conditionalChecklist?.[itemIndex];
+    if (item) updateConditionalItem(stepIndex, itemIndex, { when: { ...item.when, ...patch } });
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    const result = validatePlaybookContent(draft);
+    if (result.ok === false) {
+      setErrors(result.errors);
+      return;
+    }
+    const { name, description, steps } = result.value;
+    const saved = await savePlaybook({ ...draft, name, description, steps });
+    await refresh(saved.id);
+  };
+
+  const handleCreate = async () => {
+    if (!confirmDiscard()) return;
+    const playbook = createPlaybook({ name: 'Untitled Playbook', description: '', steps: [createStep([])] });
+    await savePlaybook(playbook);
+    await refresh(playbook.id);
+  };
+
+  const handleDuplicate = async () => {
+    if (!draft || !confirmDiscard()) return;
+    const copy = createPlaybook({ ...draft, name: `${draft.name} (copy)` });
+    await savePlaybook(copy);
+    await refresh(copy.id);
+  };
+
+  const handleDelete = async () => {
+    if (!draft || draft.builtIn) return;
+    if (window.confirm(`Delete the playbook "${draft.name}"? Existing reviews keep their own copy of its steps.`)) {
+      await deletePlaybook(draft.id);
+      await refresh();
+    }
+  };
+
+  const handleExport = () => {
+    if (!draft) return;
+    const json = JSON.stringify(toPlaybookFile(draft), null, 2);
+    downloadFile(`${toFileSlug(draft.name, 'playbook')}.playbook.json`, json, 'application/json');
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file || !confirmDiscard()) return;
+    const result = parsePlaybookJson(await file.text());
+    if (result.ok === false) {
+      setErrors([`Could not import "${file.name}":`, ...result.errors]);
+      return;
+    }
+    const playbook = createPlaybook(result.value);
+    await savePlaybook(playbook);
+    await refresh(playbook.id);
+  };
+
+  const readOnly = draft?.builtIn ?? true;
+
+  return (
+    <div className="flex flex-col h-screen bg-slate-50 text-slate-900 font-sans">
+      <header className="bg-slate-900 text-white p-4 shadow-md flex justify-between items-center z-10">
+        <h1 className="text-xl font-bold flex items-center gap-2">
+          <ClipboardList className="w-6 h-6" /> Review Playbooks
+        </h1>
+        <button
+          onClick={() => confirmDiscard() && onClose()}
+          className="text-sm text-slate-300 hover:text-white font-medium"
+        >
+          Return to Review
+        </button>
+      </header>
+
+      <main className="flex-1 flex overflow-hidden max-w-6xl mx-auto w-full">
+        {/* Playbook list */}
+        <aside className="w-64 bg-white border-r border-slate-200 overflow-y-auto flex-shrink-0 p-4 hidden md:block">
+          <div className="flex gap-2 mb-4">
+            <button
+              onClick={handleCreate}
+              className="flex-1 flex items-center justify-center gap-1.5 px-3 py-2 text-sm rounded-lg bg-blue-600 hover:bg-blue-700 text-white font-medium transition-colors"
+            >
+              <Plus className="w-4 h-4" /> New
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex-1 flex items-center justify-center gap-1.5 px-3 py-2 text-sm rounded-lg bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 font-medium transition-colors"
+            >
+              <Upload className="w-4 h-4" /> Import
+            </button>
+            <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+          </div>
+          <div className="space-y-1">
+            {playbooks.map((playbook) => (
+              <button
+                key={playbook.id}
+                onClick={() => selectPlaybook(playbook)}
+                className={`w-full text-left p-3 rounded-lg text-sm border transition-all ${
+                  draft?.id === playbook.id
+                    ? 'bg-blue-50 text-blue-700 border-blue-200 shadow-sm'
+                    : 'text-slate-600 hover:bg-slate-50 border-transparent'
+                }`}
+              >
+                <span className="font-medium block truncate">{playbook.name}</span>
+                <span className="text-xs text-slate-400">
+                  {playbook.steps.length} steps{playbook.builtIn ? ' · Built-in' : ''}
+                </span>
+              </button>
+            ))}
+          </div>
+        </aside>
+
+        {/* Playbook detail */}
+        <div className="flex-1 overflow-y-auto p-4 md:p-8">
+          {draft && (
+            <div className="max-w-3xl mx-auto pb-24 space-y-6">
+              {/* Playbook picker (Mobile) */}
+              <select
+                value={draft.id}
+                onChange={(e) => {
+                  const playbook = playbooks.find((p) => p.id === e.target.value);
+                  if (playbook) selectPlaybook(playbook);
+                }}
+                className="md:hidden w-full p-3 border border-slate-200 rounded-lg text-sm bg-white"
+              >
+                {playbooks.map((playbook) => <option key={playbook.id} value={playbook.id}>{playbook.name}</option>)}
+              </select>
+
+              <div className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 space-y-4">
+                <input
+                  type="text"
+                  value={draft.name}
+                  disabled={readOnly}
+                  onChange={(e) => updateDraft({ name: e.target.value })}
+                  className="w-full text-2xl font-bold text-slate-900 bg-transparent border-b border-transparent focus:border-blue-500 focus:outline-none disabled:cursor-default"
+                />
+                <textarea
+                  value={draft.description}
+                  disabled={readOnly}
+                  placeholder="What kind of contract is this playbook for?"
+                  onChange={(e) => updateDraft({ description: e.target.value })}
+                  className="w-full p-3 border border-slate-200 rounded-lg text-sm resize-none bg-slate-50 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:cursor-default"
+                  rows={2}
+                />
+                {readOnly && (
+                  <p className="text-xs text-slate-500">Built-in playbooks are read-only. Duplicate this one to customise it.</p>
+                )}
+                <div className="flex flex-wrap gap-2">
+                  {!readOnly && (
+                    <button
+                      onClick={handleSave}
+                      disabled={!dirty}
+                      className="flex items-center gap-1.5 px-4 py-2 text-sm rounded-lg bg-slate-900 hover:bg-slate-800 text-white font-medium transition-colors disabled:opacity-40"
+                    >
+                      <Save className="w-4 h-4" /> Save
+                    </button>
+                  )}
+                  <button
+                    onClick={() => confirmDiscard() && onStartReview(draft)}
+                    className="flex items-center gap-1.5 px-4 py-2 text-sm rounded-lg bg-blue-50 text-blue-700 border border-blue-200 hover:bg-blue-100 font-medium transition-colors"
+                  >
+                    <Play className="w-4 h-4" /> Start Review
+                  </button>
+                  <button
+                    onClick={handleDuplicate}
+                    className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+                    title="Duplicate Playbook"
+                  >
+                    <CopyPlus className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={handleExport}
+                    className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+                    title="Export as JSON"
+                  >
+                    <Download className="w-4 h-4" />
+                  </button>
+                  {!readOnly && (
+                    <button
+                      onClick={handleDelete}
+                      className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                      title="Delete Playbook"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
+                {errors.length > 0 && (
+                  <ul className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-lg p-3 space-y-1">
+                    {errors.map((error, i) => <li key={i}>{error}</li>)}
+                  </ul>
+                )}
+              </div>
+
+              {draft.steps.map((step, stepIndex) => (
+                <div key={step.id} className="bg-white p-6 rounded-xl shadow-sm border border-slate-200 space-y-3">
+                  <div className="flex items-center gap-3">
+                    <div className="p-1.5 rounded-md bg-slate-100 text-slate-500">
+                      <StepIcon name={step.icon} />
+                    </div>
+                    <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Step {stepIndex + 1}</span>
+                    {!readOnly && (
+                      <div className="ml-auto flex gap-1">
+                        <button
+                          onClick={() => updateDraft({ steps: moveItem(draft.steps, stepIndex, stepIndex - 1) })}
+                          disabled={stepIndex === 0}
+                          className="p-1.5 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded disabled:opacity-30"
+                          title="Move Up"
+                        >
+                          <ArrowUp className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => updateDraft({ steps: moveItem(draft.steps, stepIndex, stepIndex + 1) })}
+                          disabled={stepIndex === draft.steps.length - 1}
+                          className="p-1.5 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded disabled:opacity-30"
+                          title="Move Down"
+                        >
+                          <ArrowDown className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => updateDraft({ steps: draft.steps.filter((_, i) => i !== stepIndex) })}
+                          disabled={draft.steps.length === 1}
+                          className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded disabled:opacity-30"
+                          title="Delete Step"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="grid sm:grid-cols-[1fr_auto_auto] gap-3">
+                    <input
+                      type="text"
+                      value={step.title}
+                      disabled={readOnly}
+                      onChange={(e) => updateStep(stepIndex, { title: e.target.value })}
+                      className="p-2 border border-slate-200 rounded-lg text-sm font-medium focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      placeholder="Step title"
+                    />
+                    <label className="flex items-center gap-2 text-sm text-slate-500">
+                      <input
+                        type="number"
+                        min={10}
+                        step={10}
+                        value={step.duration}
+                        disabled={readOnly}
+                        onChange={(e) => updateStep(stepIndex, { duration: Math.max(1, Math.round(Number(e.target.value))) })}
+                        className="w-20 p-2 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      />
+                      sec
+                    </label>
+                    <select
+                      value={step.icon}
+                      disabled={readOnly}
+                      onChange={(e) => updateStep(stepIndex, { icon: e.target.value as StepIconName })}
+                      className="p-2 border border-slate-200 rounded-lg text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    >
+                      {STEP_ICON_NAMES.map((name) => <option key={name} value={name}>{name}</option>)}
+                    </select>
+                  </div>
+
+                  <textarea
+                    value={step.description}
+                    disabled={readOnly}
+                    onChange={(e) => updateStep(stepIndex, { description: e.target.value })}
+                    className="w-full p-2 border border-slate-200 rounded-lg text-sm resize-none bg-slate-50 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    placeholder="What should the reviewer focus on in this step? {counterparty}, {ourRole}, {governingLaw} and {contractType} are filled in from the deal context."
+                    rows={2}
+                  />
+
+                  <div>
+                    <p className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">
+                      Clauses to locate {!step.clauseTypes && <span className="normal-case font-normal">(inferred from checklist)</span>}
+                    </p>
+                    <div className="flex flex-wrap gap-1.5">
+                      {CLAUSE_TYPES.map((type) => {
+                        const active = getStepClauseTypes(step).includes(type);
+                        return (
+                          <button
+                            key={type}
+                            disabled={readOnly}
+                            onClick={() => updateStep(stepIndex, {
+                              clauseTypes: active
+                                ? getStepClauseTypes(step).filter((t) => t !== type)
+                                : [...getStepClauseTypes(step), type]
+                            })}
+                            className={`text-xs px-2 py-1 rounded-full border transition-colors ${
+                              active ? 'bg-emerald-50 text-emerald-700 border-emerald-200' : 'bg-white text-slate-500 border-slate-200 hover:border-slate-300'
+                            } disabled:cursor-default`}
+                          >
+                            {CLAUSE_TYPE_LABELS[type]}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    {step.checklist.map((item, itemIndex) => (
+                      <div key={itemIndex} className="flex items-center gap-2">
+                        <input
+                          type="text"
+                          value={item}
+                          disabled={readOnly}
+                          onChange={(e) => updateStep(stepIndex, {
+                            checklist: step.checklist.map((existing, i) => (i === itemIndex ? e.target.value : existing))
+                          })}
+                          className="flex-1 p-2 border border-slate-200 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          placeholder="Checklist item"
+                        />
+                        {!readOnly && (
+                          <>
+                            <button
+                              onClick={() => updateStep(stepIndex, { checklist: moveItem(step.checklist, itemIndex, itemIndex - 1) })}
+                              disabled={itemIndex === 0}
+                              className="p-1.5 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded disabled:opacity-30"
+                              title="Move Up"
+                            >
+                              <ArrowUp className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => updateStep(stepIndex, { checklist: moveItem(step.checklist, itemIndex, itemIndex + 1) })}
+                              disabled={itemIndex === step.checklist.length - 1}
+                              className="p-1.5 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded disabled:opacity-30"
+                              title="Move Down"
+                            >
+                              <ArrowDown className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => updateStep(stepIndex, { checklist: step.checklist.filter((_, i) => i !== itemIndex) })}
+                              className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded"
+                              title="Delete Item"
+                            >
+                              <X className="w-4 h-4" />
+                            </button>
+                          </>
+                        )}
+                      </div>
+                    ))}
+                    {!readOnly && (
+                      <button
+                        onClick={() => updateStep(stepIndex, { checklist: [...step.checklist, ''] })}
+                        className="flex items-center gap-1.5 text-sm text-blue-600 hover:text-blue-700 font-medium"
+                      >
+                        <Plus className="w-4 h-4" /> Add checklist item
+                      </button>
+                    )}
+                  </div>
+
+                  {(!readOnly || (step.conditionalChecklist?.length ?? 0) > 0) && (
+                    <div className="space-y-2">
+                      <p className="text-xs font-bold text-slate-400 uppercase tracking-wider">
+                        Conditional items <span className="normal-case font-normal">(shown when the deal context matches)</span>
+                      </p>
+                      {(step.conditionalChecklist ?? []).map((item, itemIndex) => (
+                        <div key={itemIndex} className="p-2 rounded-lg border border-slate-200 bg-slate-50 space-y-2">
+                          <div className="flex items-center gap-2">
+                            <input
+                              type="text"
+                              value={item.text}
+                              disabled={readOnly}
+                              onChange={(e) => updateConditionalItem(stepIndex, itemIndex, { text: e.target.value })}
+                              className="flex-1 p-2 border border-slate-200 rounded-lg text-sm bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              placeholder="Checklist item"
+                            />
+                            {!readOnly && (
+                              <button
+                                onClick={() => updateStep(stepIndex, {
+                                  conditionalChecklist: (step.conditionalChecklist ?? []).filter((_, i) => i !== itemIndex)
+                                })}
+                                className="p-1.5 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded"
+                                title="Delete Item"
+                              >
+                                <X className="w-4 h-4" />
+                              </button>
+                            )}
+                          </div>
+                          <div className="grid sm:grid-cols-4 gap-2 text-xs">
+                            <select
+                              value={item.when.partyRole ?? ''}
+                              disabled={readOnly}
+                              onChange={(e) => updateCondition(stepIndex, itemIndex, { partyRole: (e.target.value || undefined) as PartyRole | undefined })}
+                              className="p-1.5 border border-slate-200 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              aria-label="We act for"
+                            >
+                              <option value="">Either party</option>
+                              {PARTY_ROLE_VALUES.map((role) => <option key={role} value={role}>{PARTY_ROLES[role].label} only</option>)}
+                            </select>
+                            <input
+                              key={`${draft.id}-${item.when.contractTypes?.join()}`}
+                              type="text"
+                              defaultValue={item.when.contractTypes?.join(', ') ?? ''}
+                              disabled={readOnly}
+                              onBlur={(e) => updateCondition(stepIndex, itemIndex, { contractTypes: splitList(e.target.value) })}
+                              className="p-1.5 border border-slate-200 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              placeholder="Contract types, comma-separated"
+                            />
+                            <input
+                              key={`${draft.id}-${item.when.governingLaws?.join()}`}
+                              type="text"
+                              defaultValue={item.when.governingLaws?.join(', ') ?? ''}
+                              disabled={readOnly}
+                              onBlur={(e) => updateCondition(stepIndex, itemIndex, { governingLaws: splitList(e.target.value) })}
+                              className="p-1.5 border border-slate-200 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              placeholder="Governing laws, comma-separated"
+                            />
+                            <input
+                              type="number"
+                              min={0}
+                              value={item.when.minValue ?? ''}
+                              disabled={readOnly}
+                              onChange={(e) => updateCondition(stepIndex, itemIndex, {
+                                minValue: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value))
+                              })}
+                              className="p-1.5 border border-slate-200 rounded-md bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+                              placeholder="Minimum value"
+                            />
+                          </div>
+                        </div>
+                      ))}
+                      {!readOnly && (
+                        <button
+                          onClick={() => updateStep(stepIndex, {
+                            conditionalChecklist: [...(step.conditionalChecklist ?? []), { text: '', when: {} }]
+                          })}
+                          className="flex items-center gap-1.5 text-sm text-blue-600 hover:text-blue-700 font-medium"
+                        >
+                          <Plus className="w-4 h-4" /> Add conditional item
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+
+              {!readOnly && (
+                <button
+                  onClick={() => updateDraft({ steps: [...draft.steps, createStep(draft.steps)] })}
+                  className="w-full flex items-center justify-center gap-2 p-4 rounded-xl border-2 border-dashed border-slate-300 text-slate-500 hover:text-blue-600 hover:border-blue-300 font-medium transition-colors"
+                >
+                  <Plus className="w-4 h-4" /> Add Step
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default PlaybookEditor;
@@ -0,0 +1,259 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { PieChart, AlertOctagon, Download, FolderOpen } from 'lucide-react';
+import { FlagSeverity, ReviewRecord } from '../types';
+import { SEVERITY_LEVELS } from '../constants';
+import { listReviews } from '../services/reviewStorage';
+import {
+  EMPTY_PORTFOLIO_FILTERS,
+  PortfolioFilters,
+  TrendPeriod,
+  computePortfolio,
+  filterReviews,
+  getFilterOptions,
+  toFlagsCsv,
+  toReviewsCsv,
+} from '../services/portfolio';
+import { downloadFile } from '../utils/download';
+
+interface PortfolioDashboardProps {
+  onOpenReview: (review: ReviewRecord) => void;
+  onClose: () => void;
+}
+
+const FILTER_LABELS: Record<keyof PortfolioFilters, string> = {
+  contractType: 'Contract type',
+  counterparty: 'Counterparty',
+  reviewer: 'Reviewer',
+};
+
+const sectionClass = 'bg-white rounded-xl shadow-lg border border-slate-200 p-6 md:p-8';
+const headingClass = 'text-lg font-bold text-slate-800 mb-4';
+
+const PortfolioDashboard: React.FC<PortfolioDashboardProps> = ({ onOpenReview, onClose }) => {
+  const [reviews, setReviews] = useState<ReviewRecord[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [filters, setFilters] = useState<PortfolioFilters>(EMPTY_PORTFOLIO_FILTERS);
+  const [period, setPeriod] = useState<TrendPeriod>('month');
+
+  useEffect(() => {
+    listReviews()
+      .then(setReviews)
+      .finally(() => setLoading(false));
+  }, []);
+
+  const options = useMemo(() => getFilterOptions(reviews), [reviews]);
+  const filtered = useMemo(() => filterReviews(reviews, filters), [reviews, filters]);
+  const stats = useMemo(() => computePortfolio(filtered, period), [filtered, period]);
+  const maxStepFlags = Math.max(1, ...stats.byStep.map((step) => step.flags));
+  const maxTrendFlags = Math.max(1, ...stats.trend.map((point) => point.flags));
+
+  const exportCsv = (kind: 'reviews' | 'flags') => {
+    const csv = kind === 'reviews' ? toReviewsCsv(filtered) : toFlagsCsv(filtered);
+    downloadFile(`portfolio-${kind}-${new Date().toISOString().slice(0, 10)}.csv`, csv, 'text/csv;charset=utf-8');
+  };
+
+  return (
+    <div className="flex flex-col h-screen bg-slate-50 text-slate-900 font-sans">
+      <header className="bg-slate-900 text-white p-4 shadow-md flex justify-between items-center z-10">
+        <h1 className="text-xl font-bold flex items-center gap-2">
+          <PieChart className="w-6 h-6" /> Portfolio
+        </h1>
+        <button
+          onClick={onClose}
+          className="text-sm text-slate-300 hover:text-white font-medium"
+        >
+          Back to History
+        </button>
+      </header>
+
+      <main className="flex-1 p-4 md:p-8 overflow-auto w-full flex justify-center">
+        <div className="max-w-5xl w-full space-y-6 h-fit">
+          {loading ? (
+            <p className="text-sm text-slate-500">Loading saved reviews...</p>
+          ) : reviews.length === 0 ? (
+            <div className={sectionClass}>
+              <p className="text-sm text-slate-500">No saved reviews yet. The portfolio summarises every review stored in this browser.</p>
+            </div>
+          ) : (
+            <>
+              <section className={`${sectionClass} flex flex-col md:flex-row md:items-end gap-4`}>
+                {(Object.keys(FILTER_LABELS) as (keyof PortfolioFilters)[]).map((key) => (
+                  <label key={key} className="flex-1 text-xs font-semibold text-slate-500 uppercase tracking-wider">
+                    {FILTER_LABELS[key]}
+                    <select
+                      value={filters[key]}
+                      onChange={(e) => setFilters((prev) => ({ ...prev, [key]: e.target.value }))}
+                      className="mt-1 w-full p-2 border border-slate-300 rounded-lg text-sm font-normal normal-case tracking-normal text-slate-800 bg-white"
+                    >
+                      <option value="">All</option>
+                      {options[key].map((value) => <option key={value} value={value}>{value}</option>)}
+                    </select>
+                  </label>
+                ))}
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => exportCsv('reviews')}
+                    disabled={filtered.length === 0}
+                    className="flex items-center gap-1.5 px-3 py-2 text-sm font-medium text-slate-700 border border-slate-300 rounded-lg hover:bg-slate-50 disabled:opacity-40"
+                  >
+                    <Download className="w-4 h-4" /> Reviews CSV
+                  </button>
+                  <button
+                    onClick={() => exportCsv('flags')}
+                    disabled={stats.flags === 0}
+                    className="flex items-center gap-1.5 px-3 py-2 text-sm font-medium text-slate-700 border border-slate-300 rounded-lg hover:bg-slate-50 disabled:opacity-40"
+                  >
+                    <Download className="w-4 h-4" /> Flags CSV
+                  </button>
+                </div>
+              </section>
+
+              <p className="text-sm text-slate-500">
+                {stats.reviews} of {reviews.length} {reviews.length === 1 ? 'review' : 'reviews'}, {stats.flags} {stats.flags === 1 ? 'flag' : 'flags'}
+              </p>
+
+              {stats.reviews > 0 && (
+                <>
+                  <section className={sectionClass}>
+                    <h2 className={`${headingClass} flex items-center gap-2`}>
+                      <AlertOctagon className="w-5 h-5 text-red-600" /> Open Deal-breakers
+                    </h2>
+                    {stats.dealBreakers.length === 0 ? (
+                      <p className="text-sm text-slate-500">No contract has a deal-breaker open or under negotiation.</p>
+                    ) : (
+                      <ul className="divide-y divide-slate-100">
+                        {stats.dealBreakers.map(({ review, openDealBreakers }) => (
+                          <li key={review.id} className="py-2 flex items-center gap-3 text-sm">
+                            <div className="flex-1 min-w-0">
+                              <p className="font-medium text-slate-800 truncate">{review.contractName || 'Untitled review'}</p>
+                              <p className="text-xs text-slate-500 truncate">
+                                {[review.dealContext?.counterparty, review.reviewer, new Date(review.updatedAt).toLocaleDateString()].filter(Boolean).join(' · ')}
+                              </p>
+                            </div>
+                            <span className="text-xs font-semibold px-2 py-0.5 rounded border bg-red-50 text-red-700 border-red-200">
+                              {openDealBreakers} open
+                            </span>
+                            <button
+                              onClick={() => onOpenReview(review)}
+                              className="flex items-center gap-1 text-blue-600 hover:text-blue-800 font-medium"
+                            >
+                              <FolderOpen className="w-4 h-4" /> Open
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </section>
+
+                  <section className={sectionClass}>
+                    <h2 className={headingClass}>Flags by Step</h2>
+                    <div className="space-y-2">
+                      {stats.byStep.map((step) => (
+                        <div key={step.title} className="flex items-center gap-3 text-sm">
+                          <span className="w-48 truncate text-slate-700" title={step.title}>{step.title}</span>
+                          <div className="flex-1 flex h-3 bg-slate-100 rounded-full overflow-hidden" style={{ maxWidth: `${(step.flags / maxStepFlags) * 100}%` }}>
+                            {SEVERITY_LEVELS.map((level) => step.bySeverity[level.value as FlagSeverity] > 0 && (
+                              <div
+                                key={level.value}
+                                className={level.dotClass}
+                                style={{ flexGrow: step.bySeverity[level.value] }}
+                                title={`${level.label}: ${step.bySeverity[level.value]}`}
+                              />
+                            ))}
+                          </div>
+                          <span className="w-24 text-right text-xs text-slate-500">{step.flags} in {step.reviews}</span>
+                        </div>
+                      ))}
+                    </div>
+                    <div className="flex gap-4 mt-4 text-xs text-slate-500">
+                      {SEVERITY_LEVELS.map((level) => (
+                        <span key={level.value} className="flex items-center gap-1.5">
+                          <span className={`w-2.5 h-2.5 rounded-full ${level.dotClass}`} /> {level.label}
+                        </span>
+                      ))}
+                    </div>
+                  </section>
+
+                  <section className={sectionClass}>
+                    <h2 className={headingClass}>Most Flagged Checklist Items</h2>
+                    {stats.topItems.length === 0 ? (
+                      <p className="text-sm text-slate-500">No checklist items have been flagged.</p>
+                    ) : (
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-xs text-slate-400 uppercase tracking-wider border-b border-slate-200">
+                            <th className="text-left font-semibold py-2">Item</th>
+                            <th className="text-left font-semibold py-2 px-2">Step</th>
+                            <th className="text-right font-semibold py-2 px-2">Flagged</th>
+                            <th className="text-right font-semibold py-2" title="Of the reviews that had this step">Rate</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-100">
+                          {stats.topItems.map((item) => (
+                            <tr key={`${item.stepTitle}:${item.item}`}>
+                              <td className="py-2 pr-2 text-slate-800">{item.item}</td>
+                              <td className="py-2 px-2 text-slate-500">{item.stepTitle}</td>
+                              <td className="py-2 px-2 text-right font-mono text-slate-700">{item.count}</td>
+                              <td className="py-2 text-right font-mono text-slate-700">{Math.round(item.share * 100)}%</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                  </section>
+
+                  <section className={sectionClass}>
+                    <div className="flex justify-between items-center mb-4">
+                      <h2 className="text-lg font-bold text-slate-800">Trend</h2>
+                      <select
+                        value={period}
+                        onChange={(e) => setPeriod(e.target.value as TrendPeriod)}
+                        className="p-1.5 border border-slate-300 rounded-lg text-sm bg-white"
+                      >
+                        <option value="week">By week</option>
+                        <option value="month">By month</option>
+                      </select>
+                    </div>
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-xs text-slate-400 uppercase tracking-wider border-b border-slate-200">
+                          <th className="text-left font-semibold py-2">{period === 'week' ? 'Week of' : 'Month'}</th>
+                          <th className="text-right font-semibold py-2 px-2">Reviews</th>
+                          <th className="text-left font-semibold py-2 px-2 w-1/2">Flags</th>
+                          <th className="text-right font-semibold py-2" title="Deal-breakers open or under negotiation">Deal-breakers</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-100">
+                        {stats.trend.map((point) => (
+                          <tr key={point.period}>
+                            <td className="py-2 pr-2 font-mono text-slate-700">{point.period}</td>
+                            <td className="py-2 px-2 text-right font-mono text-slate-700">{point.reviews}</td>
+                            <td className="py-2 px-2">
+                              <div className="flex items-center gap-2">
+                                <div className="flex-1 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                                  <div className="h-full bg-blue-500" style={{ width: `${(point.flags / maxTrendFlags) * 100}%` }} />
+                                </div>
+                                <span className="text-xs text-slate-500 w-20 text-right">
+                                  {point.flags} ({(point.flags / point.reviews).toFixed(1)}/review)
+                                </span>
+                              </div>
+                            </td>
+                            <td className={`py-2 text-right font-mono ${point.dealBreakers > 0 ? 'text-red-600 font-medium' : 'text-slate-400'}`}>
+                              {point.dealBreakers}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </section>
+                </>
+              )}
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default PortfolioDashboard;
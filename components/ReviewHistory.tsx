@@ -0,0 +1,374 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { History, FolderOpen, CopyPlus, Trash2, Plus, AlertTriangle, Upload, BarChart3, GitCompare, CloudDownload, PieChart, Lock } from 'lucide-react';
+import { ReviewRecord } from '../types';
+import { listReviews, getReview, saveReview, deleteReview, duplicateReview, countFlags } from '../services/reviewStorage';
+import { parseReviewBundle, parseReviewJson, toReviewBundle } from '../services/reviewFile';
+import { isEncryptedBundle } from '../services/vault';
+import { downloadFile } from '../utils/download';
+import PassphraseDialog from './PassphraseDialog';
+import { createId } from '../utils/id';
+import { REVIEW_STAGES, getStage } from '../services/collaboration';
+import { SYNC_TRANSPORTS, SharedReviewSummary, loadSyncSettings } from '../services/sync';
+
+interface ReviewHistoryProps {
+  currentReviewId: string;
+  onOpen: (review: ReviewRecord) => void;
+  onNew: () => void;
+  onNewVersion: (review: ReviewRecord) => void; // review a revised draft of this review's contract
+  onShowAnalytics: () => void;
+  onShowPortfolio: () => void;
+  onClose: () => void;
+}
+
+const ReviewHistory: React.FC<ReviewHistoryProps> = ({ currentReviewId, onOpen, onNew, onNewVersion, onShowAnalytics, onShowPortfolio, onClose }) => {
+  const [reviews, setReviews] = useState<ReviewRecord[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [importNotice, setImportNotice] = useState<string | null>(null);
+  const [bundlePrompt, setBundlePrompt] = useState<{ kind: 'export' } | { kind: 'import'; fileName: string; data: unknown } | null>(null);
+  const [shared, setShared] = useState<SharedReviewSummary[]>([]);
+  const [sharedError, setSharedError] = useState<string | null>(null);
+  const [storageError, setStorageError] = useState<string | null>(null); // a failed list, duplicate or delete
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setReviews(await listReviews());
+    } catch (error) {
+      setStorageError(`Could not load saved reviews. ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  // Reviews other reviewers shared through the sync server
+  useEffect(() => {
+    const settings = loadSyncSettings();
+    if (!settings.enabled) return;
+    SYNC_TRANSPORTS[settings.transport].list(settings)
+      .then(setShared)
+      .catch((error) => setSharedError(error instanceof Error ? error.message : String(error)));
+  }, []);
+
+  const sharedOnly = shared.filter((summary) => !reviews.some((review) => review.id === summary.id));
+
+  const handleOpenShared = async (summary: SharedReviewSummary) => {
+    const settings = loadSyncSettings();
+    try {
+      const remote = await SYNC_TRANSPORTS[settings.transport].pull(settings, summary.id);
+      if (!remote) {
+        setSharedError(`"${summary.contractName || 'Untitled'}" is no longer on the server.`);
+        return;
+      }
+      const record = { ...remote.review, syncRevision: remote.revision };
+      await saveReview(record);
+      onOpen(record);
+    } catch (error) {
+      setSharedError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const handleDuplicate = async (id: string) => {
+    setStorageError(null);
+    try {
+      await duplicateReview(id);
+    } catch (error) {
+      setStorageError(`Could not duplicate the review. ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+    refresh();
+  };
+
+  const handleDelete = async (review: ReviewRecord) => {
+    if (!window.confirm(`Delete the review "${review.contractName || 'Untitled'}"? This cannot be undone.`)) return;
+    setStorageError(null);
+    try {
+      await deleteReview(review.id);
+    } catch (error) {
+      setStorageError(`Could not delete the review. ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+    if (review.id === currentReviewId) onNew();
+    refresh();
+  };
+
+  // An import never overwrites a different review that happens to share its id.
+  const importId = (imported: ReviewRecord, existing: ReviewRecord | undefined): ReviewRecord =>
+    existing && existing.createdAt !== imported.createdAt ? { ...imported, id: createId() } : imported;
+
+  // Restores a JSON export, or asks for the passphrase of an encrypted bundle.
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    const text = await file.text();
+    setImportNotice(null);
+    try {
+      const data: unknown = JSON.parse(text);
+      if (isEncryptedBundle(data)) {
+        setImportErrors([]);
+        setBundlePrompt({ kind: 'import', fileName: file.name, data });
+        return;
+      }
+    } catch {
+      // parseReviewJson reports it
+    }
+    const result = parseReviewJson(text);
+    if (result.ok === false) {
+      setImportErrors([`Could not import "${file.name}":`, ...result.errors]);
+      return;
+    }
+    setImportErrors([]);
+    try {
+      const existing = await getReview(result.value.id);
+      const imported = importId(result.value, existing);
+      if (existing && imported.id === existing.id && !window.confirm(`Replace the saved copy of "${existing.contractName || 'Untitled'}" with the imported one?`)) {
+        return;
+      }
+      await saveReview(imported);
+      onOpen(imported);
+    } catch (error) {
+      setImportErrors([`Could not import "${file.name}":`, error instanceof Error ? error.message : String(error)]);
+    }
+  };
+
+  // Bundles carry many reviews, so instead of asking about each one the newer copy of a review wins.
+  const importBundle = async (fileName: string, data: unknown, passphrase: string): Promise<string | null> => {
+    const result = await parseReviewBundle(data, passphrase);
+    if (result.ok === false) {
+      if (result.errors.length === 1 && !result.errors[0].startsWith('reviews[')) return result.errors[0];
+      setImportErrors([`Could not import "${fileName}":`, ...result.errors]);
+      return null;
+    }
+    let added = 0;
+    try {
+      for (const review of result.value) {
+        const existing = await getReview(review.id);
+        const imported = importId(review, existing);
+        if (existing && imported.id === existing.id && existing.updatedAt >= imported.updatedAt) continue;
+        await saveReview(imported);
+        added++;
+      }
+    } catch (error) {
+      setImportErrors([
+        `Could not import "${fileName}" after ${added} of ${result.value.length} ${result.value.length === 1 ? 'review' : 'reviews'}:`,
+        error instanceof Error ? error.message : String(error),
+      ]);
+      refresh();
+      return null;
+    }
+    const skipped = result.value.length - added;
+    setImportNotice(`Imported ${added} of ${result.value.length} ${result.value.length === 1 ? 'review' : 'reviews'} from "${fileName}".${skipped > 0 ? ` ${skipped} already saved here in the same or a newer version.` : ''}`);
+    refresh();
+    return null;
+  };
+
+  const exportBundle = async (passphrase: string): Promise<string | null> => {
+    const bundle = await toReviewBundle(reviews, passphrase);
+    downloadFile(`reviews-${new Date().toISOString().slice(0, 10)}.reviewbundle.json`, JSON.stringify(bundle), 'application/json');
+    return null;
+  };
+
+  return (
+    <div className="flex flex-col h-screen bg-slate-50 text-slate-900 font-sans">
+      <header className="bg-slate-900 text-white p-4 shadow-md flex justify-between items-center z-10">
+        <h1 className="text-xl font-bold flex items-center gap-2">
+          <History className="w-6 h-6" /> Review History
+        </h1>
+        <button
+          onClick={onClose}
+          className="text-sm text-slate-300 hover:text-white font-medium"
+        >
+          Return to Review
+        </button>
+      </header>
+
+      <main className="flex-1 p-4 md:p-8 overflow-auto w-full flex justify-center">
+        <div className="bg-white rounded-xl shadow-lg border border-slate-200 p-6 md:p-8 max-w-4xl w-full h-fit">
+          <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6 gap-4">
+            <h2 className="text-2xl font-bold text-slate-800">Past Reviews</h2>
+            <div className="flex gap-2">
+              <button
+                onClick={onShowAnalytics}
+                className="flex items-center justify-center gap-2 bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 px-4 py-2 rounded-lg font-medium transition-colors text-sm"
+                title="Average time per step across saved reviews"
+              >
+                <BarChart3 className="w-4 h-4" /> Time Analytics
+              </button>
+              <button
+                onClick={onShowPortfolio}
+                className="flex items-center justify-center gap-2 bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 px-4 py-2 rounded-lg font-medium transition-colors text-sm"
+                title="Flags, deal-breakers and trends across saved reviews"
+              >
+                <PieChart className="w-4 h-4" /> Portfolio
+              </button>
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                className="flex items-center justify-center gap-2 bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 px-4 py-2 rounded-lg font-medium transition-colors text-sm"
+                title="Restore a review from a JSON export, or reviews from an encrypted bundle"
+              >
+                <Upload className="w-4 h-4" /> Import
+              </button>
+              <button
+                onClick={() => setBundlePrompt({ kind: 'export' })}
+                disabled={reviews.length === 0}
+                className="flex items-center justify-center gap-2 bg-white border border-slate-300 hover:bg-slate-50 text-slate-700 px-4 py-2 rounded-lg font-medium transition-colors text-sm disabled:opacity-40"
+                title="All saved reviews in one passphrase-protected file, for moving them to another machine"
+              >
+                <Lock className="w-4 h-4" /> Export Encrypted
+              </button>
+              <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+              <button
+                onClick={onNew}
+                className="flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-all shadow-md active:transform active:scale-95 text-sm"
+              >
+                <Plus className="w-4 h-4" /> Start New Review
+              </button>
+            </div>
+          </div>
+
+          {importNotice && (
+            <p className="mb-6 p-3 rounded-lg bg-emerald-50 border border-emerald-200 text-sm text-emerald-700">{importNotice}</p>
+          )}
+
+          {importErrors.length > 0 && (
+            <ul className="mb-6 p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700 space-y-1">
+              {importErrors.map((error, i) => <li key={i}>{error}</li>)}
+            </ul>
+          )}
+
+          {storageError && (
+            <p className="mb-6 p-3 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700">{storageError}</p>
+          )}
+
+          {loading ? (
+            <p className="text-sm text-slate-500">Loading saved reviews...</p>
+          ) : reviews.length === 0 ? (
+            <p className="text-sm text-slate-500">No saved reviews yet. Reviews are saved automatically as you work.</p>
+          ) : (
+            <ul className="divide-y divide-slate-100 border border-slate-200 rounded-lg">
+              {reviews.map((review) => {
+                const flags = countFlags(review.findings);
+                return (
+                  <li key={review.id} className={`p-4 flex flex-col sm:flex-row sm:items-center gap-3 ${review.id === currentReviewId ? 'bg-blue-50/50' : ''}`}>
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-slate-800 truncate">
+                        {review.contractName || 'Untitled Contract'}
+                        {review.id === currentReviewId && (
+                          <span className="ml-2 text-[10px] uppercase tracking-wider font-semibold text-blue-600">Open</span>
+                        )}
+                      </p>
+                      <p className="text-xs text-slate-500 mt-1 flex items-center gap-3">
+                        <span>{new Date(review.updatedAt).toLocaleString()}</span>
+                        <span>
+                          {review.reviewComplete ? 'Complete' : `Step ${review.activeStep + 1} of ${review.steps.length}`}
+                        </span>
+                        <span className="truncate">{review.playbookName}</span>
+                        {getStage(review) !== 'first-pass' && (
+                          <span className={`text-[10px] font-semibold uppercase tracking-wide px-1.5 py-0.5 rounded border ${REVIEW_STAGES[getStage(review)].badgeClass}`}>
+                            {REVIEW_STAGES[getStage(review)].label}
+                          </span>
+                        )}
+                        <span className={`flex items-center gap-1 ${flags > 0 ? 'text-amber-600 font-medium' : ''}`}>
+                          <AlertTriangle className="w-3 h-3" /> {flags} {flags === 1 ? 'flag' : 'flags'}
+                        </span>
+                      </p>
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => onOpen(review)}
+                        className="flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-lg bg-blue-50 text-blue-700 border border-blue-200 hover:bg-blue-100 transition-colors"
+                      >
+                        <FolderOpen className="w-4 h-4" /> Open
+                      </button>
+                      <button
+                        onClick={() => onNewVersion(review)}
+                        disabled={!review.document}
+                        className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-40 disabled:hover:bg-transparent"
+                        title={review.document ? 'Review New Version' : 'Load the contract into this review to compare a new version'}
+                      >
+                        <GitCompare className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDuplicate(review.id)}
+                        className="p-2 text-slate-400 hover:text-slate-600 hover:bg-slate-100 rounded-lg transition-colors"
+                        title="Duplicate Review"
+                      >
+                        <CopyPlus className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(review)}
+                        className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                        title="Delete Review"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+
+          {(sharedOnly.length > 0 || sharedError) && (
+            <div className="mt-8">
+              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Shared by other reviewers</h3>
+              {sharedError && <p className="mb-2 text-sm text-red-600">{sharedError}</p>}
+              {sharedOnly.length > 0 && (
+                <ul className="divide-y divide-slate-100 border border-slate-200 rounded-lg">
+                  {sharedOnly.map((summary) => (
+                    <li key={summary.id} className="p-4 flex flex-col sm:flex-row sm:items-center gap-3">
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium text-slate-800 truncate">{summary.contractName || 'Untitled Contract'}</p>
+                        <p className="text-xs text-slate-500 mt-1 flex items-center gap-3">
+                          <span>{new Date(summary.updatedAt).toLocaleString()}</span>
+                          {summary.reviewer && <span className="truncate">{summary.reviewer}</span>}
+                          <span className="truncate">{summary.playbookName}</span>
+                          <span className={`text-[10px] font-semibold uppercase tracking-wide px-1.5 py-0.5 rounded border ${REVIEW_STAGES[summary.stage ?? 'first-pass'].badgeClass}`}>
+                            {REVIEW_STAGES[summary.stage ?? 'first-pass'].label}
+                          </span>
+                        </p>
+                      </div>
+                      <button
+                        onClick={() => handleOpenShared(summary)}
+                        className="flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-lg bg-blue-50 text-blue-700 border border-blue-200 hover:bg-blue-100 transition-colors"
+                      >
+                        <CloudDownload className="w-4 h-4" /> Open
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      </main>
+
+      {bundlePrompt?.kind === 'export' && (
+        <PassphraseDialog
+          title="Export Encrypted"
+          description={`All ${reviews.length} saved ${reviews.length === 1 ? 'review' : 'reviews'} go into one file, encrypted with this passphrase. It is separate from the vault passphrase; share it with the recipient another way.`}
+          submitLabel="Encrypt and Download"
+          confirm
+          onSubmit={exportBundle}
+          onClose={() => setBundlePrompt(null)}
+        />
+      )}
+      {bundlePrompt?.kind === 'import' && (
+        <PassphraseDialog
+          title="Import Encrypted Bundle"
+          description={`Enter the passphrase "${bundlePrompt.fileName}" was exported with.`}
+          submitLabel="Decrypt and Import"
+          onSubmit={(passphrase) => importBundle(bundlePrompt.fileName, bundlePrompt.data, passphrase)}
+          onClose={() => setBundlePrompt(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default ReviewHistory;
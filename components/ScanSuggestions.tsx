@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { ScanSearch, Check, X, Settings, RotateCcw } from 'lucide-react';
+import { ScanRuleId, ScanSuggestion, ScannerConfig } from '../types';
+import { SCAN_RULES, SCAN_RULE_IDS, DEFAULT_SCANNER_CONFIG } from '../services/redFlagScanner';
+import { getSeverityMeta } from '../services/risk';
+
+interface ScanSuggestionsProps {
+  suggestions: ScanSuggestion[];
+  config: ScannerConfig;
+  onAccept: (suggestion: ScanSuggestion) => void;
+  onDismiss: (suggestion: ScanSuggestion) => void;
+  onConfigChange: (config: ScannerConfig) => void;
+}
+
+const splitList = (value: string) => value.split(',').map((item) => item.trim()).filter(Boolean);
+
+const ScanSuggestions: React.FC<ScanSuggestionsProps> = ({ suggestions, config, onAccept, onDismiss, onConfigChange }) => {
+  const [showSettings, setShowSettings] = useState<boolean>(false);
+
+  const toggleRule = (ruleId: ScanRuleId) =>
+    onConfigChange({ ...config, enabledRules: { ...config.enabledRules, [ruleId]: !config.enabledRules[ruleId] } });
+
+  return (
+    <div className="mb-6 bg-white rounded-xl shadow-sm border border-slate-200">
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-slate-100">
+        <ScanSearch className="w-4 h-4 text-violet-600" />
+        <h3 className="text-sm font-bold text-slate-800">Scanner Suggestions</h3>
+        <span className="text-xs text-slate-400">{suggestions.length} for this step</span>
+        <button
+          onClick={() => setShowSettings((prev) => !prev)}
+          className={`ml-auto p-1.5 rounded-md transition-colors ${showSettings ? 'bg-slate-100 text-slate-700' : 'text-slate-400 hover:text-slate-600 hover:bg-slate-100'}`}
+          title="Scanner Rules"
+        >
+          <Settings className="w-4 h-4" />
+        </button>
+      </div>
+
+      {showSettings && (
+        <div className="p-4 border-b border-slate-100 bg-slate-50 space-y-3 text-sm">
+          <div className="grid sm:grid-cols-2 gap-2">
+            {SCAN_RULE_IDS.map((ruleId) => (
+              <label key={ruleId} className="flex items-start gap-2 cursor-pointer" title={SCAN_RULES[ruleId].description}>
+                <input
+                  type="checkbox"
+                  checked={config.enabledRules[ruleId]}
+                  onChange={() => toggleRule(ruleId)}
+                  className="mt-0.5"
+                />
+                <span className="text-slate-700">{SCAN_RULES[ruleId].label}</span>
+              </label>
+            ))}
+          </div>
+          <label className="block">
+            <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Vague words (comma-separated)</span>
+            <textarea
+              defaultValue={config.vagueTerms.join(', ')}
+              onBlur={(e) => onConfigChange({ ...config, vagueTerms: splitList(e.target.value) })}
+              rows={2}
+              className="mt-1 w-full p-2 border border-slate-200 rounded-lg text-xs resize-none bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </label>
+          <label className="block">
+            <span className="text-xs font-bold text-slate-400 uppercase tracking-wider">Never flag as undefined (e.g. party names)</span>
+            <input
+              type="text"
+              defaultValue={config.ignoredTerms.join(', ')}
+              onBlur={(e) => onConfigChange({ ...config, ignoredTerms: splitList(e.target.value) })}
+              className="mt-1 w-full p-2 border border-slate-200 rounded-lg text-xs bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </label>
+          <button
+            onClick={() => {
+              onConfigChange(DEFAULT_SCANNER_CONFIG);
+              setShowSettings(false);
+            }}
+            className="flex items-center gap-1.5 text-xs text-slate-500 hover:text-slate-700"
+          >
+            <RotateCcw className="w-3.5 h-3.5" /> Restore default rules
+          </button>
+        </div>
+      )}
+
+      {suggestions.length === 0 ? (
+        <p className="px-4 py-3 text-sm text-slate-500">No open suggestions for this step.</p>
+      ) : (
+        <ul className="divide-y divide-slate-100 max-h-72 overflow-y-auto">
+          {suggestions.map((suggestion) => {
+            const severity = getSeverityMeta(suggestion.severity);
+            return (
+              <li key={suggestion.id} className="px-4 py-3 flex gap-3">
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 mb-1">
+                    <span className={`text-[10px] font-semibold uppercase tracking-wide px-1.5 py-0.5 rounded border ${severity.badgeClass}`}>
+                      {severity.label}
+                    </span>
+                    <span className="text-sm font-medium text-slate-800">{suggestion.title}</span>
+                    {suggestion.clauseRef && <span className="text-xs text-slate-400 font-mono">{suggestion.clauseRef}</span>}
+                  </div>
+                  <p className="text-xs text-slate-600">{suggestion.detail}</p>
+                  <p className="mt-1 text-xs text-slate-500 italic truncate" title={suggestion.text}>"{suggestion.text}"</p>
+                </div>
+                <div className="flex flex-col gap-1">
+                  <button
+                    onClick={() => onAccept(suggestion)}
+                    className="p-1.5 rounded-md text-emerald-600 hover:bg-emerald-50 transition-colors"
+                    title={suggestion.checklistItem ? `Flag "${suggestion.checklistItem}"` : 'Add to notes'}
+                  >
+                    <Check className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => onDismiss(suggestion)}
+                    className="p-1.5 rounded-md text-slate-400 hover:text-slate-600 hover:bg-slate-100 transition-colors"
+                    title="Dismiss"
+                  >
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ScanSuggestions;
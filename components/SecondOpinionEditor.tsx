@@ -0,0 +1,49 @@
+import React from 'react';
+import { ThumbsUp, ThumbsDown } from 'lucide-react';
+import { SecondOpinion, SecondOpinionVerdict } from '../types';
+import { SECOND_OPINION_VERDICTS, describeAttribution } from '../services/collaboration';
+
+interface SecondOpinionEditorProps {
+  opinion?: SecondOpinion;
+  readOnly: boolean; // after sign-off
+  onChange: (patch: { verdict?: SecondOpinionVerdict; comment: string }) => void;
+}
+
+const VERDICT_ICONS: Record<SecondOpinionVerdict, React.ElementType> = { agree: ThumbsUp, disagree: ThumbsDown };
+
+const SecondOpinionEditor: React.FC<SecondOpinionEditorProps> = ({ opinion, readOnly, onChange }) => (
+  <div className="ml-8 mb-2 p-3 rounded-lg bg-violet-50/50 border border-violet-200 space-y-2">
+    <div className="flex items-center gap-2">
+      <span className="text-xs font-bold text-violet-700 uppercase tracking-wider">Second review</span>
+      {(Object.keys(SECOND_OPINION_VERDICTS) as SecondOpinionVerdict[]).map((verdict) => {
+        const Icon = VERDICT_ICONS[verdict];
+        const active = opinion?.verdict === verdict;
+        return (
+          <button
+            key={verdict}
+            onClick={() => onChange({ verdict: active ? undefined : verdict, comment: opinion?.comment ?? '' })}
+            disabled={readOnly}
+            aria-pressed={active}
+            className={`flex items-center gap-1 text-xs font-medium px-2 py-1 rounded-md border transition-colors disabled:cursor-default ${
+              active ? SECOND_OPINION_VERDICTS[verdict].badgeClass : 'border-slate-200 bg-white text-slate-500 enabled:hover:bg-slate-50'
+            }`}
+          >
+            <Icon className="w-3.5 h-3.5" /> {verdict === 'agree' ? 'Agree' : 'Disagree'}
+          </button>
+        );
+      })}
+      {opinion && <span className="ml-auto text-[11px] text-slate-400 truncate">{describeAttribution(opinion)}</span>}
+    </div>
+    <input
+      type="text"
+      value={opinion?.comment ?? ''}
+      onChange={(e) => onChange({ verdict: opinion?.verdict, comment: e.target.value })}
+      readOnly={readOnly}
+      placeholder="Comment for the first reviewer..."
+      className="w-full text-xs p-1.5 rounded-md border border-slate-200 bg-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+      aria-label="Second review comment"
+    />
+  </div>
+);
+
+export default SecondOpinionEditor;
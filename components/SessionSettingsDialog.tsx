@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { X, Timer, Volume2 } from 'lucide-react';
+import { SessionSettings } from '../types';
+import {
+  SESSION_ALERTS,
+  SESSION_ALERT_KINDS,
+  notificationsSupported,
+  raiseSessionAlert,
+  requestNotificationPermission
+} from '../services/sessionAlerts';
+import { formatDuration } from '../services/timeTracking';
+
+interface SessionSettingsDialogProps {
+  settings: SessionSettings;
+  plannedTotal: number; // seconds, for the budget line
+  onChange: (settings: SessionSettings) => void;
+  onClose: () => void;
+}
+
+const MAX_GRACE_SECONDS = 60;
+
+const SessionSettingsDialog: React.FC<SessionSettingsDialogProps> = ({ settings, plannedTotal, onChange, onClose }) => {
+  const [notificationError, setNotificationError] = useState<string | null>(null);
+
+  const toggleDesktop = async (enabled: boolean) => {
+    setNotificationError(null);
+    if (enabled && !(await requestNotificationPermission())) {
+      setNotificationError('Notifications are blocked for this site. Allow them in the browser settings first.');
+      return;
+    }
+    onChange({ ...settings, desktopNotifications: enabled });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-xl border border-slate-200 p-6 max-w-md w-full max-h-[80vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <Timer className="w-5 h-5" /> Session Mode
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <label className="flex items-start gap-3 p-3 rounded-lg border border-slate-200 cursor-pointer mb-4">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+            className="mt-1"
+          />
+          <span>
+            <span className="block text-sm font-medium text-slate-800">Run the review as one timed session</span>
+            <span className="block text-xs text-slate-500">
+              One master clock for the whole {formatDuration(plannedTotal)} budget. The clock keeps running between steps until you pause it.
+            </span>
+          </span>
+        </label>
+
+        <fieldset disabled={!settings.enabled} className="space-y-4 disabled:opacity-50">
+          <div className="space-y-2">
+            <label className="flex items-center gap-3 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                checked={settings.autoAdvance}
+                onChange={(e) => onChange({ ...settings, autoAdvance: e.target.checked })}
+              />
+              Move to the next step when time is up
+            </label>
+            <label className="flex items-center gap-3 text-sm text-slate-700 pl-7">
+              Grace period
+              <input
+                type="number"
+                min={0}
+                max={MAX_GRACE_SECONDS}
+                value={settings.graceSeconds}
+                disabled={!settings.autoAdvance}
+                onChange={(e) => onChange({
+                  ...settings,
+                  graceSeconds: Math.min(MAX_GRACE_SECONDS, Math.max(0, Math.round(Number(e.target.value) || 0)))
+                })}
+                className="w-16 p-1 border border-slate-200 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              seconds
+            </label>
+          </div>
+
+          <div>
+            <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Alerts</h3>
+            <div className="space-y-2">
+              {SESSION_ALERT_KINDS.map((kind) => (
+                <label key={kind} className="flex items-center gap-3 text-sm text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={settings.alerts[kind]}
+                    onChange={(e) => onChange({ ...settings, alerts: { ...settings.alerts, [kind]: e.target.checked } })}
+                  />
+                  {SESSION_ALERTS[kind].label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Delivery</h3>
+            <div className="space-y-2">
+              <div className="flex items-center gap-3">
+                <label className="flex items-center gap-3 text-sm text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={settings.sound}
+                    onChange={(e) => onChange({ ...settings, sound: e.target.checked })}
+                  />
+                  Sound
+                </label>
+                <button
+                  type="button"
+                  onClick={() => raiseSessionAlert('time-up', 'Session Mode', { ...settings, desktopNotifications: false })}
+                  disabled={!settings.sound}
+                  className="text-xs text-blue-600 hover:text-blue-800 flex items-center gap-1 disabled:opacity-40"
+                >
+                  <Volume2 className="w-3.5 h-3.5" /> Test
+                </button>
+              </div>
+              {notificationsSupported() && (
+                <label className="flex items-center gap-3 text-sm text-slate-700">
+                  <input
+                    type="checkbox"
+                    checked={settings.desktopNotifications}
+                    onChange={(e) => toggleDesktop(e.target.checked)}
+                  />
+                  Desktop notifications (useful when the tab is in the background)
+                </label>
+              )}
+              {notificationError && <p className="text-xs text-red-600">{notificationError}</p>}
+            </div>
+          </div>
+        </fieldset>
+      </div>
+    </div>
+  );
+};
+
+export default SessionSettingsDialog;
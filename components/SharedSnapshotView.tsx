@@ -0,0 +1,76 @@
+import React from 'react';
+import { Link2, CopyPlus, X, AlertTriangle } from 'lucide-react';
+import { ReviewRecord } from '../types';
+import { RISK_RATINGS } from '../constants';
+import { buildReportData, renderReportText } from '../services/reportExport';
+import { REVIEW_STAGES, getStage } from '../services/collaboration';
+
+interface SharedSnapshotViewProps {
+  snapshot: ReviewRecord;
+  copyError?: string; // why the last Save a Copy failed
+  onSaveCopy: () => void;
+  onClose: () => void;
+}
+
+// A review someone sent as a snapshot link. Nothing here is saved unless the reader keeps a copy.
+const SharedSnapshotView: React.FC<SharedSnapshotViewProps> = ({ snapshot, copyError, onSaveCopy, onClose }) => {
+  const data = buildReportData(snapshot);
+  const stage = getStage(snapshot);
+
+  return (
+    <div className="flex flex-col h-screen bg-slate-50 text-slate-900 font-sans">
+      <header className="bg-slate-900 text-white p-4 shadow-md flex justify-between items-center z-10">
+        <h1 className="text-xl font-bold flex items-center gap-2">
+          <Link2 className="w-6 h-6" /> Shared Snapshot
+          <span className="text-xs font-semibold uppercase tracking-wide px-2 py-0.5 rounded-full border border-slate-600 text-slate-300">Read-only</span>
+        </h1>
+        <button onClick={onClose} className="text-sm text-slate-300 hover:text-white font-medium flex items-center gap-1.5">
+          <X className="w-4 h-4" /> Close
+        </button>
+      </header>
+
+      <main className="flex-1 p-4 md:p-8 overflow-auto w-full flex justify-center">
+        <div className="bg-white rounded-xl shadow-lg border border-slate-200 p-6 md:p-8 max-w-4xl w-full h-fit">
+          <div className="flex flex-col md:flex-row justify-between items-start md:items-center mb-6">
+            <div className="flex items-center gap-3">
+              <h2 className="text-2xl font-bold text-slate-800">{data.contractName}</h2>
+              <span className={`text-xs font-semibold uppercase tracking-wide px-2.5 py-1 rounded-full border ${RISK_RATINGS[data.risk.rating].badgeClass}`}>
+                {RISK_RATINGS[data.risk.rating].label}
+              </span>
+              <span className={`text-xs font-semibold uppercase tracking-wide px-2.5 py-1 rounded-full border ${REVIEW_STAGES[stage].badgeClass}`}>
+                {REVIEW_STAGES[stage].label}
+              </span>
+            </div>
+            <span className="text-sm text-slate-500 mt-2 md:mt-0">
+              As of {new Date(snapshot.updatedAt).toLocaleString()}
+            </span>
+          </div>
+
+          <p className="mb-6 text-sm text-slate-600">
+            The findings as they stood when the link was made. The contract text and confidential notes are not included.
+          </p>
+
+          <div className="bg-slate-50 p-6 rounded-lg font-mono text-sm whitespace-pre-wrap mb-8 border border-slate-200 overflow-x-auto shadow-inner text-slate-700">
+            {renderReportText(data)}
+          </div>
+
+          {copyError && (
+            <p className="mb-4 text-sm text-red-600 flex items-center gap-2">
+              <AlertTriangle className="w-4 h-4" /> Could not save the copy. {copyError}
+            </p>
+          )}
+
+          <button
+            onClick={onSaveCopy}
+            title="Adds the review to your Review History as a new first pass"
+            className="flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-6 py-3 rounded-lg font-medium transition-all shadow-md"
+          >
+            <CopyPlus className="w-4 h-4" /> Save a Copy
+          </button>
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default SharedSnapshotView;
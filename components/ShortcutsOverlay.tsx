@@ -0,0 +1,117 @@
+import React, { useState, useEffect } from 'react';
+import { Keyboard, X, RotateCcw } from 'lucide-react';
+import {
+  SHORTCUT_ACTIONS,
+  ShortcutBindings,
+  ShortcutGroup,
+  DEFAULT_BINDINGS,
+  comboFromEvent,
+  formatCombo,
+  rebind
+} from '../services/shortcuts';
+
+interface ShortcutsOverlayProps {
+  bindings: ShortcutBindings;
+  onChange: (bindings: ShortcutBindings) => void;
+  onClose: () => void;
+}
+
+const GROUPS: ShortcutGroup[] = ['Steps', 'Checklist', 'Timer', 'Review', 'General'];
+
+const ShortcutsOverlay: React.FC<ShortcutsOverlayProps> = ({ bindings, onChange, onClose }) => {
+  const [recording, setRecording] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // While recording, the next key press becomes the binding. Capture phase keeps it from
+  // reaching the app's own shortcut handler. Escape cancels, Backspace clears.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!recording) {
+        if (event.key === 'Escape') onClose();
+        return;
+      }
+      event.preventDefault();
+      event.stopPropagation();
+      if (event.key === 'Escape') {
+        setRecording(null);
+        return;
+      }
+      const combo = event.key === 'Backspace' ? '' : comboFromEvent(event);
+      if (combo === null) return;
+      const result = rebind(bindings, recording, combo);
+      const displaced = SHORTCUT_ACTIONS.find((action) => action.id === result.displaced);
+      setNotice(displaced ? `${formatCombo(combo)} was unbound from "${displaced.label}".` : null);
+      onChange(result.bindings);
+      setRecording(null);
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [recording, bindings, onChange, onClose]);
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-xl border border-slate-200 p-6 max-w-2xl w-full max-h-[85vh] flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+        role="dialog"
+        aria-label="Keyboard shortcuts"
+      >
+        <div className="flex justify-between items-center mb-2">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <Keyboard className="w-5 h-5" /> Keyboard Shortcuts
+          </h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-xs text-slate-500 mb-4">
+          Shortcuts pause while you type in a text field; press Esc to leave it. Click a binding to change it,
+          then press the new keys (Backspace clears, Esc cancels).
+        </p>
+        {notice && <p className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-md px-3 py-2 mb-3">{notice}</p>}
+
+        <div className="overflow-y-auto flex-1 grid sm:grid-cols-2 gap-x-8 gap-y-4">
+          {GROUPS.map((group) => (
+            <section key={group}>
+              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">{group}</h3>
+              <ul className="divide-y divide-slate-100">
+                {SHORTCUT_ACTIONS.filter((action) => action.group === group).map((action) => (
+                  <li key={action.id} className="flex items-center justify-between gap-3 py-1.5 text-sm">
+                    <span className="text-slate-700">{action.label}</span>
+                    <button
+                      onClick={() => setRecording(action.id)}
+                      className={`min-w-[3.5rem] text-xs font-mono rounded px-1.5 py-0.5 border transition-colors ${
+                        recording === action.id
+                          ? 'bg-blue-50 border-blue-400 text-blue-700 animate-pulse'
+                          : bindings[action.id]
+                            ? 'bg-slate-100 border-slate-200 text-slate-600 hover:border-blue-300'
+                            : 'border-dashed border-slate-300 text-slate-400 hover:border-blue-300'
+                      }`}
+                      title="Change binding"
+                    >
+                      {recording === action.id ? 'Press keys' : formatCombo(bindings[action.id]) || 'None'}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </section>
+          ))}
+        </div>
+
+        <div className="mt-4 pt-4 border-t border-slate-100">
+          <button
+            onClick={() => {
+              onChange(DEFAULT_BINDINGS);
+              setNotice(null);
+            }}
+            className="flex items-center gap-1.5 text-xs text-slate-500 hover:text-slate-700"
+          >
+            <RotateCcw className="w-3.5 h-3.5" /> Restore default shortcuts
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ShortcutsOverlay;
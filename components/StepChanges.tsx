@@ -0,0 +1,50 @@
+import React, { useState } from 'react';
+import { GitCompare, ChevronDown, ChevronUp } from 'lucide-react';
+import { ClauseChange } from '../types';
+import ClauseDiff from './ClauseDiff';
+
+interface StepChangesProps {
+  changes: ClauseChange[]; // the changed clauses relevant to the active step
+  previousFileName: string;
+  onShowAll: () => void;
+}
+
+const StepChanges: React.FC<StepChangesProps> = ({ changes, previousFileName, onShowAll }) => {
+  const [expanded, setExpanded] = useState<boolean>(true);
+
+  return (
+    <div className="mb-6 bg-white rounded-xl shadow-sm border border-slate-200">
+      <div className="flex items-center gap-2 px-4 py-3 border-b border-slate-100">
+        <GitCompare className="w-4 h-4 text-amber-600" />
+        <h3 className="text-sm font-bold text-slate-800">Changed Since Last Version</h3>
+        <span className="text-xs text-slate-400 truncate" title={previousFileName}>
+          {changes.length} {changes.length === 1 ? 'clause' : 'clauses'} for this step
+        </span>
+        <button onClick={onShowAll} className="ml-auto text-xs text-blue-600 hover:text-blue-800 font-medium whitespace-nowrap">
+          Full comparison
+        </button>
+        <button
+          onClick={() => setExpanded((prev) => !prev)}
+          className="p-1.5 rounded-md text-slate-400 hover:text-slate-600 hover:bg-slate-100 transition-colors"
+          title={expanded ? 'Collapse' : 'Expand'}
+        >
+          {expanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </button>
+      </div>
+
+      {expanded && (changes.length === 0 ? (
+        <p className="px-4 py-3 text-sm text-slate-500">None of this step's clauses changed. Carried-over findings still apply.</p>
+      ) : (
+        <ul className="divide-y divide-slate-100 max-h-72 overflow-y-auto">
+          {changes.map((change) => (
+            <li key={change.id} className="px-4 py-3">
+              <ClauseDiff change={change} />
+            </li>
+          ))}
+        </ul>
+      ))}
+    </div>
+  );
+};
+
+export default StepChanges;
@@ -0,0 +1,57 @@
+import React from 'react';
+import {
+  Shield,
+  DollarSign,
+  BookOpen,
+  AlertTriangle,
+  Gavel,
+  CheckCircle,
+  FileText,
+  Clock,
+  Lock,
+  Users,
+  Scale,
+  Briefcase,
+  Building2,
+  Handshake,
+  Globe,
+  Receipt,
+  CalendarClock,
+  ClipboardList,
+  LucideIcon
+} from 'lucide-react';
+import { StepIconName } from '../types';
+
+export const STEP_ICONS: Record<StepIconName, LucideIcon> = {
+  'shield': Shield,
+  'dollar-sign': DollarSign,
+  'book-open': BookOpen,
+  'alert-triangle': AlertTriangle,
+  'gavel': Gavel,
+  'check-circle': CheckCircle,
+  'file-text': FileText,
+  'clock': Clock,
+  'lock': Lock,
+  'users': Users,
+  'scale': Scale,
+  'briefcase': Briefcase,
+  'building': Building2,
+  'handshake': Handshake,
+  'globe': Globe,
+  'receipt': Receipt,
+  'calendar-clock': CalendarClock,
+  'clipboard-list': ClipboardList,
+};
+
+interface StepIconProps {
+  name: StepIconName;
+  className?: string;
+}
+
+const StepIcon: React.FC<StepIconProps> = ({ name, className = 'w-5 h-5' }) => {
+  // Unknown names can only come from hand-edited imports; fall back rather than crash the sidebar.
+  const Icon = STEP_ICONS[name] ?? FileText;
+  return <Icon className={className} />;
+};
+
+export default StepIcon;
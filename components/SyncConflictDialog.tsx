@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { GitMerge } from 'lucide-react';
+import { FindingData, StepDefinition } from '../types';
+import { SyncConflict } from '../services/sync';
+import { describeAttribution } from '../services/collaboration';
+
+interface SyncConflictDialogProps {
+  conflicts: SyncConflict[];
+  steps: StepDefinition[];
+  onResolve: (choices: Record<number, 'mine' | 'theirs'>) => void;
+}
+
+const FindingPreview: React.FC<{ finding?: FindingData }> = ({ finding }) => {
+  if (!finding || (finding.checked.length === 0 && !finding.notes.trim())) {
+    return <p className="text-xs text-slate-400 italic">Nothing recorded</p>;
+  }
+  return (
+    <div className="text-xs text-slate-600 space-y-1">
+      {finding.checked.length > 0 && (
+        <ul className="list-disc pl-4">
+          {finding.checked.map((item) => <li key={item}>{item}</li>)}
+        </ul>
+      )}
+      {finding.notes.trim() && <p className="whitespace-pre-wrap line-clamp-4">{finding.notes.trim()}</p>}
+      {finding.notesEditedBy && <p className="text-slate-400">Notes by {describeAttribution(finding.notesEditedBy)}</p>}
+    </div>
+  );
+};
+
+// Shown when another reviewer changed a step we also changed since the last sync. Sync pauses until every step is settled.
+const SyncConflictDialog: React.FC<SyncConflictDialogProps> = ({ conflicts, steps, onResolve }) => {
+  const [choices, setChoices] = useState<Record<number, 'mine' | 'theirs'>>({});
+  const settled = conflicts.every((conflict) => choices[conflict.stepIndex]);
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl border border-slate-200 p-6 max-w-2xl w-full max-h-[85vh] overflow-y-auto">
+        <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2 mb-1">
+          <GitMerge className="w-5 h-5" /> Conflicting Edits
+        </h2>
+        <p className="text-sm text-slate-500 mb-4">
+          Someone else changed {conflicts.length === 1 ? 'a step' : 'steps'} you also changed. Choose which version to keep for each.
+          Everything else has been merged.
+        </p>
+
+        <div className="space-y-4">
+          {conflicts.map((conflict) => (
+            <section key={conflict.stepIndex} className="border border-slate-200 rounded-lg p-3">
+              <h3 className="text-sm font-bold text-slate-800 mb-2">
+                {conflict.stepIndex + 1}. {steps[conflict.stepIndex]?.title}
+              </h3>
+              <div className="grid sm:grid-cols-2 gap-3">
+                {(['mine', 'theirs'] as const).map((side) => (
+                  <button
+                    key={side}
+                    onClick={() => setChoices((prev) => ({ ...prev, [conflict.stepIndex]: side }))}
+                    aria-pressed={choices[conflict.stepIndex] === side}
+                    className={`text-left p-3 rounded-lg border transition-colors ${
+                      choices[conflict.stepIndex] === side ? 'bg-blue-50 border-blue-300' : 'border-slate-200 hover:bg-slate-50'
+                    }`}
+                  >
+                    <span className="block text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">
+                      {side === 'mine' ? 'Keep mine' : 'Take theirs'}
+                    </span>
+                    <FindingPreview finding={side === 'mine' ? conflict.mine : conflict.theirs} />
+                  </button>
+                ))}
+              </div>
+            </section>
+          ))}
+        </div>
+
+        <div className="flex justify-end mt-5">
+          <button
+            onClick={() => onResolve(choices)}
+            disabled={!settled}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-5 py-2 rounded-lg font-medium transition-colors disabled:opacity-50"
+          >
+            Apply and Sync
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SyncConflictDialog;
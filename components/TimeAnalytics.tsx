@@ -0,0 +1,114 @@
+import React, { useState, useEffect } from 'react';
+import { BarChart3, AlertTriangle } from 'lucide-react';
+import { listReviews } from '../services/reviewStorage';
+import { PlaybookTimeStats, computeTimeStats, formatDuration } from '../services/timeTracking';
+
+interface TimeAnalyticsProps {
+  onClose: () => void;
+}
+
+// A step "regularly overruns" when at least half of its timed reviews went over, with some history behind it.
+const REGULAR_OVERRUN_RATE = 0.5;
+const MIN_SAMPLES = 2;
+
+const TimeAnalytics: React.FC<TimeAnalyticsProps> = ({ onClose }) => {
+  const [stats, setStats] = useState<PlaybookTimeStats[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  useEffect(() => {
+    listReviews()
+      .then((reviews) => setStats(computeTimeStats(reviews)))
+      .finally(() => setLoading(false));
+  }, []);
+
+  return (
+    <div className="flex flex-col h-screen bg-slate-50 text-slate-900 font-sans">
+      <header className="bg-slate-900 text-white p-4 shadow-md flex justify-between items-center z-10">
+        <h1 className="text-xl font-bold flex items-center gap-2">
+          <BarChart3 className="w-6 h-6" /> Time Analytics
+        </h1>
+        <button
+          onClick={onClose}
+          className="text-sm text-slate-300 hover:text-white font-medium"
+        >
+          Back to History
+        </button>
+      </header>
+
+      <main className="flex-1 p-4 md:p-8 overflow-auto w-full flex justify-center">
+        <div className="max-w-4xl w-full space-y-6 h-fit">
+          {loading ? (
+            <p className="text-sm text-slate-500">Loading saved reviews...</p>
+          ) : stats.length === 0 ? (
+            <div className="bg-white rounded-xl shadow-lg border border-slate-200 p-6 md:p-8">
+              <p className="text-sm text-slate-500">No timed reviews yet. Time is recorded per step while the step timer runs.</p>
+            </div>
+          ) : stats.map((playbook) => (
+            <section key={playbook.playbookId} className="bg-white rounded-xl shadow-lg border border-slate-200 p-6 md:p-8">
+              <div className="flex flex-col md:flex-row justify-between md:items-end gap-2 mb-4">
+                <div>
+                  <h2 className="text-xl font-bold text-slate-800">{playbook.playbookName}</h2>
+                  <p className="text-sm text-slate-500">
+                    {playbook.reviews} timed {playbook.reviews === 1 ? 'review' : 'reviews'}
+                  </p>
+                </div>
+                <p className="text-sm text-slate-600">
+                  Average review <span className="font-mono font-bold">{formatDuration(playbook.averageTotal)}</span>
+                  {' '}against <span className="font-mono">{formatDuration(playbook.plannedTotal)}</span> planned
+                </p>
+              </div>
+
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-xs text-slate-400 uppercase tracking-wider border-b border-slate-200">
+                    <th className="text-left font-semibold py-2">Step</th>
+                    <th className="text-right font-semibold py-2 px-2">Planned</th>
+                    <th className="text-right font-semibold py-2 px-2">Avg Actual</th>
+                    <th className="text-left font-semibold py-2 px-2 w-40">Overruns</th>
+                    <th className="text-right font-semibold py-2" title="Average actual time, rounded to 15 seconds">Suggested</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-100">
+                  {playbook.steps.map((step) => {
+                    const regular = step.samples >= MIN_SAMPLES && step.overrunRate >= REGULAR_OVERRUN_RATE;
+                    return (
+                      <tr key={step.stepId} className={regular ? 'bg-red-50/50' : ''}>
+                        <td className="py-2 pr-2">
+                          <span className="flex items-center gap-1.5 text-slate-800">
+                            {regular && <AlertTriangle className="w-3.5 h-3.5 text-red-500 flex-shrink-0" aria-label="Regularly overruns" />}
+                            {step.title}
+                          </span>
+                        </td>
+                        <td className="py-2 px-2 text-right font-mono text-slate-600">{formatDuration(step.planned)}</td>
+                        <td className={`py-2 px-2 text-right font-mono ${step.average > step.planned ? 'text-red-600 font-medium' : 'text-slate-700'}`}>
+                          {step.samples ? formatDuration(step.average) : '-'}
+                        </td>
+                        <td className="py-2 px-2">
+                          {step.samples > 0 && (
+                            <div className="flex items-center gap-2">
+                              <div className="flex-1 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                                <div className="h-full bg-red-400" style={{ width: `${step.overrunRate * 100}%` }} />
+                              </div>
+                              <span className="text-xs text-slate-500 w-16 text-right">
+                                {Math.round(step.overrunRate * 100)}% of {step.samples}
+                              </span>
+                            </div>
+                          )}
+                        </td>
+                        <td className={`py-2 text-right font-mono ${step.samples && step.suggested !== step.planned ? 'text-blue-700 font-medium' : 'text-slate-400'}`}>
+                          {step.samples ? formatDuration(step.suggested) : '-'}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </section>
+          ))}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default TimeAnalytics;
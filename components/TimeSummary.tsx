@@ -0,0 +1,62 @@
+import React from 'react';
+import { Timer } from 'lucide-react';
+import { StepDefinition } from '../types';
+import { formatDuration, getPlannedTotal, getTotalTime } from '../services/timeTracking';
+
+interface TimeSummaryProps {
+  steps: StepDefinition[];
+  stepTimes: number[];
+}
+
+const Difference: React.FC<{ planned: number; actual: number }> = ({ planned, actual }) => {
+  if (actual === 0) return <span className="text-slate-300">-</span>;
+  const diff = actual - planned;
+  return diff > 0
+    ? <span className="text-red-600 font-medium">+{formatDuration(diff)}</span>
+    : <span className="text-emerald-600">-{formatDuration(-diff)}</span>;
+};
+
+const TimeSummary: React.FC<TimeSummaryProps> = ({ steps, stepTimes }) => {
+  const plannedTotal = getPlannedTotal(steps);
+  const actualTotal = getTotalTime(stepTimes);
+
+  return (
+    <div className="mb-8 border border-slate-200 rounded-lg overflow-hidden">
+      <div className="flex items-center gap-2 px-4 py-3 bg-slate-50 border-b border-slate-200">
+        <Timer className="w-4 h-4 text-slate-500" />
+        <h3 className="text-sm font-bold text-slate-700">Time: Planned vs Actual</h3>
+      </div>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-slate-400 uppercase tracking-wider">
+            <th className="text-left font-semibold px-4 py-2">Step</th>
+            <th className="text-right font-semibold px-4 py-2">Planned</th>
+            <th className="text-right font-semibold px-4 py-2">Actual</th>
+            <th className="text-right font-semibold px-4 py-2">Difference</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-100 font-mono text-slate-700">
+          {steps.map((step, index) => {
+            const actual = stepTimes[index] || 0;
+            return (
+              <tr key={step.id}>
+                <td className="px-4 py-2 font-sans">{step.title}</td>
+                <td className="px-4 py-2 text-right">{formatDuration(step.duration)}</td>
+                <td className="px-4 py-2 text-right">{actual ? formatDuration(actual) : '-'}</td>
+                <td className="px-4 py-2 text-right"><Difference planned={step.duration} actual={actual} /></td>
+              </tr>
+            );
+          })}
+          <tr className="bg-slate-50 font-bold">
+            <td className="px-4 py-2 font-sans">Total</td>
+            <td className="px-4 py-2 text-right">{formatDuration(plannedTotal)}</td>
+            <td className="px-4 py-2 text-right">{formatDuration(actualTotal)}</td>
+            <td className="px-4 py-2 text-right"><Difference planned={plannedTotal} actual={actualTotal} /></td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default TimeSummary;
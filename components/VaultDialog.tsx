@@ -0,0 +1,213 @@
+import React, { useState } from 'react';
+import { X, Lock, ShieldCheck, AlertTriangle } from 'lucide-react';
+import {
+  AUTO_LOCK_OPTIONS,
+  DEFAULT_AUTO_LOCK_MINUTES,
+  MIN_PASSPHRASE_LENGTH,
+  changeVaultPassphrase,
+  disableVault,
+  enableVault,
+  getAutoLockMinutes,
+  isVaultEnabled,
+  setAutoLockMinutes
+} from '../services/vault';
+
+interface VaultDialogProps {
+  onLock: () => void; // saves the open review first
+  onClose: () => void;
+}
+
+type VaultAction = 'change' | 'disable';
+
+const inputClass = 'w-full p-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+// Checks a new passphrase and its repetition; returns the problem, if any.
+const checkNewPassphrase = (passphrase: string, repeat: string): string | null => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) return `Use at least ${MIN_PASSPHRASE_LENGTH} characters.`;
+  if (passphrase !== repeat) return 'The passphrases do not match.';
+  return null;
+};
+
+const VaultDialog: React.FC<VaultDialogProps> = ({ onLock, onClose }) => {
+  const [enabled, setEnabled] = useState<boolean>(isVaultEnabled());
+  const [autoLock, setAutoLock] = useState<number>(enabled ? getAutoLockMinutes() : DEFAULT_AUTO_LOCK_MINUTES);
+  const [action, setAction] = useState<VaultAction | null>(null);
+  const [current, setCurrent] = useState<string>('');
+  const [passphrase, setPassphrase] = useState<string>('');
+  const [repeat, setRepeat] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<boolean>(false);
+
+  const resetForm = (next: VaultAction | null) => {
+    setAction(next);
+    setCurrent('');
+    setPassphrase('');
+    setRepeat('');
+    setError(null);
+  };
+
+  // Re-encrypting every saved review takes a moment; keep the dialog busy until it is done.
+  const run = async (task: () => Promise<string | null>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const problem = await task();
+      if (problem) setError(problem);
+      else resetForm(null);
+      setEnabled(isVaultEnabled());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'The vault could not be updated.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleEnable = (event: React.FormEvent) => {
+    event.preventDefault();
+    run(async () => {
+      const problem = checkNewPassphrase(passphrase, repeat);
+      if (problem) return problem;
+      await enableVault(passphrase, autoLock);
+      return null;
+    });
+  };
+
+  const handleChange = (event: React.FormEvent) => {
+    event.preventDefault();
+    run(async () => {
+      const problem = checkNewPassphrase(passphrase, repeat);
+      if (problem) return problem;
+      return (await changeVaultPassphrase(current, passphrase)) ? null : 'The current passphrase is wrong.';
+    });
+  };
+
+  const handleDisable = (event: React.FormEvent) => {
+    event.preventDefault();
+    run(async () => ((await disableVault(current)) ? null : 'The passphrase is wrong.'));
+  };
+
+  const updateAutoLock = (minutes: number) => {
+    setAutoLock(minutes);
+    if (enabled) setAutoLockMinutes(minutes);
+  };
+
+  const autoLockSelect = (
+    <label className="flex items-center gap-3 text-sm text-slate-700">
+      Lock after
+      <select
+        value={autoLock}
+        onChange={(e) => updateAutoLock(Number(e.target.value))}
+        className="p-1.5 border border-slate-300 rounded-lg text-sm bg-white"
+      >
+        {AUTO_LOCK_OPTIONS.map((minutes) => <option key={minutes} value={minutes}>{minutes} minutes</option>)}
+      </select>
+      without activity
+    </label>
+  );
+
+  const errorLine = error && (
+    <p className="text-sm text-red-600 flex items-center gap-2">
+      <AlertTriangle className="w-4 h-4 flex-shrink-0" /> {error}
+    </p>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/50 z-50 flex items-center justify-center p-4" onClick={busy ? undefined : onClose}>
+      <div
+        className="bg-white rounded-xl shadow-xl border border-slate-200 p-6 max-w-md w-full max-h-[80vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-lg font-bold text-slate-800 flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5" /> Vault
+          </h2>
+          <button onClick={onClose} disabled={busy} className="text-slate-400 hover:text-slate-600" aria-label="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {!enabled ? (
+          <form onSubmit={handleEnable} className="space-y-4">
+            <p className="text-sm text-slate-600">
+              Encrypts saved reviews in this browser, including notes and loaded contract text, with a key made from your
+              passphrase. The passphrase is needed after every reload and after the vault locks itself.
+            </p>
+            <input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} autoComplete="new-password" placeholder="Passphrase" className={inputClass} />
+            <input type="password" value={repeat} onChange={(e) => setRepeat(e.target.value)} autoComplete="new-password" placeholder="Repeat passphrase" className={inputClass} />
+            {autoLockSelect}
+            <p className="text-xs text-amber-700 bg-amber-50 border border-amber-200 rounded-lg p-2">
+              A forgotten passphrase cannot be recovered, and neither can the reviews it protects.
+            </p>
+            {errorLine}
+            <button
+              type="submit"
+              disabled={busy || !passphrase}
+              className="w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50"
+            >
+              <Lock className="w-4 h-4" /> {busy ? 'Encrypting...' : 'Turn On Vault'}
+            </button>
+          </form>
+        ) : (
+          <div className="space-y-4">
+            <p className="text-sm text-slate-600 flex items-center gap-2">
+              <ShieldCheck className="w-4 h-4 text-emerald-600" /> Saved reviews are encrypted.
+            </p>
+            {autoLockSelect}
+            <button
+              onClick={() => {
+                onClose();
+                onLock();
+              }}
+              disabled={busy}
+              className="w-full flex items-center justify-center gap-2 bg-slate-800 hover:bg-slate-900 text-white px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50"
+            >
+              <Lock className="w-4 h-4" /> Lock Now
+            </button>
+
+            <div className="flex gap-4 text-sm border-t border-slate-100 pt-4">
+              <button onClick={() => resetForm(action === 'change' ? null : 'change')} disabled={busy} className="text-blue-600 hover:text-blue-800 font-medium">
+                Change passphrase
+              </button>
+              <button onClick={() => resetForm(action === 'disable' ? null : 'disable')} disabled={busy} className="text-red-600 hover:text-red-800 font-medium">
+                Turn off
+              </button>
+            </div>
+
+            {action === 'change' && (
+              <form onSubmit={handleChange} className="space-y-3">
+                <input type="password" value={current} onChange={(e) => setCurrent(e.target.value)} autoComplete="current-password" placeholder="Current passphrase" className={inputClass} />
+                <input type="password" value={passphrase} onChange={(e) => setPassphrase(e.target.value)} autoComplete="new-password" placeholder="New passphrase" className={inputClass} />
+                <input type="password" value={repeat} onChange={(e) => setRepeat(e.target.value)} autoComplete="new-password" placeholder="Repeat new passphrase" className={inputClass} />
+                {errorLine}
+                <button
+                  type="submit"
+                  disabled={busy || !current || !passphrase}
+                  className="w-full bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50"
+                >
+                  {busy ? 'Re-encrypting...' : 'Change Passphrase'}
+                </button>
+              </form>
+            )}
+
+            {action === 'disable' && (
+              <form onSubmit={handleDisable} className="space-y-3">
+                <p className="text-xs text-slate-500">Saved reviews are decrypted and stored in plain form again.</p>
+                <input type="password" value={current} onChange={(e) => setCurrent(e.target.value)} autoComplete="current-password" placeholder="Passphrase" className={inputClass} />
+                {errorLine}
+                <button
+                  type="submit"
+                  disabled={busy || !current}
+                  className="w-full bg-white border border-red-300 hover:bg-red-50 text-red-700 px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50"
+                >
+                  {busy ? 'Decrypting...' : 'Turn Off Vault'}
+                </button>
+              </form>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VaultDialog;
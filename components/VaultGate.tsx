@@ -0,0 +1,110 @@
+import React, { useState, useEffect } from 'react';
+import { Lock, AlertTriangle } from 'lucide-react';
+import { getAutoLockMinutes, isVaultEnabled, isVaultLocked, loadVault, lockVault, onVaultChange, unlockVault } from '../services/vault';
+
+interface VaultGateProps {
+  children: React.ReactNode;
+}
+
+// Anything the reviewer does counts as activity; scrolling covers reading a long contract.
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart', 'scroll'] as const;
+const IDLE_CHECK_MS = 15_000;
+
+// Holds the app back until the vault is unlocked, and locks it again after the reviewer has been
+// idle for the configured time. Locking unmounts the app, so no review stays in memory on screen.
+const VaultGate: React.FC<VaultGateProps> = ({ children }) => {
+  const [ready, setReady] = useState<boolean>(false);
+  const [enabled, setEnabled] = useState<boolean>(false);
+  const [locked, setLocked] = useState<boolean>(false);
+  const [passphrase, setPassphrase] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+  const [unlocking, setUnlocking] = useState<boolean>(false);
+
+  useEffect(() => {
+    const update = () => {
+      setEnabled(isVaultEnabled());
+      setLocked(isVaultLocked());
+    };
+    // Without IndexedDB there is nothing to unlock; the app reports storage errors itself.
+    loadVault().catch(() => undefined).finally(() => {
+      update();
+      setReady(true);
+    });
+    return onVaultChange(update);
+  }, []);
+
+  useEffect(() => {
+    if (!enabled || locked) return;
+    let lastActivity = Date.now();
+    const touch = () => {
+      lastActivity = Date.now();
+    };
+    ACTIVITY_EVENTS.forEach((type) => window.addEventListener(type, touch, { capture: true, passive: true }));
+    // Wall-clock time, so a laptop that slept past the limit locks as soon as it wakes.
+    const interval = setInterval(() => {
+      if (Date.now() - lastActivity >= getAutoLockMinutes() * 60_000) lockVault();
+    }, IDLE_CHECK_MS);
+    return () => {
+      ACTIVITY_EVENTS.forEach((type) => window.removeEventListener(type, touch, { capture: true }));
+      clearInterval(interval);
+    };
+  }, [enabled, locked]);
+
+  const handleUnlock = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setUnlocking(true);
+    setError(null);
+    try {
+      if (await unlockVault(passphrase)) setPassphrase('');
+      else setError('Wrong passphrase.');
+    } finally {
+      setUnlocking(false);
+    }
+  };
+
+  if (!ready) return null;
+  if (!locked) return <>{children}</>;
+
+  return (
+    <div className="flex flex-col h-screen bg-slate-50 text-slate-900 font-sans">
+      <header className="bg-slate-900 text-white p-4 shadow-md flex items-center z-10">
+        <h1 className="text-xl font-bold flex items-center gap-2">
+          <Lock className="w-6 h-6" /> 7-Minute Legal Review
+        </h1>
+      </header>
+
+      <main className="flex-1 p-4 md:p-8 overflow-auto w-full flex justify-center items-center">
+        <form onSubmit={handleUnlock} className="bg-white rounded-xl shadow-lg border border-slate-200 p-6 md:p-8 max-w-sm w-full space-y-4">
+          <div>
+            <h2 className="text-xl font-bold text-slate-800">Vault Locked</h2>
+            <p className="text-sm text-slate-500 mt-1">Saved reviews are encrypted. Enter the vault passphrase to open them.</p>
+          </div>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            autoFocus
+            autoComplete="current-password"
+            placeholder="Passphrase"
+            className="w-full p-2 border border-slate-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          {error && (
+            <p className="text-sm text-red-600 flex items-center gap-2">
+              <AlertTriangle className="w-4 h-4" /> {error}
+            </p>
+          )}
+          <button
+            type="submit"
+            disabled={!passphrase || unlocking}
+            className="w-full flex items-center justify-center gap-2 bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-colors disabled:opacity-50"
+          >
+            <Lock className="w-4 h-4" /> {unlocking ? 'Unlocking...' : 'Unlock'}
+          </button>
+          <p className="text-xs text-slate-400">A forgotten passphrase cannot be recovered.</p>
+        </form>
+      </main>
+    </div>
+  );
+};
+
+export default VaultGate;
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { GitCompare } from 'lucide-react';
+import { ClauseChange, ClauseChangeStatus, StepDefinition } from '../types';
+import { CLAUSE_CHANGE_STATUSES } from '../constants';
+import ClauseDiff from './ClauseDiff';
+
+interface VersionCompareProps {
+  changes: ClauseChange[];
+  previousFileName: string;
+  currentFileName: string;
+  steps: StepDefinition[];
+  onClose: () => void;
+}
+
+const COUNTED: ClauseChangeStatus[] = ['modified', 'added', 'removed', 'unchanged'];
+
+const VersionCompare: React.FC<VersionCompareProps> = ({ changes, previousFileName, currentFileName, steps, onClose }) => {
+  const [showUnchanged, setShowUnchanged] = useState<boolean>(false);
+  const visible = showUnchanged ? changes : changes.filter((change) => change.status !== 'unchanged');
+
+  return (
+    <div className="flex flex-col h-screen bg-slate-50 text-slate-900 font-sans">
+      <header className="bg-slate-900 text-white p-4 shadow-md flex justify-between items-center z-10">
+        <h1 className="text-xl font-bold flex items-center gap-2">
+          <GitCompare className="w-6 h-6" /> Version Comparison
+        </h1>
+        <button onClick={onClose} className="text-sm text-slate-300 hover:text-white font-medium">
+          Return to Review
+        </button>
+      </header>
+
+      <main className="flex-1 p-4 md:p-8 overflow-auto w-full flex justify-center">
+        <div className="bg-white rounded-xl shadow-lg border border-slate-200 p-6 md:p-8 max-w-4xl w-full h-fit">
+          <div className="flex flex-col md:flex-row justify-between md:items-end gap-3 mb-6 border-b border-slate-100 pb-4">
+            <div className="text-sm text-slate-600 min-w-0">
+              <p className="truncate"><span className="text-slate-400">Previous:</span> {previousFileName}</p>
+              <p className="truncate"><span className="text-slate-400">Current:</span> {currentFileName}</p>
+            </div>
+            <div className="flex flex-wrap items-center gap-2">
+              {COUNTED.map((status) => (
+                <span key={status} className={`text-xs font-medium px-2 py-1 rounded border ${CLAUSE_CHANGE_STATUSES[status].badgeClass}`}>
+                  {changes.filter((change) => change.status === status).length} {CLAUSE_CHANGE_STATUSES[status].label}
+                </span>
+              ))}
+              <label className="flex items-center gap-1.5 text-xs text-slate-500 cursor-pointer ml-2">
+                <input type="checkbox" checked={showUnchanged} onChange={() => setShowUnchanged((prev) => !prev)} />
+                Show unchanged
+              </label>
+            </div>
+          </div>
+
+          {visible.length === 0 ? (
+            <p className="text-sm text-slate-500">No clause changed between the two versions.</p>
+          ) : (
+            <ul className="divide-y divide-slate-100">
+              {visible.map((change) => (
+                <li key={change.id} className="py-3">
+                  <ClauseDiff change={change} />
+                  {change.stepIndexes.length > 0 && (
+                    <p className="mt-1 text-[11px] text-slate-400">
+                      Relevant to: {change.stepIndexes.map((index) => steps[index]?.title).filter(Boolean).join(', ')}
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default VersionCompare;
@@ -0,0 +1,284 @@
+import { Playbook, ClauseLibraryEntry, FlagSeverity, FlagStatus, FlagDetail, RiskRating, CarryOverStatus, ClauseChangeStatus, CounterpartyResponse, ItemReviewState, NegotiationStatus, ObligationKind, ObligationParty, ObligationRecurrence } from './types';
+
+export const DEFAULT_PLAYBOOK_ID = 'builtin-commercial';
+
+// The original Aethel 7-minute method for a generic commercial contract.
+export const DEFAULT_PLAYBOOK: Playbook = {
+  id: DEFAULT_PLAYBOOK_ID,
+  name: "Commercial Contract (Aethel 7-Minute)",
+  description: "The standard six-step pass for a generic commercial agreement.",
+  builtIn: true,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  steps: [
+    {
+      id: 1,
+      title: "Control Clauses",
+      duration: 60,
+      icon: 'shield',
+      description: "Identify the 3 clauses that decide who wins. If these are vague or one-sided in favour of {counterparty}, nothing else matters.",
+      checklist: [
+        "Term: Is the duration clear?",
+        "Termination: Can we get out? At what cost?",
+        "Liability: Is it capped? Are we exposed?"
+      ],
+      conditionalChecklist: [
+        { text: "Is liability capped at fees paid?", when: { partyRole: 'customer' } },
+        { text: "Termination for convenience: Can we exit without cause?", when: { partyRole: 'customer' } },
+        { text: "Are indirect and consequential losses excluded?", when: { partyRole: 'supplier' } },
+        { text: "Termination: Are we paid for work done to the exit date?", when: { partyRole: 'supplier' } }
+      ],
+      clauseTypes: ['term', 'termination', 'liability']
+    },
+    {
+      id: 2,
+      title: "Money, Obligations & Timelines",
+      duration: 120, // Minutes 2-3
+      icon: 'dollar-sign',
+      description: "90% of disputes come from these 5 things. Check payment and performance strictly.",
+      checklist: [
+        "Payment Amount: Is the math exact?",
+        "Payment Schedule: When is it due?",
+        "Penalties: Are there late fees or interest?",
+        "Performance Obligations: What MUST be done?",
+        "Deadlines: Are dates hard or soft?"
+      ],
+      conditionalChecklist: [
+        { text: "Service levels: Do missed targets earn service credits?", when: { partyRole: 'customer' } },
+        { text: "Non-payment: Can we suspend work if invoices go unpaid?", when: { partyRole: 'supplier' } },
+        { text: "Security: Is a parent guarantee or bond needed at this value?", when: { minValue: 1000000 } }
+      ],
+      clauseTypes: ['payment', 'obligations', 'timelines']
+    },
+    {
+      id: 3,
+      title: "Definitions",
+      duration: 60,
+      icon: 'book-open',
+      description: "Undefined terms = loopholes. Over-defined terms = traps.",
+      checklist: [
+        "Check for 'Shall' vs 'May' misuse",
+        "Scan for ambiguous words (e.g., 'reasonable')",
+        "Find hidden obligations buried in definitions"
+      ],
+      clauseTypes: ['definitions']
+    },
+    {
+      id: 4,
+      title: "Indemnity + Confidentiality",
+      duration: 60,
+      icon: 'alert-triangle',
+      description: "The most weaponized clauses. If unlimited, the client is at high risk.",
+      checklist: [
+        "Indemnity: Who indemnifies whom?",
+        "Indemnity Scope: For what exactly?",
+        "Confidentiality: Is the scope reasonable?"
+      ],
+      conditionalChecklist: [
+        { text: "IP indemnity: Are we covered against third-party IP claims?", when: { partyRole: 'customer' } },
+        { text: "Indemnity cap: Is our indemnity limited?", when: { partyRole: 'supplier' } },
+        { text: "Data protection: Is there a data processing agreement?", when: { contractTypes: ['SaaS', 'Software'] } }
+      ],
+      clauseTypes: ['indemnity', 'confidentiality']
+    },
+    {
+      id: 5,
+      title: "Dispute Resolution",
+      duration: 60,
+      icon: 'gavel',
+      description: "Avoid the wrong jurisdiction, wrong seat, or expensive arbitration. Check that {governingLaw} suits {ourRole}.",
+      checklist: [
+        "Jurisdiction: Is it favorable/neutral?",
+        "Seat: Is the physical location practical?",
+        "Arbitration: Is it mandatory? Who pays?",
+        "Delays: Are timeline mechanisms clear?"
+      ],
+      conditionalChecklist: [
+        { text: "Jury trial: Is there a jury waiver?", when: { governingLaws: ['New York', 'Delaware', 'California'] } }
+      ],
+      clauseTypes: ['dispute-resolution', 'governing-law']
+    },
+    {
+      id: 6,
+      title: "Final Sanity Check",
+      duration: 60,
+      icon: 'check-circle',
+      description: "Quick scan for structural integrity and missing pieces.",
+      checklist: [
+        "Conflicting clauses",
+        "Missing annexures/exhibits",
+        "Internal inconsistencies",
+        "Signature blocks correct"
+      ],
+      clauseTypes: ['signatures', 'annexures']
+    }
+  ]
+};
+
+// Starter entries for the clause library, linked to the default playbook's checklist.
+// Built-in and read-only; duplicate one to adapt it to the firm's own positions.
+const BUILT_IN_DATE = '2025-01-01T00:00:00.000Z';
+
+export const DEFAULT_CLAUSE_LIBRARY: ClauseLibraryEntry[] = [
+  {
+    id: 'builtin-liability-cap',
+    topic: "Limitation of liability",
+    checklistItems: ["Liability: Is it capped? Are we exposed?", "Is liability capped at fees paid?"],
+    preferred: "Each party's total liability arising out of or in connection with this Agreement shall not exceed the fees paid or payable in the twelve (12) months preceding the event giving rise to the claim.",
+    acceptable: "Each party's total liability shall not exceed the greater of the fees paid or payable in the twenty-four (24) months preceding the claim and [amount].",
+    unacceptable: "Unlimited liability for either party, or a cap that excludes our own breach of payment or confidentiality obligations only.",
+    guidance: "Carve-outs for fraud, death and personal injury are standard and should not be resisted.",
+    builtIn: true,
+    createdAt: BUILT_IN_DATE,
+    updatedAt: BUILT_IN_DATE,
+  },
+  {
+    id: 'builtin-termination',
+    topic: "Termination for convenience",
+    checklistItems: ["Termination: Can we get out? At what cost?", "Termination for convenience: Can we exit without cause?"],
+    preferred: "Either party may terminate this Agreement for convenience on thirty (30) days' written notice without liability for such termination.",
+    acceptable: "Either party may terminate on ninety (90) days' written notice, subject to payment of fees for services performed up to the termination date.",
+    unacceptable: "Termination fees equal to the remaining contract value, or a right to terminate for convenience held by the counterparty alone.",
+    guidance: "",
+    builtIn: true,
+    createdAt: BUILT_IN_DATE,
+    updatedAt: BUILT_IN_DATE,
+  },
+  {
+    id: 'builtin-payment-terms',
+    topic: "Payment terms and late payment",
+    checklistItems: ["Payment Schedule: When is it due?", "Penalties: Are there late fees or interest?"],
+    preferred: "Undisputed invoices are payable within thirty (30) days of receipt. Disputed amounts may be withheld in good faith pending resolution.",
+    acceptable: "Invoices are payable within thirty (30) days; late amounts bear interest at the statutory rate.",
+    unacceptable: "Interest above the statutory rate, payment in advance for the whole term, or suspension of services for disputed amounts.",
+    guidance: "",
+    builtIn: true,
+    createdAt: BUILT_IN_DATE,
+    updatedAt: BUILT_IN_DATE,
+  },
+  {
+    id: 'builtin-indemnity',
+    topic: "Indemnities",
+    checklistItems: ["Indemnity: Who indemnifies whom?", "Indemnity Scope: For what exactly?", "Indemnity cap: Is our indemnity limited?"],
+    preferred: "Each party shall indemnify the other against third-party claims to the extent caused by its breach of this Agreement or its negligence.",
+    acceptable: "Indemnities limited to third-party intellectual property claims and breach of confidentiality, subject to the liability cap.",
+    unacceptable: "An uncapped indemnity for any loss arising in connection with the Agreement, whether or not caused by our fault.",
+    guidance: "Check that the indemnified party must notify promptly, mitigate, and give control of the defence.",
+    builtIn: true,
+    createdAt: BUILT_IN_DATE,
+    updatedAt: BUILT_IN_DATE,
+  },
+  {
+    id: 'builtin-confidentiality',
+    topic: "Confidentiality",
+    checklistItems: ["Confidentiality: Is the scope reasonable?"],
+    preferred: "Confidential Information excludes information that is public, already known to the recipient, independently developed, or lawfully received from a third party. Obligations survive for three (3) years after termination.",
+    acceptable: "Obligations survive for five (5) years after termination; trade secrets for as long as they remain trade secrets.",
+    unacceptable: "Perpetual obligations covering all information exchanged, with no standard exclusions.",
+    guidance: "",
+    builtIn: true,
+    createdAt: BUILT_IN_DATE,
+    updatedAt: BUILT_IN_DATE,
+  },
+  {
+    id: 'builtin-jurisdiction',
+    topic: "Governing law and jurisdiction",
+    checklistItems: ["Jurisdiction: Is it favorable/neutral?", "Arbitration: Is it mandatory? Who pays?"],
+    preferred: "This Agreement is governed by the laws of [our jurisdiction]; the courts of [our seat] have exclusive jurisdiction.",
+    acceptable: "Arbitration under [neutral institution] rules, seated in [neutral seat], with costs following the event.",
+    unacceptable: "Exclusive jurisdiction of the counterparty's home courts, or arbitration where we bear all costs.",
+    guidance: "",
+    builtIn: true,
+    createdAt: BUILT_IN_DATE,
+    updatedAt: BUILT_IN_DATE,
+  },
+];
+
+export const SEVERITY_LEVELS: { value: FlagSeverity; label: string; weight: number; dotClass: string; badgeClass: string }[] = [
+  { value: 'low', label: 'Low', weight: 1, dotClass: 'bg-sky-400', badgeClass: 'bg-sky-50 text-sky-700 border-sky-200' },
+  { value: 'medium', label: 'Medium', weight: 2, dotClass: 'bg-amber-400', badgeClass: 'bg-amber-50 text-amber-700 border-amber-200' },
+  { value: 'high', label: 'High', weight: 4, dotClass: 'bg-orange-500', badgeClass: 'bg-orange-50 text-orange-700 border-orange-200' },
+  { value: 'deal-breaker', label: 'Deal-breaker', weight: 10, dotClass: 'bg-red-600', badgeClass: 'bg-red-50 text-red-700 border-red-200' },
+];
+
+export const ITEM_REVIEW_STATES: Record<ItemReviewState, { label: string; badgeClass: string }> = {
+  'not-reviewed': { label: 'Not reviewed', badgeClass: 'bg-white text-slate-500 border-slate-300' },
+  'ok': { label: 'OK', badgeClass: 'bg-emerald-600 text-white border-emerald-600' },
+  'flagged': { label: 'Flagged', badgeClass: 'bg-blue-600 text-white border-blue-600' },
+};
+
+export const FLAG_STATUSES: { value: FlagStatus; label: string }[] = [
+  { value: 'open', label: 'Open' },
+  { value: 'negotiate', label: 'Negotiate' },
+  { value: 'accepted-risk', label: 'Accepted risk' },
+  { value: 'resolved', label: 'Resolved' },
+];
+
+// How a clause differs between two versions of a contract.
+export const CLAUSE_CHANGE_STATUSES: Record<ClauseChangeStatus, { label: string; badgeClass: string }> = {
+  'unchanged': { label: 'Unchanged', badgeClass: 'bg-slate-50 text-slate-500 border-slate-200' },
+  'modified': { label: 'Changed', badgeClass: 'bg-amber-50 text-amber-700 border-amber-200' },
+  'added': { label: 'New', badgeClass: 'bg-emerald-50 text-emerald-700 border-emerald-200' },
+  'removed': { label: 'Removed', badgeClass: 'bg-red-50 text-red-700 border-red-200' },
+};
+
+// Flags carried over from the review of a previous version of the contract.
+export const CARRY_OVER_STATUSES: Record<CarryOverStatus, { label: string; badgeClass: string }> = {
+  'still-applies': { label: 'Still applies', badgeClass: 'bg-slate-50 text-slate-600 border-slate-200' },
+  'clause-changed': { label: 'Clause changed — re-check', badgeClass: 'bg-amber-50 text-amber-700 border-amber-200' },
+  'clause-removed': { label: 'Clause removed', badgeClass: 'bg-red-50 text-red-700 border-red-200' },
+};
+
+// Where a negotiation item has got to, and how the counterparty answered it in a round. The issues list
+// sent to the counterparty uses `letterLabel`, which keeps our fallbacks and escalations to ourselves.
+export const NEGOTIATION_STATUSES: Record<NegotiationStatus, { label: string; letterLabel: string; badgeClass: string }> = {
+  'open': { label: 'Open', letterLabel: 'Open', badgeClass: 'bg-blue-50 text-blue-700 border-blue-200' },
+  'agreed': { label: 'Agreed', letterLabel: 'Agreed', badgeClass: 'bg-emerald-50 text-emerald-700 border-emerald-200' },
+  'agreed-fallback': { label: 'Agreed on fallback', letterLabel: 'Agreed', badgeClass: 'bg-teal-50 text-teal-700 border-teal-200' },
+  'conceded': { label: 'Conceded', letterLabel: 'Withdrawn', badgeClass: 'bg-slate-50 text-slate-600 border-slate-200' },
+  'escalated': { label: 'Escalated', letterLabel: 'Open', badgeClass: 'bg-red-50 text-red-700 border-red-200' },
+};
+
+export const COUNTERPARTY_RESPONSES: Record<CounterpartyResponse, { label: string; badgeClass: string }> = {
+  'awaiting': { label: 'Awaiting reply', badgeClass: 'bg-slate-50 text-slate-500 border-slate-200' },
+  'accepted': { label: 'Accepted', badgeClass: 'bg-emerald-50 text-emerald-700 border-emerald-200' },
+  'rejected': { label: 'Rejected', badgeClass: 'bg-red-50 text-red-700 border-red-200' },
+  'countered': { label: 'Countered', badgeClass: 'bg-amber-50 text-amber-700 border-amber-200' },
+};
+
+export const OBLIGATION_KINDS: Record<ObligationKind, { label: string; badgeClass: string }> = {
+  'payment': { label: 'Payment', badgeClass: 'bg-emerald-50 text-emerald-700 border-emerald-200' },
+  'deadline': { label: 'Deadline', badgeClass: 'bg-amber-50 text-amber-700 border-amber-200' },
+  'renewal': { label: 'Renewal', badgeClass: 'bg-violet-50 text-violet-700 border-violet-200' },
+  'termination-notice': { label: 'Termination notice', badgeClass: 'bg-red-50 text-red-700 border-red-200' },
+  'performance': { label: 'Performance', badgeClass: 'bg-blue-50 text-blue-700 border-blue-200' },
+  'other': { label: 'Other', badgeClass: 'bg-slate-50 text-slate-600 border-slate-200' },
+};
+
+export const OBLIGATION_PARTIES: Record<ObligationParty, { label: string }> = {
+  'us': { label: 'Us' },
+  'counterparty': { label: 'Counterparty' },
+  'both': { label: 'Both' },
+};
+
+export const OBLIGATION_RECURRENCES: Record<ObligationRecurrence, { label: string }> = {
+  'none': { label: 'Once' },
+  'monthly': { label: 'Monthly' },
+  'quarterly': { label: 'Quarterly' },
+  'annually': { label: 'Annually' },
+};
+
+export const RISK_RATINGS: Record<RiskRating, { label: string; badgeClass: string }> = {
+  'none': { label: 'No Outstanding Risk', badgeClass: 'bg-emerald-50 text-emerald-700 border-emerald-200' },
+  'low': { label: 'Low Risk', badgeClass: 'bg-sky-50 text-sky-700 border-sky-200' },
+  'medium': { label: 'Medium Risk', badgeClass: 'bg-amber-50 text-amber-700 border-amber-200' },
+  'high': { label: 'High Risk', badgeClass: 'bg-orange-50 text-orange-700 border-orange-200' },
+  'critical': { label: 'Critical Risk', badgeClass: 'bg-red-50 text-red-700 border-red-200' },
+};
+
+export const DEFAULT_FLAG_DETAIL: FlagDetail = {
+  severity: 'medium',
+  status: 'open',
+  clauseRef: '',
+  comment: '',
+};
@@ -1,6 +1,9 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import OfflineStatus from './components/OfflineStatus';
+import VaultGate from './components/VaultGate';
+import { registerServiceWorker } from './services/pwa';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -10,6 +13,10 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <VaultGate>
+      <App />
+    </VaultGate>
+    <OfflineStatus />
   </React.StrictMode>
-);
\ No newline at end of file
+);
+registerServiceWorker();
@@ -0,0 +1,84 @@
+// Minimal sync server for sharing reviews between reviewers. No dependencies; run with
+// `npm run sync-server`. Reviews are kept in memory and written to a JSON file so a restart keeps them.
+//
+//   GET /reviews       -> [{ id, contractName, playbookName, reviewer, stage, updatedAt, revision }]
+//   GET /reviews/:id   -> { revision, review } or 404
+//   PUT /reviews/:id   <- { baseRevision, review }
+//                      -> { revision }, or 409 with the current { revision, review } when baseRevision is stale
+//
+// Settings: PORT (default 8787), SYNC_DATA (default ./sync-data.json).
+// It has no authentication; run it on a trusted network only.
+
+import { createServer } from 'node:http';
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+
+const PORT = Number(process.env.PORT) || 8787;
+const DATA_FILE = process.env.SYNC_DATA || './sync-data.json';
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+const reviews = new Map(existsSync(DATA_FILE) ? Object.entries(JSON.parse(readFileSync(DATA_FILE, 'utf8'))) : []);
+
+const persist = () => writeFileSync(DATA_FILE, JSON.stringify(Object.fromEntries(reviews)));
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, PUT, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on('data', (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) reject(new Error('Request body too large.'));
+      else chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+const summarize = ({ revision, review }) => ({
+  id: review.id,
+  contractName: review.contractName,
+  playbookName: review.playbookName,
+  reviewer: review.reviewer,
+  stage: review.stage,
+  updatedAt: review.updatedAt,
+  revision,
+});
+
+createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+  const { pathname } = new URL(req.url, 'http://localhost');
+  const match = /^\/reviews(?:\/([^/]+))?\/?$/.exec(pathname);
+  if (!match) return send(res, 404, { error: 'Not found.' });
+  const id = match[1] && decodeURIComponent(match[1]);
+
+  if (req.method === 'GET' && !id) return send(res, 200, [...reviews.values()].map(summarize));
+  if (req.method === 'GET') return reviews.has(id) ? send(res, 200, reviews.get(id)) : send(res, 404, { error: 'No such review.' });
+  if (req.method !== 'PUT' || !id) return send(res, 405, { error: 'Method not allowed.' });
+
+  let body;
+  try {
+    body = JSON.parse(await readBody(req));
+  } catch (error) {
+    return send(res, 400, { error: error instanceof SyntaxError ? 'Body is not valid JSON.' : error.message });
+  }
+  if (!body || !Number.isInteger(body.baseRevision) || body.review?.id !== id) {
+    return send(res, 400, { error: 'Expected { baseRevision, review } for this review id.' });
+  }
+  const current = reviews.get(id);
+  if ((current?.revision ?? 0) !== body.baseRevision) return send(res, 409, current);
+  const revision = body.baseRevision + 1;
+  reviews.set(id, { revision, review: body.review });
+  persist();
+  send(res, 200, { revision });
+}).listen(PORT, () => {
+  console.log(`Review sync server listening on http://localhost:${PORT} (data: ${DATA_FILE})`);
+});
@@ -0,0 +1,77 @@
+// Offline support. The build (see offlinePlugin in vite.config.ts) fills in the file list and
+// version below and emits this file as sw.js. Everything the app needs is cached on install, so
+// reviews, playbooks and exports keep working without a connection.
+
+const VERSION = '__VERSION__';
+const PRECACHE_FILES = __PRECACHE_FILES__;
+// Styles and fonts the page loads from CDNs. The first visit loads them before the worker runs, so
+// they are fetched again on install.
+const CDN_FILES = [
+  'https://cdn.tailwindcss.com',
+  'https://fonts.googleapis.com/css2?family=Inter:wght@300;400;500;600;700&family=JetBrains+Mono:wght@400;500&display=swap',
+];
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+
+const PRECACHE = `smr-precache-${VERSION}`;
+const RUNTIME = 'smr-runtime';
+
+self.addEventListener('install', (event) => {
+  event.waitUntil((async () => {
+    const cache = await caches.open(PRECACHE);
+    await cache.addAll(PRECACHE_FILES);
+    // A CDN that is unreachable right now should not stop the app itself from installing.
+    const runtime = await caches.open(RUNTIME);
+    await Promise.all(CDN_FILES.map(async (url) => {
+      try {
+        await runtime.put(url, await fetch(new Request(url, { mode: 'no-cors' })));
+      } catch {
+        // Picked up by the runtime cache on the next online visit.
+      }
+    }));
+  })());
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names.filter((name) => name.startsWith('smr-precache-') && name !== PRECACHE).map((name) => caches.delete(name)));
+    await self.clients.claim();
+  })());
+});
+
+// The page asks a waiting worker to take over once the reviewer accepts the update.
+self.addEventListener('message', (event) => {
+  if (event.data === 'skip-waiting') self.skipWaiting();
+});
+
+const fromRuntimeCache = async (request) => {
+  const cache = await caches.open(RUNTIME);
+  const cached = await cache.match(request);
+  const refresh = fetch(request)
+    .then((response) => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => cached);
+  return cached ?? refresh;
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  // The app is a single page: every navigation gets the cached shell.
+  if (request.mode === 'navigate' && url.origin === self.location.origin) {
+    event.respondWith(caches.match(new URL('index.html', self.registration.scope).href).then((cached) => cached ?? fetch(request)));
+    return;
+  }
+  if (url.origin === self.location.origin) {
+    event.respondWith(caches.match(request).then((cached) => cached ?? fetch(request)));
+    return;
+  }
+  if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(fromRuntimeCache(request));
+  }
+  // Anything else (the sync server, the assist API) goes straight to the network.
+});
@@ -0,0 +1,159 @@
+import { AssistFlag, AssistSettings, ClauseSection, FlagSeverity, StepDefinition } from '../types';
+import { SEVERITY_LEVELS } from '../constants';
+import { createId } from '../utils/id';
+import { ASSIST_PROVIDERS, AssistPrompt } from './assistProviders';
+
+// Optional model-assisted review. Sends one step's clauses and checklist to the configured provider
+// and validates the reply into flags the reviewer can accept or ignore. Nothing here is persisted on a review.
+
+const SETTINGS_KEY = 'smr.assistSettings';
+const MAX_EXCERPT_CHARS = 12000;
+const REDACTED = '[redacted]';
+
+// Injected by vite.config.ts from .env.local; empty when not configured.
+const ENV_GEMINI_KEY = process.env.GEMINI_API_KEY || '';
+
+export const DEFAULT_ASSIST_SETTINGS: AssistSettings = {
+  provider: ENV_GEMINI_KEY ? 'gemini' : 'mock',
+  model: ENV_GEMINI_KEY ? ASSIST_PROVIDERS.gemini.defaultModel : ASSIST_PROVIDERS.mock.defaultModel,
+  endpoint: 'http://localhost:11434/v1',
+  apiKey: '',
+};
+
+export const loadAssistSettings = (): AssistSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    if (!stored) return DEFAULT_ASSIST_SETTINGS;
+    const parsed = { ...DEFAULT_ASSIST_SETTINGS, ...(JSON.parse(stored) as Partial<AssistSettings>) };
+    return ASSIST_PROVIDERS[parsed.provider] ? parsed : DEFAULT_ASSIST_SETTINGS;
+  } catch {
+    return DEFAULT_ASSIST_SETTINGS;
+  }
+};
+
+export const saveAssistSettings = (settings: AssistSettings) => localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+
+/** The key a request will actually use: the one entered in settings, or the build-time Gemini key. */
+const resolveApiKey = (settings: AssistSettings) =>
+  settings.apiKey || (settings.provider === 'gemini' ? ENV_GEMINI_KEY : '');
+
+export const hasUsableKey = (settings: AssistSettings) =>
+  !ASSIST_PROVIDERS[settings.provider].needsApiKey || Boolean(resolveApiKey(settings));
+
+/** Masks every API key this browser knows about. Run over anything that leaves the app. */
+export const redactSecrets = (text: string, settings: AssistSettings = loadAssistSettings()): string =>
+  [settings.apiKey, ENV_GEMINI_KEY]
+    .filter((key) => key.length >= 8)
+    .reduce((result, key) => result.split(key).join(REDACTED), text);
+
+// -- Prompt --
+
+/** Text of the step's candidate clauses, or the start of the contract when none were detected. */
+export const buildStepExcerpt = (text: string, sections: ClauseSection[]): string => {
+  const excerpt = sections.length > 0
+    ? sections.map((section) => text.slice(section.start, section.end).trim()).join('\n\n')
+    : text;
+  return excerpt.length > MAX_EXCERPT_CHARS ? `${excerpt.slice(0, MAX_EXCERPT_CHARS)}\n[...truncated]` : excerpt;
+};
+
+const SEVERITY_VALUES = SEVERITY_LEVELS.map((level) => level.value);
+
+export const buildAssistPrompt = (step: StepDefinition, excerpt: string): AssistPrompt => ({
+  system: [
+    'You assist a lawyer doing a fast first-pass contract review.',
+    'Only raise issues supported by the contract text you are given. Do not give legal advice beyond the issue itself.',
+    'Reply with JSON only, shaped as:',
+    '{"flags":[{"checklistItem":string,"severity":string,"clauseRef":string,"quote":string,"rationale":string}]}',
+    '- checklistItem: copy one checklist item exactly, or "" if the issue fits none.',
+    `- severity: one of ${SEVERITY_VALUES.map((value) => `"${value}"`).join(', ')}.`,
+    '- clauseRef: the clause number as written in the contract (e.g. "12.3"), or "".',
+    '- quote: the shortest verbatim passage from the contract that shows the issue.',
+    '- rationale: one or two sentences on why it matters.',
+    'Return {"flags":[]} if nothing needs flagging.',
+  ].join('\n'),
+  user: [
+    `Review step: ${step.title}`,
+    step.description,
+    '',
+    'Checklist:',
+    ...step.checklist.map((item) => `- ${item}`),
+    '',
+    'Contract excerpt:',
+    '"""',
+    excerpt,
+    '"""',
+  ].join('\n'),
+  checklist: step.checklist,
+  excerpt,
+});
+
+// -- Response --
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Finds a quoted passage in the contract, tolerating the whitespace and quote-mark changes models make. */
+export const locateQuote = (text: string, quote: string): { start: number; end: number } | null => {
+  const words = quote.replace(/[“”"‘’']/g, ' ').trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return null;
+  const pattern = new RegExp(words.map(escapeRegExp).join('[\\s“”"‘’\']+'), 'i');
+  const match = pattern.exec(text);
+  return match ? { start: match.index, end: match.index + match[0].length } : null;
+};
+
+const asString = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+export const parseAssistResponse = (raw: string, step: StepDefinition, contractText: string): AssistFlag[] => {
+  const json = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('The model reply was not valid JSON. Try again, or pick a model that supports JSON output.');
+  }
+  const items = Array.isArray(parsed) ? parsed : (parsed as { flags?: unknown })?.flags;
+  if (!Array.isArray(items)) throw new Error('The model reply did not contain a "flags" list.');
+
+  return items.flatMap((item): AssistFlag[] => {
+    if (!item || typeof item !== 'object') return [];
+    const rationale = asString(item.rationale);
+    const quote = asString(item.quote);
+    if (!rationale && !quote) return [];
+    const requested = asString(item.checklistItem).toLowerCase();
+    const severity = asString(item.severity).toLowerCase() as FlagSeverity;
+    const location = quote ? locateQuote(contractText, quote) : null;
+    return [{
+      id: createId(),
+      checklistItem: step.checklist.find((entry) => entry.toLowerCase() === requested),
+      severity: SEVERITY_VALUES.includes(severity) ? severity : 'medium',
+      clauseRef: asString(item.clauseRef).replace(/^(?:§|clause|section)\s*/i, '').replace(/^(?=\d)/, '§'),
+      quote,
+      rationale,
+      ...location,
+    }];
+  });
+};
+
+// -- Request --
+
+/** Runs the Assist action for one step. Errors come back as readable messages with keys masked. */
+export const requestAssist = async (
+  settings: AssistSettings,
+  step: StepDefinition,
+  contractText: string,
+  sections: ClauseSection[],
+  signal?: AbortSignal
+): Promise<AssistFlag[]> => {
+  const provider = ASSIST_PROVIDERS[settings.provider];
+  const apiKey = resolveApiKey(settings);
+  if (provider.needsApiKey && !apiKey) throw new Error(`${provider.label} needs an API key. Add one in Assist settings.`);
+  if (provider.needsEndpoint && !settings.endpoint.trim()) throw new Error(`${provider.label} needs an endpoint URL.`);
+
+  const prompt = buildAssistPrompt(step, buildStepExcerpt(contractText, sections));
+  try {
+    const raw = await provider.complete(prompt, { ...settings, apiKey, model: settings.model || provider.defaultModel }, signal);
+    return parseAssistResponse(raw, step, contractText);
+  } catch (error) {
+    if (error instanceof Error && error.name !== 'AbortError') throw new Error(redactSecrets(error.message, settings));
+    throw error;
+  }
+};
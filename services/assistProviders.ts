@@ -0,0 +1,136 @@
+import { AssistProviderId, AssistSettings } from '../types';
+
+// Model backends for the per-step Assist action. Each provider turns a prompt into raw model text;
+// prompt building and response validation live in ./assist so every backend is held to the same contract.
+
+export interface AssistPrompt {
+  system: string;
+  user: string;
+  checklist: string[]; // lets offline providers answer without a model
+  excerpt: string;
+}
+
+export interface AssistProvider {
+  id: AssistProviderId;
+  label: string;
+  description: string;
+  defaultModel: string;
+  needsApiKey: boolean;
+  needsEndpoint: boolean;
+  complete: (prompt: AssistPrompt, settings: AssistSettings, signal?: AbortSignal) => Promise<string>;
+}
+
+const GEMINI_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta';
+
+const readError = async (response: Response): Promise<string> => {
+  try {
+    const body = await response.json();
+    return body?.error?.message || response.statusText;
+  } catch {
+    return response.statusText;
+  }
+};
+
+const postJson = async (url: string, headers: Record<string, string>, body: unknown, signal?: AbortSignal) => {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'AbortError') throw error;
+    throw new Error(`Could not reach ${new URL(url).host}. Check the endpoint and your connection.`);
+  }
+  if (!response.ok) throw new Error(`The model request failed (${response.status}): ${await readError(response)}`);
+  return response.json();
+};
+
+const geminiProvider: AssistProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  description: 'Calls the Gemini API directly from the browser.',
+  defaultModel: 'gemini-2.5-flash',
+  needsApiKey: true,
+  needsEndpoint: false,
+  complete: async (prompt, settings, signal) => {
+    // The key travels in a header rather than the query string so it never shows up in URLs or error text.
+    const data = await postJson(
+      `${GEMINI_BASE_URL}/models/${encodeURIComponent(settings.model)}:generateContent`,
+      { 'x-goog-api-key': settings.apiKey },
+      {
+        systemInstruction: { parts: [{ text: prompt.system }] },
+        contents: [{ role: 'user', parts: [{ text: prompt.user }] }],
+        generationConfig: { temperature: 0.2, responseMimeType: 'application/json' },
+      },
+      signal
+    );
+    const parts: { text?: string }[] = data?.candidates?.[0]?.content?.parts ?? [];
+    return parts.map((part) => part.text ?? '').join('');
+  },
+};
+
+const openAiCompatibleProvider: AssistProvider = {
+  id: 'openai-compatible',
+  label: 'OpenAI-compatible',
+  description: 'Any server exposing /chat/completions: OpenAI, Azure proxies, Ollama, LM Studio, vLLM...',
+  defaultModel: 'gpt-4o-mini',
+  needsApiKey: false,
+  needsEndpoint: true,
+  complete: async (prompt, settings, signal) => {
+    const data = await postJson(
+      `${settings.endpoint.replace(/\/+$/, '')}/chat/completions`,
+      settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {},
+      {
+        model: settings.model,
+        temperature: 0.2,
+        messages: [
+          { role: 'system', content: prompt.system },
+          { role: 'user', content: prompt.user },
+        ],
+      },
+      signal
+    );
+    return data?.choices?.[0]?.message?.content ?? '';
+  },
+};
+
+const STOP_WORDS = new Set(['check', 'review', 'clear', 'clearly', 'there', 'their', 'about', 'which', 'where', 'other', 'ensure', 'verify', 'identify']);
+
+// Offline stand-in: flags each checklist item whose key words appear in the excerpt. Good enough to
+// exercise the whole accept flow without network access or a key.
+const mockProvider: AssistProvider = {
+  id: 'mock',
+  label: 'Offline mock',
+  description: 'No network. Matches checklist keywords against the excerpt; for trying the workflow and testing.',
+  defaultModel: 'mock',
+  needsApiKey: false,
+  needsEndpoint: false,
+  complete: async (prompt) => {
+    const sentences = prompt.excerpt.split(/(?<=[.;])\s+|\n+/).filter((sentence) => sentence.trim());
+    const flags = prompt.checklist.flatMap((item) => {
+      const words = (item.toLowerCase().match(/[a-z][a-z-]{4,}/g) ?? []).filter((word) => !STOP_WORDS.has(word));
+      const sentence = sentences.find((candidate) => words.some((word) => candidate.toLowerCase().includes(word)));
+      if (!sentence) return [];
+      const word = words.find((candidate) => sentence.toLowerCase().includes(candidate));
+      return [{
+        checklistItem: item,
+        severity: 'medium',
+        clauseRef: '',
+        quote: sentence.trim(),
+        rationale: `Mentions "${word}"; check it against: ${item}`,
+      }];
+    });
+    return JSON.stringify({ flags });
+  },
+};
+
+export const ASSIST_PROVIDERS: Record<AssistProviderId, AssistProvider> = {
+  gemini: geminiProvider,
+  'openai-compatible': openAiCompatibleProvider,
+  mock: mockProvider,
+};
+
+export const ASSIST_PROVIDER_IDS = Object.keys(ASSIST_PROVIDERS) as AssistProviderId[];
@@ -0,0 +1,113 @@
+import { ChangeLogEntry, FindingData, FindingsMap, FlagDetail, StepDefinition } from '../types';
+import { FLAG_STATUSES, ITEM_REVIEW_STATES } from '../constants';
+import { getItemState } from './coverage';
+import { getFlagDetail, getSeverityMeta } from './risk';
+import { SECOND_OPINION_VERDICTS } from './collaboration';
+
+// The audit trail of a review: every change to the findings, worked out by comparing the findings
+// before and after an edit, so no editing path can forget to record itself.
+
+export const MAX_CHANGE_LOG_ENTRIES = 1000;
+
+export interface FindingChange {
+  stepIndex: number;
+  key: string; // what was changed; a run of edits to the same thing counts as one change
+  description: string;
+}
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Who made an edit is recorded in the log itself, so attribution stamps are not changes of their own.
+const withoutStamps = (detail: FlagDetail | undefined) => {
+  if (!detail) return undefined;
+  const { raisedBy: _raisedBy, editedBy: _editedBy, ...rest } = detail;
+  return rest;
+};
+
+const describeFlagChanges = (stepIndex: number, item: string, before: FlagDetail, after: FlagDetail): FindingChange[] => {
+  const change = (field: string, description: string): FindingChange => ({ stepIndex, key: `flag:${stepIndex}:${item}:${field}`, description });
+  const changes: FindingChange[] = [];
+  if (before.severity !== after.severity) changes.push(change('severity', `Severity of "${item}" set to ${getSeverityMeta(after.severity).label}`));
+  if (before.status !== after.status) {
+    changes.push(change('status', `Status of "${item}" set to ${FLAG_STATUSES.find((s) => s.value === after.status)?.label ?? after.status}`));
+  }
+  if (before.clauseRef !== after.clauseRef) changes.push(change('clauseRef', `Clause reference of "${item}" edited`));
+  if (before.comment !== after.comment) changes.push(change('comment', `Comment on "${item}" edited`));
+  if (before.carryOver !== after.carryOver) changes.push(change('carryOver', `"${item}" marked re-checked`));
+  if (!same(before.secondOpinion?.verdict, after.secondOpinion?.verdict)) {
+    const verdict = after.secondOpinion?.verdict;
+    changes.push(change('verdict', `Second review of "${item}": ${verdict ? SECOND_OPINION_VERDICTS[verdict].label : 'verdict cleared'}`));
+  }
+  if (before.secondOpinion?.comment !== after.secondOpinion?.comment) changes.push(change('opinion', `Second review comment on "${item}" edited`));
+  if (!same(before.negotiation, after.negotiation)) {
+    const description = !before.negotiation ? `"${item}" taken to negotiation`
+      : !after.negotiation ? `"${item}" dropped from negotiation`
+      : `Negotiation of "${item}" updated`;
+    changes.push(change('negotiation', description));
+  }
+  return changes;
+};
+
+const describeStepChanges = (stepIndex: number, before: FindingData | undefined, after: FindingData | undefined): FindingChange[] => {
+  const change = (key: string, description: string): FindingChange => ({ stepIndex, key: `${key}:${stepIndex}`, description });
+  const changes: FindingChange[] = [];
+
+  const items = new Set([...(before?.checked ?? []), ...(before?.cleared ?? []), ...(after?.checked ?? []), ...(after?.cleared ?? [])]);
+  items.forEach((item) => {
+    const from = getItemState(before, item);
+    const to = getItemState(after, item);
+    if (from !== to) {
+      changes.push({ stepIndex, key: `state:${stepIndex}:${item}`, description: `"${item}": ${ITEM_REVIEW_STATES[from].label} → ${ITEM_REVIEW_STATES[to].label}` });
+    } else if (to === 'flagged' && !same(withoutStamps(getFlagDetail(before, item)), withoutStamps(getFlagDetail(after, item)))) {
+      changes.push(...describeFlagChanges(stepIndex, item, getFlagDetail(before, item), getFlagDetail(after, item)));
+    }
+  });
+
+  Object.entries(after?.skipped ?? {}).forEach(([item, reason]) => {
+    if (before?.skipped?.[item] !== reason && getItemState(after, item) === 'not-reviewed') {
+      changes.push({ stepIndex, key: `skip:${stepIndex}:${item}`, description: `"${item}" skipped: ${reason}` });
+    }
+  });
+  if ((before?.notes ?? '') !== (after?.notes ?? '')) changes.push(change('notes', 'Notes edited'));
+  if (!!before?.notesConfidential !== !!after?.notesConfidential) {
+    changes.push(change('confidential', after?.notesConfidential ? 'Notes marked confidential' : 'Notes no longer confidential'));
+  }
+  const excerptsBefore = before?.excerpts?.length ?? 0;
+  const excerptsAfter = after?.excerpts?.length ?? 0;
+  if (excerptsAfter > excerptsBefore) changes.push(change('excerpts', 'Contract excerpt attached'));
+  if (excerptsAfter < excerptsBefore) changes.push(change('excerpts', 'Contract excerpt removed'));
+  if (!same(before?.obligations ?? [], after?.obligations ?? [])) {
+    const countBefore = before?.obligations?.length ?? 0;
+    const countAfter = after?.obligations?.length ?? 0;
+    const description = countAfter > countBefore ? 'Obligation added' : countAfter < countBefore ? 'Obligation removed' : 'Obligations edited';
+    changes.push(change('obligations', description));
+  }
+  return changes;
+};
+
+/** What changed between two versions of the findings, one entry per thing changed. */
+export const describeChanges = (before: FindingsMap, after: FindingsMap): FindingChange[] => {
+  const stepIndexes = Array.from(new Set<number>([...Object.keys(before), ...Object.keys(after)].map(Number))).sort((a, b) => a - b);
+  return stepIndexes.flatMap((stepIndex) =>
+    before[stepIndex] === after[stepIndex] ? [] : describeStepChanges(stepIndex, before[stepIndex], after[stepIndex])
+  );
+};
+
+export const toLogEntries = (changes: FindingChange[], by: string, at: string, prefix = ''): ChangeLogEntry[] =>
+  changes.map(({ stepIndex, description }) => ({ at, by, stepIndex, description: `${prefix}${description}` }));
+
+export const appendToLog = (log: ChangeLogEntry[], entries: ChangeLogEntry[]): ChangeLogEntry[] =>
+  entries.length === 0 ? log : [...log, ...entries].slice(-MAX_CHANGE_LOG_ENTRIES);
+
+/** Both reviewers' logs, each entry once, in time order. Used when syncing. */
+export const mergeChangeLogs = (mine: ChangeLogEntry[] = [], theirs: ChangeLogEntry[] = []): ChangeLogEntry[] => {
+  const seen = new Set(mine.map((entry) => JSON.stringify(entry)));
+  const merged = [...mine, ...theirs.filter((entry) => !seen.has(JSON.stringify(entry)))];
+  return merged.sort((a, b) => a.at.localeCompare(b.at)).slice(-MAX_CHANGE_LOG_ENTRIES);
+};
+
+/** One line for reports, e.g. "19/10/2026, 14:02:11 - Alice - Step 3 (Liability): Notes edited". */
+export const describeChangeLogEntry = (entry: ChangeLogEntry, steps: StepDefinition[]): string => {
+  const step = entry.stepIndex !== undefined && steps[entry.stepIndex] ? `Step ${entry.stepIndex + 1} (${steps[entry.stepIndex].title}): ` : '';
+  return `${new Date(entry.at).toLocaleString()} - ${entry.by || 'Unknown'} - ${step}${entry.description}`;
+};
@@ -0,0 +1,222 @@
+import { ClauseSection, ClauseType, StepDefinition } from '../types';
+
+// Rule-based clause detection. Runs entirely in the browser over the extracted contract text:
+// the document is split at headings, then each section is scored against heading and keyword patterns.
+
+interface ClauseRule {
+  type: ClauseType;
+  label: string;
+  heading: RegExp;
+  keywords: RegExp[];
+}
+
+export const CLAUSE_RULES: ClauseRule[] = [
+  {
+    type: 'term',
+    label: 'Term',
+    heading: /\b(term|duration|commencement|renewal)\b/i,
+    keywords: [/\binitial term\b/i, /\brenewal term\b/i, /\bshall (commence|continue in (full )?force)\b/i, /\bterm of this agreement\b/i],
+  },
+  {
+    type: 'termination',
+    label: 'Termination',
+    heading: /\bterminat/i,
+    keywords: [/\bmay terminate\b/i, /\btermination for (cause|convenience)\b/i, /\bupon (the )?termination\b/i, /\bmaterial breach\b/i],
+  },
+  {
+    type: 'liability',
+    label: 'Limitation of Liability',
+    heading: /\bliabilit/i,
+    keywords: [/\bin no event shall\b/i, /\baggregate liability\b/i, /\bconsequential\b/i, /\bindirect,? (special|incidental)?/i, /\bloss of profits?\b/i],
+  },
+  {
+    type: 'payment',
+    label: 'Payment',
+    heading: /\b(payments?|fees|charges|price|pricing|invoic\w*|compensation|penalt\w*)\b/i,
+    keywords: [/\binvoices?\b/i, /\bpayable\b/i, /\bwithin \w+ \(?\d*\)? ?days\b/i, /[$€£]\s?\d/, /\blate payment\b/i, /\binterest at\b/i],
+  },
+  {
+    type: 'obligations',
+    label: 'Obligations & Performance',
+    heading: /\b(obligations?|services|deliverables|scope of work|performance|service levels?)\b/i,
+    keywords: [/\bshall (provide|deliver|perform)\b/i, /\bservice levels?\b/i, /\bdeliverables?\b/i],
+  },
+  {
+    type: 'timelines',
+    label: 'Deadlines & Milestones',
+    heading: /\b(milestones?|timelines?|deadlines?|delivery|delays?)\b/i,
+    keywords: [/\bno later than\b/i, /\btime is of the essence\b/i, /\bmilestones?\b/i, /\bdelivery date\b/i],
+  },
+  {
+    type: 'definitions',
+    label: 'Definitions',
+    heading: /\b(definitions?|interpretation|defined terms)\b/i,
+    keywords: [/["“][A-Z][^"”]{1,60}["”] (means|shall mean|has the meaning)/, /\bshall have the meaning\b/i],
+  },
+  {
+    type: 'indemnity',
+    label: 'Indemnity',
+    heading: /\bindemni/i,
+    keywords: [/\bindemnif(y|ies|ication)\b/i, /\bhold harmless\b/i, /\bdefend\b.*\bclaims?\b/i],
+  },
+  {
+    type: 'confidentiality',
+    label: 'Confidentiality',
+    heading: /\b(confidential\w*|non-disclosure)\b/i,
+    keywords: [/\bconfidential information\b/i, /\bshall not disclose\b/i],
+  },
+  {
+    type: 'dispute-resolution',
+    label: 'Dispute Resolution',
+    heading: /\b(disputes?|arbitration|mediation|escalation)\b/i,
+    keywords: [/\barbitrat(ion|or|ed)\b/i, /\bmediat(ion|or)\b/i, /\bseat of (the )?arbitration\b/i],
+  },
+  {
+    type: 'governing-law',
+    label: 'Governing Law & Jurisdiction',
+    heading: /\b(governing law|jurisdiction|venue|applicable law|seat)\b/i,
+    keywords: [/\bgoverned by\b/i, /\b(exclusive|non-exclusive) jurisdiction\b/i, /\bcourts of\b/i],
+  },
+  {
+    type: 'signatures',
+    label: 'Signature Blocks',
+    heading: /\b(signatures?|signature blocks?|execution|in witness whereof)\b/i,
+    keywords: [/\bin witness whereof\b/i, /\bauthori[sz]ed signator/i, /\bBy:\s*_{3,}/, /\bduly executed\b/i],
+  },
+  {
+    type: 'annexures',
+    label: 'Schedules & Exhibits',
+    heading: /\b(schedules?|exhibits?|annex(ures?|es)?|appendi(x|ces))\b/i,
+    keywords: [/\b(schedule|exhibit|annex|appendix) [A-Z0-9]+\b/],
+  },
+];
+
+export const CLAUSE_TYPE_LABELS = Object.fromEntries(
+  CLAUSE_RULES.map((rule) => [rule.type, rule.label])
+) as Record<ClauseType, string>;
+
+export const CLAUSE_TYPES = CLAUSE_RULES.map((rule) => rule.type);
+
+const HEADING_WEIGHT = 3;
+const PARENT_HEADING_WEIGHT = 2;
+const KEYWORD_WEIGHT = 1;
+const MIN_SCORE = 2;
+const MAX_HEADING_LENGTH = 90;
+const MAX_TITLE_WORDS = 8;
+
+// "Article IV", "Section 12", "Clause 3.1:"
+const LABELLED_HEADING = /^(?:article|section|clause)\s+([\dIVXLC]+(?:\.\d+)*)[.:)]?\s*(.*)$/i;
+// "12.", "12.3", "4)" followed by text
+const NUMBERED_HEADING = /^(\d{1,3}(?:\.\d{1,3})*)[.)]?\s+(\S.*)$/;
+// A short standalone line in capitals, e.g. "LIMITATION OF LIABILITY"
+const CAPS_HEADING = /^[A-Z][A-Z0-9 ,&'()\-/]{2,60}$/;
+// The execution block rarely has a heading of its own
+const EXECUTION_LINE = /^in witness whereof\b/i;
+// "MASTER SERVICES AGREEMENT" names the document, not a clause
+const DOCUMENT_TITLE = /\b(agreement|contract|deed)$/i;
+
+interface HeadingMatch {
+  number: string;
+  heading: string;
+}
+
+const matchHeading = (line: string): HeadingMatch | null => {
+  const trimmed = line.trim();
+  if (!trimmed) return null;
+  const labelled = trimmed.match(LABELLED_HEADING);
+  if (labelled) return { number: labelled[1], heading: labelled[2] || trimmed };
+  const numbered = trimmed.match(NUMBERED_HEADING);
+  if (numbered) return { number: numbered[1], heading: numbered[2] };
+  if (CAPS_HEADING.test(trimmed) && /[A-Z]{3}/.test(trimmed)) return { number: '', heading: trimmed };
+  if (EXECUTION_LINE.test(trimmed)) return { number: '', heading: 'In Witness Whereof' };
+  return null;
+};
+
+// Sub-clauses often open with a sentence rather than a title; keep the first words as a label.
+const toHeadingLabel = (heading: string) => {
+  const firstSentence = heading.split(/(?<=[.:;])\s/)[0];
+  return firstSentence.length > MAX_HEADING_LENGTH ? `${firstSentence.slice(0, MAX_HEADING_LENGTH - 1)}…` : firstSentence;
+};
+
+// "12.3 The Supplier shall..." opens with prose; only short, title-like headings earn the heading weight.
+const isTitleLike = (heading: string) =>
+  heading.split(/\s+/).length <= MAX_TITLE_WORDS && !/[.;,]$/.test(heading) && !DOCUMENT_TITLE.test(heading);
+
+const scoreSection = (heading: string, parentHeading: string, body: string): ClauseType[] =>
+  CLAUSE_RULES.filter((rule) => {
+    let score = 0;
+    if (isTitleLike(heading) && rule.heading.test(heading)) score += HEADING_WEIGHT;
+    else if (parentHeading && rule.heading.test(parentHeading)) score += PARENT_HEADING_WEIGHT;
+    score += rule.keywords.filter((pattern) => pattern.test(body)).length * KEYWORD_WEIGHT;
+    return score >= MIN_SCORE;
+  }).map((rule) => rule.type);
+
+/** The clause types a step is about: explicit on the step, or inferred from its title and checklist. */
+export const getStepClauseTypes = (step: StepDefinition): ClauseType[] => {
+  if (step.clauseTypes) return step.clauseTypes;
+  const haystack = [step.title, ...step.checklist].join('\n');
+  return CLAUSE_RULES.filter((rule) => rule.heading.test(haystack)).map((rule) => rule.type);
+};
+
+/**
+ * Splits contract text into sections at numbered, labelled or all-caps headings
+ * (falling back to blank-line paragraphs), tags each with the clause types it contains
+ * and with the playbook steps that look for those clause types.
+ */
+export const classifyClauses = (text: string, steps: StepDefinition[]): ClauseSection[] => {
+  const stepClauseTypes = steps.map(getStepClauseTypes);
+  const starts: { offset: number; match: HeadingMatch }[] = [];
+  let offset = 0;
+  text.split('\n').forEach((line) => {
+    const match = matchHeading(line);
+    if (match) starts.push({ offset, match });
+    offset += line.length + 1;
+  });
+
+  if (starts.length === 0) {
+    const paragraphs = /[^\n]+(?:\n(?!\n)[^\n]*)*/g;
+    let paragraph: RegExpExecArray | null;
+    while ((paragraph = paragraphs.exec(text))) {
+      starts.push({ offset: paragraph.index, match: { number: '', heading: paragraph[0].split('\n')[0] } });
+    }
+  }
+
+  const sections: ClauseSection[] = [];
+  const topLevelHeadings = new Map<string, string>();
+  starts.forEach(({ offset: start, match }, i) => {
+    const end = i + 1 < starts.length ? starts[i + 1].offset : text.length;
+    const topNumber = match.number.split('.')[0];
+    if (match.number && !match.number.includes('.')) topLevelHeadings.set(topNumber, match.heading);
+    const parentHeading = match.number.includes('.') ? topLevelHeadings.get(topNumber) ?? '' : '';
+
+    const heading = toHeadingLabel(match.heading);
+    const clauseTypes = scoreSection(heading, parentHeading, text.slice(start, end));
+    sections.push({
+      id: `clause-${i}`,
+      number: match.number,
+      heading,
+      start,
+      end,
+      clauseTypes,
+      stepIndexes: stepClauseTypes
+        .map((types, stepIndex) => (types.some((type) => clauseTypes.includes(type)) ? stepIndex : -1))
+        .filter((stepIndex) => stepIndex !== -1),
+    });
+  });
+  return sections;
+};
+
+export interface StepClauseMatch {
+  sections: ClauseSection[];
+  missing: ClauseType[]; // expected clause types with no matching section at all
+}
+
+export const matchStepClauses = (steps: StepDefinition[], stepIndex: number, sections: ClauseSection[]): StepClauseMatch => {
+  const expected = getStepClauseTypes(steps[stepIndex]);
+  const relevant = sections.filter((section) => section.stepIndexes.includes(stepIndex));
+  const found = new Set(relevant.flatMap((section) => section.clauseTypes));
+  return {
+    sections: relevant,
+    missing: expected.filter((type) => !found.has(type)),
+  };
+};
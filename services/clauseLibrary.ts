@@ -0,0 +1,155 @@
+import { ClauseLibraryEntry } from '../types';
+import { DEFAULT_CLAUSE_LIBRARY } from '../constants';
+import { STORES, withStore } from './db';
+import { ValidationResult } from './playbookSchema';
+import { createId } from '../utils/id';
+
+// Preferred, acceptable and unacceptable language per topic, kept in this browser and shared as JSON.
+// See schemas/clause-library.schema.json.
+export const CLAUSE_LIBRARY_SCHEMA_VERSION = 1;
+
+export type ClauseLibraryContent = Pick<ClauseLibraryEntry, 'topic' | 'checklistItems' | 'preferred' | 'acceptable' | 'unacceptable' | 'guidance'>;
+
+export interface ClauseLibraryFile {
+  schemaVersion: number;
+  entries: ClauseLibraryContent[];
+}
+
+export type ClausePositionKind = 'preferred' | 'acceptable' | 'unacceptable';
+
+export const CLAUSE_POSITION_KINDS: Record<ClausePositionKind, { label: string; badgeClass: string }> = {
+  'preferred': { label: 'Preferred', badgeClass: 'bg-emerald-50 text-emerald-700 border-emerald-200' },
+  'acceptable': { label: 'Acceptable', badgeClass: 'bg-amber-50 text-amber-700 border-amber-200' },
+  'unacceptable': { label: 'Unacceptable', badgeClass: 'bg-red-50 text-red-700 border-red-200' },
+};
+
+export const BUILT_IN_CLAUSES: ClauseLibraryEntry[] = DEFAULT_CLAUSE_LIBRARY;
+
+// -- Storage --
+
+export const listClauseLibrary = async (): Promise<ClauseLibraryEntry[]> => {
+  const stored = await withStore<ClauseLibraryEntry[]>(STORES.clauseLibrary, 'readonly', (store) => store.getAll());
+  return [...BUILT_IN_CLAUSES, ...stored.sort((a, b) => a.topic.localeCompare(b.topic))];
+};
+
+export const saveClauseEntry = async (entry: ClauseLibraryEntry): Promise<ClauseLibraryEntry> => {
+  if (entry.builtIn) {
+    throw new Error('Built-in library entries are read-only. Duplicate it to make changes.');
+  }
+  const saved = { ...entry, updatedAt: new Date().toISOString() };
+  await withStore(STORES.clauseLibrary, 'readwrite', (store) => store.put(saved));
+  return saved;
+};
+
+export const deleteClauseEntry = async (id: string): Promise<void> => {
+  await withStore(STORES.clauseLibrary, 'readwrite', (store) => store.delete(id));
+};
+
+/** Builds a new, unsaved entry from imported or copied content. */
+export const createClauseEntry = (content: ClauseLibraryContent): ClauseLibraryEntry => {
+  const now = new Date().toISOString();
+  return {
+    id: createId(),
+    topic: content.topic,
+    checklistItems: [...content.checklistItems],
+    preferred: content.preferred,
+    acceptable: content.acceptable,
+    unacceptable: content.unacceptable,
+    guidance: content.guidance,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+// -- Lookup --
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+/** Entries linked to a checklist item. */
+export const findLinkedEntries = (entries: ClauseLibraryEntry[], item: string): ClauseLibraryEntry[] =>
+  entries.filter((entry) => entry.checklistItems.some((linked) => normalize(linked) === normalize(item)));
+
+/** Entries whose topic, linked items or language contain every word of the query. */
+export const searchClauseLibrary = (entries: ClauseLibraryEntry[], query: string): ClauseLibraryEntry[] => {
+  const words = normalize(query).split(/\s+/).filter(Boolean);
+  if (words.length === 0) return entries;
+  return entries.filter((entry) => {
+    const haystack = normalize([entry.topic, ...entry.checklistItems, entry.preferred, entry.acceptable, entry.unacceptable, entry.guidance].join('\n'));
+    return words.every((word) => haystack.includes(word));
+  });
+};
+
+// -- Import / export --
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const validateEntry = (entry: unknown, path: string, errors: string[]): entry is ClauseLibraryContent => {
+  const before = errors.length;
+  if (!isRecord(entry)) {
+    errors.push(`${path} must be an object.`);
+    return false;
+  }
+  if (!isString(entry.topic) || !entry.topic.trim()) errors.push(`${path}.topic must be a non-empty string.`);
+  if (!Array.isArray(entry.checklistItems) || !entry.checklistItems.every((item) => isString(item) && item.trim())) {
+    errors.push(`${path}.checklistItems must be an array of non-empty strings.`);
+  }
+  for (const field of ['preferred', 'acceptable', 'unacceptable'] as const) {
+    if (!isString(entry[field])) errors.push(`${path}.${field} must be a string.`);
+  }
+  if (entry.guidance !== undefined && !isString(entry.guidance)) errors.push(`${path}.guidance must be a string.`);
+  if (errors.length === before && ![entry.preferred, entry.acceptable, entry.unacceptable].some((text) => (text as string).trim())) {
+    errors.push(`${path} needs at least one of preferred, acceptable or unacceptable language.`);
+  }
+  return errors.length === before;
+};
+
+/** Validates an entry's editable content; used for JSON imports and before saving from the library. */
+export const validateClauseContent = (entry: unknown, path = 'entry'): ValidationResult<ClauseLibraryContent> => {
+  const errors: string[] = [];
+  if (!validateEntry(entry, path, errors)) return { ok: false, errors };
+  return {
+    ok: true,
+    value: {
+      topic: entry.topic.trim(),
+      checklistItems: [...new Set(entry.checklistItems.map((item) => item.trim()))],
+      preferred: entry.preferred.trim(),
+      acceptable: entry.acceptable.trim(),
+      unacceptable: entry.unacceptable.trim(),
+      guidance: entry.guidance?.trim() ?? '',
+    },
+  };
+};
+
+export const validateClauseLibraryFile = (data: unknown): ValidationResult<ClauseLibraryContent[]> => {
+  if (!isRecord(data)) return { ok: false, errors: ['Clause library must be a JSON object.'] };
+  if (data.schemaVersion !== undefined && data.schemaVersion !== CLAUSE_LIBRARY_SCHEMA_VERSION) {
+    return { ok: false, errors: [`Unsupported schemaVersion ${String(data.schemaVersion)} (expected ${CLAUSE_LIBRARY_SCHEMA_VERSION}).`] };
+  }
+  if (!Array.isArray(data.entries) || data.entries.length === 0) return { ok: false, errors: ['entries must be a non-empty array.'] };
+  const errors: string[] = [];
+  const entries: ClauseLibraryContent[] = [];
+  data.entries.forEach((entry, i) => {
+    const result = validateClauseContent(entry, `entries[${i}]`);
+    if (result.ok === false) errors.push(...result.errors);
+    else entries.push(result.value);
+  });
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: entries };
+};
+
+export const toClauseLibraryFile = (entries: ClauseLibraryEntry[]): ClauseLibraryFile => ({
+  schemaVersion: CLAUSE_LIBRARY_SCHEMA_VERSION,
+  entries: entries.map(({ topic, checklistItems, preferred, acceptable, unacceptable, guidance }) => ({
+    topic, checklistItems, preferred, acceptable, unacceptable, guidance,
+  })),
+});
+
+export const parseClauseLibraryJson = (json: string): ValidationResult<ClauseLibraryContent[]> => {
+  try {
+    return validateClauseLibraryFile(JSON.parse(json));
+  } catch {
+    return { ok: false, errors: ['File is not valid JSON.'] };
+  }
+};
@@ -0,0 +1,47 @@
+import { Attribution, FindingsMap, ReviewRecord, ReviewStage, SecondOpinionVerdict } from '../types';
+import { getFlagDetail } from './risk';
+
+// Reviewer identities and the first pass -> second review -> sign-off workflow.
+
+export const REVIEW_STAGES: Record<ReviewStage, { label: string; badgeClass: string }> = {
+  'first-pass': { label: 'First pass', badgeClass: 'bg-slate-50 text-slate-600 border-slate-200' },
+  'second-review': { label: 'Second review', badgeClass: 'bg-violet-50 text-violet-700 border-violet-200' },
+  'signed-off': { label: 'Signed off', badgeClass: 'bg-emerald-50 text-emerald-700 border-emerald-200' },
+};
+
+const STAGE_ORDER: ReviewStage[] = ['first-pass', 'second-review', 'signed-off'];
+
+export const SECOND_OPINION_VERDICTS: Record<SecondOpinionVerdict, { label: string; badgeClass: string }> = {
+  'agree': { label: 'Agreed', badgeClass: 'bg-emerald-50 text-emerald-700 border-emerald-200' },
+  'disagree': { label: 'Disagreed', badgeClass: 'bg-red-50 text-red-700 border-red-200' },
+};
+
+export const UNNAMED_REVIEWER = 'Unnamed reviewer';
+
+export const getStage = (review: Pick<ReviewRecord, 'stage'>): ReviewStage => review.stage ?? 'first-pass';
+
+/** The later of two stages; a review never moves back once signed off. */
+export const laterStage = (a: ReviewStage, b: ReviewStage): ReviewStage =>
+  STAGE_ORDER.indexOf(a) >= STAGE_ORDER.indexOf(b) ? a : b;
+
+export const attribute = (name: string, date: Date = new Date()): Attribution => ({
+  by: name.trim() || UNNAMED_REVIEWER,
+  at: date.toISOString(),
+});
+
+export const describeAttribution = (attribution: Attribution): string =>
+  `${attribution.by}, ${new Date(attribution.at).toLocaleString()}`;
+
+/** How far the second reviewer has got through the first pass's flags. */
+export const countSecondOpinions = (findings: FindingsMap): { agreed: number; disagreed: number; pending: number } => {
+  const counts = { agreed: 0, disagreed: 0, pending: 0 };
+  Object.values(findings).forEach((finding) =>
+    finding?.checked.forEach((item) => {
+      const verdict = getFlagDetail(finding, item).secondOpinion?.verdict;
+      if (verdict === 'agree') counts.agreed++;
+      else if (verdict === 'disagree') counts.disagreed++;
+      else counts.pending++;
+    })
+  );
+  return counts;
+};
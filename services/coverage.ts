@@ -0,0 +1,78 @@
+import { Attribution, FindingData, FindingsMap, ItemReviewState, StepDefinition } from '../types';
+import { DEFAULT_FLAG_DETAIL } from '../constants';
+
+// Review coverage: whether each checklist item was looked at. Flagged items are the ones in
+// `checked`, as they always were; items found fine are listed in `cleared`. Anything else has not
+// been reviewed, and finishing the review asks for a reason to skip it.
+
+export const getItemState = (finding: FindingData | undefined, item: string): ItemReviewState => {
+  if (finding?.checked.includes(item)) return 'flagged';
+  return finding?.cleared?.includes(item) ? 'ok' : 'not-reviewed';
+};
+
+/** The finding with one item moved to a new state. Flagging adds a default flag raised by `by`. */
+export const setItemState = (finding: FindingData | undefined, item: string, state: ItemReviewState, by: Attribution): FindingData => {
+  const checked = (finding?.checked ?? []).filter((entry) => entry !== item);
+  const cleared = (finding?.cleared ?? []).filter((entry) => entry !== item);
+  const { [item]: flag, ...otherFlags } = finding?.flags ?? {};
+  const { [item]: _reason, ...otherSkipped } = finding?.skipped ?? {};
+  return {
+    ...finding,
+    notes: finding?.notes ?? '',
+    checked: state === 'flagged' ? [...checked, item] : checked,
+    cleared: state === 'ok' ? [...cleared, item] : cleared,
+    // A flag raised earlier keeps its detail; it only goes once the item is no longer flagged.
+    flags: state === 'flagged' ? { ...otherFlags, [item]: flag ?? { ...DEFAULT_FLAG_DETAIL, raisedBy: by } } : otherFlags,
+    skipped: state === 'not-reviewed' ? finding?.skipped : otherSkipped,
+  };
+};
+
+export interface StepCoverage {
+  total: number;
+  reviewed: number; // OK or flagged
+  ok: number;
+  flagged: number;
+  skipped: number; // unreviewed, with a reason given
+}
+
+export const getStepCoverage = (step: StepDefinition, finding: FindingData | undefined): StepCoverage => {
+  const states = step.checklist.map((item) => getItemState(finding, item));
+  const ok = states.filter((state) => state === 'ok').length;
+  const flagged = states.filter((state) => state === 'flagged').length;
+  return {
+    total: step.checklist.length,
+    reviewed: ok + flagged,
+    ok,
+    flagged,
+    skipped: step.checklist.filter((item, i) => states[i] === 'not-reviewed' && finding?.skipped?.[item]?.trim()).length,
+  };
+};
+
+export interface UnreviewedItem {
+  stepIndex: number;
+  item: string;
+  reason: string; // '' until one is given
+}
+
+/** Checklist items neither cleared nor flagged, across all steps, in review order. */
+export const findUnreviewedItems = (steps: StepDefinition[], findings: FindingsMap): UnreviewedItem[] =>
+  steps.flatMap((step, stepIndex) =>
+    step.checklist
+      .filter((item) => getItemState(findings[stepIndex], item) === 'not-reviewed')
+      .map((item) => ({ stepIndex, item, reason: findings[stepIndex]?.skipped?.[item] ?? '' }))
+  );
+
+/** Records the reasons for skipping unreviewed items. */
+export const recordSkipReasons = (findings: FindingsMap, items: UnreviewedItem[]): FindingsMap => {
+  const next = { ...findings };
+  items.forEach(({ stepIndex, item, reason }) => {
+    const finding = next[stepIndex];
+    next[stepIndex] = {
+      ...finding,
+      checked: finding?.checked ?? [],
+      notes: finding?.notes ?? '',
+      skipped: { ...finding?.skipped, [item]: reason.trim() },
+    };
+  });
+  return next;
+};
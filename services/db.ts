@@ -0,0 +1,112 @@
+import { ReviewRecord } from '../types';
+import { REVIEW_SCHEMA_VERSION, migrateReview } from './reviewMigrations';
+
+// Thin promise wrapper around the browser's IndexedDB.
+// Every object store used by the app is declared here so upgrades happen in one place.
+
+const DB_NAME = 'seven-minute-review';
+const DB_VERSION = 5;
+
+export const STORES = {
+  reviews: 'reviews',
+  playbooks: 'playbooks',
+  clauseLibrary: 'clauseLibrary',
+  meta: 'meta', // app-wide records such as the vault settings, keyed by id
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Rewrites every saved review in the current shape, so old records are not left to each reader.
+const migrateStoredReviews = (tx: IDBTransaction) => {
+  const cursorRequest = tx.objectStore(STORES.reviews).openCursor();
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    const review = cursor.value as ReviewRecord;
+    // Encrypted reviews are migrated when the vault is unlocked and they are read.
+    if (!('sealed' in review) && (review.schemaVersion ?? 0) < REVIEW_SCHEMA_VERSION) cursor.update(migrateReview(review));
+    cursor.continue();
+  };
+};
+
+// Each entry upgrades the database from the previous version. Store creation is guarded so a
+// database half-built by an older release still ends up complete.
+const UPGRADES: Record<number, (db: IDBDatabase, tx: IDBTransaction) => void> = {
+  1: (db) => {
+    if (!db.objectStoreNames.contains(STORES.reviews)) db.createObjectStore(STORES.reviews, { keyPath: 'id' });
+  },
+  2: (db) => {
+    if (!db.objectStoreNames.contains(STORES.playbooks)) db.createObjectStore(STORES.playbooks, { keyPath: 'id' });
+  },
+  3: (db) => {
+    if (!db.objectStoreNames.contains(STORES.clauseLibrary)) db.createObjectStore(STORES.clauseLibrary, { keyPath: 'id' });
+  },
+  4: (_db, tx) => migrateStoredReviews(tx),
+  5: (db) => {
+    if (!db.objectStoreNames.contains(STORES.meta)) db.createObjectStore(STORES.meta, { keyPath: 'id' });
+  },
+};
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+          UPGRADES[version](request.result, request.transaction!);
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // A newer release opened in another tab needs this connection closed before it can upgrade.
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+      request.onblocked = () => {
+        dbPromise = null;
+        reject(new Error('Close other tabs of this app so the saved data can be upgraded.'));
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  const tx = db.transaction(storeName, mode);
+  return requestToPromise(run(tx.objectStore(storeName)));
+};
+
+/** Runs several writes as one transaction: either all of them are stored or none are. */
+export const withTransaction = async (
+  storeNames: StoreName[],
+  run: (tx: IDBTransaction) => void
+): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(storeNames, 'readwrite');
+  run(tx);
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
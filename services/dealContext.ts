@@ -0,0 +1,109 @@
+import { ChecklistCondition, DealContext, PartyRole, StepDefinition } from '../types';
+
+// Tailors a review's steps to the deal: conditional checklist items appear only when their
+// condition matches, and step descriptions can refer to the parties and governing law.
+
+export const PARTY_ROLES: Record<PartyRole, { label: string; counterpartyRole: string }> = {
+  'customer': { label: 'Customer', counterpartyRole: 'supplier' },
+  'supplier': { label: 'Supplier', counterpartyRole: 'customer' },
+};
+
+export const PARTY_ROLE_VALUES = Object.keys(PARTY_ROLES) as PartyRole[];
+
+// Offered as suggestions; any text is accepted.
+export const CONTRACT_TYPE_SUGGESTIONS = [
+  'Master Services Agreement',
+  'SaaS Subscription',
+  'Software License',
+  'Supply Agreement',
+  'Consulting Agreement',
+  'Reseller Agreement',
+  'NDA',
+];
+
+export const GOVERNING_LAW_SUGGESTIONS = [
+  'England and Wales',
+  'New York',
+  'Delaware',
+  'California',
+  'Germany',
+  'France',
+  'Singapore',
+];
+
+export const CURRENCY_CODES = ['USD', 'EUR', 'GBP', 'CHF', 'SGD', 'AUD', 'CAD', 'JPY'];
+
+export const EMPTY_DEAL_CONTEXT: DealContext = {
+  counterparty: '',
+  contractType: '',
+  governingLaw: '',
+  currency: 'USD',
+};
+
+export const isDealContextEmpty = (context: DealContext | undefined): boolean =>
+  !context || (!context.partyRole && !context.counterparty.trim() && !context.contractType.trim() &&
+    !context.governingLaw.trim() && context.contractValue === undefined);
+
+const matchesAny = (value: string, candidates: string[]): boolean => {
+  const normalized = value.trim().toLowerCase();
+  return normalized !== '' && candidates.some((candidate) => normalized.includes(candidate.trim().toLowerCase()));
+};
+
+/** Whether a condition holds for the deal. An unanswered field never satisfies a condition on it. */
+export const matchesCondition = (condition: ChecklistCondition, context: DealContext | undefined): boolean => {
+  if (condition.partyRole && context?.partyRole !== condition.partyRole) return false;
+  if (condition.contractTypes?.length && !matchesAny(context?.contractType ?? '', condition.contractTypes)) return false;
+  if (condition.governingLaws?.length && !matchesAny(context?.governingLaw ?? '', condition.governingLaws)) return false;
+  if (condition.minValue !== undefined && (context?.contractValue === undefined || context.contractValue < condition.minValue)) return false;
+  return true;
+};
+
+const fillPlaceholders = (text: string, context: DealContext | undefined): string => {
+  const values: Record<string, string> = {
+    counterparty: context?.counterparty.trim() || 'the counterparty',
+    ourRole: context?.partyRole ? `the ${context.partyRole}` : 'our side',
+    governingLaw: context?.governingLaw.trim() || 'the governing law',
+    contractType: context?.contractType.trim() || 'the contract',
+  };
+  return text.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+};
+
+/**
+ * The steps as the reviewer sees them for this deal. Matching conditional items are appended to
+ * the checklist (skipping any already present) so finding keys stay plain checklist text.
+ */
+export const tailorSteps = (steps: StepDefinition[], context: DealContext | undefined): StepDefinition[] =>
+  steps.map((step) => {
+    const extra = (step.conditionalChecklist ?? [])
+      .filter((item) => matchesCondition(item.when, context))
+      .map((item) => item.text)
+      .filter((text) => !step.checklist.includes(text));
+    return {
+      ...step,
+      description: fillPlaceholders(step.description, context),
+      checklist: [...step.checklist, ...new Set(extra)],
+    };
+  });
+
+export const formatContractValue = (context: DealContext): string => {
+  if (context.contractValue === undefined) return '';
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency: context.currency, maximumFractionDigits: 0 })
+      .format(context.contractValue);
+  } catch {
+    return `${context.contractValue.toLocaleString()} ${context.currency}`;
+  }
+};
+
+/** Label/value pairs for the fields that were filled in, in report order. */
+export const describeDealContext = (context: DealContext | undefined): [string, string][] => {
+  if (!context) return [];
+  const rows: [string, string][] = [
+    ['Acting For', context.partyRole ? PARTY_ROLES[context.partyRole].label : ''],
+    ['Counterparty', context.counterparty.trim()],
+    ['Contract Type', context.contractType.trim()],
+    ['Governing Law', context.governingLaw.trim()],
+    ['Contract Value', formatContractValue(context)],
+  ];
+  return rows.filter(([, value]) => value !== '');
+};
@@ -0,0 +1,66 @@
+import { ContractDocument } from '../types';
+
+export const SUPPORTED_CONTRACT_TYPES = '.txt,.docx,.pdf,text/plain,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const getExtension = (fileName: string) => fileName.slice(fileName.lastIndexOf('.') + 1).toLowerCase();
+
+// Collapse the whitespace noise PDF and Word extraction leaves behind, keeping paragraph breaks.
+const normalizeText = (text: string) =>
+  text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\u00a0]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+const parsePdf = async (file: File): Promise<string> => {
+  // Loaded on demand: pdf.js is large and most reviews never touch a PDF.
+  const [pdfjs, { default: workerUrl }] = await Promise.all([
+    import('pdfjs-dist'),
+    import('pdfjs-dist/build/pdf.worker.min.mjs?url'),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = workerUrl;
+
+  const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() }).promise;
+  const pages: string[] = [];
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+    pages.push(
+      content.items
+        .map((item) => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : ''))
+        .join('')
+    );
+  }
+  return pages.join('\n\n');
+};
+
+const parseDocx = async (file: File): Promise<string> => {
+  const { default: mammoth } = await import('mammoth');
+  const result = await mammoth.extractRawText({ arrayBuffer: await file.arrayBuffer() });
+  return result.value;
+};
+
+/** Extracts the plain text of a contract file. Everything runs locally; nothing is uploaded. */
+export const parseContractFile = async (file: File): Promise<ContractDocument> => {
+  let text: string;
+  switch (getExtension(file.name)) {
+    case 'txt':
+      text = await file.text();
+      break;
+    case 'pdf':
+      text = await parsePdf(file);
+      break;
+    case 'docx':
+      text = await parseDocx(file);
+      break;
+    default:
+      throw new Error(`Unsupported file type "${file.name}". Load a .txt, .docx or .pdf file.`);
+  }
+
+  text = normalizeText(text);
+  if (!text) {
+    throw new Error(`No text found in "${file.name}". Scanned PDFs need OCR before they can be loaded.`);
+  }
+  return { fileName: file.name, text, loadedAt: new Date().toISOString() };
+};
@@ -0,0 +1,81 @@
+import { FindingsMap, FlagDetail, NegotiationItem, NegotiationRound, StepDefinition } from '../types';
+import { COUNTERPARTY_RESPONSES, NEGOTIATION_STATUSES } from '../constants';
+import { getFlagDetail } from './risk';
+
+// Flags promoted to negotiation items, tracked round by round until each is settled with the counterparty.
+
+export interface FlagEntry {
+  stepIndex: number;
+  stepTitle: string;
+  item: string; // the checklist item the flag was raised on
+  detail: FlagDetail;
+}
+
+export interface NegotiationEntry extends FlagEntry {
+  negotiation: NegotiationItem;
+}
+
+/** Every flag of the review, in step order. */
+export const collectFlags = (steps: StepDefinition[], findings: FindingsMap): FlagEntry[] =>
+  steps.flatMap((step, stepIndex) => {
+    const finding = findings[stepIndex];
+    return (finding?.checked ?? []).map((item) => ({ stepIndex, stepTitle: step.title, item, detail: getFlagDetail(finding, item) }));
+  });
+
+export const collectNegotiationEntries = (steps: StepDefinition[], findings: FindingsMap): NegotiationEntry[] =>
+  collectFlags(steps, findings).flatMap((entry) => (entry.detail.negotiation ? [{ ...entry, negotiation: entry.detail.negotiation }] : []));
+
+/** A new item, starting from what the reviewer already wrote about the flag. */
+export const createNegotiationItem = (item: string, detail: FlagDetail): NegotiationItem => ({
+  issue: detail.comment.trim() || item,
+  position: '',
+  fallback: '',
+  wording: '',
+  status: 'open',
+  rounds: [],
+});
+
+export const latestRound = (negotiation: NegotiationItem): NegotiationRound | undefined =>
+  negotiation.rounds[negotiation.rounds.length - 1];
+
+/** The furthest round any item has reached; 0 before anything has been sent. */
+export const currentRound = (entries: NegotiationEntry[]): number =>
+  Math.max(0, ...entries.map((entry) => entry.negotiation.rounds.length));
+
+/** Open items that are not already waiting on the counterparty go out with the next round. */
+export const isDueForRound = (negotiation: NegotiationItem): boolean =>
+  negotiation.status === 'open' && latestRound(negotiation)?.response !== 'awaiting';
+
+export const startRound = (negotiation: NegotiationItem, date: Date = new Date()): NegotiationItem => ({
+  ...negotiation,
+  rounds: [...negotiation.rounds, { sentAt: date.toISOString(), response: 'awaiting', reply: '' }],
+});
+
+/** Where the item stands, for our own reports. */
+export const describeNegotiation = (negotiation: NegotiationItem): string => {
+  const round = latestRound(negotiation);
+  const status = NEGOTIATION_STATUSES[negotiation.status].label;
+  return round ? `${status}; round ${negotiation.rounds.length}: ${COUNTERPARTY_RESPONSES[round.response].label}` : status;
+};
+
+/** Where the item stands, as the counterparty is told in the issues list. */
+export const describeNegotiationForLetter = (negotiation: NegotiationItem): string => {
+  if (negotiation.status !== 'open' && negotiation.status !== 'escalated') return NEGOTIATION_STATUSES[negotiation.status].letterLabel;
+  const round = latestRound(negotiation);
+  if (!round) return 'Proposed';
+  return round.response === 'awaiting' ? 'Awaiting your response' : NEGOTIATION_STATUSES[negotiation.status].letterLabel;
+};
+
+/** Marks our position as sent on every item due for the next round. */
+export const sendRound = (findings: FindingsMap, date: Date = new Date()): FindingsMap => {
+  const next: FindingsMap = {};
+  Object.entries(findings).forEach(([stepIndex, finding]) => {
+    const flags: Record<string, FlagDetail> = { ...finding.flags };
+    finding.checked.forEach((item) => {
+      const negotiation = flags[item]?.negotiation;
+      if (negotiation && isDueForRound(negotiation)) flags[item] = { ...flags[item], negotiation: startRound(negotiation, date) };
+    });
+    next[Number(stepIndex)] = finding.flags ? { ...finding, flags } : finding;
+  });
+  return next;
+};
@@ -0,0 +1,212 @@
+import { ClauseSection, Obligation, ObligationKind, ObligationRecurrence, StepDefinition } from '../types';
+import { OBLIGATION_KINDS, OBLIGATION_PARTIES, OBLIGATION_RECURRENCES } from '../constants';
+import { clauseRefAt, findStepForClause, sentenceRanges } from './redFlagScanner';
+import { CalendarEvent } from '../utils/ics';
+import { createId } from '../utils/id';
+
+// The obligations table: who owes what and by when, captured on the step that covers obligations.
+// Candidate rows are extracted from the loaded contract, and dated rows export as calendar events.
+
+const MAX_CANDIDATES = 40;
+const MAX_DESCRIPTION_LENGTH = 160;
+
+/** The step that holds the obligations table, or -1 when the playbook has none. */
+export const findObligationsStep = (steps: StepDefinition[]): number => findStepForClause(steps, 'obligations');
+
+export const createObligation = (patch: Partial<Obligation> = {}): Obligation => ({
+  id: createId(),
+  description: '',
+  kind: 'other',
+  recurrence: 'none',
+  clauseRef: '',
+  ...patch,
+});
+
+// -- Dates and amounts --
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_NAME = '(Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)\\.?';
+const ORDINAL = '(?:st|nd|rd|th)?';
+
+const toIsoDate = (year: number, month: number, day: number): string | null => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null;
+  return date.toISOString().slice(0, 10);
+};
+
+const monthNumber = (name: string) => MONTHS.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+
+// Numeric dates like 03/04/2025 are left out: whether that is March or April depends on the drafter.
+const DATE_FORMATS: { pattern: RegExp; toIso: (match: RegExpExecArray) => string | null }[] = [
+  { pattern: /\b(\d{4})-(\d{2})-(\d{2})\b/g, toIso: (m) => toIsoDate(Number(m[1]), Number(m[2]), Number(m[3])) },
+  {
+    pattern: new RegExp(`\\b(\\d{1,2})${ORDINAL}(?:\\s+day)?(?:\\s+of)?\\s+${MONTH_NAME},?\\s+(\\d{4})\\b`, 'gi'),
+    toIso: (m) => toIsoDate(Number(m[3]), monthNumber(m[2]), Number(m[1])),
+  },
+  {
+    pattern: new RegExp(`\\b${MONTH_NAME}\\s+(\\d{1,2})${ORDINAL},?\\s+(\\d{4})\\b`, 'gi'),
+    toIso: (m) => toIsoDate(Number(m[3]), monthNumber(m[1]), Number(m[2])),
+  },
+];
+
+/** Calendar dates written out in the text, as YYYY-MM-DD, in order of appearance. */
+export const findDates = (text: string): { index: number; date: string }[] =>
+  DATE_FORMATS.flatMap(({ pattern, toIso }) =>
+    [...text.matchAll(new RegExp(pattern.source, pattern.flags))].flatMap((match) => {
+      const date = toIso(match as RegExpExecArray);
+      return date ? [{ index: match.index ?? 0, date }] : [];
+    })
+  ).sort((a, b) => a.index - b.index);
+
+const AMOUNT = /(?:[$€£]\s?\d[\d,]*(?:\.\d+)?(?:\s?(?:million|thousand))?|\b(?:USD|EUR|GBP|CHF)\s?\d[\d,]*(?:\.\d+)?(?:\s?(?:million|thousand))?|\b\d[\d,]*(?:\.\d+)?\s?(?:USD|EUR|GBP|CHF)\b)/gi;
+
+export const findAmounts = (text: string): string[] => [...text.matchAll(AMOUNT)].map((match) => match[0].trim());
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12,
+  fourteen: 14, fifteen: 15, twenty: 20, thirty: 30, 'forty-five': 45, sixty: 60, ninety: 90, 'one hundred eighty': 180,
+};
+
+// "30 days", "thirty (30) days", "ninety days", "three (3) months", "10 business days"
+const NUMBER_WORD = Object.keys(NUMBER_WORDS).sort((a, b) => b.length - a.length).join('|');
+const PERIOD = new RegExp(`\\b(?:(\\d+)|(${NUMBER_WORD})(?:\\s*\\((\\d+)\\))?)\\s+(?:(?:business|calendar|working)\\s+)?(days?|months?)\\b`, 'gi');
+
+/** The first period in the text, in days (a month counts as 30), or undefined when there is none. */
+export const findPeriodDays = (text: string): number | undefined => {
+  for (const match of text.matchAll(PERIOD)) {
+    const value = match[1] ? Number(match[1]) : match[3] ? Number(match[3]) : NUMBER_WORDS[(match[2] ?? '').toLowerCase()];
+    if (value) return /^month/i.test(match[4]) ? value * 30 : value;
+  }
+  return undefined;
+};
+
+// -- Candidates --
+
+export interface ObligationCandidate {
+  id: string; // stable across reloads, so a dismissed candidate stays dismissed
+  obligation: Omit<Obligation, 'id'>;
+  start: number; // the sentence it was found in
+  end: number;
+  text: string;
+}
+
+const NOTICE = /\bnotice\b/i;
+const TIME_LIMIT = /\b(?:notice|within|prior to|before|no later than|not later than)\b/i;
+
+const classifyKind = (sentence: string, hasAmount: boolean, hasDate: boolean, noticeDays?: number): ObligationKind => {
+  if (/\brenew/i.test(sentence)) return 'renewal';
+  if (/\bterminat/i.test(sentence) && noticeDays !== undefined) return 'termination-notice';
+  if (hasAmount || /\b(?:pay|payment|payable|invoice|fees?|price|remuneration)\b/i.test(sentence)) return 'payment';
+  if (/\b(?:deliver|perform|provide|complete|achieve|milestone)\w*/i.test(sentence)) return 'performance';
+  if (hasDate || TIME_LIMIT.test(sentence)) return 'deadline';
+  return 'other';
+};
+
+const detectRecurrence = (sentence: string): ObligationRecurrence => {
+  if (/\b(?:monthly|each month|every month|per month|calendar month)\b/i.test(sentence)) return 'monthly';
+  if (/\b(?:quarterly|each quarter|every quarter|per quarter|calendar quarter)\b/i.test(sentence)) return 'quarterly';
+  if (/\b(?:annual|annually|yearly|each year|every year|per year|per annum|(?:one|1)[- ]year|(?:twelve|12)[- ]month)\b/i.test(sentence)) {
+    return 'annually';
+  }
+  return 'none';
+};
+
+const shorten = (sentence: string) => {
+  // The clause number is already kept as the clause reference.
+  const flat = sentence.replace(/\s+/g, ' ').trim().replace(/^\(?\d+(?:\.\d+)*\.?\)?\s+/, '');
+  return flat.length > MAX_DESCRIPTION_LENGTH ? `${flat.slice(0, MAX_DESCRIPTION_LENGTH - 1).trimEnd()}…` : flat;
+};
+
+/**
+ * Sentences that read like obligations with a date, an amount or a time limit attached. Each one
+ * becomes a candidate row the reviewer can add to the table or dismiss.
+ */
+export const extractObligations = (text: string, sections: ClauseSection[]): ObligationCandidate[] => {
+  const candidates: ObligationCandidate[] = [];
+  for (const { start, end } of sentenceRanges(text)) {
+    if (candidates.length >= MAX_CANDIDATES) break;
+    const sentence = text.slice(start, end);
+    const dates = findDates(sentence);
+    const amounts = findAmounts(sentence);
+    const periodDays = findPeriodDays(sentence);
+    // A bare period ("for a term of 12 months") is not a time limit anyone has to meet.
+    if (dates.length === 0 && amounts.length === 0 && !(periodDays !== undefined && TIME_LIMIT.test(sentence))) continue;
+
+    const noticeDays = NOTICE.test(sentence) ? periodDays : undefined;
+    const kind = classifyKind(sentence, amounts.length > 0, dates.length > 0, noticeDays);
+    candidates.push({
+      id: `obligation:${start}:${kind}`,
+      obligation: {
+        description: shorten(sentence),
+        kind,
+        dueDate: dates[0]?.date,
+        recurrence: detectRecurrence(sentence),
+        noticeDays,
+        clauseRef: clauseRefAt(sections, start),
+        amount: amounts[0],
+      },
+      start,
+      end,
+      text: sentence.trim(),
+    });
+  }
+  return candidates;
+};
+
+// -- Key dates --
+
+const addDays = (date: string, days: number) => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+};
+
+const RRULES: Record<ObligationRecurrence, string | undefined> = {
+  none: undefined,
+  monthly: 'FREQ=MONTHLY',
+  quarterly: 'FREQ=MONTHLY;INTERVAL=3',
+  annually: 'FREQ=YEARLY',
+};
+
+export const isDated = (obligation: Obligation) => !!obligation.dueDate;
+
+/** One line summing up an obligation, for reports and calendar entries. */
+export const describeObligation = (obligation: Obligation): string => {
+  const timing = [
+    obligation.dueDate ? `due ${obligation.dueDate}` : '',
+    obligation.recurrence !== 'none' ? OBLIGATION_RECURRENCES[obligation.recurrence].label.toLowerCase() : '',
+    obligation.noticeDays ? `${obligation.noticeDays} days' notice` : '',
+    obligation.clauseRef,
+  ].filter(Boolean).join('; ');
+  const party = obligation.party ? `${OBLIGATION_PARTIES[obligation.party].label}: ` : '';
+  const amount = obligation.amount ? ` (${obligation.amount})` : '';
+  return `${party}${obligation.description.trim() || 'Untitled obligation'}${amount} - ${OBLIGATION_KINDS[obligation.kind].label}${timing ? `, ${timing}` : ''}`;
+};
+
+/**
+ * Calendar events for every dated obligation: the due date itself and, where notice is needed,
+ * the last day to give it. Recurring obligations repeat both.
+ */
+export const toCalendarEvents = (obligations: Obligation[], contractName: string): CalendarEvent[] =>
+  obligations.filter(isDated).flatMap((obligation) => {
+    const label = OBLIGATION_KINDS[obligation.kind].label;
+    const title = obligation.description.trim() || label;
+    const description = [contractName, describeObligation(obligation)].join('\n');
+    const rrule = RRULES[obligation.recurrence];
+    const events: CalendarEvent[] = [{
+      uid: `${obligation.id}@7-minute-review`,
+      date: obligation.dueDate!,
+      summary: `${label}: ${title}`,
+      description,
+      rrule,
+    }];
+    if (obligation.noticeDays) {
+      events.push({
+        uid: `${obligation.id}-notice@7-minute-review`,
+        date: addDays(obligation.dueDate!, -obligation.noticeDays),
+        summary: `Notice deadline (${label.toLowerCase()}): ${title}`,
+        description,
+        rrule,
+      });
+    }
+    return events;
+  });
@@ -0,0 +1,136 @@
+import { ConditionalChecklistItem, PartyRole, Playbook, STEP_ICON_NAMES, StepDefinition } from '../types';
+import { CLAUSE_TYPES } from './clauseClassifier';
+import { PARTY_ROLE_VALUES } from './dealContext';
+
+// Version of the exported playbook file format. See schemas/playbook.schema.json.
+export const PLAYBOOK_SCHEMA_VERSION = 1;
+
+export interface PlaybookFile {
+  schemaVersion: number;
+  name: string;
+  description: string;
+  steps: StepDefinition[];
+}
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; errors: string[] };
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(isNonEmptyString);
+
+const validateConditionalItem = (item: unknown, path: string, errors: string[]) => {
+  if (!isRecord(item) || !isNonEmptyString(item.text) || !isRecord(item.when)) {
+    errors.push(`${path} must have non-empty text and a when object.`);
+    return;
+  }
+  const { partyRole, contractTypes, governingLaws, minValue } = item.when;
+  if (partyRole !== undefined && !PARTY_ROLE_VALUES.includes(partyRole as PartyRole)) {
+    errors.push(`${path}.when.partyRole must be one of: ${PARTY_ROLE_VALUES.join(', ')}.`);
+  }
+  if (contractTypes !== undefined && !isStringList(contractTypes)) errors.push(`${path}.when.contractTypes must be an array of non-empty strings.`);
+  if (governingLaws !== undefined && !isStringList(governingLaws)) errors.push(`${path}.when.governingLaws must be an array of non-empty strings.`);
+  if (minValue !== undefined && (typeof minValue !== 'number' || !Number.isFinite(minValue) || minValue < 0)) {
+    errors.push(`${path}.when.minValue must be a non-negative number.`);
+  }
+};
+
+const copyConditionalItem = ({ text, when }: ConditionalChecklistItem): ConditionalChecklistItem => ({
+  text: text.trim(),
+  when: {
+    ...(when.partyRole ? { partyRole: when.partyRole } : {}),
+    ...(when.contractTypes?.length ? { contractTypes: [...when.contractTypes] } : {}),
+    ...(when.governingLaws?.length ? { governingLaws: [...when.governingLaws] } : {}),
+    ...(when.minValue !== undefined ? { minValue: when.minValue } : {}),
+  },
+});
+
+const validateStep = (step: unknown, path: string, errors: string[]) => {
+  if (!isRecord(step)) {
+    errors.push(`${path} must be an object.`);
+    return;
+  }
+  if (!Number.isInteger(step.id)) errors.push(`${path}.id must be an integer.`);
+  if (!isNonEmptyString(step.title)) errors.push(`${path}.title must be a non-empty string.`);
+  if (!Number.isInteger(step.duration) || (step.duration as number) <= 0) {
+    errors.push(`${path}.duration must be a positive number of seconds.`);
+  }
+  if (typeof step.icon !== 'string' || !STEP_ICON_NAMES.includes(step.icon as StepDefinition['icon'])) {
+    errors.push(`${path}.icon must be one of: ${STEP_ICON_NAMES.join(', ')}.`);
+  }
+  if (typeof step.description !== 'string') errors.push(`${path}.description must be a string.`);
+  if (!Array.isArray(step.checklist) || !step.checklist.every(isNonEmptyString)) {
+    errors.push(`${path}.checklist must be an array of non-empty strings.`);
+  } else if (new Set(step.checklist).size !== step.checklist.length) {
+    errors.push(`${path}.checklist contains duplicate items.`);
+  }
+  if (step.conditionalChecklist !== undefined) {
+    if (!Array.isArray(step.conditionalChecklist)) errors.push(`${path}.conditionalChecklist must be an array.`);
+    else step.conditionalChecklist.forEach((item, i) => validateConditionalItem(item, `${path}.conditionalChecklist[${i}]`, errors));
+  }
+  if (step.clauseTypes !== undefined && (
+    !Array.isArray(step.clauseTypes) || !step.clauseTypes.every((type) => CLAUSE_TYPES.includes(type))
+  )) {
+    errors.push(`${path}.clauseTypes must be an array of: ${CLAUSE_TYPES.join(', ')}.`);
+  }
+};
+
+/**
+ * Validates the editable part of a playbook (name, description, steps).
+ * Used both for JSON imports and before saving from the editor.
+ */
+export const validatePlaybookContent = (data: unknown): ValidationResult<PlaybookFile> => {
+  const errors: string[] = [];
+  if (!isRecord(data)) {
+    return { ok: false, errors: ['Playbook must be a JSON object.'] };
+  }
+  if (data.schemaVersion !== undefined && data.schemaVersion !== PLAYBOOK_SCHEMA_VERSION) {
+    errors.push(`Unsupported schemaVersion ${String(data.schemaVersion)} (expected ${PLAYBOOK_SCHEMA_VERSION}).`);
+  }
+  if (!isNonEmptyString(data.name)) errors.push('name must be a non-empty string.');
+  if (data.description !== undefined && typeof data.description !== 'string') {
+    errors.push('description must be a string.');
+  }
+  if (!Array.isArray(data.steps) || data.steps.length === 0) {
+    errors.push('steps must be a non-empty array.');
+  } else {
+    data.steps.forEach((step, i) => validateStep(step, `steps[${i}]`, errors));
+    const ids = data.steps.map((step) => (isRecord(step) ? step.id : undefined));
+    if (new Set(ids).size !== ids.length) errors.push('steps must have unique ids.');
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+  return {
+    ok: true,
+    value: {
+      schemaVersion: PLAYBOOK_SCHEMA_VERSION,
+      name: (data.name as string).trim(),
+      description: (data.description as string | undefined) ?? '',
+      steps: (data.steps as StepDefinition[]).map(({ id, title, duration, icon, description, checklist, conditionalChecklist, clauseTypes }) => ({
+        id, title, duration, icon, description, checklist: [...checklist],
+        ...(conditionalChecklist?.length ? { conditionalChecklist: conditionalChecklist.map(copyConditionalItem) } : {}),
+        ...(clauseTypes ? { clauseTypes: [...clauseTypes] } : {})
+      })),
+    },
+  };
+};
+
+export const toPlaybookFile = (playbook: Playbook): PlaybookFile => ({
+  schemaVersion: PLAYBOOK_SCHEMA_VERSION,
+  name: playbook.name,
+  description: playbook.description,
+  steps: playbook.steps,
+});
+
+export const parsePlaybookJson = (json: string): ValidationResult<PlaybookFile> => {
+  try {
+    return validatePlaybookContent(JSON.parse(json));
+  } catch {
+    return { ok: false, errors: ['File is not valid JSON.'] };
+  }
+};
@@ -0,0 +1,52 @@
+import { Playbook } from '../types';
+import { DEFAULT_PLAYBOOK, DEFAULT_PLAYBOOK_ID } from '../constants';
+import { STORES, withStore } from './db';
+import { createId } from '../utils/id';
+import { PlaybookFile } from './playbookSchema';
+
+// The playbook preselected for the next new review.
+const LAST_PLAYBOOK_KEY = 'smr.lastPlaybookId';
+
+export const BUILT_IN_PLAYBOOKS: Playbook[] = [DEFAULT_PLAYBOOK];
+
+export const listPlaybooks = async (): Promise<Playbook[]> => {
+  const stored = await withStore<Playbook[]>(STORES.playbooks, 'readonly', (store) => store.getAll());
+  return [...BUILT_IN_PLAYBOOKS, ...stored.sort((a, b) => a.name.localeCompare(b.name))];
+};
+
+export const getPlaybook = async (id: string): Promise<Playbook | undefined> => {
+  const builtIn = BUILT_IN_PLAYBOOKS.find((playbook) => playbook.id === id);
+  if (builtIn) return builtIn;
+  return withStore<Playbook | undefined>(STORES.playbooks, 'readonly', (store) => store.get(id));
+};
+
+export const savePlaybook = async (playbook: Playbook): Promise<Playbook> => {
+  if (playbook.builtIn) {
+    throw new Error('Built-in playbooks are read-only. Duplicate it to make changes.');
+  }
+  const saved = { ...playbook, updatedAt: new Date().toISOString() };
+  await withStore(STORES.playbooks, 'readwrite', (store) => store.put(saved));
+  return saved;
+};
+
+export const deletePlaybook = async (id: string): Promise<void> => {
+  await withStore(STORES.playbooks, 'readwrite', (store) => store.delete(id));
+  if (getLastPlaybookId() === id) setLastPlaybookId(DEFAULT_PLAYBOOK_ID);
+};
+
+/** Builds a new, unsaved playbook from imported or copied content. */
+export const createPlaybook = (content: Omit<PlaybookFile, 'schemaVersion'>): Playbook => {
+  const now = new Date().toISOString();
+  return {
+    id: createId(),
+    name: content.name,
+    description: content.description,
+    steps: structuredClone(content.steps),
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+export const getLastPlaybookId = (): string => localStorage.getItem(LAST_PLAYBOOK_KEY) || DEFAULT_PLAYBOOK_ID;
+
+export const setLastPlaybookId = (id: string) => localStorage.setItem(LAST_PLAYBOOK_KEY, id);
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { FlagStatus, ReviewRecord } from '../types';
+import { DEFAULT_PLAYBOOK } from '../constants';
+import { computePortfolio, countOpenIssues } from './portfolio';
+
+const reviewWithDealBreakers = (...statuses: FlagStatus[]): ReviewRecord => {
+  const items = DEFAULT_PLAYBOOK.steps[0].checklist.slice(0, statuses.length);
+  return {
+    id: 'review-1',
+    contractName: 'Supply Agreement',
+    playbookId: DEFAULT_PLAYBOOK.id,
+    playbookName: DEFAULT_PLAYBOOK.name,
+    steps: DEFAULT_PLAYBOOK.steps,
+    activeStep: 0,
+    findings: {
+      0: {
+        checked: items,
+        notes: '',
+        flags: Object.fromEntries(items.map((item, i) => [item, { severity: 'deal-breaker', status: statuses[i], clauseRef: '', comment: '' }])),
+      },
+    },
+    reviewComplete: false,
+    createdAt: '2026-03-01T09:00:00.000Z',
+    updatedAt: '2026-03-01T09:00:00.000Z',
+  };
+};
+
+describe('countOpenIssues', () => {
+  it('counts open and negotiating flags only', () => {
+    expect(countOpenIssues(reviewWithDealBreakers('open', 'negotiate', 'accepted-risk'))).toEqual({ flags: 2, dealBreakers: 2 });
+  });
+});
+
+describe('computePortfolio', () => {
+  it('leaves out contracts whose deal-breakers are all accepted or resolved', () => {
+    const stats = computePortfolio([reviewWithDealBreakers('accepted-risk', 'resolved')]);
+    expect(stats.dealBreakers).toEqual([]);
+    expect(stats.trend[0].dealBreakers).toBe(0);
+  });
+});
@@ -0,0 +1,195 @@
+import { FlagSeverity, FlagStatus, ReviewRecord } from '../types';
+import { FLAG_STATUSES, NEGOTIATION_STATUSES } from '../constants';
+import { computeRiskSummary, getFlagDetail, getSeverityMeta } from './risk';
+import { getTotalTime } from './timeTracking';
+import { REVIEW_STAGES, getStage } from './collaboration';
+import { toCsv } from '../utils/csv';
+
+// Risk across every stored review: where flags land, which checklist items keep coming up,
+// which contracts still carry deal-breakers, and how that moves over time.
+
+export interface PortfolioFilters {
+  contractType: string; // '' matches every review
+  counterparty: string;
+  reviewer: string;
+}
+
+export const EMPTY_PORTFOLIO_FILTERS: PortfolioFilters = { contractType: '', counterparty: '', reviewer: '' };
+
+export type TrendPeriod = 'week' | 'month';
+
+export interface StepFlagStats {
+  title: string; // steps are grouped by title, so playbooks sharing a step count together
+  reviews: number; // reviews that had this step
+  flags: number;
+  bySeverity: Record<FlagSeverity, number>;
+}
+
+export interface ChecklistItemStats {
+  item: string;
+  stepTitle: string;
+  count: number; // reviews that flagged it
+  share: number; // of the reviews that had the item's step
+}
+
+export interface DealBreakerReview {
+  review: ReviewRecord;
+  openDealBreakers: number;
+}
+
+export interface TrendPoint {
+  period: string; // "2025-03" or the Monday of the week, "2025-03-10"
+  reviews: number;
+  flags: number;
+  dealBreakers: number;
+}
+
+export interface PortfolioStats {
+  reviews: number;
+  flags: number;
+  byStep: StepFlagStats[];
+  topItems: ChecklistItemStats[];
+  dealBreakers: DealBreakerReview[];
+  trend: TrendPoint[];
+}
+
+const TOP_ITEMS = 10;
+
+const reviewersOf = (review: ReviewRecord) => [review.reviewer, review.secondReviewer].map((name) => name?.trim() ?? '').filter(Boolean);
+
+const sameText = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const uniqueSorted = (values: string[]) =>
+  [...new Map(values.filter(Boolean).map((value) => [value.toLowerCase(), value])).values()].sort((a, b) => a.localeCompare(b));
+
+/** The values present in the stored reviews, for the filter pickers. */
+export const getFilterOptions = (reviews: ReviewRecord[]): Record<keyof PortfolioFilters, string[]> => ({
+  contractType: uniqueSorted(reviews.map((review) => review.dealContext?.contractType.trim() ?? '')),
+  counterparty: uniqueSorted(reviews.map((review) => review.dealContext?.counterparty.trim() ?? '')),
+  reviewer: uniqueSorted(reviews.flatMap(reviewersOf)),
+});
+
+/** Reviews matching every set filter; the reviewer filter matches the first or second reviewer. */
+export const filterReviews = (reviews: ReviewRecord[], filters: PortfolioFilters): ReviewRecord[] =>
+  reviews.filter((review) =>
+    (!filters.contractType || sameText(review.dealContext?.contractType ?? '', filters.contractType)) &&
+    (!filters.counterparty || sameText(review.dealContext?.counterparty ?? '', filters.counterparty)) &&
+    (!filters.reviewer || reviewersOf(review).some((name) => sameText(name, filters.reviewer)))
+  );
+
+// The risk rating keeps accepted risks as known exposure, but they are settled: only flags still
+// open or under negotiation are issues to chase.
+const OPEN_ISSUE_STATUSES: FlagStatus[] = ['open', 'negotiate'];
+
+/** Flags still open or under negotiation, and how many of them are deal-breakers. */
+export const countOpenIssues = (review: ReviewRecord): { flags: number; dealBreakers: number } => {
+  let flags = 0;
+  let dealBreakers = 0;
+  Object.values(review.findings).forEach((finding) => {
+    (finding?.checked ?? []).forEach((item) => {
+      const detail = getFlagDetail(finding, item);
+      if (!OPEN_ISSUE_STATUSES.includes(detail.status)) return;
+      flags++;
+      if (detail.severity === 'deal-breaker') dealBreakers++;
+    });
+  });
+  return { flags, dealBreakers };
+};
+
+const periodOf = (iso: string, period: TrendPeriod): string => {
+  const date = new Date(iso);
+  if (period === 'month') return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+  const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7));
+  return `${monday.getFullYear()}-${String(monday.getMonth() + 1).padStart(2, '0')}-${String(monday.getDate()).padStart(2, '0')}`;
+};
+
+export const computePortfolio = (reviews: ReviewRecord[], period: TrendPeriod = 'month'): PortfolioStats => {
+  const byStep = new Map<string, StepFlagStats>();
+  const items = new Map<string, ChecklistItemStats>();
+  const trend = new Map<string, TrendPoint>();
+  const dealBreakers: DealBreakerReview[] = [];
+  let flags = 0;
+
+  reviews.forEach((review) => {
+    const risk = computeRiskSummary(review.findings);
+    const open = countOpenIssues(review);
+    const point = trend.get(periodOf(review.createdAt, period)) ?? { period: periodOf(review.createdAt, period), reviews: 0, flags: 0, dealBreakers: 0 };
+    point.reviews++;
+    point.flags += risk.totalFlags;
+    point.dealBreakers += open.dealBreakers;
+    trend.set(point.period, point);
+    if (open.dealBreakers > 0) dealBreakers.push({ review, openDealBreakers: open.dealBreakers });
+    flags += risk.totalFlags;
+
+    review.steps.forEach((step, index) => {
+      const key = step.title.trim().toLowerCase();
+      const stats = byStep.get(key) ?? { title: step.title, reviews: 0, flags: 0, bySeverity: { 'low': 0, 'medium': 0, 'high': 0, 'deal-breaker': 0 } };
+      stats.reviews++;
+      const finding = review.findings[index];
+      (finding?.checked ?? []).forEach((item) => {
+        stats.flags++;
+        stats.bySeverity[getFlagDetail(finding, item).severity]++;
+        const itemKey = `${key}\n${item.trim().toLowerCase()}`;
+        const itemStats = items.get(itemKey) ?? { item, stepTitle: step.title, count: 0, share: 0 };
+        itemStats.count++;
+        items.set(itemKey, itemStats);
+      });
+      byStep.set(key, stats);
+    });
+  });
+
+  const topItems = [...items.entries()]
+    .map(([key, stats]) => ({ ...stats, share: stats.count / (byStep.get(key.split('\n')[0])?.reviews || 1) }))
+    .sort((a, b) => b.count - a.count || a.item.localeCompare(b.item))
+    .slice(0, TOP_ITEMS);
+
+  return {
+    reviews: reviews.length,
+    flags,
+    byStep: [...byStep.values()].sort((a, b) => b.flags - a.flags),
+    topItems,
+    dealBreakers: dealBreakers.sort((a, b) => b.openDealBreakers - a.openDealBreakers || b.review.updatedAt.localeCompare(a.review.updatedAt)),
+    trend: [...trend.values()].sort((a, b) => a.period.localeCompare(b.period)),
+  };
+};
+
+// -- CSV --
+
+const statusLabel = (value: string) => FLAG_STATUSES.find((status) => status.value === value)?.label ?? value;
+
+/** One row per review. */
+export const toReviewsCsv = (reviews: ReviewRecord[]): string =>
+  toCsv(
+    ['Review ID', 'Contract', 'Counterparty', 'Contract Type', 'Reviewer', 'Second Reviewer', 'Stage', 'Playbook', 'Created', 'Updated',
+      'Flags', 'Open Flags', 'Open Deal-breakers', 'Risk Score', 'Time Spent (s)'],
+    reviews.map((review) => {
+      const risk = computeRiskSummary(review.findings);
+      const open = countOpenIssues(review);
+      return [
+        review.id, review.contractName, review.dealContext?.counterparty, review.dealContext?.contractType, review.reviewer,
+        review.secondReviewer, REVIEW_STAGES[getStage(review)].label, review.playbookName, review.createdAt, review.updatedAt,
+        risk.totalFlags, open.flags, open.dealBreakers, risk.score,
+        review.stepTimes ? getTotalTime(review.stepTimes) : review.timeSpent ?? 0,
+      ];
+    })
+  );
+
+/** One row per flag, with the review it belongs to. */
+export const toFlagsCsv = (reviews: ReviewRecord[]): string =>
+  toCsv(
+    ['Review ID', 'Contract', 'Counterparty', 'Contract Type', 'Reviewer', 'Created', 'Step', 'Step Title', 'Checklist Item',
+      'Severity', 'Status', 'Clause', 'Negotiation'],
+    reviews.flatMap((review) =>
+      review.steps.flatMap((step, index) => {
+        const finding = review.findings[index];
+        return (finding?.checked ?? []).map((item) => {
+          const detail = getFlagDetail(finding, item);
+          return [
+            review.id, review.contractName, review.dealContext?.counterparty, review.dealContext?.contractType, review.reviewer,
+            review.createdAt, index + 1, step.title, item, getSeverityMeta(detail.severity).label, statusLabel(detail.status), detail.clauseRef,
+            detail.negotiation ? NEGOTIATION_STATUSES[detail.negotiation.status].label : '',
+          ];
+        });
+      })
+    )
+  );
@@ -0,0 +1,50 @@
+// Installs the offline service worker (service-worker.js, built to sw.js) and tells the page when a
+// newer release has been downloaded. Development builds run without it so edits show up immediately.
+
+let waitingWorker: ServiceWorker | null = null;
+const updateListeners = new Set<() => void>();
+
+export const isUpdateReady = (): boolean => waitingWorker !== null;
+
+export const onUpdateReady = (listener: () => void): (() => void) => {
+  updateListeners.add(listener);
+  return () => updateListeners.delete(listener);
+};
+
+/** Switches to the waiting release; the page reloads once it has taken over. */
+export const applyUpdate = () => waitingWorker?.postMessage('skip-waiting');
+
+const offerUpdate = (worker: ServiceWorker) => {
+  waitingWorker = worker;
+  updateListeners.forEach((listener) => listener());
+};
+
+// Asks the browser not to evict saved reviews when disk space runs low.
+const requestPersistentStorage = async () => {
+  if (!navigator.storage?.persist || await navigator.storage.persisted()) return;
+  await navigator.storage.persist();
+};
+
+export const registerServiceWorker = () => {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+  window.addEventListener('load', async () => {
+    // Without a controller this is the first install, which has no older page to replace.
+    const hadController = !!navigator.serviceWorker.controller;
+    navigator.serviceWorker.addEventListener('controllerchange', () => {
+      if (hadController) window.location.reload();
+    });
+    try {
+      const registration = await navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`);
+      if (registration.waiting && hadController) offerUpdate(registration.waiting);
+      registration.addEventListener('updatefound', () => {
+        const worker = registration.installing;
+        worker?.addEventListener('statechange', () => {
+          if (worker.state === 'installed' && navigator.serviceWorker.controller) offerUpdate(worker);
+        });
+      });
+      await requestPersistentStorage();
+    } catch {
+      // Without a worker (e.g. a private window that blocks it) the app still runs online.
+    }
+  });
+};
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { ScanRuleId, ScannerConfig } from '../types';
+import { DEFAULT_PLAYBOOK } from '../constants';
+import { classifyClauses } from './clauseClassifier';
+import { DEFAULT_SCANNER_CONFIG, SCAN_RULE_IDS, scanContract } from './redFlagScanner';
+
+const steps = DEFAULT_PLAYBOOK.steps;
+
+const scan = (ruleId: ScanRuleId, text: string, config: Partial<ScannerConfig> = {}) =>
+  scanContract(text, classifyClauses(text, steps), steps, {
+    ...DEFAULT_SCANNER_CONFIG,
+    ...config,
+    enabledRules: Object.fromEntries(SCAN_RULE_IDS.map((id) => [id, id === ruleId])) as Record<ScanRuleId, boolean>,
+  });
+
+describe('vague-qualifier', () => {
+  it('names every vague word of a sentence in one suggestion', () => {
+    const suggestions = scan('vague-qualifier', 'The Supplier shall respond promptly and take reasonable care. Fees are due in 30 days.');
+    expect(suggestions).toHaveLength(1);
+    expect(suggestions[0].detail).toBe('"promptly", "reasonable" set no measurable standard.');
+    expect(suggestions[0].text).toBe('The Supplier shall respond promptly and take reasonable care.');
+    expect(suggestions[0].checklistItem).toBe("Scan for ambiguous words (e.g., 'reasonable')");
+  });
+
+  it('finds nothing in precise wording', () => {
+    expect(scan('vague-qualifier', 'The Supplier shall respond within two Business Days.')).toEqual([]);
+  });
+});
+
+describe('undefined-term', () => {
+  it('reports a capitalised term used repeatedly without a definition', () => {
+    const suggestions = scan('undefined-term', 'The Supplier hosts the Widget Platform. The Customer may use the Widget Platform.');
+    expect(suggestions.map((s) => s.detail)).toContain('"Widget Platform" is used 2 times but never defined.');
+  });
+
+  it('accepts defined terms', () => {
+    const text = '"Widget Platform" means the hosted service. The Customer may use the Widget Platform and the Widget Platform only.';
+    expect(scan('undefined-term', text).map((s) => s.detail).join()).not.toContain('Widget Platform');
+  });
+
+  it('accepts terms on the ignore list', () => {
+    const text = 'The Supplier hosts the Widget Platform. The Customer may use the Widget Platform.';
+    const details = scan('undefined-term', text, { ignoredTerms: ['Widget Platform'] }).map((s) => s.detail).join();
+    expect(details).not.toContain('Widget Platform');
+  });
+});
+
+describe('unused-definition', () => {
+  it('reports a definition never used again', () => {
+    const suggestions = scan('unused-definition', '"Affiliate" means any entity controlling a party. The Customer pays the Fees.');
+    expect(suggestions).toHaveLength(1);
+    expect(suggestions[0].detail).toBe('"Affiliate" is defined but never used.');
+    expect(suggestions[0].checklistItem).toBe('Find hidden obligations buried in definitions');
+  });
+
+  it('accepts a definition that is used', () => {
+    expect(scan('unused-definition', '"Affiliate" means any entity controlling a party. No Affiliate may assign.')).toEqual([]);
+  });
+});
+
+describe('uncapped-liability', () => {
+  it('flags wording that leaves liability unlimited', () => {
+    const suggestions = scan('uncapped-liability', "The Supplier's liability under this Agreement shall not be limited.");
+    expect(suggestions).toHaveLength(1);
+    expect(suggestions[0].detail).toBe('"liability under this Agreement shall not be limited" leaves exposure uncapped.');
+    expect(suggestions[0].severity).toBe('high');
+    expect(suggestions[0].checklistItem).toBe('Liability: Is it capped? Are we exposed?');
+  });
+
+  it('does not join a heading to the next line', () => {
+    const suggestions = scan('uncapped-liability', 'Exclusion of liability\nThe Customer shall not be limited in its remedies.');
+    expect(suggestions.filter((s) => s.id.endsWith(':wording'))).toEqual([]);
+  });
+
+  it('flags a liability clause without a cap, and not one with a cap', () => {
+    const uncapped = '12. Limitation of Liability\nNeither party excludes liability for fraud.';
+    expect(scan('uncapped-liability', uncapped).map((s) => s.detail)).toEqual(['The liability clause contains no monetary cap.']);
+    const capped = '12. Limitation of Liability\nEach party\'s aggregate liability shall not exceed the fees paid.';
+    expect(scan('uncapped-liability', capped)).toEqual([]);
+  });
+});
+
+describe('uncapped-indemnity', () => {
+  it('flags an indemnity for any and all losses against the scope item', () => {
+    const suggestions = scan('uncapped-indemnity', 'The Supplier shall indemnify the Customer against any and all losses.');
+    expect(suggestions).toHaveLength(1);
+    expect(suggestions[0].detail).toBe('Indemnity reaches "any and all" with no stated cap.');
+    expect(suggestions[0].checklistItem).toBe('Indemnity Scope: For what exactly?');
+  });
+
+  it('falls back to any indemnity item when the step has no scope item', () => {
+    const ownSteps = steps.map((step) =>
+      step.clauseTypes?.includes('indemnity') ? { ...step, checklist: ['Who gives the indemnity?', 'Indemnities: Are they mutual?'] } : step
+    );
+    const [suggestion] = scanContract('The Supplier shall indemnify the Customer against all losses.', [], ownSteps, {
+      ...DEFAULT_SCANNER_CONFIG,
+      enabledRules: { ...DEFAULT_SCANNER_CONFIG.enabledRules, 'vague-qualifier': false, 'undefined-term': false },
+    });
+    expect(suggestion.ruleId).toBe('uncapped-indemnity');
+    expect(suggestion.checklistItem).toBe('Who gives the indemnity?');
+  });
+
+  it('finds nothing in a limited indemnity', () => {
+    expect(scan('uncapped-indemnity', 'The Supplier shall indemnify the Customer for third-party claims caused by its breach.')).toEqual([]);
+  });
+});
+
+describe('auto-renewal', () => {
+  it('flags a contract that renews itself', () => {
+    const suggestions = scan('auto-renewal', 'This Agreement shall automatically renew for one year unless either party gives notice.');
+    expect(suggestions).toHaveLength(1);
+    expect(suggestions[0].detail).toBe('"automatically renew" renews the contract unless notice is given.');
+    expect(suggestions[0].checklistItem).toBe('Term: Is the duration clear?');
+  });
+
+  it('finds nothing in a fixed term', () => {
+    expect(scan('auto-renewal', 'This Agreement ends on 31 December 2026.')).toEqual([]);
+  });
+});
+
+describe('unilateral-termination', () => {
+  it('flags termination for convenience', () => {
+    const suggestions = scan('unilateral-termination', 'The Customer may terminate this Agreement for convenience on 30 days notice.');
+    expect(suggestions).toHaveLength(1);
+    expect(suggestions[0].detail).toBe('Termination "for convenience" lets one side walk away unilaterally.');
+    expect(suggestions[0].checklistItem).toBe('Termination: Can we get out? At what cost?');
+  });
+
+  it('finds nothing in termination for cause', () => {
+    expect(scan('unilateral-termination', 'Either party may terminate this Agreement for material breach.')).toEqual([]);
+  });
+});
@@ -0,0 +1,333 @@
+import { ClauseSection, ClauseType, FlagSeverity, ScanRuleId, ScanSuggestion, ScannerConfig, StepDefinition } from '../types';
+import { getStepClauseTypes } from './clauseClassifier';
+
+// Heuristic, offline red-flag scanner. Every rule works on the plain contract text and reports
+// suggestions the reviewer can accept into a step's findings or dismiss.
+
+const CONFIG_KEY = 'smr.scannerConfig';
+const MAX_HITS_PER_RULE = 15;
+
+interface RuleMeta {
+  label: string;
+  description: string;
+  severity: FlagSeverity;
+  clauseType: ClauseType; // decides which step the suggestion lands on
+  checklistHints: RegExp[]; // pick the checklist item to flag on accept, tried in order
+}
+
+export const SCAN_RULES: Record<ScanRuleId, RuleMeta> = {
+  'vague-qualifier': {
+    label: 'Vague qualifier',
+    description: "Words like 'reasonable' or 'promptly' that leave the standard open to argument.",
+    severity: 'low',
+    clauseType: 'definitions',
+    checklistHints: [/ambiguous|vague/i],
+  },
+  'undefined-term': {
+    label: 'Undefined term',
+    description: 'Capitalised terms used as if defined, but with no definition in the contract.',
+    severity: 'low',
+    clauseType: 'definitions',
+    checklistHints: [/defin|loophole/i],
+  },
+  'unused-definition': {
+    label: 'Unused definition',
+    description: 'Defined terms that are never used again; often a sign of a missing or deleted obligation.',
+    severity: 'low',
+    clauseType: 'definitions',
+    checklistHints: [/hidden obligations/i, /defin/i],
+  },
+  'uncapped-liability': {
+    label: 'Uncapped liability',
+    description: 'Liability wording that is unlimited, or a liability clause without a cap.',
+    severity: 'high',
+    clauseType: 'liability',
+    checklistHints: [/liabil/i],
+  },
+  'uncapped-indemnity': {
+    label: 'Uncapped indemnity',
+    description: "Indemnities for 'any and all' losses or carved out of the liability cap.",
+    severity: 'high',
+    clauseType: 'indemnity',
+    checklistHints: [/indemnity scope/i, /indemn/i],
+  },
+  'auto-renewal': {
+    label: 'Auto-renewal',
+    description: 'The contract renews itself unless someone remembers to give notice.',
+    severity: 'medium',
+    clauseType: 'term',
+    checklistHints: [/\bterm\b|duration|renew/i],
+  },
+  'unilateral-termination': {
+    label: 'Unilateral termination',
+    description: 'One party may terminate at will, for convenience or in its sole discretion.',
+    severity: 'high',
+    clauseType: 'termination',
+    checklistHints: [/terminat|get out/i],
+  },
+};
+
+export const SCAN_RULE_IDS = Object.keys(SCAN_RULES) as ScanRuleId[];
+
+export const DEFAULT_SCANNER_CONFIG: ScannerConfig = {
+  enabledRules: Object.fromEntries(SCAN_RULE_IDS.map((id) => [id, true])) as Record<ScanRuleId, boolean>,
+  vagueTerms: [
+    'reasonable', 'reasonably', 'promptly', 'timely', 'material', 'materially', 'substantial',
+    'substantially', 'appropriate', 'satisfactory', 'best efforts', 'commercially reasonable efforts',
+    'as soon as practicable', 'from time to time', 'adequate', 'good faith',
+  ],
+  ignoredTerms: [],
+};
+
+export const loadScannerConfig = (): ScannerConfig => {
+  try {
+    const stored = localStorage.getItem(CONFIG_KEY);
+    if (!stored) return DEFAULT_SCANNER_CONFIG;
+    const parsed = JSON.parse(stored) as Partial<ScannerConfig>;
+    return {
+      enabledRules: { ...DEFAULT_SCANNER_CONFIG.enabledRules, ...parsed.enabledRules },
+      vagueTerms: parsed.vagueTerms ?? DEFAULT_SCANNER_CONFIG.vagueTerms,
+      ignoredTerms: parsed.ignoredTerms ?? DEFAULT_SCANNER_CONFIG.ignoredTerms,
+    };
+  } catch {
+    return DEFAULT_SCANNER_CONFIG;
+  }
+};
+
+export const saveScannerConfig = (config: ScannerConfig) => localStorage.setItem(CONFIG_KEY, JSON.stringify(config));
+
+// -- Text helpers --
+
+interface Hit {
+  start: number;
+  end: number;
+  detail: string;
+  key: string; // distinguishes hits in the same sentence for stable ids
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// A full stop only ends a sentence when followed by whitespace, so "12.3" and "e.g.," stay intact.
+const SENTENCE_BOUNDARY = /[.;](?=\s|$)|\n/g;
+
+/** The sentence (or list item) around a character offset. */
+export const sentenceAt = (text: string, index: number): { start: number; end: number } => {
+  let start = 0;
+  const boundary = new RegExp(SENTENCE_BOUNDARY.source, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = boundary.exec(text)) && match.index < index) {
+    start = match.index + 1;
+  }
+  const end = match && match.index >= index ? match.index + 1 : text.length;
+  while (start < end && /\s/.test(text[start])) start++;
+  return { start, end };
+};
+
+/** Every sentence (or list item) of the text, in order, in one pass. */
+export const sentenceRanges = (text: string): { start: number; end: number }[] => {
+  const ranges: { start: number; end: number }[] = [];
+  const boundary = new RegExp(SENTENCE_BOUNDARY.source, 'g');
+  let start = 0;
+  let match: RegExpExecArray | null;
+  while ((match = boundary.exec(text)) || start < text.length) {
+    const end = match ? match.index + 1 : text.length;
+    let from = start;
+    while (from < end && /\s/.test(text[from])) from++;
+    if (from < end) ranges.push({ start: from, end });
+    start = end;
+    if (!match) break;
+  }
+  return ranges;
+};
+
+const sentenceHit = (text: string, index: number, detail: string, key: string): Hit => ({
+  ...sentenceAt(text, index),
+  detail,
+  key,
+});
+
+const collectMatches = (text: string, pattern: RegExp, toHit: (match: RegExpExecArray) => Hit | null): Hit[] => {
+  const flags = pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`;
+  const global = new RegExp(pattern.source, flags);
+  const hits: Hit[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = global.exec(text)) && hits.length < MAX_HITS_PER_RULE) {
+    const hit = toHit(match);
+    if (hit && !hits.some((existing) => existing.start === hit.start)) hits.push(hit);
+  }
+  return hits;
+};
+
+// -- Defined terms --
+
+// "Services" means..., (the "Services"), “Fees” shall mean...
+const DEFINITION_PATTERNS = [
+  /["“]([A-Z][\w\- ]{0,50}?)["”]\s+(?:means|shall mean|has the meaning|refers to)/g,
+  /\((?:the\s+|each\s+a\s+|each\s+an\s+|together\s+the\s+|collectively\s+the\s+)?["“]([A-Z][\w\- ]{0,50}?)["”]\)/g,
+];
+
+const GENERIC_CAPITALISED = new Set([
+  'Agreement', 'Schedule', 'Exhibit', 'Annex', 'Appendix', 'Section', 'Clause', 'Article', 'Party', 'Parties',
+  'January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December',
+  'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday',
+]);
+
+export const findDefinedTerms = (text: string): Map<string, { start: number; end: number }> => {
+  const terms = new Map<string, { start: number; end: number }>();
+  DEFINITION_PATTERNS.forEach((pattern) => {
+    const global = new RegExp(pattern.source, pattern.flags);
+    let match: RegExpExecArray | null;
+    while ((match = global.exec(text))) {
+      const term = match[1].trim();
+      if (!terms.has(term)) terms.set(term, { start: match.index, end: match.index + match[0].length });
+    }
+  });
+  return terms;
+};
+
+// A capitalised phrase used as a defined term: "the Services", "any Deliverables", "such Confidential Information"
+const TERM_USAGE = /\b(?:[Tt]he|[Aa]ny|[Aa]ll|[Ss]uch|[Ee]ach|[Aa]n?|of|to|by|under)\s+((?:[A-Z][a-z]+)(?:\s+[A-Z][a-z]+){0,3})\b/g;
+
+// -- Rules --
+
+type RuleRunner = (text: string, config: ScannerConfig, sections: ClauseSection[]) => Hit[];
+
+const RULE_RUNNERS: Record<ScanRuleId, RuleRunner> = {
+  'vague-qualifier': (text, config) => {
+    const terms = config.vagueTerms.map((term) => term.trim()).filter(Boolean);
+    if (terms.length === 0) return [];
+    const pattern = new RegExp(`\\b(${terms.map(escapeRegExp).join('|')})\\b`, 'gi');
+    // One suggestion per sentence, naming every vague word in it.
+    const bySentence = new Map<number, { hit: Hit; words: string[] }>();
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) && bySentence.size <= MAX_HITS_PER_RULE) {
+      const sentence = sentenceAt(text, match.index);
+      const entry = bySentence.get(sentence.start) ?? { hit: { ...sentence, detail: '', key: 'vague' }, words: [] };
+      if (!entry.words.includes(match[1].toLowerCase())) entry.words.push(match[1].toLowerCase());
+      bySentence.set(sentence.start, entry);
+    }
+    return [...bySentence.values()].slice(0, MAX_HITS_PER_RULE).map(({ hit, words }) => ({
+      ...hit,
+      detail: `${words.map((word) => `"${word}"`).join(', ')} set${words.length === 1 ? 's' : ''} no measurable standard.`,
+    }));
+  },
+
+  'undefined-term': (text, config) => {
+    const defined = findDefinedTerms(text);
+    const ignored = new Set(config.ignoredTerms.map((term) => term.trim()));
+    const firstUse = new Map<string, number>();
+    const counts = new Map<string, number>();
+    const usage = new RegExp(TERM_USAGE.source, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = usage.exec(text))) {
+      const term = match[1];
+      if (GENERIC_CAPITALISED.has(term) || ignored.has(term) || defined.has(term)) continue;
+      // Skip words that are capitalised only because a defined term starts with them ("Confidential Information").
+      if ([...defined.keys()].some((definedTerm) => definedTerm.startsWith(`${term} `) || term.startsWith(`${definedTerm} `))) continue;
+      counts.set(term, (counts.get(term) ?? 0) + 1);
+      if (!firstUse.has(term)) firstUse.set(term, match.index + match[0].length - term.length);
+    }
+    // A single capitalised mention is usually a proper noun or heading fragment; repeated use signals a term.
+    return [...counts.entries()]
+      .filter(([, count]) => count >= 2)
+      .slice(0, MAX_HITS_PER_RULE)
+      .map(([term, count]) =>
+        sentenceHit(text, firstUse.get(term)!, `"${term}" is used ${count} times but never defined.`, term)
+      );
+  },
+
+  'unused-definition': (text) =>
+    [...findDefinedTerms(text).entries()]
+      .filter(([term, span]) => {
+        const uses = text.match(new RegExp(`\\b${escapeRegExp(term)}\\b`, 'g'))?.length ?? 0;
+        const usesInDefinition = text.slice(span.start, span.end).match(new RegExp(`\\b${escapeRegExp(term)}\\b`, 'g'))?.length ?? 0;
+        return uses - usesInDefinition === 0;
+      })
+      .slice(0, MAX_HITS_PER_RULE)
+      .map(([term, span]) => sentenceHit(text, span.start, `"${term}" is defined but never used.`, term)),
+
+  'uncapped-liability': (text, _config, sections) => {
+    const hits = collectMatches(
+      text,
+      /\b(unlimited liability|liability\b[^.;\n]{0,80}\bshall (?:not be limited|be unlimited)|without (?:any )?limit(?:ation)? (?:on|of|to) (?:its |their )?liability)/gi,
+      (match) => sentenceHit(text, match.index, `"${match[1]}" leaves exposure uncapped.`, 'wording')
+    );
+    const liabilitySections = sections.filter((section) => section.clauseTypes.includes('liability'));
+    const hasCap = liabilitySections.some((section) =>
+      /\b(shall not exceed|aggregate liability|capped at|limited to|maximum liability)\b/i.test(text.slice(section.start, section.end))
+    );
+    if (liabilitySections.length > 0 && !hasCap) {
+      const first = liabilitySections[0];
+      hits.push({
+        start: first.start,
+        end: Math.min(first.end, first.start + 300),
+        detail: 'The liability clause contains no monetary cap.',
+        key: 'no-cap',
+      });
+    }
+    return hits;
+  },
+
+  'uncapped-indemnity': (text) =>
+    collectMatches(
+      text,
+      /\bindemnif\w*[^.;\n]{0,200}?\b(any and all|all losses|without limitation|not be subject to (?:any|the) (?:limitation|cap)|excluded from (?:the|any) (?:limitation|cap))/gi,
+      (match) => sentenceHit(text, match.index, `Indemnity reaches "${match[1]}" with no stated cap.`, match[1].toLowerCase())
+    ),
+
+  'auto-renewal': (text) =>
+    collectMatches(
+      text,
+      /\b(automatically(?: be)? renew\w*|auto-renew\w*|shall renew|successive (?:renewal )?(?:periods|terms))/gi,
+      (match) => sentenceHit(text, match.index, `"${match[1]}" renews the contract unless notice is given.`, 'renewal')
+    ),
+
+  'unilateral-termination': (text) =>
+    collectMatches(
+      text,
+      /\bmay terminate\b[^.;\n]{0,160}?\b(at any time|for any reason|for convenience|without cause|in its (?:sole|absolute) discretion)/gi,
+      (match) => sentenceHit(text, match.index, `Termination "${match[1]}" lets one side walk away unilaterally.`, match[1].toLowerCase())
+    ),
+};
+
+// -- Scan --
+
+export const findStepForClause = (steps: StepDefinition[], clauseType: ClauseType): number =>
+  steps.findIndex((step) => getStepClauseTypes(step).includes(clauseType));
+
+export const clauseRefAt = (sections: ClauseSection[], offset: number): string => {
+  const section = sections.find((s) => s.start <= offset && offset < s.end);
+  return section?.number ? `§${section.number}` : '';
+};
+
+/**
+ * Runs every enabled rule over the contract and assigns each hit to the step that covers the
+ * rule's clause type. Hits whose clause type no step covers are dropped.
+ */
+export const scanContract = (
+  text: string,
+  sections: ClauseSection[],
+  steps: StepDefinition[],
+  config: ScannerConfig = DEFAULT_SCANNER_CONFIG
+): ScanSuggestion[] =>
+  SCAN_RULE_IDS.filter((ruleId) => config.enabledRules[ruleId]).flatMap((ruleId) => {
+    const meta = SCAN_RULES[ruleId];
+    const stepIndex = findStepForClause(steps, meta.clauseType);
+    if (stepIndex === -1) return [];
+    const checklist = steps[stepIndex].checklist;
+    const checklistItem = meta.checklistHints.map((hint) => checklist.find((item) => hint.test(item))).find(Boolean);
+
+    return RULE_RUNNERS[ruleId](text, config, sections).map((hit) => ({
+      id: `${ruleId}:${hit.start}:${hit.key}`,
+      ruleId,
+      stepIndex,
+      checklistItem,
+      title: meta.label,
+      detail: hit.detail,
+      severity: meta.severity,
+      clauseRef: clauseRefAt(sections, hit.start),
+      start: hit.start,
+      end: hit.end,
+      text: text.slice(hit.start, hit.end).trim(),
+    }));
+  });
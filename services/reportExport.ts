@@ -0,0 +1,528 @@
+import { Attribution, CarryOverStatus, DealContext, FlagSeverity, FlagStatus, NegotiationItem, ReviewRecord, SecondOpinion } from '../types';
+import { SEVERITY_LEVELS, FLAG_STATUSES, RISK_RATINGS, CARRY_OVER_STATUSES } from '../constants';
+import { RiskSummary, computeRiskSummary, getFlagDetail, getSeverityMeta } from './risk';
+import { formatDuration, getPlannedTotal, getTotalTime } from './timeTracking';
+import { describeDealContext, tailorSteps } from './dealContext';
+import { SECOND_OPINION_VERDICTS, describeAttribution } from './collaboration';
+import { collectNegotiationEntries, currentRound, describeNegotiation, describeNegotiationForLetter } from './negotiation';
+import { describeObligation } from './obligations';
+import { StepCoverage, getItemState, getStepCoverage } from './coverage';
+import { describeChangeLogEntry } from './changeLog';
+
+// Renders a review into the report formats we hand out. Every renderer works from the same
+// ReportData so the text, Markdown, HTML and Word versions never disagree.
+
+export interface ReportFlag {
+  item: string;
+  severity: FlagSeverity;
+  status: FlagStatus;
+  clauseRef: string;
+  comment: string;
+  carryOver?: CarryOverStatus;
+  secondOpinion?: SecondOpinion;
+  negotiation?: NegotiationItem;
+}
+
+export interface ReportStep {
+  number: number;
+  title: string;
+  planned: number; // seconds
+  actual: number; // seconds
+  flags: ReportFlag[];
+  notes: string;
+  excerpts: string[];
+  obligations: string[]; // one line each, see describeObligation
+  coverage: StepCoverage;
+  cleared: string[]; // reviewed and found OK
+  skipped: { item: string; reason: string }[];
+  unreviewed: string[]; // neither reviewed nor skipped
+}
+
+export interface ReportData {
+  contractName: string;
+  reviewer: string;
+  secondReviewer?: string;
+  signedOff?: Attribution;
+  playbookName: string;
+  sourceDocument?: string;
+  previousDocument?: string; // file the new version was compared with
+  dealContext?: DealContext;
+  date: Date;
+  timeSpent: number; // seconds
+  plannedTime: number; // seconds
+  risk: RiskSummary;
+  steps: ReportStep[];
+  changeLog?: string[]; // one line per edit, oldest first; only when asked for
+}
+
+export interface ReportOptions {
+  redactConfidential?: boolean; // leave out notes marked confidential, e.g. for a report that leaves the firm
+  includeChangeLog?: boolean; // append the audit trail of edits
+}
+
+export const REDACTED_NOTES = '[Redacted: confidential]';
+
+export const buildReportData = (review: ReviewRecord, date: Date = new Date(), options: ReportOptions = {}): ReportData => ({
+  contractName: review.contractName || 'Untitled',
+  reviewer: review.reviewer?.trim() || '',
+  secondReviewer: review.secondReviewer,
+  signedOff: review.signedOff,
+  playbookName: review.playbookName,
+  sourceDocument: review.document?.fileName,
+  previousDocument: review.previousVersion?.fileName,
+  dealContext: review.dealContext,
+  date,
+  timeSpent: review.stepTimes ? getTotalTime(review.stepTimes) : review.timeSpent ?? 0,
+  plannedTime: getPlannedTotal(review.steps),
+  risk: computeRiskSummary(review.findings),
+  steps: tailorSteps(review.steps, review.dealContext).map((step, index) => {
+    const finding = review.findings[index];
+    const unreviewed = step.checklist.filter((item) => getItemState(finding, item) === 'not-reviewed');
+    return {
+      number: index + 1,
+      title: step.title,
+      planned: step.duration,
+      actual: review.stepTimes?.[index] ?? 0,
+      flags: (finding?.checked ?? []).map((item) => ({ item, ...getFlagDetail(finding, item) })),
+      notes: options.redactConfidential && finding?.notesConfidential && finding.notes.trim() ? REDACTED_NOTES : finding?.notes?.trim() ?? '',
+      excerpts: (finding?.excerpts ?? []).map((excerpt) => excerpt.text.replace(/\s+/g, ' ').trim()),
+      obligations: (finding?.obligations ?? []).map(describeObligation),
+      coverage: getStepCoverage(step, finding),
+      cleared: step.checklist.filter((item) => getItemState(finding, item) === 'ok'),
+      skipped: unreviewed.filter((item) => finding?.skipped?.[item]?.trim()).map((item) => ({ item, reason: finding!.skipped![item].trim() })),
+      unreviewed: unreviewed.filter((item) => !finding?.skipped?.[item]?.trim()),
+    };
+  }),
+  changeLog: options.includeChangeLog ? (review.changeLog ?? []).map((entry) => describeChangeLogEntry(entry, review.steps)) : undefined,
+});
+
+// -- Shared formatting --
+
+const timeAgainstPlan = (actual: number, planned: number) =>
+  `${formatDuration(actual)} of ${formatDuration(planned)} planned${actual > planned ? ` (${formatDuration(actual - planned)} over)` : ''}`;
+
+const stepTime = (step: ReportStep) => timeAgainstPlan(step.actual, step.planned);
+
+const statusLabel = (status: FlagStatus) => FLAG_STATUSES.find((s) => s.value === status)?.label ?? status;
+
+const riskLine = (risk: RiskSummary, shout = false) =>
+  `${shout ? RISK_RATINGS[risk.rating].label.toUpperCase() : RISK_RATINGS[risk.rating].label} (${SEVERITY_LEVELS.map((level) => `${risk.counts[level.value]} ${level.label}`).join(', ')} open)`;
+
+const coverFields = (data: ReportData, shout = false): [string, string][] => [
+  ['Contract', data.contractName],
+  ...(data.sourceDocument ? [['Source Document', data.sourceDocument] as [string, string]] : []),
+  ...(data.previousDocument ? [['Compared With', data.previousDocument] as [string, string]] : []),
+  ...describeDealContext(data.dealContext),
+  ['Reviewer', data.reviewer || 'Not recorded'],
+  ...(data.secondReviewer ? [['Second Reviewer', data.secondReviewer] as [string, string]] : []),
+  ...(data.signedOff ? [['Signed Off', describeAttribution(data.signedOff)] as [string, string]] : []),
+  ['Date', data.date.toLocaleDateString()],
+  ['Playbook', data.playbookName],
+  ['Time Spent', timeAgainstPlan(data.timeSpent, data.plannedTime)],
+  ['Overall Risk', riskLine(data.risk, shout)],
+];
+
+const hasContent = (step: ReportStep) =>
+  step.flags.length > 0 || step.notes !== '' || step.excerpts.length > 0 || step.obligations.length > 0;
+
+const coverageLine = ({ coverage }: ReportStep) => {
+  const open = coverage.total - coverage.reviewed - coverage.skipped;
+  return `${coverage.reviewed} of ${coverage.total} items reviewed${coverage.skipped ? `, ${coverage.skipped} skipped` : ''}${open ? `, ${open} not reviewed` : ''}`;
+};
+
+// "No issues" only means something for items that were looked at.
+const noIssuesText = (step: ReportStep) =>
+  step.coverage.reviewed < step.coverage.total ? 'No issues flagged in the items reviewed.' : 'No specific issues flagged.';
+
+// Items without a flag, grouped by how far they were reviewed.
+const coverageLists = (step: ReportStep): [string, string[]][] => ([
+  ['Reviewed - OK', step.cleared],
+  ['Skipped', step.skipped.map(({ item, reason }) => `${item} (${reason})`)],
+  ['Not reviewed', step.unreviewed],
+] as [string, string[]][]).filter(([, items]) => items.length > 0);
+
+const flagSuffix = (flag: ReportFlag) =>
+  `${flag.clauseRef ? ` (${flag.clauseRef})` : ''} - ${statusLabel(flag.status)}${flag.carryOver ? ` (${CARRY_OVER_STATUSES[flag.carryOver].label})` : ''}`;
+
+// The second reviewer's response, as one line under the flag.
+const secondOpinionLine = (flag: ReportFlag): string => {
+  const opinion = flag.secondOpinion;
+  if (!opinion || (!opinion.verdict && !opinion.comment.trim())) return '';
+  const verdict = opinion.verdict ? SECOND_OPINION_VERDICTS[opinion.verdict].label : 'Commented';
+  return `Second review (${opinion.by}): ${verdict}${opinion.comment.trim() ? ` - ${opinion.comment.trim()}` : ''}`;
+};
+
+// Our side of the negotiation, fallback included: the audit report stays in-house.
+const negotiationLine = (flag: ReportFlag): string => {
+  const negotiation = flag.negotiation;
+  if (!negotiation) return '';
+  const position = negotiation.position.trim() ? ` - Position: ${negotiation.position.trim()}` : '';
+  const fallback = negotiation.fallback.trim() ? `; Fallback: ${negotiation.fallback.trim()}` : '';
+  return `Negotiation: ${describeNegotiation(negotiation)}${position}${fallback}`;
+};
+
+// -- Plain text --
+
+export const renderReportText = (data: ReportData): string => {
+  let report = `7-MINUTE CONTRACT REVIEW REPORT\n`;
+  coverFields(data, true).forEach(([label, value]) => (report += `${label}: ${value}\n`));
+  report += '\n';
+
+  data.steps.forEach((step) => {
+    report += `[${step.number}] ${step.title.toUpperCase()}\n`;
+    report += `Time: ${stepTime(step)}\n`;
+    report += `Coverage: ${coverageLine(step)}\n`;
+    if (hasContent(step)) {
+      if (step.flags.length > 0) {
+        report += `Flags Identified:\n`;
+        step.flags.forEach((flag) => {
+          report += ` - [x] [${getSeverityMeta(flag.severity).label.toUpperCase()}] ${flag.item}${flagSuffix(flag)}\n`;
+          if (flag.comment.trim()) report += `       ${flag.comment.trim()}\n`;
+          if (secondOpinionLine(flag)) report += `       ${secondOpinionLine(flag)}\n`;
+          if (negotiationLine(flag)) report += `       ${negotiationLine(flag)}\n`;
+        });
+      }
+      if (step.notes) report += `Notes: ${step.notes}\n`;
+      if (step.excerpts.length > 0) {
+        report += `Contract Excerpts:\n`;
+        step.excerpts.forEach((excerpt) => (report += `  > "${excerpt}"\n`));
+      }
+      if (step.obligations.length > 0) {
+        report += `Obligations & Key Dates:\n`;
+        step.obligations.forEach((obligation) => (report += ` - ${obligation}\n`));
+      }
+    } else {
+      report += `Status: ${noIssuesText(step)}\n`;
+    }
+    coverageLists(step).forEach(([label, items]) => {
+      report += `${label}:\n`;
+      items.forEach((item) => (report += ` - ${item}\n`));
+    });
+    report += `\n-----------------------------------\n\n`;
+  });
+  if (data.changeLog) {
+    report += `CHANGE LOG\n`;
+    data.changeLog.forEach((line) => (report += ` - ${line}\n`));
+    if (data.changeLog.length === 0) report += `No changes recorded.\n`;
+  }
+  return report;
+};
+
+// -- Markdown --
+
+const escapeMarkdown = (value: string) => value.replace(/([\\`*_[\]<>|#])/g, '\\$1');
+
+export const renderReportMarkdown = (data: ReportData): string => {
+  const lines: string[] = [`# Contract Review: ${escapeMarkdown(data.contractName)}`, ''];
+  lines.push('| | |', '|---|---|');
+  coverFields(data).forEach(([label, value]) => lines.push(`| **${label}** | ${escapeMarkdown(value)} |`));
+  lines.push('');
+
+  data.steps.forEach((step) => {
+    lines.push(`## ${step.number}. ${escapeMarkdown(step.title)}`, '', `_Time: ${stepTime(step)} · Coverage: ${coverageLine(step)}_`, '');
+    const lists = coverageLists(step).flatMap(([label, items]) => [`**${label}:**`, '', ...items.map((item) => `- ${escapeMarkdown(item)}`), '']);
+    if (!hasContent(step)) {
+      lines.push(`_${noIssuesText(step)}_`, '', ...lists);
+      return;
+    }
+    step.flags.forEach((flag) => {
+      lines.push(`- **${getSeverityMeta(flag.severity).label}**: ${escapeMarkdown(flag.item)}${escapeMarkdown(flagSuffix(flag))}`);
+      if (flag.comment.trim()) lines.push(`  ${escapeMarkdown(flag.comment.trim())}`);
+      if (secondOpinionLine(flag)) lines.push(`  _${escapeMarkdown(secondOpinionLine(flag))}_`);
+      if (negotiationLine(flag)) lines.push(`  _${escapeMarkdown(negotiationLine(flag))}_`);
+    });
+    if (step.flags.length > 0) lines.push('');
+    if (step.notes) lines.push(`**Notes:** ${escapeMarkdown(step.notes).replace(/\n/g, '  \n')}`, '');
+    step.excerpts.forEach((excerpt) => lines.push(`> ${escapeMarkdown(excerpt)}`, ''));
+    if (step.obligations.length > 0) {
+      lines.push('**Obligations & Key Dates:**', '', ...step.obligations.map((obligation) => `- ${escapeMarkdown(obligation)}`), '');
+    }
+    lines.push(...lists);
+  });
+  if (data.changeLog) {
+    lines.push('## Change Log', '', ...(data.changeLog.length > 0 ? data.changeLog.map((line) => `- ${escapeMarkdown(line)}`) : ['_No changes recorded._']), '');
+  }
+  return lines.join('\n');
+};
+
+// -- HTML (printable, and the route to PDF via the browser's print dialog) --
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const PRINT_STYLES = `
+  body { font-family: Georgia, 'Times New Roman', serif; color: #1e293b; max-width: 760px; margin: 40px auto; padding: 0 24px; line-height: 1.5; }
+  h1 { font-size: 24px; border-bottom: 2px solid #1e293b; padding-bottom: 8px; }
+  h2 { font-size: 17px; margin-top: 28px; page-break-after: avoid; }
+  table.cover { border-collapse: collapse; margin-bottom: 24px; }
+  table.cover th { text-align: left; padding: 3px 16px 3px 0; color: #64748b; font-weight: normal; }
+  .flag { margin: 6px 0; }
+  .severity { font: bold 11px sans-serif; text-transform: uppercase; padding: 1px 6px; border: 1px solid #94a3b8; border-radius: 3px; }
+  .comment { margin: 2px 0 0 16px; color: #475569; }
+  .none { color: #64748b; font-style: italic; }
+  .time { color: #64748b; font-size: 13px; margin-top: -8px; }
+  ul.log { font-size: 12px; color: #475569; }
+  blockquote { border-left: 3px solid #93c5fd; margin: 8px 0; padding: 2px 12px; color: #475569; }
+  @media print { body { margin: 0; } }
+`;
+
+export const renderReportHtml = (data: ReportData): string => {
+  const cover = coverFields(data)
+    .map(([label, value]) => `<tr><th>${label}</th><td>${escapeHtml(value)}</td></tr>`)
+    .join('');
+  const steps = data.steps.map((step) => {
+    const lists = coverageLists(step)
+      .map(([label, items]) => `<p><strong>${label}:</strong></p><ul>${items.map((item) => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`)
+      .join('');
+    const body = !hasContent(step)
+      ? `<p class="none">${noIssuesText(step)}</p>`
+      : [
+          ...step.flags.map((flag) =>
+            `<div class="flag"><span class="severity">${getSeverityMeta(flag.severity).label}</span> ${escapeHtml(flag.item)}${escapeHtml(flagSuffix(flag))}` +
+            `${flag.comment.trim() ? `<div class="comment">${escapeHtml(flag.comment.trim())}</div>` : ''}` +
+            `${secondOpinionLine(flag) ? `<div class="comment"><em>${escapeHtml(secondOpinionLine(flag))}</em></div>` : ''}` +
+            `${negotiationLine(flag) ? `<div class="comment"><em>${escapeHtml(negotiationLine(flag))}</em></div>` : ''}</div>`
+          ),
+          step.notes ? `<p><strong>Notes:</strong> ${escapeHtml(step.notes).replace(/\n/g, '<br>')}</p>` : '',
+          ...step.excerpts.map((excerpt) => `<blockquote>${escapeHtml(excerpt)}</blockquote>`),
+          step.obligations.length > 0
+            ? `<p><strong>Obligations &amp; Key Dates:</strong></p><ul>${step.obligations.map((obligation) => `<li>${escapeHtml(obligation)}</li>`).join('')}</ul>`
+            : '',
+        ].join('');
+    return `<h2>${step.number}. ${escapeHtml(step.title)}</h2><p class="time">Time: ${stepTime(step)} · Coverage: ${coverageLine(step)}</p>${body}${lists}`;
+  });
+  const changeLog = !data.changeLog ? ''
+    : `<h2>Change Log</h2>${data.changeLog.length > 0
+      ? `<ul class="log">${data.changeLog.map((line) => `<li>${escapeHtml(line)}</li>`).join('')}</ul>`
+      : '<p class="none">No changes recorded.</p>'}`;
+  return `<!DOCTYPE html><html><head><meta charset="UTF-8"><title>Contract Review: ${escapeHtml(data.contractName)}</title>` +
+    `<style>${PRINT_STYLES}</style></head><body><h1>Contract Review: ${escapeHtml(data.contractName)}</h1>` +
+    `<table class="cover">${cover}</table>${steps.join('')}${changeLog}</body></html>`;
+};
+
+/** Opens the HTML report in a new window and starts printing, so it can be saved as PDF. */
+export const printReport = (html: string) => {
+  const win = window.open('', '_blank');
+  if (!win) throw new Error('The print view was blocked. Allow pop-ups for this site and try again.');
+  win.document.write(html);
+  win.document.close();
+  win.focus();
+  win.print();
+};
+
+// -- Word --
+
+// docx is only needed for this export, so it is loaded on first use.
+export const renderReportDocx = async (data: ReportData): Promise<Blob> => {
+  const { Document, Packer, Paragraph, TextRun, HeadingLevel, Table, TableRow, TableCell, WidthType, BorderStyle } = await import('docx');
+  const noBorders = {
+    top: { style: BorderStyle.NONE, size: 0, color: 'FFFFFF' },
+    bottom: { style: BorderStyle.NONE, size: 0, color: 'FFFFFF' },
+    left: { style: BorderStyle.NONE, size: 0, color: 'FFFFFF' },
+    right: { style: BorderStyle.NONE, size: 0, color: 'FFFFFF' },
+  };
+
+  const cover = new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: coverFields(data).map(([label, value]) => new TableRow({
+      children: [
+        new TableCell({ borders: noBorders, width: { size: 25, type: WidthType.PERCENTAGE }, children: [new Paragraph({ children: [new TextRun({ text: label, color: '64748B' })] })] }),
+        new TableCell({ borders: noBorders, children: [new Paragraph(value)] }),
+      ],
+    })),
+  });
+
+  const stepBlocks = data.steps.flatMap((step) => {
+    const blocks = [
+      new Paragraph({ text: `${step.number}. ${step.title}`, heading: HeadingLevel.HEADING_2 }),
+      new Paragraph({ children: [new TextRun({ text: `Time: ${stepTime(step)} · Coverage: ${coverageLine(step)}`, size: 18, color: '64748B' })] }),
+    ];
+    const addLists = () => coverageLists(step).forEach(([label, items]) => {
+      blocks.push(new Paragraph({ children: [new TextRun({ text: `${label}:`, bold: true })] }));
+      items.forEach((item) => blocks.push(new Paragraph({ bullet: { level: 0 }, text: item })));
+    });
+    if (!hasContent(step)) {
+      blocks.push(new Paragraph({ children: [new TextRun({ text: noIssuesText(step), italics: true, color: '64748B' })] }));
+      addLists();
+      return blocks;
+    }
+    step.flags.forEach((flag) => {
+      blocks.push(new Paragraph({
+        bullet: { level: 0 },
+        children: [
+          new TextRun({ text: `[${getSeverityMeta(flag.severity).label.toUpperCase()}] `, bold: true }),
+          new TextRun(`${flag.item}${flagSuffix(flag)}`),
+        ],
+      }));
+      if (flag.comment.trim()) blocks.push(new Paragraph({ indent: { left: 720 }, children: [new TextRun({ text: flag.comment.trim(), color: '475569' })] }));
+      if (secondOpinionLine(flag)) {
+        blocks.push(new Paragraph({ indent: { left: 720 }, children: [new TextRun({ text: secondOpinionLine(flag), italics: true, color: '475569' })] }));
+      }
+      if (negotiationLine(flag)) {
+        blocks.push(new Paragraph({ indent: { left: 720 }, children: [new TextRun({ text: negotiationLine(flag), italics: true, color: '475569' })] }));
+      }
+    });
+    if (step.notes) {
+      blocks.push(new Paragraph({ children: [new TextRun({ text: 'Notes: ', bold: true }), new TextRun(step.notes)] }));
+    }
+    step.excerpts.forEach((excerpt) => {
+      blocks.push(new Paragraph({ indent: { left: 720 }, children: [new TextRun({ text: `“${excerpt}”`, italics: true })] }));
+    });
+    if (step.obligations.length > 0) {
+      blocks.push(new Paragraph({ children: [new TextRun({ text: 'Obligations & Key Dates:', bold: true })] }));
+      step.obligations.forEach((obligation) => blocks.push(new Paragraph({ bullet: { level: 0 }, text: obligation })));
+    }
+    addLists();
+    return blocks;
+  });
+
+  const doc = new Document({
+    title: `Contract Review: ${data.contractName}`,
+    creator: data.reviewer || undefined,
+    sections: [{
+      children: [
+        new Paragraph({ text: `Contract Review: ${data.contractName}`, heading: HeadingLevel.HEADING_1 }),
+        cover,
+        ...stepBlocks,
+        ...(data.changeLog ? [
+          new Paragraph({ text: 'Change Log', heading: HeadingLevel.HEADING_2 }),
+          ...(data.changeLog.length > 0
+            ? data.changeLog.map((line) => new Paragraph({ bullet: { level: 0 }, children: [new TextRun({ text: line, size: 18 })] }))
+            : [new Paragraph({ children: [new TextRun({ text: 'No changes recorded.', italics: true, color: '64748B' })] })]),
+        ] : []),
+      ],
+    }],
+  });
+  return Packer.toBlob(doc);
+};
+
+// -- Issues list (sent to the counterparty) --
+
+// One row per negotiation item. Only what we are prepared to show the other side: no fallbacks,
+// severities or internal comments.
+export interface IssuesListRow {
+  number: number;
+  clauseRef: string;
+  issue: string;
+  position: string;
+  wording: string;
+  status: string;
+}
+
+export interface IssuesListData {
+  contractName: string;
+  counterparty: string;
+  sender: string;
+  date: Date;
+  round: number; // 0 before anything has been sent
+  rows: IssuesListRow[];
+}
+
+export const buildIssuesList = (review: ReviewRecord, date: Date = new Date()): IssuesListData => {
+  const entries = collectNegotiationEntries(review.steps, review.findings);
+  return {
+    contractName: review.contractName || 'Untitled',
+    counterparty: review.dealContext?.counterparty.trim() ?? '',
+    sender: review.reviewer?.trim() || '',
+    date,
+    round: currentRound(entries),
+    rows: entries.map(({ detail, negotiation }, index) => ({
+      number: index + 1,
+      clauseRef: detail.clauseRef,
+      issue: negotiation.issue.trim(),
+      position: negotiation.position.trim(),
+      wording: negotiation.wording.trim(),
+      status: describeNegotiationForLetter(negotiation),
+    })),
+  };
+};
+
+const ISSUES_COLUMNS = ['No.', 'Clause', 'Issue', 'Our Position', 'Status'];
+
+const issuesTitle = (data: IssuesListData) => `Issues List: ${data.contractName}`;
+
+const issuesIntro = (data: IssuesListData): string =>
+  `${data.counterparty ? `To ${data.counterparty}. ` : ''}Our position on the points below${data.round > 0 ? ` (round ${data.round})` : ''}, ` +
+  `as of ${data.date.toLocaleDateString()}${data.sender ? `, from ${data.sender}` : ''}.`;
+
+export const renderIssuesListText = (data: IssuesListData): string => {
+  let text = `${issuesTitle(data).toUpperCase()}\n${issuesIntro(data)}\n\n`;
+  data.rows.forEach((row) => {
+    text += `${row.number}. ${row.clauseRef || 'General'} - ${row.issue}\n`;
+    if (row.position) text += `   Our position: ${row.position}\n`;
+    if (row.wording) text += `   Proposed wording: "${row.wording}"\n`;
+    text += `   Status: ${row.status}\n\n`;
+  });
+  return text;
+};
+
+export const renderIssuesListMarkdown = (data: IssuesListData): string => {
+  const cell = (value: string) => escapeMarkdown(value).replace(/\n/g, '<br>');
+  const lines = [`# ${escapeMarkdown(issuesTitle(data))}`, '', escapeMarkdown(issuesIntro(data)), ''];
+  lines.push(`| ${ISSUES_COLUMNS.join(' | ')} |`, `|${ISSUES_COLUMNS.map(() => '---').join('|')}|`);
+  data.rows.forEach((row) => {
+    const position = [row.position, row.wording && `Proposed wording: "${row.wording}"`].filter(Boolean).map(cell).join('<br><br>');
+    lines.push(`| ${row.number} | ${cell(row.clauseRef)} | ${cell(row.issue)} | ${position} | ${cell(row.status)} |`);
+  });
+  return lines.join('\n');
+};
+
+const ISSUES_STYLES = `
+  body { font-family: Georgia, 'Times New Roman', serif; color: #1e293b; max-width: 960px; margin: 40px auto; padding: 0 24px; line-height: 1.5; }
+  h1 { font-size: 22px; border-bottom: 2px solid #1e293b; padding-bottom: 8px; }
+  table { border-collapse: collapse; width: 100%; font-size: 14px; }
+  th, td { border: 1px solid #cbd5e1; padding: 6px 8px; text-align: left; vertical-align: top; }
+  th { background: #f1f5f9; }
+  .wording { margin-top: 6px; font-style: italic; color: #475569; }
+  @media print { body { margin: 0; } }
+`;
+
+export const renderIssuesListHtml = (data: IssuesListData): string => {
+  const multiline = (value: string) => escapeHtml(value).replace(/\n/g, '<br>');
+  const rows = data.rows.map((row) =>
+    `<tr><td>${row.number}</td><td>${escapeHtml(row.clauseRef)}</td><td>${multiline(row.issue)}</td>` +
+    `<td>${multiline(row.position)}${row.wording ? `<div class="wording">Proposed wording: “${multiline(row.wording)}”</div>` : ''}</td>` +
+    `<td>${escapeHtml(row.status)}</td></tr>`
+  ).join('');
+  return `<!DOCTYPE html><html><head><meta charset="UTF-8"><title>${escapeHtml(issuesTitle(data))}</title>` +
+    `<style>${ISSUES_STYLES}</style></head><body><h1>${escapeHtml(issuesTitle(data))}</h1><p>${escapeHtml(issuesIntro(data))}</p>` +
+    `<table><thead><tr>${ISSUES_COLUMNS.map((column) => `<th>${column}</th>`).join('')}</tr></thead><tbody>${rows}</tbody></table></body></html>`;
+};
+
+export const renderIssuesListDocx = async (data: IssuesListData): Promise<Blob> => {
+  const { Document, Packer, Paragraph, TextRun, HeadingLevel, Table, TableRow, TableCell, WidthType, PageOrientation } = await import('docx');
+  const widths = [6, 12, 30, 40, 12]; // percent, per ISSUES_COLUMNS
+  const cell = (children: InstanceType<typeof Paragraph>[], index: number) =>
+    new TableCell({ width: { size: widths[index], type: WidthType.PERCENTAGE }, children });
+
+  const header = new TableRow({
+    tableHeader: true,
+    children: ISSUES_COLUMNS.map((column, index) => cell([new Paragraph({ children: [new TextRun({ text: column, bold: true })] })], index)),
+  });
+  const rows = data.rows.map((row) => new TableRow({
+    children: [
+      cell([new Paragraph(String(row.number))], 0),
+      cell([new Paragraph(row.clauseRef)], 1),
+      cell([new Paragraph(row.issue)], 2),
+      cell([
+        new Paragraph(row.position),
+        ...(row.wording ? [new Paragraph({ children: [new TextRun({ text: `Proposed wording: “${row.wording}”`, italics: true })] })] : []),
+      ], 3),
+      cell([new Paragraph(row.status)], 4),
+    ],
+  }));
+
+  const doc = new Document({
+    title: issuesTitle(data),
+    creator: data.sender || undefined,
+    sections: [{
+      properties: { page: { size: { orientation: PageOrientation.LANDSCAPE } } },
+      children: [
+        new Paragraph({ text: issuesTitle(data), heading: HeadingLevel.HEADING_1 }),
+        new Paragraph(issuesIntro(data)),
+        new Table({ width: { size: 100, type: WidthType.PERCENTAGE }, rows: [header, ...rows] }),
+      ],
+    }],
+  });
+  return Packer.toBlob(doc);
+};
@@ -0,0 +1,98 @@
+import { ChangeLogEntry, FindingsMap } from '../types';
+import { appendToLog, describeChanges, toLogEntries } from './changeLog';
+
+// The editable part of a review — its findings and the step being worked on — with undo/redo and
+// the change log. Every edit goes through `reviewEditorReducer`, so nothing can change the findings
+// without being undoable and logged.
+
+const MAX_UNDO_STEPS = 100;
+const COALESCE_MS = 3000; // typing into one field within this long counts as a single edit
+
+interface EditorSnapshot {
+  findings: FindingsMap;
+  activeStep: number;
+}
+
+export interface ReviewEditorState extends EditorSnapshot {
+  past: EditorSnapshot[]; // most recent last
+  future: EditorSnapshot[]; // most recent undo last
+  lastEdit?: { key: string; description: string; at: number }; // the edit a keystroke may extend
+  changeLog: ChangeLogEntry[];
+}
+
+type Update<T> = T | ((prev: T) => T);
+
+export type ReviewEditorAction =
+  | { type: 'load'; findings: FindingsMap; activeStep: number; changeLog: ChangeLogEntry[] } // starts a fresh history
+  | { type: 'edit'; update: Update<FindingsMap>; by: string; at: string }
+  | { type: 'go-to-step'; update: Update<number> }
+  | { type: 'undo'; by: string; at: string }
+  | { type: 'redo'; by: string; at: string };
+
+export const createEditorState = (): ReviewEditorState => ({ findings: {}, activeStep: 0, past: [], future: [], changeLog: [] });
+
+const apply = <T>(update: Update<T>, prev: T): T => (typeof update === 'function' ? (update as (prev: T) => T)(prev) : update);
+
+const snapshot = ({ findings, activeStep }: ReviewEditorState): EditorSnapshot => ({ findings, activeStep });
+
+const remember = (past: EditorSnapshot[], state: ReviewEditorState) => [...past, snapshot(state)].slice(-MAX_UNDO_STEPS);
+
+// Moving between states in history logs what the move changed in the findings; step moves are not logged.
+const travel = (state: ReviewEditorState, to: EditorSnapshot, prefix: string, by: string, at: string) =>
+  appendToLog(state.changeLog, toLogEntries(describeChanges(state.findings, to.findings), by, at, prefix));
+
+export const reviewEditorReducer = (state: ReviewEditorState, action: ReviewEditorAction): ReviewEditorState => {
+  switch (action.type) {
+    case 'load':
+      return { findings: action.findings, activeStep: action.activeStep, past: [], future: [], changeLog: action.changeLog };
+
+    case 'edit': {
+      const findings = apply(action.update, state.findings);
+      if (findings === state.findings) return state;
+      const changes = describeChanges(state.findings, findings);
+      const logged = changes.length > 0 ? changes : [{ stepIndex: state.activeStep, key: 'edit', description: 'Findings edited' }];
+      const time = Date.parse(action.at);
+      const only = logged.length === 1 ? logged[0] : undefined;
+      const continues = !!only && !!state.lastEdit && only.key === state.lastEdit.key
+        && only.description === state.lastEdit.description && time - state.lastEdit.at < COALESCE_MS;
+      return {
+        ...state,
+        findings,
+        past: continues ? state.past : remember(state.past, state),
+        future: [],
+        lastEdit: only ? { key: only.key, description: only.description, at: time } : undefined,
+        changeLog: continues ? state.changeLog : appendToLog(state.changeLog, toLogEntries(logged, action.by, action.at)),
+      };
+    }
+
+    case 'go-to-step': {
+      const activeStep = apply(action.update, state.activeStep);
+      if (activeStep === state.activeStep) return state;
+      return { ...state, activeStep, past: remember(state.past, state), future: [], lastEdit: undefined };
+    }
+
+    case 'undo': {
+      const previous = state.past[state.past.length - 1];
+      if (!previous) return state;
+      return {
+        ...previous,
+        past: state.past.slice(0, -1),
+        future: [...state.future, snapshot(state)],
+        lastEdit: undefined,
+        changeLog: travel(state, previous, 'Undo: ', action.by, action.at),
+      };
+    }
+
+    case 'redo': {
+      const next = state.future[state.future.length - 1];
+      if (!next) return state;
+      return {
+        ...next,
+        past: remember(state.past, state),
+        future: state.future.slice(0, -1),
+        lastEdit: undefined,
+        changeLog: travel(state, next, 'Redo: ', action.by, action.at),
+      };
+    }
+  }
+};
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import { ReviewRecord } from '../types';
+import { DEFAULT_PLAYBOOK } from '../constants';
+import { REVIEW_FILE_FORMAT, REVIEW_FILE_VERSION, parseReviewJson, toReviewFile } from './reviewFile';
+
+const review: ReviewRecord = {
+  id: 'review-1',
+  contractName: 'Supply Agreement',
+  playbookId: DEFAULT_PLAYBOOK.id,
+  playbookName: DEFAULT_PLAYBOOK.name,
+  steps: DEFAULT_PLAYBOOK.steps,
+  activeStep: 2,
+  findings: {
+    0: {
+      checked: ['Liability: Is it capped? Are we exposed?'],
+      cleared: ['Term: Is the duration clear?'],
+      notes: 'Ask for a cap at 12 months of fees.',
+      notesConfidential: true,
+      notesEditedBy: { by: 'Dana', at: '2026-03-01T10:00:00.000Z' },
+      flags: {
+        'Liability: Is it capped? Are we exposed?': {
+          severity: 'high',
+          status: 'negotiate',
+          clauseRef: '§2',
+          comment: 'Unlimited.',
+          raisedBy: { by: 'Dana', at: '2026-03-01T10:00:00.000Z' },
+          secondOpinion: { by: 'Sam', at: '2026-03-02T09:00:00.000Z', verdict: 'agree', comment: 'Push back.' },
+          negotiation: {
+            issue: 'Liability cap',
+            position: '12 months of fees',
+            fallback: '24 months of fees',
+            wording: 'Liability shall not exceed the fees paid in the preceding 12 months.',
+            status: 'open',
+            rounds: [{ sentAt: '2026-03-03T09:00:00.000Z', response: 'countered', reply: '36 months.' }],
+          },
+        },
+      },
+      excerpts: [{ id: 'excerpt-1', text: 'Liability is unlimited.', start: 52, end: 75 }],
+    },
+    1: {
+      checked: [],
+      notes: '',
+      obligations: [{
+        id: 'obligation-1',
+        party: 'us',
+        description: 'Pay the annual fee',
+        kind: 'payment',
+        dueDate: '2026-04-01',
+        recurrence: 'annually',
+        noticeDays: 30,
+        clauseRef: '§3',
+        amount: 'EUR 12,500',
+      }],
+    },
+  },
+  document: { fileName: 'supply.txt', text: '1. Term\nThis Agreement runs for two years.\n\n2. Liability\nLiability is unlimited.', loadedAt: '2026-03-01T09:00:00.000Z' },
+  handledSuggestions: ['uncapped-liability:52:wording'],
+  reviewer: 'Dana',
+  stage: 'second-review',
+  secondReviewer: 'Sam',
+  dealContext: { partyRole: 'customer', counterparty: 'Acme Ltd', contractType: 'Supply', governingLaw: 'England and Wales', contractValue: 50000, currency: 'EUR' },
+  previousVersion: { reviewId: 'review-0', fileName: 'supply-v1.txt', text: 'Older text.' },
+  timeSpent: 300,
+  stepTimes: [60, 120, 120],
+  changeLog: [{ at: '2026-03-01T10:00:00.000Z', by: 'Dana', stepIndex: 0, description: 'Flagged "Liability: Is it capped? Are we exposed?"' }],
+  reviewComplete: false,
+  createdAt: '2026-03-01T09:00:00.000Z',
+  updatedAt: '2026-03-03T09:00:00.000Z',
+};
+
+const fileWith = (changes: Record<string, unknown>, reviewChanges: Record<string, unknown> = {}) =>
+  JSON.stringify({ ...toReviewFile(review), ...changes, review: { ...review, ...reviewChanges } });
+
+const errorsOf = (json: string): string[] => {
+  const result = parseReviewJson(json);
+  return result.ok === false ? result.errors : [];
+};
+
+describe('review export', () => {
+  it('reads back what it wrote', () => {
+    const result = parseReviewJson(JSON.stringify(toReviewFile(review)));
+    expect(result).toEqual({ ok: true, value: review });
+  });
+
+  it('drops fields it does not know', () => {
+    const result = parseReviewJson(fileWith({}, { internalNote: 'not exported' }));
+    expect(result.ok).toBe(true);
+    if (result.ok === false) throw new Error(result.errors.join('\n'));
+    expect(result.value).toEqual(review);
+    expect(result.value).not.toHaveProperty('internalNote');
+  });
+
+  it('rejects files that are not review exports', () => {
+    expect(errorsOf('{"format": "7-minute-playbook"}')).toEqual([`Not a review export (expected "format": "${REVIEW_FILE_FORMAT}").`]);
+    expect(errorsOf('not json')).toEqual(['File is not valid JSON.']);
+  });
+
+  it('rejects a missing or newer schema version', () => {
+    expect(errorsOf(fileWith({ schemaVersion: REVIEW_FILE_VERSION + 1 }))).toEqual([
+      `Unsupported schemaVersion ${REVIEW_FILE_VERSION + 1} (expected ${REVIEW_FILE_VERSION}).`,
+    ]);
+    expect(errorsOf(fileWith({ schemaVersion: undefined }))).toEqual([
+      `Unsupported schemaVersion undefined (expected ${REVIEW_FILE_VERSION}).`,
+    ]);
+  });
+
+  it('names each malformed field', () => {
+    const errors = errorsOf(fileWith({}, {
+      contractName: 42,
+      activeStep: DEFAULT_PLAYBOOK.steps.length,
+      stage: 'approved',
+      findings: {
+        0: { ...review.findings[0], flags: { Liability: { severity: 'severe', status: 'open', clauseRef: '§2', comment: '' } } },
+        1: { checked: [], notes: '', obligations: [{ ...review.findings[1].obligations![0], dueDate: '1 April 2026' }] },
+        9: { checked: [], notes: '' },
+      },
+      changeLog: [{ at: '2026-03-01T10:00:00.000Z', description: 'Flagged' }],
+    }));
+    expect(errors).toEqual([
+      'review.contractName must be a string.',
+      'review.activeStep must be the index of one of the steps.',
+      'review.findings["0"].flags["Liability"].severity must be one of: low, medium, high, deal-breaker.',
+      'review.findings["1"].obligations[0].dueDate must be a date (YYYY-MM-DD).',
+      'review.findings["9"] does not match a step.',
+      'review.stage must be one of: first-pass, second-review, signed-off.',
+      'review.changeLog[0] must have string at, by and description.',
+    ]);
+  });
+});
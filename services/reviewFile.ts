@@ -0,0 +1,343 @@
+import {
+  Attribution,
+  ChangeLogEntry,
+  ContractDocument,
+  ContractExcerpt,
+  DealContext,
+  FindingData,
+  FindingsMap,
+  FlagDetail,
+  Obligation,
+  PartyRole,
+  PreviousVersion,
+  ReviewRecord,
+  ReviewStage
+} from '../types';
+import {
+  SEVERITY_LEVELS,
+  FLAG_STATUSES,
+  NEGOTIATION_STATUSES,
+  COUNTERPARTY_RESPONSES,
+  OBLIGATION_KINDS,
+  OBLIGATION_PARTIES,
+  OBLIGATION_RECURRENCES
+} from '../constants';
+import { ValidationResult, validatePlaybookContent } from './playbookSchema';
+import { PARTY_ROLE_VALUES } from './dealContext';
+import { EncryptedBundle, decryptBundle, encryptBundle } from './vault';
+
+// Versioned JSON export of a whole review, for matter-management tooling and for restoring
+// a review into another browser. See schemas/review.schema.json.
+export const REVIEW_FILE_FORMAT = '7-minute-review';
+export const REVIEW_FILE_VERSION = 1;
+
+export interface ReviewFile {
+  format: typeof REVIEW_FILE_FORMAT;
+  schemaVersion: number;
+  exportedAt: string; // ISO timestamp
+  review: ReviewRecord;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isOffset = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+const SEVERITY_VALUES = SEVERITY_LEVELS.map((level) => level.value as string);
+const STATUS_VALUES = FLAG_STATUSES.map((status) => status.value as string);
+const CARRY_OVER_VALUES = ['still-applies', 'clause-changed', 'clause-removed'];
+const VERDICT_VALUES = ['agree', 'disagree'];
+const STAGE_VALUES: ReviewStage[] = ['first-pass', 'second-review', 'signed-off'];
+const NEGOTIATION_STATUS_VALUES = Object.keys(NEGOTIATION_STATUSES);
+const RESPONSE_VALUES = Object.keys(COUNTERPARTY_RESPONSES);
+const OBLIGATION_KIND_VALUES = Object.keys(OBLIGATION_KINDS);
+const OBLIGATION_PARTY_VALUES = Object.keys(OBLIGATION_PARTIES);
+const RECURRENCE_VALUES = Object.keys(OBLIGATION_RECURRENCES);
+
+const validateAttribution = (attribution: unknown, path: string, errors: string[]): attribution is Attribution => {
+  if (!isRecord(attribution) || !isString(attribution.by) || !isString(attribution.at)) {
+    errors.push(`${path} must have string by and at.`);
+    return false;
+  }
+  return true;
+};
+
+const validateNegotiation = (negotiation: unknown, path: string, errors: string[]) => {
+  if (!isRecord(negotiation) || !['issue', 'position', 'fallback', 'wording'].every((field) => isString(negotiation[field]))) {
+    errors.push(`${path} must have string issue, position, fallback and wording.`);
+    return;
+  }
+  if (!NEGOTIATION_STATUS_VALUES.includes(negotiation.status as string)) {
+    errors.push(`${path}.status must be one of: ${NEGOTIATION_STATUS_VALUES.join(', ')}.`);
+  }
+  if (!Array.isArray(negotiation.rounds)) {
+    errors.push(`${path}.rounds must be an array.`);
+    return;
+  }
+  negotiation.rounds.forEach((round, index) => {
+    if (!isRecord(round) || !isString(round.sentAt) || !isString(round.reply) || !RESPONSE_VALUES.includes(round.response as string)) {
+      errors.push(`${path}.rounds[${index}] must have string sentAt and reply and a response of: ${RESPONSE_VALUES.join(', ')}.`);
+    }
+  });
+};
+
+const validateFlag = (flag: unknown, path: string, errors: string[]): flag is FlagDetail => {
+  if (!isRecord(flag)) {
+    errors.push(`${path} must be an object.`);
+    return false;
+  }
+  const before = errors.length;
+  if (!SEVERITY_VALUES.includes(flag.severity as string)) errors.push(`${path}.severity must be one of: ${SEVERITY_VALUES.join(', ')}.`);
+  if (!STATUS_VALUES.includes(flag.status as string)) errors.push(`${path}.status must be one of: ${STATUS_VALUES.join(', ')}.`);
+  if (!isString(flag.clauseRef)) errors.push(`${path}.clauseRef must be a string.`);
+  if (!isString(flag.comment)) errors.push(`${path}.comment must be a string.`);
+  if (flag.carryOver !== undefined && !CARRY_OVER_VALUES.includes(flag.carryOver as string)) {
+    errors.push(`${path}.carryOver must be one of: ${CARRY_OVER_VALUES.join(', ')}.`);
+  }
+  if (flag.raisedBy !== undefined) validateAttribution(flag.raisedBy, `${path}.raisedBy`, errors);
+  if (flag.editedBy !== undefined) validateAttribution(flag.editedBy, `${path}.editedBy`, errors);
+  if (flag.secondOpinion !== undefined && validateAttribution(flag.secondOpinion, `${path}.secondOpinion`, errors)) {
+    const opinion = flag.secondOpinion as unknown as Record<string, unknown>;
+    if (!isString(opinion.comment)) errors.push(`${path}.secondOpinion.comment must be a string.`);
+    if (opinion.verdict !== undefined && !VERDICT_VALUES.includes(opinion.verdict as string)) {
+      errors.push(`${path}.secondOpinion.verdict must be one of: ${VERDICT_VALUES.join(', ')}.`);
+    }
+  }
+  if (flag.negotiation !== undefined) validateNegotiation(flag.negotiation, `${path}.negotiation`, errors);
+  return errors.length === before;
+};
+
+const validateExcerpt = (excerpt: unknown, path: string, errors: string[]): excerpt is ContractExcerpt => {
+  if (!isRecord(excerpt) || !isString(excerpt.id) || !isString(excerpt.text) || !isOffset(excerpt.start) || !isOffset(excerpt.end)) {
+    errors.push(`${path} must have a string id and text and non-negative integer start and end.`);
+    return false;
+  }
+  return true;
+};
+
+const validateObligation = (obligation: unknown, path: string, errors: string[]): obligation is Obligation => {
+  if (!isRecord(obligation) || !isString(obligation.id) || !isString(obligation.description) || !isString(obligation.clauseRef)) {
+    errors.push(`${path} must have a string id, description and clauseRef.`);
+    return false;
+  }
+  const before = errors.length;
+  if (!OBLIGATION_KIND_VALUES.includes(obligation.kind as string)) errors.push(`${path}.kind must be one of: ${OBLIGATION_KIND_VALUES.join(', ')}.`);
+  if (!RECURRENCE_VALUES.includes(obligation.recurrence as string)) {
+    errors.push(`${path}.recurrence must be one of: ${RECURRENCE_VALUES.join(', ')}.`);
+  }
+  if (obligation.party !== undefined && !OBLIGATION_PARTY_VALUES.includes(obligation.party as string)) {
+    errors.push(`${path}.party must be one of: ${OBLIGATION_PARTY_VALUES.join(', ')}.`);
+  }
+  if (obligation.dueDate !== undefined && !(isString(obligation.dueDate) && /^\d{4}-\d{2}-\d{2}$/.test(obligation.dueDate))) {
+    errors.push(`${path}.dueDate must be a date (YYYY-MM-DD).`);
+  }
+  if (obligation.noticeDays !== undefined && !isOffset(obligation.noticeDays)) errors.push(`${path}.noticeDays must be a non-negative integer.`);
+  if (obligation.amount !== undefined && !isString(obligation.amount)) errors.push(`${path}.amount must be a string.`);
+  return errors.length === before;
+};
+
+const validateFinding = (finding: unknown, path: string, errors: string[]): finding is FindingData => {
+  if (!isRecord(finding)) {
+    errors.push(`${path} must be an object.`);
+    return false;
+  }
+  const before = errors.length;
+  if (!Array.isArray(finding.checked) || !finding.checked.every(isString)) errors.push(`${path}.checked must be an array of strings.`);
+  if (!isString(finding.notes)) errors.push(`${path}.notes must be a string.`);
+  if (finding.cleared !== undefined && !(Array.isArray(finding.cleared) && finding.cleared.every(isString))) {
+    errors.push(`${path}.cleared must be an array of strings.`);
+  }
+  if (finding.skipped !== undefined && !(isRecord(finding.skipped) && Object.values(finding.skipped).every(isString))) {
+    errors.push(`${path}.skipped must be an object of reasons keyed by checklist item.`);
+  }
+  if (finding.notesConfidential !== undefined && typeof finding.notesConfidential !== 'boolean') {
+    errors.push(`${path}.notesConfidential must be a boolean.`);
+  }
+  if (finding.flags !== undefined) {
+    if (!isRecord(finding.flags)) errors.push(`${path}.flags must be an object keyed by checklist item.`);
+    else Object.entries(finding.flags).forEach(([item, flag]) => validateFlag(flag, `${path}.flags["${item}"]`, errors));
+  }
+  if (finding.excerpts !== undefined) {
+    if (!Array.isArray(finding.excerpts)) errors.push(`${path}.excerpts must be an array.`);
+    else finding.excerpts.forEach((excerpt, i) => validateExcerpt(excerpt, `${path}.excerpts[${i}]`, errors));
+  }
+  if (finding.obligations !== undefined) {
+    if (!Array.isArray(finding.obligations)) errors.push(`${path}.obligations must be an array.`);
+    else finding.obligations.forEach((obligation, i) => validateObligation(obligation, `${path}.obligations[${i}]`, errors));
+  }
+  if (finding.notesEditedBy !== undefined) validateAttribution(finding.notesEditedBy, `${path}.notesEditedBy`, errors);
+  return errors.length === before;
+};
+
+const validateChangeLogEntry = (entry: unknown, path: string, errors: string[]): entry is ChangeLogEntry => {
+  if (!isRecord(entry) || !isString(entry.at) || !isString(entry.by) || !isString(entry.description)) {
+    errors.push(`${path} must have string at, by and description.`);
+    return false;
+  }
+  if (entry.stepIndex !== undefined && !isOffset(entry.stepIndex)) {
+    errors.push(`${path}.stepIndex must be a non-negative integer.`);
+    return false;
+  }
+  return true;
+};
+
+const validateDocument = (doc: unknown, errors: string[]): doc is ContractDocument => {
+  if (!isRecord(doc) || !isString(doc.fileName) || !isString(doc.text) || !isString(doc.loadedAt)) {
+    errors.push('review.document must have string fileName, text and loadedAt.');
+    return false;
+  }
+  return true;
+};
+
+const validatePreviousVersion = (version: unknown, errors: string[]): version is PreviousVersion => {
+  if (!isRecord(version) || !isString(version.reviewId) || !isString(version.fileName) || !isString(version.text)) {
+    errors.push('review.previousVersion must have string reviewId, fileName and text.');
+    return false;
+  }
+  return true;
+};
+
+const validateDealContext = (context: unknown, errors: string[]): context is DealContext => {
+  if (!isRecord(context)) {
+    errors.push('review.dealContext must be an object.');
+    return false;
+  }
+  const before = errors.length;
+  if (context.partyRole !== undefined && !PARTY_ROLE_VALUES.includes(context.partyRole as PartyRole)) {
+    errors.push(`review.dealContext.partyRole must be one of: ${PARTY_ROLE_VALUES.join(', ')}.`);
+  }
+  for (const field of ['counterparty', 'contractType', 'governingLaw', 'currency'] as const) {
+    if (!isString(context[field])) errors.push(`review.dealContext.${field} must be a string.`);
+  }
+  if (context.contractValue !== undefined && (typeof context.contractValue !== 'number' || !(context.contractValue >= 0))) {
+    errors.push('review.dealContext.contractValue must be a non-negative number.');
+  }
+  return errors.length === before;
+};
+
+/** Checks a parsed review file and returns the review it contains, with unknown fields dropped. */
+export const validateReviewFile = (data: unknown): ValidationResult<ReviewRecord> => {
+  if (!isRecord(data) || data.format !== REVIEW_FILE_FORMAT) {
+    return { ok: false, errors: [`Not a review export (expected "format": "${REVIEW_FILE_FORMAT}").`] };
+  }
+  if (data.schemaVersion !== REVIEW_FILE_VERSION) {
+    return { ok: false, errors: [`Unsupported schemaVersion ${String(data.schemaVersion)} (expected ${REVIEW_FILE_VERSION}).`] };
+  }
+  const review = data.review;
+  if (!isRecord(review)) return { ok: false, errors: ['review must be an object.'] };
+
+  const errors: string[] = [];
+  for (const field of ['id', 'contractName', 'playbookId', 'playbookName', 'createdAt', 'updatedAt'] as const) {
+    if (!isString(review[field])) errors.push(`review.${field} must be a string.`);
+  }
+  const steps = validatePlaybookContent({ name: review.playbookName || 'Imported', steps: review.steps });
+  if (steps.ok === false) errors.push(...steps.errors.map((error) => `review.${error}`));
+  const stepCount = Array.isArray(review.steps) ? review.steps.length : 0;
+  if (!Number.isInteger(review.activeStep) || (review.activeStep as number) < 0 || (review.activeStep as number) >= stepCount) {
+    errors.push('review.activeStep must be the index of one of the steps.');
+  }
+  if (typeof review.reviewComplete !== 'boolean') errors.push('review.reviewComplete must be a boolean.');
+  if (!isRecord(review.findings)) {
+    errors.push('review.findings must be an object keyed by step index.');
+  } else {
+    Object.entries(review.findings).forEach(([key, finding]) => {
+      const index = Number(key);
+      if (!Number.isInteger(index) || index < 0 || index >= stepCount) errors.push(`review.findings["${key}"] does not match a step.`);
+      else validateFinding(finding, `review.findings["${key}"]`, errors);
+    });
+  }
+  if (review.document !== undefined) validateDocument(review.document, errors);
+  if (review.handledSuggestions !== undefined && (!Array.isArray(review.handledSuggestions) || !review.handledSuggestions.every(isString))) {
+    errors.push('review.handledSuggestions must be an array of strings.');
+  }
+  if (review.reviewer !== undefined && !isString(review.reviewer)) errors.push('review.reviewer must be a string.');
+  if (review.stage !== undefined && !STAGE_VALUES.includes(review.stage as ReviewStage)) {
+    errors.push(`review.stage must be one of: ${STAGE_VALUES.join(', ')}.`);
+  }
+  if (review.secondReviewer !== undefined && !isString(review.secondReviewer)) errors.push('review.secondReviewer must be a string.');
+  if (review.signedOff !== undefined) validateAttribution(review.signedOff, 'review.signedOff', errors);
+  if (review.dealContext !== undefined) validateDealContext(review.dealContext, errors);
+  if (review.previousVersion !== undefined) validatePreviousVersion(review.previousVersion, errors);
+  if (review.timeSpent !== undefined && !isOffset(review.timeSpent)) errors.push('review.timeSpent must be a non-negative integer.');
+  if (review.stepTimes !== undefined && (!Array.isArray(review.stepTimes) || review.stepTimes.length > stepCount || !review.stepTimes.every(isOffset))) {
+    errors.push('review.stepTimes must be an array of non-negative integers, at most one per step.');
+  }
+  if (review.changeLog !== undefined) {
+    if (!Array.isArray(review.changeLog)) errors.push('review.changeLog must be an array.');
+    else review.changeLog.forEach((entry, i) => validateChangeLogEntry(entry, `review.changeLog[${i}]`, errors));
+  }
+
+  if (errors.length > 0 || steps.ok === false) return { ok: false, errors };
+  return {
+    ok: true,
+    value: {
+      id: review.id as string,
+      contractName: review.contractName as string,
+      playbookId: review.playbookId as string,
+      playbookName: review.playbookName as string,
+      steps: steps.value.steps,
+      activeStep: review.activeStep as number,
+      findings: structuredClone(review.findings) as FindingsMap,
+      ...(review.document ? { document: structuredClone(review.document) as ContractDocument } : {}),
+      ...(review.handledSuggestions ? { handledSuggestions: [...(review.handledSuggestions as string[])] } : {}),
+      ...(review.reviewer !== undefined ? { reviewer: review.reviewer as string } : {}),
+      ...(review.stage !== undefined ? { stage: review.stage as ReviewStage } : {}),
+      ...(review.secondReviewer !== undefined ? { secondReviewer: review.secondReviewer as string } : {}),
+      ...(review.signedOff !== undefined ? { signedOff: structuredClone(review.signedOff) as Attribution } : {}),
+      ...(review.dealContext !== undefined ? { dealContext: structuredClone(review.dealContext) as DealContext } : {}),
+      ...(review.previousVersion !== undefined ? { previousVersion: structuredClone(review.previousVersion) as PreviousVersion } : {}),
+      ...(review.stepTimes !== undefined ? { stepTimes: [...(review.stepTimes as number[])] } : {}),
+      ...(review.timeSpent !== undefined ? { timeSpent: review.timeSpent as number } : {}),
+      ...(review.changeLog !== undefined ? { changeLog: structuredClone(review.changeLog) as ChangeLogEntry[] } : {}),
+      reviewComplete: review.reviewComplete as boolean,
+      createdAt: review.createdAt as string,
+      updatedAt: review.updatedAt as string,
+    },
+  };
+};
+
+export const toReviewFile = (review: ReviewRecord): ReviewFile => ({
+  format: REVIEW_FILE_FORMAT,
+  schemaVersion: REVIEW_FILE_VERSION,
+  exportedAt: new Date().toISOString(),
+  review,
+});
+
+export const parseReviewJson = (json: string): ValidationResult<ReviewRecord> => {
+  try {
+    return validateReviewFile(JSON.parse(json));
+  } catch {
+    return { ok: false, errors: ['File is not valid JSON.'] };
+  }
+};
+
+// -- Encrypted bundles --
+
+// Several reviews in one passphrase-protected file, for moving them between machines. The
+// decrypted content is a list of ordinary review exports, checked the same way as single files.
+interface ReviewBundleContent {
+  exportedAt: string;
+  reviews: ReviewFile[];
+}
+
+export const toReviewBundle = (reviews: ReviewRecord[], passphrase: string): Promise<EncryptedBundle> => {
+  const content: ReviewBundleContent = { exportedAt: new Date().toISOString(), reviews: reviews.map(toReviewFile) };
+  return encryptBundle(passphrase, content);
+};
+
+export const parseReviewBundle = async (data: unknown, passphrase: string): Promise<ValidationResult<ReviewRecord[]>> => {
+  const decrypted = await decryptBundle(data, passphrase);
+  if (decrypted.ok === false) return decrypted;
+  const content = decrypted.value;
+  if (!isRecord(content) || !Array.isArray(content.reviews)) return { ok: false, errors: ['The bundle does not contain a list of reviews.'] };
+  const errors: string[] = [];
+  const reviews: ReviewRecord[] = [];
+  content.reviews.forEach((file, i) => {
+    const result = validateReviewFile(file);
+    if (result.ok === false) errors.push(...result.errors.map((error) => `reviews[${i}]: ${error}`));
+    else reviews.push(result.value);
+  });
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: reviews };
+};
@@ -0,0 +1,43 @@
+import { FindingsMap, ReviewRecord } from '../types';
+import { DEFAULT_PLAYBOOK } from '../constants';
+import { getFlagDetail } from './risk';
+
+// Saved reviews carry the shape version they were written with. Each migration lifts a record one
+// version, so a review saved by any earlier release is brought up to date step by step when the
+// database is upgraded, when it is read, or when it arrives from the sync server. A new migration
+// also needs a database upgrade in db.ts that calls migrateStoredReviews.
+export const REVIEW_SCHEMA_VERSION = 2;
+
+const MIGRATIONS: Record<number, (review: ReviewRecord) => ReviewRecord> = {
+  // Reviews saved before playbooks existed have no step snapshot; they were run on the default playbook.
+  1: (review) =>
+    review.steps
+      ? review
+      : { ...review, playbookId: DEFAULT_PLAYBOOK.id, playbookName: DEFAULT_PLAYBOOK.name, steps: structuredClone(DEFAULT_PLAYBOOK.steps) },
+  // Flags ticked before severities existed have no detail; store the open, medium-severity default.
+  2: (review) => {
+    const findings: FindingsMap = {};
+    Object.entries(review.findings ?? {}).forEach(([key, finding]) => {
+      if (!finding) return;
+      const flags = { ...finding.flags };
+      (finding.checked ?? []).forEach((item) => {
+        flags[item] = { ...getFlagDetail(finding, item) };
+      });
+      findings[Number(key)] = { ...finding, checked: finding.checked ?? [], notes: finding.notes ?? '', flags };
+    });
+    return { ...review, findings };
+  },
+};
+
+/**
+ * Brings a stored review up to the current shape. Records from a newer release are returned
+ * untouched rather than guessed at.
+ */
+export const migrateReview = (review: ReviewRecord): ReviewRecord => {
+  let migrated = review;
+  for (let version = (review.schemaVersion ?? 0) + 1; version <= REVIEW_SCHEMA_VERSION; version++) {
+    migrated = { ...MIGRATIONS[version](migrated), schemaVersion: version };
+  }
+  return migrated;
+};
+
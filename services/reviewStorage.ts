@@ -0,0 +1,84 @@
+import { ReviewRecord, FindingsMap, Playbook } from '../types';
+import { DEFAULT_PLAYBOOK } from '../constants';
+import { createId } from '../utils/id';
+import { STORES, withStore } from './db';
+import { REVIEW_SCHEMA_VERSION, migrateReview } from './reviewMigrations';
+import { SealedReview, openReview, sealReview } from './vault';
+
+// Remembers which review was open so a refresh lands back in it.
+const ACTIVE_REVIEW_KEY = 'smr.activeReviewId';
+// Pre-fills the reviewer on new reviews.
+const LAST_REVIEWER_KEY = 'smr.lastReviewer';
+
+export const createEmptyReview = (playbook: Playbook = DEFAULT_PLAYBOOK): ReviewRecord => {
+  const now = new Date().toISOString();
+  return {
+    id: createId(),
+    contractName: '',
+    playbookId: playbook.id,
+    playbookName: playbook.name,
+    steps: structuredClone(playbook.steps),
+    activeStep: 0,
+    findings: {},
+    reviewer: getLastReviewer(),
+    reviewComplete: false,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+export const countFlags = (findings: FindingsMap): number =>
+  Object.values(findings).reduce((total, finding) => total + (finding?.checked?.length ?? 0), 0);
+
+// Stored records are encrypted while the vault is on; see services/vault.ts.
+export const listReviews = async (): Promise<ReviewRecord[]> => {
+  const records = await withStore<(ReviewRecord | SealedReview)[]>(STORES.reviews, 'readonly', (store) => store.getAll());
+  const reviews = await Promise.all(records.map(openReview));
+  return reviews.map(migrateReview).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+export const getReview = async (id: string): Promise<ReviewRecord | undefined> => {
+  const record = await withStore<ReviewRecord | SealedReview | undefined>(STORES.reviews, 'readonly', (store) => store.get(id));
+  return record && migrateReview(await openReview(record));
+};
+
+export const saveReview = async (review: ReviewRecord): Promise<void> => {
+  const record = await sealReview({ ...review, schemaVersion: REVIEW_SCHEMA_VERSION });
+  await withStore(STORES.reviews, 'readwrite', (store) => store.put(record));
+};
+
+export const deleteReview = async (id: string): Promise<void> => {
+  await withStore(STORES.reviews, 'readwrite', (store) => store.delete(id));
+  if (getActiveReviewId() === id) setActiveReviewId(null);
+};
+
+export const duplicateReview = async (id: string): Promise<ReviewRecord | undefined> => {
+  const source = await getReview(id);
+  if (!source) return undefined;
+  const now = new Date().toISOString();
+  // A copy is a fresh first pass: it is not signed off and not shared until it syncs under its own id.
+  const { stage: _stage, secondReviewer: _secondReviewer, signedOff: _signedOff, syncRevision: _syncRevision, ...rest } = structuredClone(source);
+  const copy: ReviewRecord = {
+    ...rest,
+    id: createId(),
+    contractName: `${source.contractName || 'Untitled'} (copy)`,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await saveReview(copy);
+  return copy;
+};
+
+export const getActiveReviewId = (): string | null => localStorage.getItem(ACTIVE_REVIEW_KEY);
+
+export const setActiveReviewId = (id: string | null) => {
+  if (id) {
+    localStorage.setItem(ACTIVE_REVIEW_KEY, id);
+  } else {
+    localStorage.removeItem(ACTIVE_REVIEW_KEY);
+  }
+};
+
+export const getLastReviewer = (): string => localStorage.getItem(LAST_REVIEWER_KEY) || '';
+
+export const setLastReviewer = (name: string) => localStorage.setItem(LAST_REVIEWER_KEY, name);
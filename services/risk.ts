@@ -0,0 +1,65 @@
+import { FindingData, FindingsMap, FlagDetail, FlagSeverity, RiskRating } from '../types';
+import { DEFAULT_FLAG_DETAIL, SEVERITY_LEVELS } from '../constants';
+
+export interface RiskSummary {
+  rating: RiskRating;
+  score: number;
+  counts: Record<FlagSeverity, number>; // unresolved flags per severity
+  totalFlags: number;
+  resolvedFlags: number;
+}
+
+export const getSeverityMeta = (severity: FlagSeverity) =>
+  SEVERITY_LEVELS.find((level) => level.value === severity) ?? SEVERITY_LEVELS[1];
+
+// Flags ticked before severities existed have no detail; treat them as open, medium-severity issues.
+export const getFlagDetail = (finding: FindingData | undefined, item: string): FlagDetail =>
+  finding?.flags?.[item] ?? DEFAULT_FLAG_DETAIL;
+
+const isOutstanding = (detail: FlagDetail) => detail.status !== 'resolved';
+
+/** Highest severity among the step's unresolved flags, or null when nothing is outstanding. */
+export const getStepMaxSeverity = (finding: FindingData | undefined): FlagSeverity | null => {
+  let max: FlagSeverity | null = null;
+  (finding?.checked ?? []).forEach((item) => {
+    const detail = getFlagDetail(finding, item);
+    if (!isOutstanding(detail)) return;
+    if (!max || getSeverityMeta(detail.severity).weight > getSeverityMeta(max).weight) {
+      max = detail.severity;
+    }
+  });
+  return max;
+};
+
+/**
+ * Overall rating for the review. Any outstanding deal-breaker is critical; otherwise the
+ * severity weights of unresolved flags are summed. Accepted risks still count: they are
+ * known exposure, not removed exposure.
+ */
+export const computeRiskSummary = (findings: FindingsMap): RiskSummary => {
+  const counts: Record<FlagSeverity, number> = { 'low': 0, 'medium': 0, 'high': 0, 'deal-breaker': 0 };
+  let score = 0;
+  let totalFlags = 0;
+  let resolvedFlags = 0;
+
+  Object.values(findings).forEach((finding: FindingData) => {
+    (finding?.checked ?? []).forEach((item) => {
+      const detail = getFlagDetail(finding, item);
+      totalFlags++;
+      if (!isOutstanding(detail)) {
+        resolvedFlags++;
+        return;
+      }
+      counts[detail.severity]++;
+      score += getSeverityMeta(detail.severity).weight;
+    });
+  });
+
+  let rating: RiskRating = 'none';
+  if (counts['deal-breaker'] > 0) rating = 'critical';
+  else if (counts.high > 0 || score >= 8) rating = 'high';
+  else if (score >= 4) rating = 'medium';
+  else if (score > 0) rating = 'low';
+
+  return { rating, score, counts, totalFlags, resolvedFlags };
+};
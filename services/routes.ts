@@ -0,0 +1,58 @@
+import { ReviewRecord } from '../types';
+
+// Client-side routes. They live in the URL hash, so any static host serves them and the offline
+// app needs no server rewrites. The hash is also never sent to a server, which keeps snapshot
+// links private to whoever holds them.
+//
+//   #/reviews                   review history
+//   #/reviews/<id>              a review, at the step it was left on
+//   #/reviews/<id>/steps/<n>    step n (from 1) of a review
+//   #/reviews/<id>/summary      a review's summary and report
+//   #/shared/<snapshot>         a read-only snapshot, see services/shareSnapshot.ts
+
+export type Route =
+  | { view: 'reviews' }
+  | { view: 'review'; reviewId: string; step?: number } // step counts from 0, as activeStep does
+  | { view: 'summary'; reviewId: string }
+  | { view: 'shared'; snapshot: string };
+
+/** The route a URL hash names, or null for an empty or unknown hash. */
+export const parseRoute = (hash: string): Route | null => {
+  const [view, id, sub, n, ...rest] = hash.replace(/^#\/?/, '').split('/');
+  if (view === 'reviews' && !id) return { view: 'reviews' };
+  if (view === 'shared' && id && !sub) return { view: 'shared', snapshot: id };
+  if (view !== 'reviews' || rest.length > 0) return null;
+  let reviewId: string;
+  try {
+    reviewId = decodeURIComponent(id);
+  } catch {
+    return null;
+  }
+  if (!sub) return { view: 'review', reviewId };
+  if (sub === 'summary' && n === undefined) return { view: 'summary', reviewId };
+  if (sub === 'steps' && /^[1-9]\d*$/.test(n ?? '')) return { view: 'review', reviewId, step: Number(n) - 1 };
+  return null;
+};
+
+export const formatRoute = (route: Route): string => {
+  switch (route.view) {
+    case 'reviews': return '#/reviews';
+    case 'shared': return `#/shared/${route.snapshot}`;
+    case 'summary': return `#/reviews/${encodeURIComponent(route.reviewId)}/summary`;
+    case 'review':
+      return `#/reviews/${encodeURIComponent(route.reviewId)}${route.step !== undefined ? `/steps/${route.step + 1}` : ''}`;
+  }
+};
+
+/** The full link to a route of this app, for copying. */
+export const routeUrl = (route: Route): string =>
+  `${window.location.origin}${window.location.pathname}${window.location.search}${formatRoute(route)}`;
+
+/**
+ * The saved review as a route asks to open it. A step link reopens a finished review at that step,
+ * as Return to Review does; a summary link to an unfinished review opens the review instead.
+ */
+export const openAtRoute = (record: ReviewRecord, route: Route): ReviewRecord => {
+  if (route.view !== 'review' || route.step === undefined) return record;
+  return { ...record, activeStep: Math.min(route.step, record.steps.length - 1), reviewComplete: false };
+};
@@ -0,0 +1,110 @@
+import { SessionAlertKind, SessionSettings } from '../types';
+
+// Session mode settings and the alerts it raises while a step's time runs down.
+
+const SETTINGS_KEY = 'smr.sessionSettings';
+const TEN_SECONDS = 10;
+
+export const SESSION_ALERTS: Record<SessionAlertKind, { label: string; message: string; tone: number[] }> = {
+  'half': { label: 'Halfway through a step', message: 'Half of the time for this step has gone.', tone: [660] },
+  'ten-seconds': { label: '10 seconds left', message: '10 seconds left on this step.', tone: [880, 880] },
+  'time-up': { label: "Step time's up", message: 'Time is up for this step.', tone: [988, 784, 659] },
+};
+
+export const SESSION_ALERT_KINDS = Object.keys(SESSION_ALERTS) as SessionAlertKind[];
+
+export const DEFAULT_SESSION_SETTINGS: SessionSettings = {
+  enabled: false,
+  autoAdvance: true,
+  graceSeconds: 5,
+  alerts: { 'half': true, 'ten-seconds': true, 'time-up': true },
+  sound: true,
+  desktopNotifications: false,
+};
+
+export const loadSessionSettings = (): SessionSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_KEY);
+    if (!stored) return DEFAULT_SESSION_SETTINGS;
+    const parsed = JSON.parse(stored) as Partial<SessionSettings>;
+    return {
+      ...DEFAULT_SESSION_SETTINGS,
+      ...parsed,
+      alerts: { ...DEFAULT_SESSION_SETTINGS.alerts, ...parsed.alerts },
+    };
+  } catch {
+    return DEFAULT_SESSION_SETTINGS;
+  }
+};
+
+export const saveSessionSettings = (settings: SessionSettings) => localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+
+const alertThreshold = (kind: SessionAlertKind, duration: number): number => {
+  if (kind === 'half') return Math.floor(duration / 2);
+  if (kind === 'ten-seconds') return duration - TEN_SECONDS;
+  return duration;
+};
+
+/**
+ * Alerts whose threshold was crossed between two readings of a step's elapsed time. The clock
+ * can jump several seconds when a background tab wakes up, so this compares ranges, not equality.
+ */
+export const getCrossedAlerts = (
+  duration: number,
+  previousElapsed: number,
+  elapsed: number,
+  settings: SessionSettings
+): SessionAlertKind[] =>
+  SESSION_ALERT_KINDS.filter((kind) => {
+    if (!settings.alerts[kind]) return false;
+    // A step shorter than 20s would raise "halfway" and "10 seconds left" together; keep the latter.
+    if (kind === 'half' && duration <= TEN_SECONDS * 2) return false;
+    const threshold = alertThreshold(kind, duration);
+    return threshold > 0 && previousElapsed < threshold && elapsed >= threshold;
+  });
+
+// -- Delivery --
+
+let audioContext: AudioContext | null = null;
+
+const playTone = (frequencies: number[]) => {
+  audioContext = audioContext ?? new AudioContext();
+  const ctx = audioContext;
+  if (ctx.state === 'suspended') ctx.resume().catch(() => undefined);
+  frequencies.forEach((frequency, i) => {
+    const start = ctx.currentTime + i * 0.22;
+    const oscillator = ctx.createOscillator();
+    const gain = ctx.createGain();
+    oscillator.frequency.value = frequency;
+    gain.gain.setValueAtTime(0.001, start);
+    gain.gain.exponentialRampToValueAtTime(0.2, start + 0.02);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + 0.2);
+    oscillator.connect(gain).connect(ctx.destination);
+    oscillator.start(start);
+    oscillator.stop(start + 0.2);
+  });
+};
+
+export const notificationsSupported = () => typeof Notification !== 'undefined';
+
+/** Asks for desktop notification permission; resolves to whether notifications can be shown. */
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  if (!notificationsSupported()) return false;
+  if (Notification.permission === 'granted') return true;
+  if (Notification.permission === 'denied') return false;
+  return (await Notification.requestPermission()) === 'granted';
+};
+
+export const raiseSessionAlert = (kind: SessionAlertKind, stepTitle: string, settings: SessionSettings) => {
+  const alert = SESSION_ALERTS[kind];
+  if (settings.sound) {
+    try {
+      playTone(alert.tone);
+    } catch {
+      // Audio can be unavailable (no output device, autoplay policy); the visual clock still shows the state.
+    }
+  }
+  if (settings.desktopNotifications && notificationsSupported() && Notification.permission === 'granted') {
+    new Notification(stepTitle, { body: alert.message, tag: 'smr-session', silent: settings.sound });
+  }
+};
@@ -0,0 +1,47 @@
+import { FindingsMap, ReviewRecord } from '../types';
+import { ValidationResult } from './playbookSchema';
+import { parseReviewJson, toReviewFile } from './reviewFile';
+import { REDACTED_NOTES } from './reportExport';
+import { createId } from '../utils/id';
+import { compressToBase64Url, decompressFromBase64Url } from '../utils/compression';
+
+// Read-only snapshots carried whole in a link, for handing a review to someone without a sync
+// server. A snapshot is the review export (see reviewFile.ts), compressed, minus what makes links
+// too long or should not travel: the contract text, the earlier version, the change log and
+// confidential notes.
+
+const withoutConfidentialNotes = (findings: FindingsMap): FindingsMap =>
+  Object.fromEntries(Object.entries(findings).map(([index, finding]) => [
+    index,
+    finding.notesConfidential && finding.notes.trim() ? { ...finding, notes: REDACTED_NOTES } : finding,
+  ]));
+
+export const createSnapshot = (review: ReviewRecord): Promise<string> => {
+  const {
+    document: _document,
+    previousVersion: _previousVersion,
+    changeLog: _changeLog,
+    handledSuggestions: _handledSuggestions,
+    syncRevision: _syncRevision,
+    ...rest
+  } = review;
+  const shared = { ...rest, findings: withoutConfidentialNotes(review.findings), updatedAt: new Date().toISOString() };
+  return compressToBase64Url(JSON.stringify(toReviewFile(shared)));
+};
+
+export const readSnapshot = async (snapshot: string): Promise<ValidationResult<ReviewRecord>> => {
+  let json: string;
+  try {
+    json = await decompressFromBase64Url(snapshot);
+  } catch {
+    return { ok: false, errors: ['The snapshot link is damaged or incomplete. Ask for it to be sent again.'] };
+  }
+  return parseReviewJson(json);
+};
+
+/** A snapshot kept as a review of our own: a fresh first pass under a new id, like a duplicate. */
+export const copySnapshot = (snapshot: ReviewRecord): ReviewRecord => {
+  const now = new Date().toISOString();
+  const { stage: _stage, secondReviewer: _secondReviewer, signedOff: _signedOff, ...rest } = snapshot;
+  return { ...rest, id: createId(), reviewComplete: false, createdAt: now, updatedAt: now };
+};
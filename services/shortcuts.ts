@@ -0,0 +1,162 @@
+// Keyboard bindings. A binding is a normalised combo string such as "Mod+K", "Alt+3" or "ArrowRight";
+// "Mod" is Ctrl on Windows/Linux and Cmd on macOS. Users can remap any action; only overrides are stored.
+
+const BINDINGS_KEY = 'smr.shortcuts';
+const NUMBERED_ACTIONS = 9;
+
+export type ShortcutGroup = 'Review' | 'Checklist' | 'Steps' | 'Timer' | 'General';
+
+export interface ShortcutAction {
+  id: string;
+  label: string;
+  group: ShortcutGroup;
+  defaultBinding: string; // '' when the action is only reachable from the command palette
+  whileTyping?: boolean; // still fires with focus in a text field
+}
+
+const numbered = (prefix: string, label: (n: number) => string, group: ShortcutGroup, binding: (n: number) => string): ShortcutAction[] =>
+  Array.from({ length: NUMBERED_ACTIONS }, (_, i) => ({
+    id: `${prefix}:${i + 1}`,
+    label: label(i + 1),
+    group,
+    defaultBinding: binding(i + 1),
+  }));
+
+export const SHORTCUT_ACTIONS: ShortcutAction[] = [
+  { id: 'command-palette', label: 'Open command palette', group: 'General', defaultBinding: 'Mod+K', whileTyping: true },
+  { id: 'show-shortcuts', label: 'Show keyboard shortcuts', group: 'General', defaultBinding: '?' },
+  // Not while typing, so undo inside a text field stays the field's own.
+  { id: 'undo', label: 'Undo', group: 'General', defaultBinding: 'Mod+Z' },
+  { id: 'redo', label: 'Redo', group: 'General', defaultBinding: 'Mod+Shift+Z' },
+  { id: 'next-step', label: 'Next step', group: 'Steps', defaultBinding: 'ArrowRight' },
+  { id: 'previous-step', label: 'Previous step', group: 'Steps', defaultBinding: 'ArrowLeft' },
+  ...numbered('go-to-step', (n) => `Go to step ${n}`, 'Steps', (n) => `Alt+${n}`),
+  ...numbered('toggle-item', (n) => `Flag / unflag checklist item ${n}`, 'Checklist', (n) => `${n}`),
+  ...numbered('ok-item', (n) => `Mark checklist item ${n} OK`, 'Checklist', (n) => `Shift+${n}`),
+  { id: 'focus-notes', label: 'Focus the notes', group: 'Checklist', defaultBinding: 'N' },
+  { id: 'toggle-timer', label: 'Start / pause timer', group: 'Timer', defaultBinding: 'T' },
+  { id: 'reset-timer', label: 'Reset step timer', group: 'Timer', defaultBinding: 'Shift+R' },
+  { id: 'session-settings', label: 'Session mode settings', group: 'Timer', defaultBinding: '' },
+  { id: 'load-contract', label: 'Load contract file', group: 'Review', defaultBinding: 'Shift+O' },
+  { id: 'finish-review', label: 'Finish review and show summary', group: 'Review', defaultBinding: '' },
+  { id: 'deal-context', label: 'Edit deal context', group: 'Review', defaultBinding: '' },
+  { id: 'compare-versions', label: 'Compare with the previous version', group: 'Review', defaultBinding: '' },
+  { id: 'review-new-version', label: 'Review a new version of this contract', group: 'Review', defaultBinding: '' },
+  { id: 'hand-over', label: 'Hand over for second review', group: 'Review', defaultBinding: '' },
+  { id: 'sign-off', label: 'Sign off the review', group: 'Review', defaultBinding: '' },
+  { id: 'negotiation', label: 'Open negotiation tracker', group: 'Review', defaultBinding: '' },
+  { id: 'collaboration', label: 'Collaboration and sync settings', group: 'General', defaultBinding: '' },
+  { id: 'vault', label: 'Vault settings', group: 'General', defaultBinding: '' },
+  { id: 'lock-vault', label: 'Lock the vault', group: 'General', defaultBinding: '' },
+  { id: 'new-review', label: 'Start new review (switch playbook)', group: 'Review', defaultBinding: '' },
+  { id: 'review-history', label: 'Open review history', group: 'Review', defaultBinding: 'Shift+H' },
+  { id: 'manage-playbooks', label: 'Manage playbooks', group: 'Review', defaultBinding: '' },
+  { id: 'clause-library', label: 'Open clause library', group: 'Review', defaultBinding: '' },
+  { id: 'time-analytics', label: 'Open time analytics', group: 'Review', defaultBinding: '' },
+  { id: 'portfolio', label: 'Open portfolio dashboard', group: 'Review', defaultBinding: '' },
+  { id: 'copy-report', label: 'Copy report to clipboard', group: 'Review', defaultBinding: '' },
+  { id: 'export-docx', label: 'Export report as Word', group: 'Review', defaultBinding: '' },
+  { id: 'export-pdf', label: 'Export report as PDF (print)', group: 'Review', defaultBinding: '' },
+  { id: 'export-markdown', label: 'Export report as Markdown', group: 'Review', defaultBinding: '' },
+  { id: 'export-json', label: 'Export review as JSON', group: 'Review', defaultBinding: '' },
+  { id: 'export-issues-list', label: 'Export issues list as Word', group: 'Review', defaultBinding: '' },
+  { id: 'export-key-dates', label: 'Export key dates to calendar (.ics)', group: 'Review', defaultBinding: '' },
+  { id: 'copy-link', label: 'Copy link to this view', group: 'Review', defaultBinding: '' },
+  { id: 'share-snapshot', label: 'Copy read-only snapshot link', group: 'Review', defaultBinding: '' },
+];
+
+export type ShortcutBindings = Record<string, string>;
+
+export const DEFAULT_BINDINGS: ShortcutBindings = Object.fromEntries(
+  SHORTCUT_ACTIONS.map((action) => [action.id, action.defaultBinding])
+);
+
+export const loadBindings = (): ShortcutBindings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(BINDINGS_KEY) || '{}') as ShortcutBindings;
+    return { ...DEFAULT_BINDINGS, ...stored };
+  } catch {
+    return DEFAULT_BINDINGS;
+  }
+};
+
+export const saveBindings = (bindings: ShortcutBindings) => {
+  const overrides = Object.fromEntries(
+    Object.entries(bindings).filter(([id, combo]) => DEFAULT_BINDINGS[id] !== combo)
+  );
+  localStorage.setItem(BINDINGS_KEY, JSON.stringify(overrides));
+};
+
+/**
+ * Binds a combo to an action. Any other action holding the same combo is unbound rather than left
+ * ambiguous; its id is returned so the UI can say what changed.
+ */
+export const rebind = (bindings: ShortcutBindings, actionId: string, combo: string): { bindings: ShortcutBindings; displaced?: string } => {
+  const displaced = combo ? Object.keys(bindings).find((id) => id !== actionId && bindings[id] === combo) : undefined;
+  return {
+    bindings: { ...bindings, ...(displaced ? { [displaced]: '' } : {}), [actionId]: combo },
+    displaced,
+  };
+};
+
+// -- Combos --
+
+const MODIFIER_KEYS = new Set(['Control', 'Meta', 'Alt', 'Shift', 'AltGraph', 'CapsLock']);
+
+const isMac = () => typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+/**
+ * Normalises a key event, or returns null for a bare modifier press. Letters are upper-cased and
+ * digits read from the physical key so Alt+3 works on layouts where Alt changes the character.
+ * Shift is dropped for punctuation like "?" that already needs it.
+ */
+export const comboFromEvent = (event: KeyboardEvent): string | null => {
+  if (MODIFIER_KEYS.has(event.key)) return null;
+  const digit = /^(?:Digit|Numpad)(\d)$/.exec(event.code)?.[1];
+  let key = digit ?? (event.key === ' ' ? 'Space' : event.key);
+  const printable = key.length === 1;
+  if (printable) key = key.toUpperCase();
+  const parts: string[] = [];
+  if (event.ctrlKey || event.metaKey) parts.push('Mod');
+  if (event.altKey) parts.push('Alt');
+  if (event.shiftKey && !(printable && !/[A-Z0-9]/.test(key))) parts.push('Shift');
+  return [...parts, key].join('+');
+};
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowRight: '→', ArrowLeft: '←', ArrowUp: '↑', ArrowDown: '↓', Escape: 'Esc', Space: 'Space',
+};
+
+/** Human-readable combo, e.g. "Ctrl+K" or "⌘K" on a Mac. */
+export const formatCombo = (combo: string): string => {
+  if (!combo) return '';
+  const mac = isMac();
+  return combo
+    .split('+')
+    .map((part) => {
+      if (part === 'Mod') return mac ? '⌘' : 'Ctrl';
+      if (part === 'Alt') return mac ? '⌥' : 'Alt';
+      if (part === 'Shift') return mac ? '⇧' : 'Shift';
+      return KEY_LABELS[part] ?? part;
+    })
+    .join(mac ? '' : '+');
+};
+
+const NON_TEXT_INPUTS = new Set(['checkbox', 'radio', 'button', 'submit', 'reset', 'file', 'range', 'color']);
+
+export const isTypingTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target instanceof HTMLInputElement) return !NON_TEXT_INPUTS.has(target.type);
+  return target.isContentEditable || ['TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+/** The action bound to a key event, honouring the "suspend while typing" rule. */
+export const matchShortcut = (event: KeyboardEvent, bindings: ShortcutBindings): string | null => {
+  const combo = comboFromEvent(event);
+  if (!combo) return null;
+  const actionId = Object.keys(bindings).find((id) => bindings[id] === combo);
+  if (!actionId) return null;
+  const action = SHORTCUT_ACTIONS.find((candidate) => candidate.id === actionId);
+  if (isTypingTarget(event.target) && !action?.whileTyping) return null;
+  return actionId;
+};
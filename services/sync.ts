@@ -0,0 +1,276 @@
+import { FindingData, FindingsMap, ReviewRecord, SyncSettings, SyncTransportId } from '../types';
+import { getStage, laterStage } from './collaboration';
+import { migrateReview } from './reviewMigrations';
+import { mergeChangeLogs } from './changeLog';
+import { isVaultEnabled } from './vault';
+
+// Shares reviews between reviewers through a small self-hosted server (server/sync-server.mjs) or an
+// in-browser mock. The server keeps a revision number per review and refuses a write based on an older
+// revision; the client then merges step by step and asks the reviewer about steps both sides changed.
+
+const SETTINGS_KEY = 'smr.syncSettings';
+const MOCK_STORE_KEY = 'smr.syncMock';
+
+export const SYNC_POLL_MS = 5000;
+
+export const DEFAULT_SYNC_SETTINGS: SyncSettings = {
+  enabled: false,
+  transport: 'http',
+  serverUrl: 'http://localhost:8787',
+};
+
+export interface SyncedReview {
+  revision: number;
+  review: ReviewRecord;
+}
+
+export interface SharedReviewSummary {
+  id: string;
+  contractName: string;
+  playbookName: string;
+  reviewer?: string;
+  stage?: ReviewRecord['stage'];
+  updatedAt: string;
+  revision: number;
+}
+
+export interface SyncStatus {
+  state: 'off' | 'syncing' | 'synced' | 'offline' | 'conflict';
+  error?: string;
+  syncedAt?: string; // ISO timestamp of the last successful round
+}
+
+export type PushResult = { ok: true; revision: number } | { ok: false; current: SyncedReview };
+
+export interface SyncTransport {
+  id: SyncTransportId;
+  label: string;
+  description: string;
+  list: (settings: SyncSettings) => Promise<SharedReviewSummary[]>;
+  pull: (settings: SyncSettings, id: string) => Promise<SyncedReview | undefined>;
+  push: (settings: SyncSettings, review: ReviewRecord, baseRevision: number) => Promise<PushResult>; // 0 for a review the server has not seen
+}
+
+const summarize = ({ review, revision }: SyncedReview): SharedReviewSummary => ({
+  id: review.id,
+  contractName: review.contractName,
+  playbookName: review.playbookName,
+  reviewer: review.reviewer,
+  stage: review.stage,
+  updatedAt: review.updatedAt,
+  revision,
+});
+
+// -- Transports --
+
+const request = async (settings: SyncSettings, path: string, init?: RequestInit): Promise<Response> => {
+  const url = `${settings.serverUrl.replace(/\/+$/, '')}${path}`;
+  try {
+    return await fetch(url, { ...init, headers: { 'Content-Type': 'application/json', ...init?.headers } });
+  } catch {
+    throw new Error(`Could not reach the sync server at ${settings.serverUrl}.`);
+  }
+};
+
+const failed = (response: Response) => new Error(`The sync server replied ${response.status} ${response.statusText}.`.trim());
+
+// Other reviewers may run an older release; their copies are brought to this one's shape on arrival.
+const upgradeSynced = (synced: SyncedReview): SyncedReview => ({ ...synced, review: migrateReview(synced.review) });
+
+const httpTransport: SyncTransport = {
+  id: 'http',
+  label: 'Sync server',
+  description: 'A self-hosted server shared by the team; run `npm run sync-server` for the bundled one.',
+  list: async (settings) => {
+    const response = await request(settings, '/reviews');
+    if (!response.ok) throw failed(response);
+    return response.json();
+  },
+  pull: async (settings, id) => {
+    const response = await request(settings, `/reviews/${encodeURIComponent(id)}`);
+    if (response.status === 404) return undefined;
+    if (!response.ok) throw failed(response);
+    return upgradeSynced(await response.json());
+  },
+  push: async (settings, review, baseRevision) => {
+    const response = await request(settings, `/reviews/${encodeURIComponent(review.id)}`, {
+      method: 'PUT',
+      body: JSON.stringify({ baseRevision, review }),
+    });
+    if (response.status === 409) return { ok: false, current: upgradeSynced(await response.json()) };
+    if (!response.ok) throw failed(response);
+    const { revision } = await response.json();
+    return { ok: true, revision };
+  },
+};
+
+// Stands in for the server inside this browser, so sync can be tried across two tabs without running anything.
+// It keeps reviews in plain localStorage, so it refuses to run while the vault is on and drops what it
+// kept before the vault was turned on.
+export const MOCK_VAULT_ERROR = 'The in-browser mock stores reviews unencrypted, so it is off while the vault is on. Use a sync server instead.';
+
+const readMockStore = (): Record<string, SyncedReview> => {
+  if (isVaultEnabled()) {
+    localStorage.removeItem(MOCK_STORE_KEY);
+    throw new Error(MOCK_VAULT_ERROR);
+  }
+  try {
+    return JSON.parse(localStorage.getItem(MOCK_STORE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const mockTransport: SyncTransport = {
+  id: 'mock',
+  label: 'In-browser mock',
+  description: 'No server. Tabs of this browser share reviews, for trying the workflow and testing.',
+  list: async () => Object.values(readMockStore()).map(summarize),
+  pull: async (_settings, id) => readMockStore()[id],
+  push: async (_settings, review, baseRevision) => {
+    const store = readMockStore();
+    const current = store[review.id];
+    if ((current?.revision ?? 0) !== baseRevision) return { ok: false, current };
+    const revision = baseRevision + 1;
+    localStorage.setItem(MOCK_STORE_KEY, JSON.stringify({ ...store, [review.id]: { revision, review } }));
+    return { ok: true, revision };
+  },
+};
+
+export const SYNC_TRANSPORTS: Record<SyncTransportId, SyncTransport> = {
+  http: httpTransport,
+  mock: mockTransport,
+};
+
+export const SYNC_TRANSPORT_IDS = Object.keys(SYNC_TRANSPORTS) as SyncTransportId[];
+
+export const loadSyncSettings = (): SyncSettings => {
+  try {
+    const parsed = { ...DEFAULT_SYNC_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') } as SyncSettings;
+    return SYNC_TRANSPORTS[parsed.transport] ? parsed : DEFAULT_SYNC_SETTINGS;
+  } catch {
+    return DEFAULT_SYNC_SETTINGS;
+  }
+};
+
+export const saveSyncSettings = (settings: SyncSettings) => localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+
+// -- Merging --
+
+// Fields every reviewer shares. The rest (active step, timings, which screen is open) belong to whoever is at the keyboard.
+const SHARED_FIELDS = [
+  'contractName', 'playbookId', 'playbookName', 'steps', 'document', 'handledSuggestions', 'reviewer',
+  'dealContext', 'previousVersion', 'secondReviewer', 'signedOff',
+] as const satisfies readonly (keyof ReviewRecord)[];
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const sharedPart = (review: ReviewRecord) => ({
+  ...Object.fromEntries(SHARED_FIELDS.map((field) => [field, review[field]])),
+  stage: getStage(review),
+  findings: review.findings,
+  changeLog: review.changeLog ?? [],
+});
+
+/** Whether two copies differ in anything other reviewers would see. */
+export const hasSharedChanges = (from: ReviewRecord, to: ReviewRecord): boolean => !same(sharedPart(from), sharedPart(to));
+
+export interface SyncConflict {
+  stepIndex: number;
+  mine?: FindingData;
+  theirs?: FindingData;
+}
+
+export interface MergeResult {
+  merged: ReviewRecord;
+  conflicts: SyncConflict[]; // steps both sides changed; `merged` holds our side until resolved
+}
+
+/**
+ * Three-way merge against the copy both sides started from. A side that left a step or field alone takes
+ * the other side's version. Without a common base (e.g. after a reload) every step that differs is a conflict.
+ */
+export const mergeReviews = (base: ReviewRecord | undefined, mine: ReviewRecord, theirs: ReviewRecord): MergeResult => {
+  const merged: ReviewRecord = { ...mine };
+  const takeShared = <K extends typeof SHARED_FIELDS[number]>(field: K) => {
+    const untouched = base ? same(mine[field], base[field]) : mine[field] === undefined;
+    if (untouched) merged[field] = theirs[field];
+  };
+  SHARED_FIELDS.forEach(takeShared);
+  // Moving on is never undone by a merge: a sign-off on either side locks the merged review.
+  merged.stage = laterStage(getStage(mine), getStage(theirs));
+  if (merged.stage === 'signed-off') merged.signedOff = mine.signedOff ?? theirs.signedOff;
+
+  const findings: FindingsMap = {};
+  const conflicts: SyncConflict[] = [];
+  const steps = new Set([mine.findings, theirs.findings, base?.findings ?? {}].flatMap((map) => Object.keys(map).map(Number)));
+  steps.forEach((stepIndex) => {
+    const ours = mine.findings[stepIndex];
+    const other = theirs.findings[stepIndex];
+    const original = base?.findings[stepIndex];
+    let chosen: FindingData | undefined;
+    if (same(ours, other) || (base ? same(other, original) : !other)) chosen = ours;
+    else if (base ? same(ours, original) : !ours) chosen = other;
+    else {
+      chosen = ours;
+      conflicts.push({ stepIndex, mine: ours, theirs: other });
+    }
+    if (chosen) findings[stepIndex] = chosen;
+  });
+  merged.findings = findings;
+  // Each side's log records its own edits, so the merged log is simply both.
+  merged.changeLog = mergeChangeLogs(mine.changeLog, theirs.changeLog);
+  return { merged, conflicts };
+};
+
+/** Applies the reviewer's pick for each conflicting step. */
+export const resolveConflicts = (
+  merged: ReviewRecord,
+  conflicts: SyncConflict[],
+  choices: Record<number, 'mine' | 'theirs'>
+): ReviewRecord => {
+  const findings = { ...merged.findings };
+  conflicts.forEach(({ stepIndex, mine, theirs }) => {
+    const chosen = choices[stepIndex] === 'theirs' ? theirs : mine;
+    if (chosen) findings[stepIndex] = chosen;
+    else delete findings[stepIndex];
+  });
+  return { ...merged, findings };
+};
+
+// -- One sync round --
+
+export type SyncOutcome =
+  | { kind: 'up-to-date' | 'pushed'; synced: SyncedReview }
+  | { kind: 'merged'; synced: SyncedReview; merged: ReviewRecord } // someone else's changes came in
+  | { kind: 'conflict'; remote: SyncedReview; merged: ReviewRecord; conflicts: SyncConflict[] };
+
+/**
+ * Brings the server and this copy together. `base` is the server copy this one last synced with,
+ * when known. Pushes local changes, folds in remote ones, and stops at conflicts for the reviewer to settle.
+ */
+export const syncReview = async (settings: SyncSettings, mine: ReviewRecord, base: SyncedReview | null): Promise<SyncOutcome> => {
+  const transport = SYNC_TRANSPORTS[settings.transport];
+  let remote = await transport.pull(settings, mine.id);
+  if (!remote) {
+    const pushed = await transport.push(settings, mine, 0);
+    if (pushed.ok === false) remote = pushed.current;
+    else return { kind: 'pushed', synced: { revision: pushed.revision, review: mine } };
+  }
+  // After a reload only the revision is remembered; if the server is still there, its copy is our base.
+  const known = base?.review.id === mine.id ? base : mine.syncRevision === remote.revision ? remote : null;
+
+  if (known && known.revision === remote.revision) {
+    if (!hasSharedChanges(known.review, mine)) return { kind: 'up-to-date', synced: known };
+    const pushed = await transport.push(settings, mine, remote.revision);
+    if (pushed.ok === false) remote = pushed.current;
+    else return { kind: 'pushed', synced: { revision: pushed.revision, review: mine } };
+  }
+
+  const { merged, conflicts } = mergeReviews(known?.review, mine, remote.review);
+  if (conflicts.length > 0) return { kind: 'conflict', remote, merged, conflicts };
+  if (!hasSharedChanges(remote.review, merged)) return { kind: 'merged', synced: remote, merged };
+  const pushed = await transport.push(settings, merged, remote.revision);
+  // Lost a race with a third writer: keep the merge locally and fold their change in next round.
+  return { kind: 'merged', synced: pushed.ok === false ? remote : { revision: pushed.revision, review: merged }, merged };
+};
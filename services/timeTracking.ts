@@ -0,0 +1,103 @@
+import { ReviewRecord, StepDefinition } from '../types';
+
+// Actual time per step, and the cross-review statistics used to tune playbook durations.
+
+const SUGGESTION_ROUNDING = 15; // seconds; suggested durations are rounded to a quarter minute
+
+/** Adds seconds to one step's recorded time, padding the array so it always lines up with the steps. */
+export const addStepTime = (stepTimes: number[], stepIndex: number, seconds: number, stepCount: number): number[] =>
+  Array.from({ length: stepCount }, (_, i) => (stepTimes[i] || 0) + (i === stepIndex ? seconds : 0));
+
+export const getTotalTime = (stepTimes: number[] = []): number =>
+  stepTimes.reduce((total, seconds) => total + (seconds || 0), 0);
+
+export const getPlannedTotal = (steps: StepDefinition[]): number =>
+  steps.reduce((total, step) => total + step.duration, 0);
+
+/** "2m 05s", for durations in reports and tables. */
+export const formatDuration = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}m ${secs < 10 ? '0' : ''}${secs}s`;
+};
+
+/** "m:ss" countdown text; negative values are overrun and shown as "+m:ss". */
+export const formatClock = (seconds: number): string => {
+  const abs = Math.abs(seconds);
+  const mins = Math.floor(abs / 60);
+  const secs = abs % 60;
+  return `${seconds < 0 ? '+' : ''}${mins}:${secs < 10 ? '0' : ''}${secs}`;
+};
+
+/** Where the step sits in the planned schedule, e.g. "Minute 1" or "Minutes 2-3". */
+export const getStepMinuteLabel = (steps: StepDefinition[], stepIndex: number): string => {
+  const start = getPlannedTotal(steps.slice(0, stepIndex));
+  const end = start + steps[stepIndex].duration;
+  const first = Math.floor(start / 60) + 1;
+  const last = Math.max(first, Math.ceil(end / 60));
+  return first === last ? `Minute ${first}` : `Minutes ${first}-${last}`;
+};
+
+// -- Analytics across saved reviews --
+
+export interface StepTimeStats {
+  stepId: number;
+  title: string;
+  planned: number; // current planned duration in seconds
+  samples: number; // reviews that recorded time on this step
+  average: number;
+  overrunRate: number; // share of samples (0-1) that ran past the planned duration
+  suggested: number; // average rounded to the nearest quarter minute
+}
+
+export interface PlaybookTimeStats {
+  playbookId: string;
+  playbookName: string;
+  reviews: number; // reviews with any recorded time
+  averageTotal: number;
+  plannedTotal: number;
+  steps: StepTimeStats[];
+}
+
+/**
+ * Groups timed reviews by playbook and averages the recorded time per step. Steps are matched by
+ * id, so reordering a playbook does not mix up its history; planned durations and titles come from
+ * the most recent review.
+ */
+export const computeTimeStats = (reviews: ReviewRecord[]): PlaybookTimeStats[] => {
+  const timed = reviews
+    .filter((review) => getTotalTime(review.stepTimes) > 0)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+
+  const byPlaybook = new Map<string, ReviewRecord[]>();
+  timed.forEach((review) => byPlaybook.set(review.playbookId, [...(byPlaybook.get(review.playbookId) ?? []), review]));
+
+  return [...byPlaybook.values()].map((group) => {
+    const latest = group[0];
+    const steps = latest.steps.map((step): StepTimeStats => {
+      const samples = group.flatMap((review) => {
+        const index = review.steps.findIndex((candidate) => candidate.id === step.id);
+        const actual = index === -1 ? 0 : review.stepTimes?.[index] ?? 0;
+        return actual > 0 ? [{ actual, planned: review.steps[index].duration }] : [];
+      });
+      const average = samples.length ? Math.round(samples.reduce((sum, s) => sum + s.actual, 0) / samples.length) : 0;
+      return {
+        stepId: step.id,
+        title: step.title,
+        planned: step.duration,
+        samples: samples.length,
+        average,
+        overrunRate: samples.length ? samples.filter((s) => s.actual > s.planned).length / samples.length : 0,
+        suggested: Math.max(SUGGESTION_ROUNDING, Math.round(average / SUGGESTION_ROUNDING) * SUGGESTION_ROUNDING),
+      };
+    });
+    return {
+      playbookId: latest.playbookId,
+      playbookName: latest.playbookName,
+      reviews: group.length,
+      averageTotal: Math.round(group.reduce((sum, review) => sum + getTotalTime(review.stepTimes), 0) / group.length),
+      plannedTotal: getPlannedTotal(latest.steps),
+      steps,
+    };
+  });
+};
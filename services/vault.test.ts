@@ -0,0 +1,22 @@
+import { describe, expect, it, vi } from 'vitest';
+import { enableVault, isVaultLocked, lockVaultAfter } from './vault';
+
+// No IndexedDB here: an empty database that accepts every write.
+vi.mock('./db', () => ({
+  STORES: { reviews: 'reviews', meta: 'meta' },
+  withStore: async (_store: string, _mode: string, run: (store: unknown) => unknown) =>
+    run({ getAll: () => [], get: () => undefined, put: () => undefined, delete: () => undefined }),
+  withTransaction: async (_stores: string[], run: (tx: unknown) => void) =>
+    run({ objectStore: () => ({ put: () => undefined, delete: () => undefined }) }),
+}));
+
+describe('lockVaultAfter', () => {
+  it('locks the vault even when the last save fails', async () => {
+    await enableVault('correct horse battery');
+    expect(isVaultLocked()).toBe(false);
+
+    const failure = new Error('The quota has been exceeded.');
+    await expect(lockVaultAfter(() => Promise.reject(failure))).rejects.toBe(failure);
+    expect(isVaultLocked()).toBe(true);
+  });
+});
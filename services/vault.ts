@@ -0,0 +1,263 @@
+import { ReviewRecord } from '../types';
+import { STORES, withStore, withTransaction } from './db';
+import { ValidationResult } from './playbookSchema';
+
+// Optional encryption of everything saved about a review: findings, notes and the loaded contract
+// text. The key is derived from the reviewer's passphrase (PBKDF2, SHA-256) and used with AES-GCM.
+// It lives only in memory while the vault is unlocked; the passphrase itself is never stored.
+
+export const VAULT_KDF_ITERATIONS = 600_000;
+export const MIN_PASSPHRASE_LENGTH = 8;
+export const AUTO_LOCK_OPTIONS = [5, 10, 15, 30, 60]; // minutes
+export const DEFAULT_AUTO_LOCK_MINUTES = 10;
+
+export interface EncryptedBlob {
+  iv: string; // base64
+  data: string; // base64 ciphertext, authentication tag included
+}
+
+export interface VaultConfig {
+  id: 'vault';
+  salt: string; // base64
+  iterations: number;
+  check: EncryptedBlob; // a known value; it only decrypts with the right passphrase
+  autoLockMinutes: number;
+}
+
+// How an encrypted review is stored: only the id stays readable, so the record can be replaced and deleted.
+export interface SealedReview {
+  id: string;
+  sealed: EncryptedBlob;
+}
+
+const CONFIG_ID = 'vault';
+const CHECK_VALUE = '7-minute-review-vault';
+
+let config: VaultConfig | null = null;
+let sessionKey: CryptoKey | null = null;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+/** Called whenever the vault is turned on or off, locked or unlocked. */
+export const onVaultChange = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+};
+
+// -- Crypto --
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // In slices: spreading a whole contract's bytes into one call overflows the stack.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array<ArrayBuffer> => Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const encryptJson = async (key: CryptoKey, value: unknown): Promise<EncryptedBlob> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(value)));
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+// Throws when the key is wrong or the data was tampered with.
+const decryptJson = async <T>(key: CryptoKey, blob: EncryptedBlob): Promise<T> => {
+  const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(blob.iv) }, key, fromBase64(blob.data));
+  return JSON.parse(new TextDecoder().decode(data)) as T;
+};
+
+const createConfig = async (passphrase: string, autoLockMinutes: number): Promise<{ config: VaultConfig; key: CryptoKey }> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, VAULT_KDF_ITERATIONS);
+  return {
+    config: { id: CONFIG_ID, salt: toBase64(salt), iterations: VAULT_KDF_ITERATIONS, check: await encryptJson(key, CHECK_VALUE), autoLockMinutes },
+    key,
+  };
+};
+
+// The key for this passphrase, or null when it is the wrong one.
+const keyFor = async (target: VaultConfig, passphrase: string): Promise<CryptoKey | null> => {
+  const key = await deriveKey(passphrase, fromBase64(target.salt), target.iterations);
+  try {
+    return (await decryptJson<string>(key, target.check)) === CHECK_VALUE ? key : null;
+  } catch {
+    return null;
+  }
+};
+
+// -- Session --
+
+/** Reads the vault settings; call once before anything opens a saved review. */
+export const loadVault = async (): Promise<void> => {
+  config = (await withStore<VaultConfig | undefined>(STORES.meta, 'readonly', (store) => store.get(CONFIG_ID))) ?? null;
+};
+
+export const isVaultEnabled = (): boolean => config !== null;
+
+export const isVaultLocked = (): boolean => config !== null && sessionKey === null;
+
+export const getAutoLockMinutes = (): number => config?.autoLockMinutes ?? DEFAULT_AUTO_LOCK_MINUTES;
+
+/** Returns false for a wrong passphrase. */
+export const unlockVault = async (passphrase: string): Promise<boolean> => {
+  if (!config) return true;
+  const key = await keyFor(config, passphrase);
+  if (!key) return false;
+  sessionKey = key;
+  notify();
+  return true;
+};
+
+export const lockVault = () => {
+  if (!sessionKey) return;
+  sessionKey = null;
+  notify();
+};
+
+/** Runs a last save, then locks. The vault locks even when the save fails; the error is passed on. */
+export const lockVaultAfter = async (lastSave: () => Promise<void>): Promise<void> => {
+  try {
+    await lastSave();
+  } finally {
+    lockVault();
+  }
+};
+
+// -- Review records --
+
+const requireKey = (): CryptoKey => {
+  if (!sessionKey) throw new Error('The vault is locked. Unlock it to open or save reviews.');
+  return sessionKey;
+};
+
+export const isSealed = (record: unknown): record is SealedReview =>
+  typeof record === 'object' && record !== null && 'sealed' in record;
+
+/** What goes into the reviews store: the review itself, or an encrypted copy while the vault is on. */
+export const sealReview = async (review: ReviewRecord): Promise<ReviewRecord | SealedReview> => {
+  if (!config) return review;
+  const key = requireKey();
+  return { id: review.id, sealed: await encryptJson(key, review) };
+};
+
+export const openReview = async (record: ReviewRecord | SealedReview): Promise<ReviewRecord> =>
+  isSealed(record) ? decryptJson<ReviewRecord>(requireKey(), record.sealed) : record;
+
+// Rewrites every saved review from one key to another (null meaning plain) and stores the new
+// settings in the same transaction, so a failure part-way leaves the old state readable.
+const rewriteReviews = async (from: CryptoKey | null, to: CryptoKey | null, next: VaultConfig | null) => {
+  const records = await withStore<(ReviewRecord | SealedReview)[]>(STORES.reviews, 'readonly', (store) => store.getAll());
+  const rewritten = await Promise.all(records.map(async (record) => {
+    const review = isSealed(record) ? await decryptJson<ReviewRecord>(from!, record.sealed) : record;
+    return to ? { id: review.id, sealed: await encryptJson(to, review) } : review;
+  }));
+  await withTransaction([STORES.reviews, STORES.meta], (tx) => {
+    const reviews = tx.objectStore(STORES.reviews);
+    rewritten.forEach((record) => reviews.put(record));
+    if (next) tx.objectStore(STORES.meta).put(next);
+    else tx.objectStore(STORES.meta).delete(CONFIG_ID);
+  });
+  config = next;
+  sessionKey = to;
+  notify();
+};
+
+/** Turns the vault on and encrypts the reviews already saved. */
+export const enableVault = async (passphrase: string, autoLockMinutes: number = DEFAULT_AUTO_LOCK_MINUTES): Promise<void> => {
+  if (config) throw new Error('The vault is already on.');
+  const created = await createConfig(passphrase, autoLockMinutes);
+  await rewriteReviews(null, created.key, created.config);
+};
+
+/** Re-encrypts every review under a new passphrase. Returns false when the current one is wrong. */
+export const changeVaultPassphrase = async (current: string, next: string): Promise<boolean> => {
+  if (!config) return false;
+  const key = await keyFor(config, current);
+  if (!key) return false;
+  const created = await createConfig(next, config.autoLockMinutes);
+  await rewriteReviews(key, created.key, created.config);
+  return true;
+};
+
+/** Decrypts every review and turns the vault off. Returns false when the passphrase is wrong. */
+export const disableVault = async (passphrase: string): Promise<boolean> => {
+  if (!config) return true;
+  const key = await keyFor(config, passphrase);
+  if (!key) return false;
+  await rewriteReviews(key, null, null);
+  return true;
+};
+
+export const setAutoLockMinutes = async (minutes: number): Promise<void> => {
+  if (!config) return;
+  const next = { ...config, autoLockMinutes: minutes };
+  await withStore(STORES.meta, 'readwrite', (store) => store.put(next));
+  config = next;
+  notify();
+};
+
+// -- Encrypted bundles --
+
+// A passphrase-protected file for moving data between machines. It has its own salt and passphrase,
+// independent of the vault. See schemas/review-bundle.schema.json.
+export const BUNDLE_FORMAT = '7-minute-review-bundle';
+export const BUNDLE_VERSION = 1;
+
+export interface EncryptedBundle extends EncryptedBlob {
+  format: typeof BUNDLE_FORMAT;
+  schemaVersion: number;
+  kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string };
+  cipher: 'AES-GCM';
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isEncryptedBundle = (data: unknown): boolean => isRecord(data) && data.format === BUNDLE_FORMAT;
+
+export const encryptBundle = async (passphrase: string, payload: unknown): Promise<EncryptedBundle> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, VAULT_KDF_ITERATIONS);
+  return {
+    format: BUNDLE_FORMAT,
+    schemaVersion: BUNDLE_VERSION,
+    kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: VAULT_KDF_ITERATIONS, salt: toBase64(salt) },
+    cipher: 'AES-GCM',
+    ...await encryptJson(key, payload),
+  };
+};
+
+export const decryptBundle = async (data: unknown, passphrase: string): Promise<ValidationResult<unknown>> => {
+  if (!isRecord(data) || data.format !== BUNDLE_FORMAT) {
+    return { ok: false, errors: [`Not an encrypted bundle (expected "format": "${BUNDLE_FORMAT}").`] };
+  }
+  if (data.schemaVersion !== BUNDLE_VERSION) {
+    return { ok: false, errors: [`Unsupported schemaVersion ${String(data.schemaVersion)} (expected ${BUNDLE_VERSION}).`] };
+  }
+  const kdf = data.kdf;
+  if (!isRecord(kdf) || kdf.name !== 'PBKDF2' || kdf.hash !== 'SHA-256' || !Number.isInteger(kdf.iterations) || typeof kdf.salt !== 'string'
+    || data.cipher !== 'AES-GCM' || typeof data.iv !== 'string' || typeof data.data !== 'string') {
+    return { ok: false, errors: ['The bundle uses encryption settings this version does not support.'] };
+  }
+  try {
+    const key = await deriveKey(passphrase, fromBase64(kdf.salt), kdf.iterations as number);
+    return { ok: true, value: await decryptJson<unknown>(key, { iv: data.iv, data: data.data }) };
+  } catch {
+    return { ok: false, errors: ['Wrong passphrase, or the file is damaged.'] };
+  }
+};
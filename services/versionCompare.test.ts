@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { ReviewRecord } from '../types';
+import { DEFAULT_PLAYBOOK } from '../constants';
+import { carryOverFindings } from './versionCompare';
+
+const OLD_TEXT = '1. Term\nThis Agreement runs for two years.\n\n2. Liability\nLiability is unlimited.';
+const NEW_TEXT = '1. Term\nThis Agreement runs for three years.\n\n2. Liability\nLiability is unlimited.';
+
+const previousReview = (findings: ReviewRecord['findings']): ReviewRecord => ({
+  id: 'previous',
+  contractName: 'Supply Agreement',
+  playbookId: DEFAULT_PLAYBOOK.id,
+  playbookName: DEFAULT_PLAYBOOK.name,
+  steps: DEFAULT_PLAYBOOK.steps,
+  activeStep: 0,
+  findings,
+  document: { fileName: 'supply-v1.txt', text: OLD_TEXT, loadedAt: '2026-01-01T00:00:00.000Z' },
+  reviewComplete: true,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-02T00:00:00.000Z',
+});
+
+describe('carryOverFindings', () => {
+  it('keeps confidential notes confidential and who last edited them', () => {
+    const notesEditedBy = { by: 'Dana', at: '2026-01-02T00:00:00.000Z' };
+    const carried = carryOverFindings(
+      previousReview({ 0: { checked: [], notes: 'Client will accept a two-year term.', notesConfidential: true, notesEditedBy } }),
+      NEW_TEXT
+    );
+    expect(carried[0].notes).toBe('Client will accept a two-year term.');
+    expect(carried[0].notesConfidential).toBe(true);
+    expect(carried[0].notesEditedBy).toEqual(notesEditedBy);
+  });
+
+  it('leaves ordinary notes without those fields', () => {
+    const carried = carryOverFindings(previousReview({ 0: { checked: [], notes: 'Fine.' } }), NEW_TEXT);
+    expect(carried[0]).not.toHaveProperty('notesConfidential');
+    expect(carried[0]).not.toHaveProperty('notesEditedBy');
+  });
+});
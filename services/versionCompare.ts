@@ -0,0 +1,312 @@
+import {
+  CarryOverStatus,
+  ClauseChange,
+  ClauseSection,
+  ContractDocument,
+  ContractExcerpt,
+  FindingsMap,
+  FlagDetail,
+  ReviewRecord,
+  StepDefinition
+} from '../types';
+import { classifyClauses } from './clauseClassifier';
+import { tailorSteps } from './dealContext';
+import { locateQuote } from './assist';
+import { getFlagDetail } from './risk';
+import { getLastReviewer } from './reviewStorage';
+import { createId } from '../utils/id';
+
+// Compares two versions of a contract clause by clause, and carries the findings of the earlier
+// review over to the new version so a second round only has to look at what moved.
+
+// -- Clause matching --
+
+// A clause edited in place keeps most of its words; below this it counts as removed plus added.
+const SAME_CLAUSE_SCORE = 0.5;
+// Keeping the heading is good evidence that a heavily rewritten clause is still the same clause.
+const SAME_HEADING_BONUS = 0.3;
+
+// "12.3", "Section 4:" or "Article IV." at the start of a clause; renumbering alone is not a change.
+const LEADING_NUMBER = /^(?:(?:article|section|clause)\s+[\divxlc]+(?:\.\d+)*|\d{1,3}(?:\.\d{1,3})*)[.:)]?\s+/i;
+
+const normalize = (text: string) => text.replace(/\s+/g, ' ').trim().toLowerCase();
+
+const comparable = (text: string) => normalize(text).replace(LEADING_NUMBER, '');
+
+const wordSet = (text: string) => new Set(text.match(/[a-z0-9]+/g) ?? []);
+
+// Dice coefficient over distinct words.
+const similarity = (a: Set<string>, b: Set<string>) => {
+  if (a.size + b.size === 0) return 1;
+  let shared = 0;
+  a.forEach((word) => b.has(word) && shared++);
+  return (2 * shared) / (a.size + b.size);
+};
+
+interface SideSection {
+  section: ClauseSection;
+  body: string;
+  words: Set<string>;
+  headingKey: string;
+}
+
+const toSide = (text: string) => (section: ClauseSection): SideSection => {
+  const body = comparable(text.slice(section.start, section.end));
+  return { section, body, words: wordSet(body), headingKey: normalize(section.heading) };
+};
+
+/**
+ * Clause-level diff of two contract texts. Clauses are paired first by identical wording (so moved
+ * or renumbered clauses stay unchanged), then by shared words and heading. Results follow the new
+ * document's order, with removed clauses placed after the clause that preceded them.
+ */
+export const compareVersions = (oldText: string, newText: string, steps: StepDefinition[]): ClauseChange[] => {
+  const oldSides = classifyClauses(oldText, steps).map(toSide(oldText));
+  const newSides = classifyClauses(newText, steps).map(toSide(newText));
+  const oldFor = new Map<number, number>(); // new index -> old index
+  const usedOld = new Set<number>();
+
+  newSides.forEach((side, n) => {
+    const o = oldSides.findIndex((candidate, i) => !usedOld.has(i) && candidate.body === side.body);
+    if (o !== -1) {
+      oldFor.set(n, o);
+      usedOld.add(o);
+    }
+  });
+  newSides.forEach((side, n) => {
+    if (oldFor.has(n)) return;
+    let best = -1;
+    let bestScore = SAME_CLAUSE_SCORE;
+    oldSides.forEach((candidate, o) => {
+      if (usedOld.has(o)) return;
+      const score = similarity(side.words, candidate.words) + (side.headingKey && side.headingKey === candidate.headingKey ? SAME_HEADING_BONUS : 0);
+      if (score >= bestScore) {
+        best = o;
+        bestScore = score;
+      }
+    });
+    if (best !== -1) {
+      oldFor.set(n, best);
+      usedOld.add(best);
+    }
+  });
+
+  const removedAfter = new Map<number, number[]>(); // new index (-1 for the top) -> removed old indexes
+  const newOf = new Map([...oldFor].map(([n, o]) => [o, n]));
+  oldSides.forEach((_, o) => {
+    if (usedOld.has(o)) return;
+    let anchor = -1;
+    for (let prev = o - 1; prev >= 0; prev--) {
+      if (newOf.has(prev)) {
+        anchor = newOf.get(prev)!;
+        break;
+      }
+    }
+    removedAfter.set(anchor, [...(removedAfter.get(anchor) ?? []), o]);
+  });
+
+  const removed = (o: number): ClauseChange => {
+    const { section } = oldSides[o];
+    return {
+      id: `old-${section.id}`,
+      status: 'removed',
+      number: section.number,
+      heading: section.heading,
+      oldText: oldText.slice(section.start, section.end).trim(),
+      oldRange: { start: section.start, end: section.end },
+      clauseTypes: section.clauseTypes,
+      stepIndexes: section.stepIndexes,
+    };
+  };
+
+  const changes: ClauseChange[] = (removedAfter.get(-1) ?? []).map(removed);
+  newSides.forEach(({ section, body }, n) => {
+    const o = oldFor.get(n);
+    const old = o === undefined ? undefined : oldSides[o];
+    changes.push({
+      id: section.id,
+      status: !old ? 'added' : old.body === body ? 'unchanged' : 'modified',
+      number: section.number,
+      heading: section.heading,
+      ...(old ? { oldText: oldText.slice(old.section.start, old.section.end).trim(), oldRange: { start: old.section.start, end: old.section.end } } : {}),
+      newText: newText.slice(section.start, section.end).trim(),
+      newRange: { start: section.start, end: section.end },
+      clauseTypes: [...new Set([...section.clauseTypes, ...(old?.section.clauseTypes ?? [])])],
+      stepIndexes: [...new Set([...section.stepIndexes, ...(old?.section.stepIndexes ?? [])])].sort((a, b) => a - b),
+    });
+    (removedAfter.get(n) ?? []).forEach((removedIndex) => changes.push(removed(removedIndex)));
+  });
+  return changes;
+};
+
+// -- Word diff --
+
+export interface DiffPart {
+  text: string;
+  kind: 'same' | 'added' | 'removed';
+}
+
+// Longest-common-subsequence table size limit; beyond it the clause is shown as replaced outright.
+const MAX_DIFF_CELLS = 4_000_000;
+
+/** Word-level diff of two clause texts, for showing what changed inside a modified clause. */
+export const diffWords = (oldText: string, newText: string): DiffPart[] => {
+  const a = oldText.match(/\s+|[^\s]+/g) ?? [];
+  const b = newText.match(/\s+|[^\s]+/g) ?? [];
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...(oldText ? [{ text: oldText, kind: 'removed' as const }] : []),
+      ...(newText ? [{ text: newText, kind: 'added' as const }] : []),
+    ];
+  }
+
+  // lcs[i * width + j] = length of the longest common subsequence of a[i..] and b[j..]
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] = a[i] === b[j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (text: string, kind: DiffPart['kind']) => {
+    const last = parts[parts.length - 1];
+    if (last?.kind === kind) last.text += text;
+    else parts.push({ text, kind });
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push(a[i], 'same');
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      push(a[i++], 'removed');
+    } else {
+      push(b[j++], 'added');
+    }
+  }
+  while (i < a.length) push(a[i++], 'removed');
+  while (j < b.length) push(b[j++], 'added');
+  return parts;
+};
+
+// -- Carrying findings over --
+
+const clauseNumber = (clauseRef: string) => /\d+(?:\.\d+)*/.exec(clauseRef)?.[0] ?? '';
+
+const overlaps = (range: { start: number; end: number } | undefined, start: number, end: number) =>
+  !!range && range.start < end && range.end > start;
+
+/**
+ * The clauses a flag was about, best evidence first: the clause it cites, the clauses its step's
+ * excerpts were quoted from, or failing both every clause relevant to the step.
+ */
+const relatedChanges = (
+  changes: ClauseChange[],
+  oldSections: ClauseSection[],
+  stepIndex: number,
+  detail: FlagDetail,
+  excerpts: ContractExcerpt[]
+): ClauseChange[] => {
+  const number = clauseNumber(detail.clauseRef);
+  if (number) {
+    const cited = oldSections.filter((section) => section.number === number || section.number.startsWith(`${number}.`));
+    const byNumber = changes.filter((change) => cited.some((section) => change.oldRange?.start === section.start));
+    if (byNumber.length > 0) return byNumber;
+  }
+  const quoted = changes.filter((change) => excerpts.some((excerpt) => overlaps(change.oldRange, excerpt.start, excerpt.end)));
+  if (quoted.length > 0) return quoted;
+  return changes.filter((change) => change.stepIndexes.includes(stepIndex));
+};
+
+// Clause references follow renumbering, so "§3" becomes "§2" when clause 3 moved up.
+const renumber = (clauseRef: string, changes: ClauseChange[], oldSections: ClauseSection[]): string => {
+  const number = clauseNumber(clauseRef);
+  const cited = number ? oldSections.find((section) => section.number === number) : undefined;
+  const change = cited && changes.find((candidate) => candidate.oldRange?.start === cited.start && candidate.status !== 'removed');
+  return change?.number && change.number !== number ? clauseRef.replace(number, change.number) : clauseRef;
+};
+
+const carryOverStatus = (related: ClauseChange[]): CarryOverStatus => {
+  const previous = related.filter((change) => change.status !== 'added');
+  if (previous.length > 0 && previous.every((change) => change.status === 'removed')) return 'clause-removed';
+  return related.some((change) => change.status !== 'unchanged') ? 'clause-changed' : 'still-applies';
+};
+
+/**
+ * The earlier review's findings, re-based onto the new text. Each flag is marked with whether
+ * its clause still reads the same; excerpts are re-located in the new text, and any whose wording
+ * is gone are kept as a line in the notes. Obligations keep their rows with renumbered clauses.
+ * Skip reasons are not carried over; the new version is finished on its own.
+ */
+export const carryOverFindings = (previous: ReviewRecord, newText: string): FindingsMap => {
+  if (!previous.document) return structuredClone(previous.findings);
+  const oldText = previous.document.text;
+  const steps = tailorSteps(previous.steps, previous.dealContext);
+  const changes = compareVersions(oldText, newText, steps);
+  const oldSections = classifyClauses(oldText, steps);
+
+  const carried: FindingsMap = {};
+  Object.entries(previous.findings).forEach(([key, finding]) => {
+    if (!finding) return;
+    const stepIndex = Number(key);
+    const excerpts = finding.excerpts ?? [];
+    const relocated = excerpts.map((excerpt) => ({ excerpt, location: locateQuote(newText, excerpt.text) }));
+    const lost = relocated
+      .filter(({ location }) => !location)
+      .map(({ excerpt }) => `No longer in the new version: "${excerpt.text}"`);
+
+    // Items found OK stay OK only if none of the step's clauses changed; otherwise they need another look.
+    const stepChanged = changes.some((change) => change.status !== 'unchanged' && change.stepIndexes.includes(stepIndex));
+
+    carried[stepIndex] = {
+      checked: [...finding.checked],
+      ...(finding.cleared && !stepChanged && { cleared: [...finding.cleared] }),
+      notes: [finding.notes, ...lost].filter(Boolean).join('\n'),
+      ...(finding.notesConfidential && { notesConfidential: true }),
+      ...(finding.notesEditedBy && { notesEditedBy: { ...finding.notesEditedBy } }),
+      flags: Object.fromEntries(finding.checked.map((item) => {
+        // The second reviewer's verdict was on the old wording; the new version gets its own.
+        const { secondOpinion: _secondOpinion, ...detail } = getFlagDetail(finding, item);
+        const related = relatedChanges(changes, oldSections, stepIndex, detail, excerpts);
+        return [item, { ...detail, clauseRef: renumber(detail.clauseRef, changes, oldSections), carryOver: carryOverStatus(related) }];
+      })),
+      excerpts: relocated.flatMap(({ excerpt, location }) => (location ? [{ ...excerpt, id: createId(), ...location }] : [])),
+      ...(finding.obligations && {
+        obligations: finding.obligations.map((obligation) => ({ ...obligation, clauseRef: renumber(obligation.clauseRef, changes, oldSections) })),
+      }),
+    };
+  });
+  return carried;
+};
+
+/** Starts the review of a new version of an earlier review's contract, with its findings carried over. */
+export const createRevisionReview = (previous: ReviewRecord, document: ContractDocument): ReviewRecord => {
+  if (!previous.document) throw new Error('The earlier review has no contract loaded to compare against.');
+  const now = new Date().toISOString();
+  return {
+    id: createId(),
+    contractName: previous.contractName,
+    playbookId: previous.playbookId,
+    playbookName: previous.playbookName,
+    steps: structuredClone(previous.steps),
+    activeStep: 0,
+    findings: carryOverFindings(previous, document.text),
+    document,
+    reviewer: getLastReviewer() || previous.reviewer,
+    ...(previous.dealContext ? { dealContext: structuredClone(previous.dealContext) } : {}),
+    previousVersion: { reviewId: previous.id, fileName: previous.document.fileName, text: previous.document.text },
+    reviewComplete: false,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+/** Changed, added and removed clauses relevant to a step. */
+export const getStepChanges = (changes: ClauseChange[], stepIndex: number): ClauseChange[] =>
+  changes.filter((change) => change.status !== 'unchanged' && change.stepIndexes.includes(stepIndex));
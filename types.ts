@@ -1,19 +1,343 @@
-import { ReactNode } from 'react';
+// Icons a playbook step may use, by name; <StepIcon /> maps each to its glyph.
+export const STEP_ICON_NAMES = [
+  'shield',
+  'dollar-sign',
+  'book-open',
+  'alert-triangle',
+  'gavel',
+  'check-circle',
+  'file-text',
+  'clock',
+  'lock',
+  'users',
+  'scale',
+  'briefcase',
+  'building',
+  'handshake',
+  'globe',
+  'receipt',
+  'calendar-clock',
+  'clipboard-list',
+] as const;
+
+export type StepIconName = typeof STEP_ICON_NAMES[number];
+
+export type ClauseType =
+  | 'term'
+  | 'termination'
+  | 'liability'
+  | 'payment'
+  | 'obligations'
+  | 'timelines'
+  | 'definitions'
+  | 'indemnity'
+  | 'confidentiality'
+  | 'dispute-resolution'
+  | 'governing-law'
+  | 'signatures'
+  | 'annexures';
+
+export type PartyRole = 'customer' | 'supplier';
+
+// Every field that is set must match. Text fields match case-insensitively on any listed value.
+export interface ChecklistCondition {
+  partyRole?: PartyRole;
+  contractTypes?: string[];
+  governingLaws?: string[];
+  minValue?: number; // contract value at or above this amount, in any currency
+}
+
+export interface ConditionalChecklistItem {
+  text: string;
+  when: ChecklistCondition;
+}
 
 export interface StepDefinition {
   id: number;
   title: string;
   duration: number; // in seconds
-  icon: ReactNode;
-  description: string;
+  icon: StepIconName; // rendered by <StepIcon />, stored by name so playbooks serialize to JSON
+  description: string; // may use {counterparty}, {ourRole}, {governingLaw} and {contractType}
   checklist: string[];
+  conditionalChecklist?: ConditionalChecklistItem[]; // appended to the checklist when the deal context matches
+  clauseTypes?: ClauseType[]; // clauses this step expects to find; inferred from the checklist when omitted
+}
+
+export interface Playbook {
+  id: string;
+  name: string;
+  description: string;
+  steps: StepDefinition[];
+  builtIn?: boolean; // shipped with the app, read-only in the editor
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+}
+
+// Our standard language on one topic, linked to the checklist items it helps answer.
+export interface ClauseLibraryEntry {
+  id: string;
+  topic: string; // e.g. "Limitation of liability"
+  checklistItems: string[]; // StepDefinition.checklist entries, matched ignoring case and surrounding spaces
+  preferred: string; // what we ask for
+  acceptable: string; // what we can live with
+  unacceptable: string; // what we push back on
+  guidance: string; // when to use which
+  builtIn?: boolean; // shipped with the app, read-only in the library
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+}
+
+export type FlagSeverity = 'low' | 'medium' | 'high' | 'deal-breaker';
+
+export type FlagStatus = 'open' | 'negotiate' | 'accepted-risk' | 'resolved';
+
+export type RiskRating = 'none' | 'low' | 'medium' | 'high' | 'critical';
+
+// How a flag carried over from the review of the previous version relates to the new text.
+export type CarryOverStatus = 'still-applies' | 'clause-changed' | 'clause-removed';
+
+// Who made a change and when.
+export interface Attribution {
+  by: string; // reviewer name
+  at: string; // ISO timestamp
+}
+
+export type SecondOpinionVerdict = 'agree' | 'disagree';
+
+// The second reviewer's response to a flag raised in the first pass.
+export interface SecondOpinion extends Attribution {
+  verdict?: SecondOpinionVerdict; // unset while only a comment has been left
+  comment: string;
+}
+
+// How the counterparty answered our position in one round of negotiation.
+export type CounterpartyResponse = 'awaiting' | 'accepted' | 'rejected' | 'countered';
+
+export interface NegotiationRound {
+  sentAt: string; // ISO timestamp our position went out
+  response: CounterpartyResponse;
+  reply: string; // their comment or counter-proposal
+}
+
+export type NegotiationStatus = 'open' | 'agreed' | 'agreed-fallback' | 'conceded' | 'escalated';
+
+// A flag we are taking back to the counterparty.
+export interface NegotiationItem {
+  issue: string; // the problem as it is put to the counterparty
+  position: string; // what we ask for
+  fallback: string; // what we would settle for; internal, never sent
+  wording: string; // proposed replacement clause text
+  status: NegotiationStatus;
+  rounds: NegotiationRound[]; // oldest first
+}
+
+export interface FlagDetail {
+  severity: FlagSeverity;
+  status: FlagStatus;
+  clauseRef: string; // e.g. "§12.3"
+  comment: string;
+  carryOver?: CarryOverStatus; // cleared once the reviewer has re-checked the flag
+  raisedBy?: Attribution;
+  editedBy?: Attribution; // last change to severity, status, clause or comment
+  secondOpinion?: SecondOpinion;
+  negotiation?: NegotiationItem;
+}
+
+export interface ContractExcerpt {
+  id: string;
+  text: string; // exact wording quoted from the loaded contract
+  start: number; // character offsets into ContractDocument.text
+  end: number;
+}
+
+// Where a checklist item stands: not looked at yet, looked at and fine, or flagged.
+export type ItemReviewState = 'not-reviewed' | 'ok' | 'flagged';
+
+export type ObligationParty = 'us' | 'counterparty' | 'both';
+
+export type ObligationKind = 'payment' | 'deadline' | 'renewal' | 'termination-notice' | 'performance' | 'other';
+
+export type ObligationRecurrence = 'none' | 'monthly' | 'quarterly' | 'annually';
+
+// One row of the obligations table: who owes what, and by when.
+export interface Obligation {
+  id: string;
+  party?: ObligationParty; // unset until the reviewer has assigned it
+  description: string;
+  kind: ObligationKind;
+  dueDate?: string; // YYYY-MM-DD; the first occurrence when recurring
+  recurrence: ObligationRecurrence;
+  noticeDays?: number; // notice to be given this many days before the due date
+  clauseRef: string; // e.g. "§4.2"
+  amount?: string; // as written in the contract, e.g. "EUR 12,500"
 }
 
 export interface FindingData {
-  checked: string[];
+  checked: string[]; // flagged checklist items
+  cleared?: string[]; // checklist items reviewed and found OK
+  skipped?: { [checklistItem: string]: string }; // why an item was left unreviewed at finish
   notes: string;
+  notesConfidential?: boolean; // reports can redact these notes
+  flags?: { [checklistItem: string]: FlagDetail }; // detail for each entry in `checked`
+  excerpts?: ContractExcerpt[];
+  obligations?: Obligation[]; // only on the step that covers obligations
+  notesEditedBy?: Attribution;
 }
 
 export interface FindingsMap {
   [stepIndex: number]: FindingData;
 }
+
+export type ClauseChangeStatus = 'unchanged' | 'modified' | 'added' | 'removed';
+
+// One clause of a version comparison. Removed clauses only have the old side, added ones only the new side.
+export interface ClauseChange {
+  id: string;
+  status: ClauseChangeStatus;
+  number: string;
+  heading: string;
+  oldText?: string;
+  newText?: string;
+  oldRange?: { start: number; end: number }; // offsets into the previous and the current contract text
+  newRange?: { start: number; end: number };
+  clauseTypes: ClauseType[];
+  stepIndexes: number[];
+}
+
+export interface ClauseSection {
+  id: string;
+  number: string; // e.g. "12.3"; empty for unnumbered headings and paragraphs
+  heading: string;
+  start: number; // character offsets into ContractDocument.text
+  end: number;
+  clauseTypes: ClauseType[];
+  stepIndexes: number[]; // steps of the active playbook this section is relevant to
+}
+
+export type ScanRuleId =
+  | 'vague-qualifier'
+  | 'undefined-term'
+  | 'unused-definition'
+  | 'uncapped-liability'
+  | 'uncapped-indemnity'
+  | 'auto-renewal'
+  | 'unilateral-termination';
+
+export interface ScannerConfig {
+  enabledRules: Record<ScanRuleId, boolean>;
+  vagueTerms: string[];
+  ignoredTerms: string[]; // capitalised words that never need a definition (e.g. party names)
+}
+
+export interface ScanSuggestion {
+  id: string; // stable across scans of the same text, so dismissals stick
+  ruleId: ScanRuleId;
+  stepIndex: number;
+  checklistItem?: string; // item to flag on accept; falls back to the step notes
+  title: string;
+  detail: string;
+  severity: FlagSeverity;
+  clauseRef: string;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export type SessionAlertKind = 'half' | 'ten-seconds' | 'time-up';
+
+export interface SessionSettings {
+  enabled: boolean; // one running clock for the whole review instead of per-step start/stop
+  autoAdvance: boolean;
+  graceSeconds: number; // extra time after a step runs out before moving on
+  alerts: Record<SessionAlertKind, boolean>;
+  sound: boolean;
+  desktopNotifications: boolean;
+}
+
+export type AssistProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+export interface AssistSettings {
+  provider: AssistProviderId;
+  model: string;
+  endpoint: string; // base URL, only used by OpenAI-compatible servers
+  apiKey: string; // kept in this browser only; never stored on a review or exported
+}
+
+export type SyncTransportId = 'http' | 'mock';
+
+export interface SyncSettings {
+  enabled: boolean;
+  transport: SyncTransportId;
+  serverUrl: string; // base URL of the sync server, only used over HTTP
+}
+
+export interface AssistFlag {
+  id: string;
+  checklistItem?: string; // must match the step's checklist; otherwise accepted into the notes
+  severity: FlagSeverity;
+  clauseRef: string;
+  quote: string; // contract text the flag is based on, as quoted by the model
+  rationale: string;
+  start?: number; // where the quote was found in the contract; unset when the model misquoted
+  end?: number;
+}
+
+export interface ContractDocument {
+  fileName: string;
+  text: string; // plain text extracted in the browser
+  loadedAt: string; // ISO timestamp
+}
+
+// Who we act for and what the deal is, captured before step 1.
+export interface DealContext {
+  partyRole?: PartyRole;
+  counterparty: string;
+  contractType: string;
+  governingLaw: string;
+  contractValue?: number;
+  currency: string; // ISO 4217 code
+}
+
+// A review starts as one reviewer's first pass. A second reviewer then responds to each flag with the
+// first pass read-only, and signing off locks the review for everyone.
+export type ReviewStage = 'first-pass' | 'second-review' | 'signed-off';
+
+export interface PreviousVersion {
+  reviewId: string;
+  fileName: string;
+  text: string; // the earlier contract text, kept so the comparison survives the earlier review being deleted
+}
+
+// One line of a review's audit trail of edits to its findings.
+export interface ChangeLogEntry {
+  at: string; // ISO timestamp
+  by: string; // reviewer name; '' when nobody had set one
+  stepIndex?: number;
+  description: string; // never quotes notes or comments, so confidential text stays out of the log
+}
+
+export interface ReviewRecord {
+  id: string;
+  schemaVersion?: number; // shape the record was saved in; see services/reviewMigrations.ts
+  contractName: string;
+  playbookId: string;
+  playbookName: string;
+  steps: StepDefinition[]; // snapshot of the playbook when the review started
+  activeStep: number;
+  findings: FindingsMap;
+  document?: ContractDocument;
+  handledSuggestions?: string[]; // scanner suggestion ids already accepted or dismissed
+  reviewer?: string; // name shown on exported reports; the first-pass reviewer
+  stage?: ReviewStage; // unset means 'first-pass'
+  secondReviewer?: string;
+  signedOff?: Attribution;
+  syncRevision?: number; // server revision this copy was last synced at
+  dealContext?: DealContext; // unset until the setup screen is completed or skipped
+  previousVersion?: PreviousVersion; // set when this review covers a new version of an earlier review's contract
+  stepTimes?: number[]; // seconds actually spent per step, overrun included; indexed like steps
+  timeSpent?: number; // total of stepTimes, kept for exports
+  changeLog?: ChangeLogEntry[]; // oldest first
+  reviewComplete: boolean;
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+}
@@ -0,0 +1,10 @@
+// Comma-separated values as spreadsheets expect them: quoted where needed, CRLF line endings.
+// Cells that start like a formula are prefixed with an apostrophe so a spreadsheet shows them as text.
+const escapeCell = (value: string | number | undefined): string => {
+  let text = value === undefined ? '' : String(value);
+  if (/^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (header: string[], rows: (string | number | undefined)[][]): string =>
+  [header, ...rows].map((row) => row.map(escapeCell).join(',')).join('\r\n');
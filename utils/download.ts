@@ -0,0 +1,16 @@
+// Triggers a browser download for generated content (exports, reports, playbooks).
+export const downloadFile = (filename: string, content: BlobPart, mimeType: string) => {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+// Lowercase, dash-separated file name stem, e.g. "Acme MSA v2" -> "acme-msa-v2".
+export const toFileSlug = (value: string, fallback = 'untitled') =>
+  value.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || fallback;
@@ -0,0 +1,63 @@
+// iCalendar (RFC 5545) output for all-day events, for export into Outlook, Google or Apple calendars.
+
+export interface CalendarEvent {
+  uid: string; // stable, so importing the file again updates events instead of duplicating them
+  date: string; // YYYY-MM-DD
+  summary: string;
+  description: string;
+  rrule?: string; // e.g. "FREQ=MONTHLY;INTERVAL=3"
+}
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Content lines are limited to 75 octets; longer ones continue on lines starting with a space.
+// Folding counts UTF-8 bytes and never splits a character.
+const foldLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let size = 0;
+  for (const char of line) {
+    const bytes = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74; // the leading space counts on continuation lines
+    if (size + bytes > limit) {
+      parts.push(current);
+      current = '';
+      size = 0;
+    }
+    current += char;
+    size += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const toDateValue = (date: string) => date.replace(/-/g, '');
+
+const toTimestamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+export const toIcs = (events: CalendarEvent[], calendarName: string, now: Date = new Date()): string => {
+  const stamp = toTimestamp(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//7-Minute Legal Review//Key Dates//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    ...events.flatMap((event) => [
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${toDateValue(event.date)}`,
+      ...(event.rrule ? [`RRULE:${event.rrule}`] : []),
+      `SUMMARY:${escapeText(event.summary)}`,
+      ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+    ]),
+    'END:VCALENDAR',
+  ];
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+};
@@ -0,0 +1,52 @@
+export interface TextHighlight {
+  start: number;
+  end: number;
+  className: string;
+  key?: string; // rendered as data-highlight so the reader can scroll to it
+}
+
+export interface TextSegment {
+  text: string;
+  start: number;
+  highlights: TextHighlight[];
+}
+
+/**
+ * Splits text at every highlight boundary so overlapping highlights (search hits,
+ * excerpts, detected clauses) can each style the same characters.
+ */
+export const segmentText = (text: string, highlights: TextHighlight[]): TextSegment[] => {
+  const valid = highlights.filter((h) => h.end > h.start && h.start < text.length);
+  const boundaries = new Set<number>([0, text.length]);
+  valid.forEach((h) => {
+    boundaries.add(Math.max(0, h.start));
+    boundaries.add(Math.min(text.length, h.end));
+  });
+  const points = [...boundaries].sort((a, b) => a - b);
+
+  const segments: TextSegment[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const start = points[i];
+    const end = points[i + 1];
+    segments.push({
+      text: text.slice(start, end),
+      start,
+      highlights: valid.filter((h) => h.start <= start && h.end >= end),
+    });
+  }
+  return segments;
+};
+
+/** Case-insensitive positions of every occurrence of `query` in `text`. */
+export const findAllMatches = (text: string, query: string): { start: number; end: number }[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+  const haystack = text.toLowerCase();
+  const matches: { start: number; end: number }[] = [];
+  let index = haystack.indexOf(needle);
+  while (index !== -1) {
+    matches.push({ start: index, end: index + needle.length });
+    index = haystack.indexOf(needle, index + needle.length);
+  }
+  return matches;
+};
@@ -1,7 +1,30 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import crypto from 'crypto';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Emits service-worker.js as sw.js with the list of built files to cache for offline use.
+// The version changes with the file list, so browsers pick up a new worker after each release.
+const offlinePlugin = (): Plugin => ({
+  name: 'offline-service-worker',
+  apply: 'build',
+  enforce: 'post',
+  generateBundle(_options, bundle) {
+    const publicDir = path.resolve(__dirname, 'public');
+    const publicFiles = fs.existsSync(publicDir) ? fs.readdirSync(publicDir) : [];
+    const files = [...new Set(['index.html', ...Object.keys(bundle), ...publicFiles])]
+      .filter((file) => !file.endsWith('.map'))
+      .sort();
+    const hash = crypto.createHash('sha256').update(files.join('\n'));
+    publicFiles.forEach((file) => hash.update(fs.readFileSync(path.join(publicDir, file))));
+    const source = fs.readFileSync(path.resolve(__dirname, 'service-worker.js'), 'utf8')
+      .replace('__VERSION__', hash.digest('hex').slice(0, 12))
+      .replace('__PRECACHE_FILES__', JSON.stringify(files, null, 2));
+    this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,10 +32,10 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), offlinePlugin()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY || ''),
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY || '')
       },
       resolve: {
         alias: {